@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+/* =======================
+   Mock live-order stream
+   =======================
+   Development server for the dashboard's live updates. It runs a simulated
+   clock (by default one store day per real minute, starting the day after
+   the bundled mock history ends) and pushes order and session events as
+   Server-Sent Events on /events. Events come from the same US, Canadian,
+   German and Japanese storefronts as the mock history, with order amounts
+   in each storefront's currency.
+
+     npm run mock:stream -- --port 4001 --start 2026-01-01 --speed 1440
+     REACT_APP_STREAM_URL=http://localhost:4001/events npm start
+
+   Clients reconnecting with ?since=<id> get every buffered event after that
+   id; new clients get the whole buffer as a backfill. The buffer keeps only
+   the latest MAX_BUFFER events, so at high speeds a backfill can start part
+   way through the month. Event ids start from the server's start time, so
+   they keep rising across restarts and clients never skip new events as
+   already seen.
+*/
+const http = require("http");
+
+const args = process.argv.slice(2).reduce((acc, arg, i, all) => {
+  if (arg.startsWith("--")) acc[arg.slice(2)] = all[i + 1];
+  return acc;
+}, {});
+
+const PORT = Number(args.port ?? 4001);
+const START = Date.parse(args.start ?? "2026-01-01T00:00:00Z");
+const SPEED = Number(args.speed ?? 1440); // simulated seconds per real second
+const TICK_MS = 500;
+const MAX_BUFFER = 50_000;
+const HOUR_MS = 3_600_000;
+
+// Same storefront shape as the mock provider (src/data/providers.ts); keep these tables in step with it.
+const MONTHLY_SESSIONS = { organic: 30_000, paid: 16_000, social: 10_000, email: 8_000, direct: 24_000 };
+const COUNTRIES = [
+  { region: "North America", country: "United States", currency: "USD", share: 0.6 },
+  { region: "North America", country: "Canada", currency: "CAD", share: 0.1 },
+  { region: "EMEA", country: "Germany", currency: "EUR", share: 0.18 },
+  { region: "APAC", country: "Japan", currency: "JPY", share: 0.12 },
+];
+const BASE_CURRENCY = "USD";
+const FX = {
+  CAD: { rate: 1.34, drift: 0.02 },
+  EUR: { rate: 0.9, drift: -0.03 },
+  JPY: { rate: 135, drift: 0.07 },
+};
+const HISTORY_YEARS = 3; // the provider's default history, ending the year before the stream starts
+const CHANNELS = [
+  { channel: "Desktop", sessionShare: 0.48, conversion: 0.038 },
+  { channel: "Mobile", sessionShare: 0.48, conversion: 0.028 },
+  { channel: "Tablet", sessionShare: 0.04, conversion: 0.042 },
+];
+const CATEGORIES = [
+  { category: "Handbags", share: 0.52, aov: 420, margin: 0.72 },
+  { category: "Accessories", share: 0.22, aov: 210, margin: 0.68 },
+  { category: "Footwear", share: 0.15, aov: 310, margin: 0.65 },
+  { category: "Apparel", share: 0.11, aov: 260, margin: 0.58 },
+];
+
+/**
+ * Units of `currency` per dollar. The dashboard holds the last actual rate of
+ * the history (December of its final year) for live periods, so amounts are
+ * restated at that rate, worked out as the provider's mockFx does.
+ */
+const localRate = (currency) => {
+  if (currency === BASE_CURRENCY) return 1;
+  const { rate, drift } = FX[currency];
+  const t = HISTORY_YEARS - 1 + 11 / 12;
+  return Math.round(rate * Math.pow(1 + drift, t) * (1 + 0.02 * Math.sin(t * 5)) * 10_000) / 10_000;
+};
+
+const poisson = (mean) => {
+  let k = 0;
+  for (let p = Math.random(), limit = Math.exp(-mean); p > limit; p *= Math.random()) k++;
+  return k;
+};
+
+/** Demand multiplier for one simulated hour, mirroring the mock provider's seasonality. */
+const hourlyDemand = (time) => {
+  const d = new Date(time);
+  const index = d.getUTCMonth();
+  const seasonality = index < 6 ? 0.8 + index * 0.05 : 1.2 - (index - 6) * 0.03;
+  const holidayBoost = [10, 11].includes(index) ? 1.4 : 1.0;
+  const yearScale = Math.pow(1.08, d.getUTCFullYear() - 2025);
+  const weekdayFactor = [0, 6].includes(d.getUTCDay()) ? 1.15 : 0.94;
+  return (seasonality * holidayBoost * yearScale * weekdayFactor) / 30.4 / 24;
+};
+
+/** Emits one simulated hour of sessions and orders for every dimension combination. */
+const simulateHour = (hourStart, publish) => {
+  const demand = hourlyDemand(hourStart);
+  COUNTRIES.forEach(({ region, country, currency, share: countryShare }) =>
+    CHANNELS.forEach(({ channel, sessionShare, conversion }) =>
+      CATEGORIES.forEach(({ category, share: categoryShare, aov, margin }) => {
+        const scale = demand * countryShare * sessionShare * categoryShare;
+        const sessions = Object.fromEntries(
+          Object.entries(MONTHLY_SESSIONS).map(([k, v]) => [k, poisson(v * scale)])
+        );
+        const dims = { region, country, channel, category };
+        const fx = localRate(currency);
+        publish({ type: "sessions", timestamp: new Date(hourStart).toISOString(), ...dims, sessions });
+
+        const totalSessions = Object.values(sessions).reduce((s, v) => s + v, 0);
+        for (let i = poisson(totalSessions * conversion); i > 0; i--) {
+          // Built in dollars, then restated in the storefront's currency like the provider's daily rows.
+          const revenue = aov * (0.7 + Math.random() * 0.6);
+          publish({
+            type: "order",
+            timestamp: new Date(hourStart + Math.floor(Math.random() * HOUR_MS)).toISOString(),
+            ...dims,
+            currency,
+            revenue: Math.round(revenue * fx),
+            units: 1 + (Math.random() < 0.2 ? 1 : 0),
+            grossProfit: Math.round(revenue * (margin + (Math.random() * 0.06 - 0.03)) * fx),
+          });
+        }
+      })
+    )
+  );
+};
+
+/** Runs the simulated clock and serves the buffered events as SSE on /events. */
+const serve = () => {
+  let nextId = Date.now() * 1000; // room for 1,000 events per millisecond before ids could overlap a restart
+  let simTime = START;
+  const buffer = [];
+  const clients = new Set();
+
+  const publish = (event) => {
+    const withId = { id: nextId++, ...event };
+    buffer.push(withId);
+    if (buffer.length > MAX_BUFFER) buffer.splice(0, buffer.length - MAX_BUFFER);
+    const frame = `id: ${withId.id}\ndata: ${JSON.stringify(withId)}\n\n`;
+    clients.forEach((res) => res.write(frame));
+  };
+
+  setInterval(() => {
+    const next = simTime + TICK_MS * SPEED;
+    for (let hour = Math.ceil(simTime / HOUR_MS) * HOUR_MS; hour < next; hour += HOUR_MS) simulateHour(hour, publish);
+    simTime = next;
+  }, TICK_MS);
+
+  // Comment frames keep idle proxies from closing the connection.
+  setInterval(() => clients.forEach((res) => res.write(": keep-alive\n\n")), 15_000);
+
+  http
+    .createServer((req, res) => {
+      const url = new URL(req.url, `http://${req.headers.host}`);
+      if (url.pathname !== "/events") {
+        res.writeHead(404, { "Access-Control-Allow-Origin": "*" }).end();
+        return;
+      }
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Access-Control-Allow-Origin": "*",
+      });
+      const since = Number(url.searchParams.get("since") ?? req.headers["last-event-id"] ?? 0);
+      buffer
+        .filter((e) => e.id > since)
+        .forEach((e) => res.write(`id: ${e.id}\ndata: ${JSON.stringify(e)}\n\n`));
+      clients.add(res);
+      req.on("close", () => clients.delete(res));
+    })
+    .listen(PORT, () => {
+      console.log(`Mock stream on http://localhost:${PORT}/events from ${new Date(START).toISOString()} at ${SPEED}x`);
+    });
+};
+
+if (require.main === module) serve();
+
+module.exports = { COUNTRIES, simulateHour };
@@ -1,9 +1,11 @@
-import React from 'react';
-import { render, screen } from '@testing-library/react';
-import App from './App';
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import App from "./App";
 
-test('renders learn react link', () => {
+test("renders the analytics dashboard for the default development account", async () => {
+  window.localStorage.clear();
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
-});
+  expect(await screen.findByRole("heading", { level: 1, name: /eCommerce Analytics/ }, { timeout: 15_000 })).toBeInTheDocument();
+  expect(await screen.findByText("Total Revenue (12M)", undefined, { timeout: 15_000 })).toBeInTheDocument();
+  window.localStorage.clear();
+}, 30_000);
@@ -1,10 +1,10 @@
 import React from "react";
-import CoachRetailAnalytics from "./CoachRetailAnalytics";
+import RetailAnalytics from "./RetailAnalytics";
 
 function App() {
   return (
     <div className="App">
-      <CoachRetailAnalytics />
+      <RetailAnalytics />
     </div>
   );
 }
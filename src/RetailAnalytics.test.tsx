@@ -0,0 +1,127 @@
+import React from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import RetailAnalytics from "./RetailAnalytics";
+import { createMockProvider } from "./data/providers";
+import { createMockIdentityProvider } from "./auth/identity";
+import { summarizeKpis } from "./analytics/kpis";
+import { formatCompact } from "./currency/format";
+
+// Every tab against the same seeded data, signed in through the mock identity provider.
+const SEED = 7;
+const LOAD = { timeout: 15_000 };
+
+const renderAs = async (account?: string) => {
+  window.localStorage.clear();
+  const identity = createMockIdentityProvider();
+  if (account) await identity.signIn(account);
+  render(<RetailAnalytics provider={createMockProvider({ seed: SEED })} stream={null} identity={identity} />);
+  await screen.findByText("Revenue Trend, Plan & 12-Month Forecast", undefined, LOAD);
+};
+
+const openTab = (name: string) => fireEvent.click(screen.getByRole("tab", { name }));
+
+afterEach(() => window.localStorage.clear());
+
+test("executive dashboard shows the trailing-year KPIs and commentary", async () => {
+  await renderAs();
+  const { historicalData } = await createMockProvider({ seed: SEED }).load();
+  const revenue = formatCompact(summarizeKpis(historicalData.slice(-12)).totalRevenue);
+
+  expect(screen.getByRole("heading", { level: 1 })).toHaveTextContent("eCommerce Analytics");
+  expect(screen.getByText("Total Revenue (12M)")).toBeInTheDocument();
+  expect(screen.getByText(revenue)).toBeInTheDocument();
+  expect(within(screen.getByRole("region", { name: "Insights" })).getAllByRole("listitem").length).toBeGreaterThan(0);
+  expect(screen.getByText("Traffic Sources Performance")).toBeInTheDocument();
+}, 30_000);
+
+test("budget vs actual tab shows the bridge and period variances", async () => {
+  await renderAs();
+  openTab("Budget vs Actual");
+  expect(await screen.findByText("Revenue Bridge: Budget to Actual")).toBeInTheDocument();
+  expect(screen.getByText("By Period")).toBeInTheDocument();
+  expect(screen.getByText("Full-Year Latest Estimate")).toBeInTheDocument();
+}, 30_000);
+
+test("forecast tab shows the models and their backtests", async () => {
+  await renderAs();
+  openTab("Sales Forecast");
+  expect(await screen.findByText("Advanced Forecasting Models")).toBeInTheDocument();
+  expect(screen.getByText("Backtest Accuracy")).toBeInTheDocument();
+  expect(within(screen.getByRole("region", { name: "Insights" })).getByText(/^Forecast /)).toBeInTheDocument();
+}, 30_000);
+
+test("5P's tab shows products, campaigns and customers from the source", async () => {
+  await renderAs();
+  openTab("5P's Analysis");
+  expect(await screen.findByText("Product Performance Analysis")).toBeInTheDocument();
+  expect(screen.getByText("Campaign Attribution & Marketing Mix (Promotion)")).toBeInTheDocument();
+  expect(screen.getByText("Customer Segment Analysis (People)")).toBeInTheDocument();
+  expect(screen.queryByText(/Example campaigns/)).not.toBeInTheDocument();
+}, 30_000);
+
+test("a marketing analyst gets neither the plan tab nor margin", async () => {
+  await renderAs("marketing");
+  expect(screen.queryByRole("tab", { name: "Budget vs Actual" })).not.toBeInTheDocument();
+  expect(screen.getByText("Gross Margin")).toBeInTheDocument();
+  expect(screen.getByText("Restricted")).toBeInTheDocument();
+}, 30_000);
+
+test("a regional manager sees only their region's revenue", async () => {
+  await renderAs("emea");
+  expect(screen.getByText(/^Regional Consolidation/)).toBeInTheDocument();
+  expect(screen.getAllByText("EMEA").length).toBeGreaterThan(0);
+  expect(screen.queryByText("North America")).not.toBeInTheDocument();
+  expect(screen.queryByText("APAC")).not.toBeInTheDocument();
+}, 30_000);
+
+test("switching account doesn't bring the previous user's saved views", async () => {
+  await renderAs("exec");
+  fireEvent.click(screen.getByRole("button", { name: "Save as…" }));
+  const viewName = screen.getByRole("textbox", { name: "New view name" });
+  fireEvent.change(viewName, { target: { value: "Board pack" } });
+  fireEvent.submit(viewName);
+  expect(screen.getByRole("option", { name: "Board pack" })).toBeInTheDocument();
+
+  fireEvent.change(screen.getByRole("combobox", { name: "Switch account" }), { target: { value: "emea" } });
+  await screen.findByRole("option", { name: /Robin Keller/, selected: true }, LOAD);
+  await screen.findByText("Revenue Trend, Plan & 12-Month Forecast", undefined, LOAD);
+  expect(screen.queryByRole("option", { name: "Board pack" })).not.toBeInTheDocument();
+}, 30_000);
+
+test("tabs follow the ARIA tabs pattern with arrow-key navigation", async () => {
+  await renderAs();
+  const dashboard = screen.getByRole("tab", { name: "Executive Dashboard" });
+  expect(dashboard).toHaveAttribute("aria-selected", "true");
+  expect(screen.getByRole("tabpanel")).toHaveAccessibleName("Executive Dashboard");
+
+  fireEvent.keyDown(dashboard, { key: "ArrowRight" });
+  const variance = screen.getByRole("tab", { name: "Budget vs Actual" });
+  expect(variance).toHaveAttribute("aria-selected", "true");
+  expect(variance).toHaveFocus();
+  expect(dashboard).toHaveAttribute("tabIndex", "-1");
+  expect(await screen.findByText("Revenue Bridge: Budget to Actual")).toBeInTheDocument();
+
+  fireEvent.keyDown(variance, { key: "End" });
+  expect(screen.getByRole("tab", { name: "5P's Analysis" })).toHaveAttribute("aria-selected", "true");
+  fireEvent.keyDown(screen.getByRole("tab", { name: "5P's Analysis" }), { key: "ArrowRight" });
+  expect(dashboard).toHaveAttribute("aria-selected", "true");
+}, 30_000);
+
+test("a chart can be shown as a table of its data", async () => {
+  await renderAs();
+  fireEvent.click(screen.getByRole("button", { name: "View Traffic Sources as table" }));
+  const table = screen.getByRole("table", { name: "Traffic Sources" });
+  expect(within(table).getAllByRole("columnheader").length).toBeGreaterThan(1);
+  expect(within(table).getAllByRole("row").length).toBeGreaterThan(1);
+
+  fireEvent.click(screen.getByRole("button", { name: "View Traffic Sources as chart" }));
+  expect(screen.queryByRole("table", { name: "Traffic Sources" })).not.toBeInTheDocument();
+  expect(screen.getByRole("group", { name: "Traffic Sources chart" })).toBeInTheDocument();
+}, 30_000);
+
+test("the chosen theme is kept for next time", async () => {
+  await renderAs();
+  fireEvent.change(screen.getByRole("combobox", { name: "Theme" }), { target: { value: "contrast" } });
+  expect(screen.getByRole("combobox", { name: "Theme" })).toHaveValue("contrast");
+  expect(window.localStorage.getItem("retail-analytics:theme")).toBe("contrast");
+}, 30_000);
@@ -1,136 +1,422 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
-  BarChart, Bar, ComposedChart, Area, PieChart, Pie, Cell
+  BarChart, Bar, ComposedChart, Area, PieChart, Pie, Cell, ReferenceDot
 } from "recharts";
-import { TrendingUp, Target, DollarSign, ShoppingCart, Percent, Calendar, CheckCircle } from "lucide-react";
+import { TrendingUp, Target, DollarSign, ShoppingCart, Percent, Calendar, FileUp, Lock } from "lucide-react";
+import {
+  TabId, MonthData, ForecastPoint, CategoryPerf, CampaignROI, Segment, TrafficSources,
+} from "./types";
+import { DataProvider, createInMemoryProvider, createProviderFromEnv } from "./data/providers";
+import { useDashboardData } from "./data/useDashboardData";
+import DataState from "./components/DataState";
+import CsvImportPanel from "./components/CsvImportPanel";
+import { FORECAST_MODELS, ForecastModelId } from "./forecasting/models";
+import { runForecast } from "./forecasting/engine";
+import { backtestAllModels } from "./forecasting/backtest";
+import BacktestPanel from "./components/BacktestPanel";
+import ScenarioPlanner from "./components/ScenarioPlanner";
+import KpiDelta from "./components/KpiDelta";
+import { compareWithLastYear, indexByDate, summarizeKpis } from "./analytics/kpis";
+import { formatChange, formatMultiple, formatPercent, pctChange, ppChange, share, sum } from "./analytics/metrics";
+import { addMonths } from "./analytics/periods";
+import {
+  FiscalCalendarConfig, GREGORIAN, applyCalendar, describeCalendar, fiscalYearInfo, periodLabel
+} from "./analytics/fiscalCalendar";
+import CalendarSelector from "./components/CalendarSelector";
+import {
+  categoryPerformance, describeFilters, dimensionOptions, filterDaily, filterPeriods, hasDimensionFilters, isFiltered
+} from "./analytics/filters";
+import { useFilterParams } from "./data/useFilterParams";
+import FilterBar from "./components/FilterBar";
+import { LiveStream, createStreamFromEnv } from "./data/liveStream";
+import { useLiveStream } from "./data/useLiveStream";
+import { carryOverRows, liveCutoff, mergeLive } from "./analytics/live";
+import LiveStatus from "./components/LiveStatus";
+import { ALERT_METRICS, AlertMetric, AlertSeverity, detectAllAnomalies } from "./alerts/anomalies";
+import { AlertRule, evaluateRules } from "./alerts/rules";
+import { loadAlertRules, saveAlertRules } from "./alerts/storage";
+import AlertsPanel from "./components/AlertsPanel";
+import { periodProgress, planForCalendar, summarizePlan } from "./targets/plan";
+import { KPI_THRESHOLDS, TargetMetric, TargetStatus, planVariance, statusForAccuracy, statusForVariance } from "./targets/status";
+import TargetBadge, { STATUS_TEXT } from "./components/TargetBadge";
+import VarianceReport from "./components/VarianceReport";
+import { DEFAULT_ELASTICITY, estimateElasticities, summarizePricing } from "./scenarios/pricing";
+import PriceSimulator from "./components/PriceSimulator";
+import CampaignPanel from "./components/CampaignPanel";
+import CustomerPanel from "./components/CustomerPanel";
+import FunnelPanel from "./components/FunnelPanel";
+import { productHierarchy } from "./products/hierarchy";
+import ProductDrillDown from "./components/ProductDrillDown";
+import { demandProfile } from "./inventory/projection";
+import InventoryPanel from "./components/InventoryPanel";
+import { RateBasis, consolidate, consolidateRegions, convert, convertDaily, createRateTable, totalGrowth } from "./currency/fx";
+import { DEFAULT_CURRENCY, formatCompact, formatMoney } from "./currency/format";
+import CurrencySelector from "./components/CurrencySelector";
+import RegionalConsolidation from "./components/RegionalConsolidation";
+import { CsvColumn, toCsv } from "./export/csv";
+import { ReportSection } from "./export/report";
+import ExportMenu from "./components/ExportMenu";
+import ReportExport, { ReportDataset } from "./components/ReportExport";
+import { WidgetId } from "./dashboard/widgets";
+import { useDashboardViews } from "./dashboard/useDashboardViews";
+import KpiCard from "./components/KpiCard";
+import DashboardGrid from "./components/DashboardGrid";
+import ViewToolbar from "./components/ViewToolbar";
+import { Identity, accessFor, canSee } from "./auth/roles";
+import { WITHHELD_NAMES, describeScope, isScoped, scopeData, scopeRows } from "./auth/scope";
+import { IdentityProvider, createIdentityProviderFromEnv } from "./auth/identity";
+import { AuthState, useAuth } from "./auth/useAuth";
+import SignIn from "./components/SignIn";
+import UserMenu from "./components/UserMenu";
+import Restricted from "./components/Restricted";
+import { campaignPerformance, campaignPeriods } from "./marketing/attribution";
+import { scoreCustomers, summarizeSegments } from "./customers/rfm";
+import { generateInsights, insightsForTab } from "./insights/insights";
+import InsightsPanel from "./components/InsightsPanel";
+import ChartView from "./components/ChartView";
+import ThemeSelector from "./components/ThemeSelector";
+import { ThemeContext, useChartPalette, useTheme } from "./theme/useTheme";
+import { ThemeId } from "./theme/themes";
 
 /* =======================
-   Type Definitions
+   Component
    ======================= */
-type TabId = "dashboard" | "forecast" | "5ps";
-
-interface TrafficSources {
-  organic: number;
-  paid: number;
-  social: number;
-  email: number;
-  direct: number;
-}
+const BACKTEST_HORIZON = 3; // months ahead scored per backtest fold
 
-interface MonthData {
-  month: string;
-  revenue: number;
-  units: number;
-  grossMargin: number;      // 0..1
-  conversionRate: number;   // 0..1
-  avgOrderValue: number;
-  trafficSources: TrafficSources;
-}
+const TABS: { id: TabId; name: string; icon: typeof TrendingUp }[] = [
+  { id: "dashboard", name: "Executive Dashboard", icon: TrendingUp },
+  { id: "variance",  name: "Budget vs Actual",    icon: DollarSign },
+  { id: "forecast",  name: "Sales Forecast",      icon: Calendar   },
+  { id: "5ps",       name: "5P's Analysis",       icon: Target     },
+];
 
-interface ForecastPoint {
-  month: string;            // e.g. "Jan (F)"
-  revenue: number;
-  forecastHigh: number;
-  forecastLow: number;
-  confidence: number;       // 0..1
+interface RetailAnalyticsProps {
+  /** Where MonthData / ForecastPoint come from; defaults to the env-configured provider. */
+  provider?: DataProvider;
+  /** Live order stream; defaults to REACT_APP_STREAM_URL. Pass null to disable live updates. */
+  stream?: LiveStream | null;
+  /** Who is signed in; defaults to the env-configured identity provider. */
+  identity?: IdentityProvider;
 }
 
-interface CategoryPerf {
-  name: string;
-  revenue: number;
-  margin: number;           // 0..1
-  growth: number;           // 0..1
+interface AnalyticsDashboardProps extends Omit<RetailAnalyticsProps, "identity"> {
+  user: Identity;
+  auth: AuthState;
+  theme: ThemeId;
+  onThemeChange: (theme: ThemeId) => void;
 }
 
-interface CampaignROI {
-  campaign: string;
-  roi: number;              // multiplier, e.g. 4.2x
-  spend: number;            // $
-}
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ provider, stream, user, auth, theme, onThemeChange }) => {
+  // What the signed-in user may see: tabs, the regions / categories of their data, masked figures
+  const access = useMemo(() => accessFor(user), [user]);
+  const showMargin = canSee(access, "margin");
+  const tabs = TABS.filter((t) => access.tabs.includes(t.id));
+  const [selectedTab, setActiveTab] = useState<TabId>(tabs[0]?.id ?? "dashboard");
+  const activeTab = tabs.some((t) => t.id === selectedTab) ? selectedTab : tabs[0]?.id ?? "dashboard";
+  const tabRefs = useRef<Partial<Record<TabId, HTMLButtonElement | null>>>({});
+  const [forecastHorizon, setForecastHorizon] = useState<number>(12);
+  // Export targets: the rendered tab for reports, and the charts offering image downloads.
+  const tabContentRef = useRef<HTMLDivElement>(null);
+  const revenueChartRef = useRef<HTMLDivElement>(null);
+  const trafficChartRef = useRef<HTMLDivElement>(null);
+  const metricsChartRef = useRef<HTMLDivElement>(null);
+  const forecastChartRef = useRef<HTMLDivElement>(null);
+  const productChartRef = useRef<HTMLDivElement>(null);
+  const campaignChartRef = useRef<HTMLDivElement>(null);
+  const segmentChartRef = useRef<HTMLDivElement>(null);
 
-interface Segment {
-  segment: string;
-  revenue: number;          // fraction 0..1 of total rev
-  count: number;            // fraction 0..1 of customers
-}
+  // Executive Dashboard layout and saved views
+  const dashboardViews = useDashboardViews(user.id);
+  const [editingLayout, setEditingLayout] = useState<boolean>(false);
 
-/* =======================
-   Component
-   ======================= */
-const RetailAnalytics: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<TabId>("dashboard");
-  const [forecastHorizon, setForecastHorizon] = useState<number>(12);
+  // -------- Data source (mock / static JSON / REST) --------
+  const [defaultProvider] = useState<DataProvider>(() => createProviderFromEnv());
+  const [importedProvider, setImportedProvider] = useState<DataProvider | null>(null);
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const baseProvider = provider ?? defaultProvider;
+  const activeProvider = importedProvider ?? baseProvider;
+  const { status, data: sourceData, error, reload } = useDashboardData(activeProvider);
+
+  // -------- Reporting currency (everything below is consolidated into it) --------
+  const rateTable = useMemo(() => (sourceData.currency ? createRateTable(sourceData.currency) : null), [sourceData.currency]);
+  const [currencyChoice, setCurrencyChoice] = useState<string | null>(null);
+  const [rateBasis, setRateBasis] = useState<RateBasis>("actual");
+  const currency = rateTable
+    ? currencyChoice && rateTable.currencies.includes(currencyChoice) ? currencyChoice : rateTable.base
+    : DEFAULT_CURRENCY;
+  // Scoped after consolidation, so a scoped user's figures are still in the reporting currency.
+  const { data, withheld } = useMemo(
+    () => scopeData(consolidate(sourceData, currency, rateBasis), access.scope),
+    [sourceData, currency, rateBasis, access.scope]
+  );
+  const scoped = isScoped(access.scope);
+
+  // -------- Live stream (paused while a CSV import is shown) --------
+  const [defaultStream] = useState<LiveStream | null>(() => createStreamFromEnv());
+  const live = useLiveStream(importedProvider ? null : stream === undefined ? defaultStream : stream);
+  // Live orders in a currency the source has no rates for can't be consolidated and are left out.
+  const liveRows = useMemo(
+    () =>
+      scopeRows(
+        rateTable
+          ? convertDaily(live.rows.filter((r) => !r.currency || rateTable.currencies.includes(r.currency)), rateTable, currency, rateBasis)
+          : live.rows,
+        access.scope
+      ),
+    [live.rows, rateTable, currency, rateBasis, access.scope]
+  );
+
+  // -------- Global filters (dimensions narrow daily rows, the date range narrows periods) --------
+  const [filters, setFilters] = useFilterParams();
+  const hasDimensions = (data.dailyData?.length ?? 0) > 0;
+  const filterOptions = useMemo(() => dimensionOptions(data.dailyData ?? []), [data.dailyData]);
+  const filteredDaily = useMemo(
+    () => (hasDimensions ? filterDaily(data.dailyData ?? [], filters) : []),
+    [data.dailyData, hasDimensions, filters]
+  );
+  const noMatches = hasDimensions && filteredDaily.length === 0;
+  // Header scope: the filtered regions, the one region the source covers, or "Global" for several.
+  const regionScope =
+    filters.regions.length > 0
+      ? filters.regions.join(" & ")
+      : filterOptions.regions.length === 1
+      ? filterOptions.regions[0]
+      : filterOptions.regions.length > 1
+      ? "Global"
+      : "";
+
+  // -------- Reporting calendar (calendar months or 4-5-4 style fiscal periods) --------
+  const [calendarConfig, setCalendarConfig] = useState<FiscalCalendarConfig>(GREGORIAN);
+  const calendarView = useMemo(
+    () =>
+      noMatches
+        ? { history: [], calendar: calendarConfig }
+        : applyCalendar(hasDimensions ? { ...data, dailyData: filteredDaily } : data, calendarConfig),
+    [data, hasDimensions, filteredDaily, noMatches, calendarConfig]
+  );
+  // Complete periods for the current dimension filters; models are fitted on these only.
+  const { history: closedHistory, calendar } = calendarView;
+  const labelFor = useMemo(() => (key: string) => periodLabel(key, calendar), [calendar]);
+
+  // Full history plus live events since the source's last day; KPIs, charts and YoY lookups use it.
+  const cutoff = useMemo(() => liveCutoff(data.historicalData, data.dailyData), [data]);
+  const historicalData = useMemo(() => {
+    const fresh = (hasDimensions ? filterDaily(liveRows, filters) : liveRows).filter((r) => !cutoff || r.date >= cutoff);
+    if (fresh.length === 0) return closedHistory;
+    return mergeLive(closedHistory, [...carryOverRows(filteredDaily, closedHistory, calendar), ...fresh], calendar, labelFor);
+  }, [liveRows, hasDimensions, filters, cutoff, closedHistory, filteredDaily, calendar, labelFor]);
+  // Periods inside the selected date range; charts and KPI windows use these.
+  const visibleHistory = useMemo(() => filterPeriods(historicalData, filters), [historicalData, filters]);
+  const hasDateRange = !!filters.from || !!filters.to;
+  const latestPeriod = historicalData[historicalData.length - 1]?.date;
+  const showForecast = !filters.to || (!!latestPeriod && filters.to >= latestPeriod);
 
-  // -------- Mock data (replace later with real data) --------
-  const generateMockData = (): { historicalData: MonthData[]; forecastData: ForecastPoint[] } => {
-    const months = ["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"] as const;
-
-    const historicalData: MonthData[] = months.map((month, index) => {
-      const seasonality = index < 6 ? 0.8 + index * 0.05 : 1.2 - (index - 6) * 0.03;
-      const holidayBoost = [10, 11].includes(index) ? 1.4 : 1.0; // Nov/Dec boost
-      return {
-        month,
-        revenue: Math.round((850_000 + Math.random() * 150_000) * seasonality * holidayBoost),
-        units: Math.round((2_800 + Math.random() * 500) * seasonality * holidayBoost),
-        grossMargin: 0.68 + (Math.random() * 0.08 - 0.04),
-        conversionRate: 0.034 + (Math.random() * 0.008 - 0.004),
-        avgOrderValue: Math.round(280 + Math.random() * 40),
-        trafficSources: {
-          organic: Math.round(15_000 + Math.random() * 3_000),
-          paid: Math.round(8_000 + Math.random() * 2_000),
-          social: Math.round(5_000 + Math.random() * 1_500),
-          email: Math.round(4_000 + Math.random() * 1_000),
-          direct: Math.round(12_000 + Math.random() * 2_500),
+  // -------- Forecast (engine model or the source's own forecast) --------
+  const [forecastChoice, setForecastChoice] = useState<ForecastModelId | "source">("holtWinters");
+  const modelResults = useMemo(
+    () => (Object.keys(FORECAST_MODELS) as ForecastModelId[]).map((id) => runForecast(closedHistory, id, { labelFor })),
+    [closedHistory, labelFor]
+  );
+  const selectedResult = modelResults.find((r) => r.modelId === forecastChoice);
+  // A period already receiving live actuals is no longer forecast.
+  const lastActual = historicalData[historicalData.length - 1]?.date;
+  const modelForecast: ForecastPoint[] = forecastChoice === "source" ? data.forecastData : selectedResult?.points ?? [];
+  const forecastData = modelForecast.filter((p) => !p.date || !lastActual || p.date > lastActual);
+
+  const backtests = useMemo(() => backtestAllModels(closedHistory, { horizon: BACKTEST_HORIZON }), [closedHistory]);
+  // The source forecast can't be backtested; its card falls back to the default model's record.
+  const selectedBacktest = backtests.find((b) => b.modelId === (forecastChoice === "source" ? "holtWinters" : forecastChoice));
+  const forecastAccuracy = selectedBacktest?.overall ? 1 - selectedBacktest.overall.mape : null;
+  const accuracyStatus = forecastAccuracy === null ? null : statusForAccuracy(forecastAccuracy);
+  const accuracyLabel =
+    accuracyStatus === null
+      ? "Not enough history"
+      : { "on-track": "High accuracy", "at-risk": "Moderate accuracy", "off-track": "Low accuracy" }[accuracyStatus];
+
+  const applyImport = (rows: MonthData[], fileName: string) => {
+    setImportedProvider(
+      createInMemoryProvider(
+        // The plan is kept (in the base currency) so imported actuals are still measured against it.
+        { historicalData: rows, forecastData: [], ...(sourceData.plan ? { plan: sourceData.plan } : {}) },
+        `CSV import (${fileName || "file"})`
+      )
+    );
+    setShowImport(false);
+  };
+
+  // KPIs (the selected date range, or the trailing twelve months when none is set)
+  const trailingYear = useMemo(() => closedHistory.slice(-12), [closedHistory]);
+  const kpiWindow = useMemo(() => (hasDateRange ? visibleHistory : visibleHistory.slice(-12)), [hasDateRange, visibleHistory]);
+  const kpiWindowLabel = hasDateRange ? `${kpiWindow.length}P` : "12M";
+  const currentMonthData: MonthData | undefined = kpiWindow[kpiWindow.length - 1];
+  const previousMonthData: MonthData | undefined = kpiWindow[kpiWindow.length - 2];
+
+  const kpis = useMemo(() => {
+    const monthlyGrowth = currentMonthData && previousMonthData ? pctChange(currentMonthData.revenue, previousMonthData.revenue) : null;
+    return { ...summarizeKpis(kpiWindow), monthlyGrowth };
+  }, [kpiWindow, currentMonthData, previousMonthData]);
+
+  // Sessions by source summed over the KPI window
+  const windowTraffic = useMemo(
+    () =>
+      kpiWindow.reduce<TrafficSources>(
+        (acc, m) => {
+          (Object.keys(acc) as (keyof TrafficSources)[]).forEach((k) => (acc[k] += m.trafficSources[k]));
+          return acc;
         },
-      };
-    });
-
-    const growthTrend = 1.08; // 8% YoY growth assumption
-    const uncertainty = 0.10; // ±10% range
-
-    const forecastData: ForecastPoint[] = months.map((month, idx) => {
-      const baseRevenue = historicalData[idx].revenue * growthTrend;
-      return {
-        month: `${month} (F)`,
-        revenue: Math.round(baseRevenue),
-        forecastHigh: Math.round(baseRevenue * (1 + uncertainty)),
-        forecastLow: Math.round(baseRevenue * (1 - uncertainty)),
-        confidence: Math.max(0, 0.85 - idx * 0.02),
-      };
-    });
-
-    return { historicalData, forecastData };
+        { organic: 0, paid: 0, social: 0, email: 0, direct: 0 }
+      ),
+    [kpiWindow]
+  );
+
+  // Year-over-year: KPI window vs the same periods a year earlier, latest month vs same month last year
+  const lastYear = useMemo(() => compareWithLastYear(historicalData, kpiWindow), [historicalData, kpiWindow]);
+  const sply = lastYear.sameMonthLastYear;
+  const splyLabel = sply ? `vs ${sply.month}` : "vs same month LY";
+  // Regions from the source's local-currency rows (plus live ones), for constant-currency growth.
+  // Both are scoped like `data`, so a regional user never sees another region's revenue.
+  const regionalTotals = useMemo(() => {
+    if (!rateTable || !hasDimensions) return null;
+    const fresh = filterDaily(scopeRows(live.rows, access.scope), filters).filter(
+      (r) => (!cutoff || r.date >= cutoff) && (!r.currency || rateTable.currencies.includes(r.currency))
+    );
+    return consolidateRegions(
+      [...filterDaily(scopeRows(sourceData.dailyData ?? [], access.scope), filters), ...fresh],
+      rateTable,
+      currency,
+      rateBasis,
+      kpiWindow.map((m) => m.date),
+      calendar
+    );
+  }, [rateTable, hasDimensions, live.rows, access.scope, filters, cutoff, sourceData.dailyData, currency, rateBasis, kpiWindow, calendar]);
+  const constantCurrencyGrowth = regionalTotals ? totalGrowth(regionalTotals).constantCurrency : null;
+  const [showYoyOverlay, setShowYoyOverlay] = useState<boolean>(true);
+  const latestFiscalYear = currentMonthData ? fiscalYearInfo(Number(currentMonthData.date.slice(0, 4)), calendar) : null;
+
+  // Alerts: seasonal anomalies in complete periods plus user threshold rules, within the date range.
+  // Rules on a masked metric are kept but neither shown nor evaluated.
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules(user.id));
+  useEffect(() => saveAlertRules(user.id, alertRules), [user.id, alertRules]);
+  const alertMetrics = (Object.keys(ALERT_METRICS) as AlertMetric[]).filter((m) => showMargin || m !== "grossMargin");
+  const visibleRules = alertRules.filter((r) => alertMetrics.includes(r.metric));
+  const anomalies = useMemo(() => {
+    const visible = new Set(visibleHistory.map((m) => m.date));
+    return detectAllAnomalies(closedHistory).filter((a) => visible.has(a.date) && (showMargin || a.metric !== "grossMargin"));
+  }, [closedHistory, visibleHistory, showMargin]);
+  const inProgressPeriod = closedHistory.some((m) => m.date === lastActual) ? undefined : lastActual;
+  // Money thresholds are kept in the currency they were set in and restated at each period's rates.
+  const ruleBreaches = useMemo(
+    () =>
+      evaluateRules(
+        visibleHistory,
+        visibleRules,
+        inProgressPeriod,
+        rateTable
+          ? (amount, from, date) => (rateTable.currencies.includes(from) ? convert(rateTable, amount, from, currency, date, rateBasis) : amount)
+          : undefined
+      ),
+    [visibleHistory, visibleRules, inProgressPeriod, rateTable, currency, rateBasis]
+  );
+
+  // Plan for the KPI window, restated in the reporting calendar; a period in progress is prorated.
+  const windowKeys = useMemo(() => kpiWindow.map((m) => m.date), [kpiWindow]);
+  const plan = useMemo(() => planForCalendar(data.plan ?? [], calendar), [data.plan, calendar]);
+  const planByDate = useMemo(() => new Map(plan.map((m) => [m.date, m])), [plan]);
+  // The plan is set for the whole business, so it isn't comparable once dimensions are filtered.
+  const planApplies = plan.length > 0 && !(hasDimensions && hasDimensionFilters(filters));
+  const planNotice = planApplies
+    ? undefined
+    : plan.length > 0
+    ? "The plan is set for all regions, channels and categories; clear those filters to compare against it."
+    : `${activeProvider.label} has no plan to compare against.`;
+  const liveThrough = useMemo(
+    () => liveRows.reduce<string | undefined>((max, r) => (!max || r.date > max ? r.date : max), undefined),
+    [liveRows]
+  );
+  const planSummary = useMemo(
+    () =>
+      planApplies
+        ? summarizePlan(
+            plan,
+            windowKeys,
+            inProgressPeriod && liveThrough
+              ? { date: inProgressPeriod, fraction: periodProgress(inProgressPeriod, liveThrough, calendar) }
+              : undefined
+          )
+        : null,
+    [planApplies, plan, windowKeys, inProgressPeriod, liveThrough, calendar]
+  );
+  const kpiActuals: Record<TargetMetric, number> = {
+    revenue: kpis.totalRevenue,
+    grossMargin: kpis.avgGrossMargin,
+    conversionRate: kpis.avgConversionRate,
+    avgOrderValue: kpis.avgOrderValue,
+  };
+  const target = (metric: TargetMetric): { status: TargetStatus | null; label: string } => {
+    if (!planSummary) {
+      return { status: null, label: plan.length > 0 && !planApplies ? "Plan is set for all channels" : "No plan for these periods" };
+    }
+    const variance = planVariance(metric, kpiActuals[metric], planSummary[metric]);
+    if (variance === null) return { status: null, label: "No plan for these periods" };
+    const pp = KPI_THRESHOLDS[metric].kind === "pp";
+    const planValue =
+      metric === "revenue"
+        ? formatCompact(planSummary.revenue, currency)
+        : pp
+        ? formatPercent(planSummary[metric])
+        : formatMoney(planSummary[metric], currency);
+    return {
+      status: statusForVariance(metric, variance),
+      label: `${formatChange(variance, pp ? "pp" : "pct")} vs plan (${planValue})`,
+    };
+  };
+  const iconColor = (metric: TargetMetric, fallback: string) => {
+    const { status } = target(metric);
+    return status ? STATUS_TEXT[status] : fallback;
   };
 
-  const { historicalData, forecastData } = useMemo(generateMockData, []);
+  // Product and Place follow the filters when the source has daily rows; the rest is example data.
+  const filteredCategories = useMemo(
+    () => (hasDimensions ? categoryPerformance(filteredDaily, windowKeys, calendar) : null),
+    [hasDimensions, filteredDaily, windowKeys, calendar]
+  );
 
-  // KPIs
-  const currentMonthData = historicalData[historicalData.length - 1];
-  const previousMonthData = historicalData[historicalData.length - 2];
+  // SKU drill-down follows the category filter; SKU rows aren't split by region or channel.
+  const productTree = useMemo(
+    () => (data.products ? productHierarchy(data.products, windowKeys, calendar, filters.categories) : null),
+    [data.products, windowKeys, calendar, filters.categories]
+  );
 
-  const kpis = useMemo(() => {
-    const totalRevenue = historicalData.reduce((s, m) => s + m.revenue, 0);
-    const avgGrossMargin = historicalData.reduce((s, m) => s + m.grossMargin, 0) / historicalData.length;
-    const avgConversionRate = historicalData.reduce((s, m) => s + m.conversionRate, 0) / historicalData.length;
-    const avgOrderValue = historicalData.reduce((s, m) => s + m.avgOrderValue, 0) / historicalData.length;
-    const monthlyGrowth = previousMonthData
-      ? ((currentMonthData.revenue - previousMonthData.revenue) / previousMonthData.revenue) * 100
-      : 0;
-    return { totalRevenue, avgGrossMargin, avgConversionRate, avgOrderValue, monthlyGrowth };
-  }, [historicalData, currentMonthData, previousMonthData]);
+  // Stock is held centrally, so the projection only runs on the whole business or a category cut of it.
+  const regionalFilters = filters.regions.length + filters.countries.length + filters.channels.length > 0;
+  const inventoryDemand = useMemo(
+    () => (hasDimensions ? demandProfile(categoryPerformance(filteredDaily, trailingYear.map((m) => m.date), calendar)) : []),
+    [hasDimensions, filteredDaily, trailingYear, calendar]
+  );
+  const inventoryPositions = useMemo(
+    () => (data.inventory ?? []).filter((p) => filters.categories.length === 0 || filters.categories.includes(p.category)),
+    [data.inventory, filters.categories]
+  );
+
+  // Elasticity per category from every complete period, not just the KPI window.
+  const elasticities = useMemo(
+    () => (hasDimensions ? estimateElasticities(filteredDaily, calendar) : []),
+    [hasDimensions, filteredDaily, calendar]
+  );
+
+  const topCategories = filteredCategories ?? ([
+    { name: "Handbags", revenue: 4_200_000, margin: 0.72, growth: 0.12 },
+    { name: "Accessories", revenue: 1_800_000, margin: 0.68, growth: 0.08 },
+    { name: "Footwear", revenue: 1_200_000, margin: 0.65, growth: 0.15 },
+    { name: "Apparel", revenue: 900_000, margin: 0.58, growth: 0.05 },
+  ] as CategoryPerf[]);
+  const elasticityByCategory = new Map(elasticities.map((e) => [e.category, e.elasticity]));
 
   // 5P’s example data
   const fivePsAnalysis = {
-    Product: {
-      topCategories: [
-        { name: "Handbags", revenue: 4_200_000, margin: 0.72, growth: 0.12 },
-        { name: "Accessories", revenue: 1_800_000, margin: 0.68, growth: 0.08 },
-        { name: "Footwear", revenue: 1_200_000, margin: 0.65, growth: 0.15 },
-        { name: "Apparel", revenue: 900_000, margin: 0.58, growth: 0.05 },
-      ] as CategoryPerf[],
-    },
-    Price: { elasticity: -1.2, optimalPromotionDepth: 0.25, marginImpact: -0.15 },
+    Product: { topCategories },
+    Price: summarizePricing(topCategories, (c) => elasticityByCategory.get(c) ?? DEFAULT_ELASTICITY),
     Place: {
       channelPerformance: [
         { channel: "Desktop", revenue: 0.55, conversion: 0.038 },
@@ -156,95 +442,333 @@ const RetailAnalytics: React.FC = () => {
   };
 
   type CombinedPoint =
-  | (MonthData & { type: "historical" })
-  | (ForecastPoint & { type: "forecast" });
+  | (MonthData & { type: "historical"; lastYearRevenue?: number; planRevenue?: number })
+  | (ForecastPoint & { type: "forecast"; lastYearRevenue?: number; planRevenue?: number });
 
+const historyByDate = indexByDate(historicalData);
+const lastYearRevenue = (date?: string) => (date ? historyByDate.get(addMonths(date, -12))?.revenue : undefined);
+const planRevenue = (date?: string) => (date && planApplies ? planByDate.get(date)?.revenue : undefined);
 const combinedData: CombinedPoint[] = [
-  ...historicalData.map((d) => ({ ...d, type: "historical" as const })),
-  ...forecastData.slice(0, forecastHorizon).map((d) => ({ ...d, type: "forecast" as const })),
+  ...visibleHistory.map((d) => ({
+    ...d,
+    type: "historical" as const,
+    lastYearRevenue: lastYearRevenue(d.date),
+    planRevenue: planRevenue(d.date),
+  })),
+  ...(showForecast ? forecastData.slice(0, forecastHorizon) : []).map((d) => ({
+    ...d,
+    type: "forecast" as const,
+    lastYearRevenue: lastYearRevenue(d.date),
+    planRevenue: planRevenue(d.date),
+  })),
 ];
  
 
-  /* -------------------- Renderers -------------------- */
-  const renderDashboard = () => (
-    <div className="space-y-6">
-      {/* KPI Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-        <div className="bg-white p-4 rounded-lg shadow border">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Total Revenue (12M)</p>
-              <p className="text-2xl font-bold text-green-600">${(kpis.totalRevenue / 1_000_000).toFixed(1)}M</p>
-            </div>
-            <DollarSign className="h-8 w-8 text-green-600" />
-          </div>
-          <div className="flex items-center mt-2">
-            <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
-            <span className="text-sm text-green-600">{kpis.monthlyGrowth.toFixed(1)}% MoM</span>
-          </div>
-        </div>
+  /* -------------------- Insights -------------------- */
+  // Commentary only draws on real data: example categories, campaigns and segments are left out.
+  const latestInProgress = !!currentMonthData && currentMonthData.date === inProgressPeriod;
+  const categoryMoves = useMemo(
+    () =>
+      hasDimensions && currentMonthData && previousMonthData && !latestInProgress
+        ? {
+            latest: categoryPerformance(filteredDaily, [currentMonthData.date], calendar),
+            previous: categoryPerformance(filteredDaily, [previousMonthData.date], calendar),
+          }
+        : undefined,
+    [hasDimensions, currentMonthData, previousMonthData, latestInProgress, filteredDaily, calendar]
+  );
+  const campaignRoi = useMemo(
+    () =>
+      data.marketing
+        ? campaignPerformance(data.marketing.campaigns, campaignPeriods(data.marketing, "lastTouch", calendar), windowKeys).flatMap((p) =>
+            p.roas === null ? [] : [{ campaign: p.campaign.name, roi: p.roas, spend: p.spend }]
+          )
+        : undefined,
+    [data.marketing, calendar, windowKeys]
+  );
+  const customerSegments = useMemo(() => (data.orders ? summarizeSegments(scoreCustomers(data.orders)) : undefined), [data.orders]);
+  const forecastWindow = showForecast ? forecastData.slice(0, forecastHorizon) : [];
+  const forecastLastYear = forecastWindow.map((p) => lastYearRevenue(p.date));
+  const insights = generateInsights({
+    currency,
+    kpis,
+    yoy: lastYear.yoy,
+    windowLabel: kpiWindowLabel,
+    latest: currentMonthData,
+    previous: previousMonthData,
+    latestInProgress,
+    categoryMoves,
+    categories: filteredCategories ?? undefined,
+    campaigns: campaignRoi,
+    segments: customerSegments,
+    planVariances: planSummary
+      ? (Object.keys(kpiActuals) as TargetMetric[]).reduce<Partial<Record<TargetMetric, number>>>((acc, metric) => {
+          const variance = planVariance(metric, kpiActuals[metric], planSummary[metric]);
+          return variance === null ? acc : { ...acc, [metric]: variance };
+        }, {})
+      : undefined,
+    forecast: forecastWindow.length
+      ? {
+          revenue: sum(forecastWindow, (p) => p.revenue),
+          periods: forecastWindow.length,
+          lastYearRevenue: forecastLastYear.every((v) => v !== undefined)
+            ? sum(forecastLastYear, (v) => v ?? 0)
+            : undefined,
+          model: forecastChoice === "source" ? `${activeProvider.label} forecast` : FORECAST_MODELS[forecastChoice].name,
+          accuracy: forecastChoice === "source" ? null : forecastAccuracy,
+        }
+      : undefined,
+    showMargin,
+  });
+  const tabInsights = insightsForTab(insights, activeTab);
 
-        <div className="bg-white p-4 rounded-lg shadow border">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Gross Margin</p>
-              <p className="text-2xl font-bold text-blue-600">{(kpis.avgGrossMargin * 100).toFixed(1)}%</p>
-            </div>
-            <Percent className="h-8 w-8 text-blue-600" />
-          </div>
-          <div className="flex items-center mt-2">
-            <CheckCircle className="h-4 w-4 text-green-500 mr-1" />
-            <span className="text-sm text-green-600">Above target</span>
-          </div>
-        </div>
+  /* -------------------- Exports -------------------- */
+  const inCurrency = `(${currency})`;
+  const combinedColumns: CsvColumn<CombinedPoint>[] = [
+    { header: "Period", value: (p) => p.month },
+    { header: "Date", value: (p) => p.date },
+    { header: "Type", value: (p) => p.type },
+    { header: `Revenue ${inCurrency}`, value: (p) => p.revenue },
+    { header: `Forecast low ${inCurrency}`, value: (p) => (p.type === "forecast" ? p.forecastLow : undefined) },
+    { header: `Forecast high ${inCurrency}`, value: (p) => (p.type === "forecast" ? p.forecastHigh : undefined) },
+    { header: `Plan ${inCurrency}`, value: (p) => p.planRevenue },
+    { header: `Same period last year ${inCurrency}`, value: (p) => p.lastYearRevenue },
+    { header: "Units", value: (p) => (p.type === "historical" ? p.units : undefined) },
+    ...(showMargin ? [{ header: "Gross margin", value: (p: CombinedPoint) => (p.type === "historical" ? p.grossMargin : undefined) }] : []),
+    { header: "Conversion rate", value: (p) => (p.type === "historical" ? p.conversionRate : undefined) },
+    { header: `Avg order value ${inCurrency}`, value: (p) => (p.type === "historical" ? p.avgOrderValue : undefined) },
+  ];
+  const forecastColumns: CsvColumn<ForecastPoint>[] = [
+    { header: "Period", value: (p) => p.month },
+    { header: "Date", value: (p) => p.date },
+    { header: `Forecast ${inCurrency}`, value: (p) => p.revenue },
+    { header: `Forecast low ${inCurrency}`, value: (p) => p.forecastLow },
+    { header: `Forecast high ${inCurrency}`, value: (p) => p.forecastHigh },
+    { header: "Confidence", value: (p) => p.confidence },
+  ];
+  const trafficTotal = sum(Object.values(windowTraffic), (v) => v);
+  const trafficCsv = () =>
+    toCsv(Object.entries(windowTraffic), [
+      { header: "Source", value: ([source]) => source },
+      { header: "Sessions", value: ([, sessions]) => sessions },
+      { header: "Share", value: ([, sessions]) => (trafficTotal ? share(sessions, trafficTotal) : undefined) },
+    ]);
+  const metricsCsv = () =>
+    toCsv(visibleHistory, [
+      { header: "Period", value: (m) => m.month },
+      { header: "Date", value: (m) => m.date },
+      ...(showMargin ? [{ header: "Gross margin", value: (m: MonthData) => m.grossMargin }] : []),
+      { header: "Conversion rate", value: (m) => m.conversionRate },
+    ]);
+  const categoriesCsv = () =>
+    toCsv(topCategories, [
+      { header: "Category", value: (c) => c.name },
+      { header: `Revenue ${inCurrency}`, value: (c) => c.revenue },
+      ...(showMargin ? [{ header: "Margin", value: (c: CategoryPerf) => c.margin }] : []),
+      { header: "Growth", value: (c) => c.growth },
+    ]);
+  const channelsCsv = () =>
+    toCsv(fivePsAnalysis.Place.channelPerformance, [
+      { header: "Channel", value: (c) => c.channel },
+      { header: "Revenue share", value: (c) => c.revenue },
+      { header: "Conversion rate", value: (c) => c.conversion },
+    ]);
+  const campaignsCsv = () =>
+    toCsv(fivePsAnalysis.Promotion.campaignROI, [
+      { header: "Campaign", value: (c) => c.campaign },
+      { header: `Spend ${inCurrency}`, value: (c) => c.spend },
+      { header: "ROI", value: (c) => c.roi },
+    ]);
+  const segmentsCsv = () =>
+    toCsv(fivePsAnalysis.People.customerSegments, [
+      { header: "Segment", value: (c) => c.segment },
+      { header: "Revenue share", value: (c) => c.revenue },
+      { header: "Customer share", value: (c) => c.count },
+    ]);
 
-        <div className="bg-white p-4 rounded-lg shadow border">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Conversion Rate</p>
-              <p className="text-2xl font-bold text-purple-600">{(kpis.avgConversionRate * 100).toFixed(1)}%</p>
-            </div>
-            <Target className="h-8 w-8 text-purple-600" />
-          </div>
-          <div className="flex items-center mt-2">
-            <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
-            <span className="text-sm text-green-600">Industry avg: 3.1%</span>
-          </div>
-        </div>
+  // KPI cards aren't captured from the page, so the dashboard report gets the ones on show as a table.
+  const kpiRows: Partial<Record<WidgetId, string[]>> = {
+    revenue: [
+      "Total revenue",
+      formatCompact(kpis.totalRevenue, currency),
+      target("revenue").label,
+      formatChange(pctChange(kpis.totalRevenue, lastYear.yoy?.totalRevenue)),
+      ...(regionalTotals ? [formatChange(constantCurrencyGrowth)] : []),
+      formatChange(currentMonthData ? pctChange(currentMonthData.revenue, sply?.revenue) : null),
+    ],
+    grossMargin: showMargin
+      ? [
+          "Gross margin",
+          formatPercent(kpis.avgGrossMargin),
+          target("grossMargin").label,
+          formatChange(ppChange(kpis.avgGrossMargin, lastYear.yoy?.avgGrossMargin), "pp"),
+          ...(regionalTotals ? [""] : []),
+          formatChange(currentMonthData ? ppChange(currentMonthData.grossMargin, sply?.grossMargin) : null, "pp"),
+        ]
+      : ["Gross margin", "Restricted", "", "", ...(regionalTotals ? [""] : []), ""],
+    conversionRate: [
+      "Conversion rate",
+      formatPercent(kpis.avgConversionRate),
+      target("conversionRate").label,
+      formatChange(ppChange(kpis.avgConversionRate, lastYear.yoy?.avgConversionRate), "pp"),
+      ...(regionalTotals ? [""] : []),
+      formatChange(currentMonthData ? ppChange(currentMonthData.conversionRate, sply?.conversionRate) : null, "pp"),
+    ],
+    avgOrderValue: [
+      "Avg order value",
+      formatMoney(kpis.avgOrderValue, currency),
+      target("avgOrderValue").label,
+      formatChange(pctChange(kpis.avgOrderValue, lastYear.yoy?.avgOrderValue)),
+      ...(regionalTotals ? [""] : []),
+      formatChange(currentMonthData ? pctChange(currentMonthData.avgOrderValue, sply?.avgOrderValue) : null),
+    ],
+    forecastConfidence: [
+      "Forecast confidence",
+      forecastAccuracy === null ? "—" : formatPercent(forecastAccuracy, 0),
+      accuracyLabel,
+      "",
+      ...(regionalTotals ? [""] : []),
+      "",
+    ],
+  };
+  const kpiSection: ReportSection = {
+    title: `Key Metrics (${kpiWindowLabel})`,
+    tables: [
+      {
+        columns: ["Metric", "Value", "Plan", "YoY", ...(regionalTotals ? ["YoY at constant FX"] : []), splyLabel],
+        rows: dashboardViews.layout.flatMap((w) => (kpiRows[w.id] ? [kpiRows[w.id] as string[]] : [])),
+      },
+    ],
+  };
+  const insightsSection: ReportSection = { title: "Insights", tables: [{ columns: ["Insight"], rows: tabInsights.map((i) => [i.text]) }] };
+  const reportDetails = [
+    `Periods: ${kpiWindow.length ? `${kpiWindow[0].month} – ${kpiWindow[kpiWindow.length - 1].month}` : "none"} • Filters: ${describeFilters(filters, labelFor)}`,
+    `Currency: ${currency}${rateTable ? ` at ${rateBasis} rates` : ""} • Calendar: ${describeCalendar(calendar)} • Data source: ${activeProvider.label}`,
+    `Prepared for: ${user.name} (${access.role.name}) • ${describeScope(access.scope)}${showMargin ? "" : " • Margin figures withheld"}`,
+  ];
+  const reportDatasets: Record<TabId, ReportDataset[]> = {
+    dashboard: [
+      { title: "Revenue, plan and forecast", csv: () => toCsv(combinedData, combinedColumns) },
+      { title: "Traffic sources", csv: trafficCsv },
+    ],
+    variance: [],
+    forecast: [{ title: "Forecast", csv: () => toCsv(forecastData, forecastColumns) }],
+    "5ps": [
+      { title: "Categories", csv: categoriesCsv },
+      ...(hasDimensions ? [] : [{ title: "Channels (example)", csv: channelsCsv }]),
+      ...(data.marketing ? [] : [{ title: "Campaigns (example)", csv: campaignsCsv }]),
+      ...(data.orders ? [] : [{ title: "Customer segments (example)", csv: segmentsCsv }]),
+    ],
+  };
 
-        <div className="bg-white p-4 rounded-lg shadow border">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Avg Order Value</p>
-              <p className="text-2xl font-bold text-orange-600">${kpis.avgOrderValue.toFixed(0)}</p>
-            </div>
-            <ShoppingCart className="h-8 w-8 text-orange-600" />
-          </div>
-          <div className="flex items-center mt-2">
-            <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
-            <span className="text-sm text-green-600">+5.2% YoY</span>
-          </div>
-        </div>
+  // Tabs follow the ARIA tabs pattern: arrows (wrapping), Home and End move focus and open the tab.
+  const onTabKeyDown = (event: React.KeyboardEvent) => {
+    const index = tabs.findIndex((t) => t.id === activeTab);
+    const target =
+      event.key === "ArrowRight" ? (index + 1) % tabs.length
+      : event.key === "ArrowLeft" ? (index - 1 + tabs.length) % tabs.length
+      : event.key === "Home" ? 0
+      : event.key === "End" ? tabs.length - 1
+      : -1;
+    if (target < 0 || !tabs[target]) return;
+    event.preventDefault();
+    setActiveTab(tabs[target].id);
+    tabRefs.current[tabs[target].id]?.focus();
+  };
 
-        <div className="bg-white p-4 rounded-lg shadow border">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Forecast Confidence</p>
-              <p className="text-2xl font-bold text-indigo-600">87%</p>
-            </div>
-            <Calendar className="h-8 w-8 text-indigo-600" />
-          </div>
-          <div className="flex items-center mt-2">
-            <CheckCircle className="h-4 w-4 text-green-500 mr-1" />
-            <span className="text-sm text-green-600">High accuracy</span>
+  /* -------------------- Renderers -------------------- */
+  const colors = useChartPalette();
+  const anomalyColor = (severity: AlertSeverity) => (severity === "critical" ? colors.negative : colors.warning);
+  const dashboardWidgets: Record<WidgetId, () => React.ReactNode | null> = {
+    revenue: () => (
+      <KpiCard
+        label={`Total Revenue (${kpiWindowLabel})`}
+        value={formatCompact(kpis.totalRevenue, currency)}
+        valueClass="text-green-600"
+        icon={DollarSign}
+        iconClass={iconColor("revenue", "text-green-600")}
+      >
+        <TargetBadge {...target("revenue")} />
+        <div className="flex flex-wrap gap-x-3 mt-1">
+          <KpiDelta label="MoM" value={kpis.monthlyGrowth} />
+          <KpiDelta label="YoY" value={pctChange(kpis.totalRevenue, lastYear.yoy?.totalRevenue)} />
+          {regionalTotals && <KpiDelta label="YoY at constant FX" value={constantCurrencyGrowth} />}
+          <KpiDelta label={splyLabel} value={currentMonthData ? pctChange(currentMonthData.revenue, sply?.revenue) : null} />
+        </div>
+      </KpiCard>
+    ),
+    grossMargin: () =>
+      !showMargin ? (
+        <KpiCard label="Gross Margin" value="Restricted" valueClass="text-gray-400" icon={Lock} iconClass="text-gray-300">
+          <p className="text-xs text-gray-500 mt-1">Not available for your role</p>
+        </KpiCard>
+      ) : (
+        <KpiCard
+          label="Gross Margin"
+          value={formatPercent(kpis.avgGrossMargin)}
+          valueClass="text-blue-600"
+          icon={Percent}
+          iconClass={iconColor("grossMargin", "text-blue-600")}
+        >
+          <TargetBadge {...target("grossMargin")} />
+          <div className="flex flex-wrap gap-x-3 mt-1">
+            <KpiDelta label="YoY" unit="pp" value={ppChange(kpis.avgGrossMargin, lastYear.yoy?.avgGrossMargin)} />
+            <KpiDelta label={splyLabel} unit="pp" value={currentMonthData ? ppChange(currentMonthData.grossMargin, sply?.grossMargin) : null} />
           </div>
+        </KpiCard>
+      ),
+    conversionRate: () => (
+      <KpiCard
+        label="Conversion Rate"
+        value={formatPercent(kpis.avgConversionRate)}
+        valueClass="text-purple-600"
+        icon={Target}
+        iconClass={iconColor("conversionRate", "text-purple-600")}
+      >
+        <TargetBadge {...target("conversionRate")} />
+        <div className="flex flex-wrap gap-x-3 mt-1">
+          <KpiDelta label="YoY" unit="pp" value={ppChange(kpis.avgConversionRate, lastYear.yoy?.avgConversionRate)} />
+          <KpiDelta label={splyLabel} unit="pp" value={currentMonthData ? ppChange(currentMonthData.conversionRate, sply?.conversionRate) : null} />
         </div>
-      </div>
-
-      {/* Main Revenue Chart */}
-      <div className="bg-white p-6 rounded-lg shadow border">
+      </KpiCard>
+    ),
+    avgOrderValue: () => (
+      <KpiCard
+        label="Avg Order Value"
+        value={formatMoney(kpis.avgOrderValue, currency)}
+        valueClass="text-orange-600"
+        icon={ShoppingCart}
+        iconClass={iconColor("avgOrderValue", "text-orange-600")}
+      >
+        <TargetBadge {...target("avgOrderValue")} />
+        <div className="flex flex-wrap gap-x-3 mt-1">
+          <KpiDelta label="YoY" value={pctChange(kpis.avgOrderValue, lastYear.yoy?.avgOrderValue)} />
+          <KpiDelta label={splyLabel} value={currentMonthData ? pctChange(currentMonthData.avgOrderValue, sply?.avgOrderValue) : null} />
+        </div>
+      </KpiCard>
+    ),
+    forecastConfidence: () => (
+      <KpiCard
+        label="Forecast Confidence"
+        value={forecastAccuracy === null ? "—" : formatPercent(forecastAccuracy, 0)}
+        valueClass="text-indigo-600"
+        icon={Calendar}
+        iconClass={accuracyStatus ? STATUS_TEXT[accuracyStatus] : "text-indigo-600"}
+      >
+        <TargetBadge
+          status={accuracyStatus}
+          label={`${accuracyLabel}${selectedBacktest?.overall ? ` • ${formatPercent(selectedBacktest.overall.coverage, 0)} in band` : ""}`}
+        />
+      </KpiCard>
+    ),
+    revenueTrend: () => (
+      <div ref={revenueChartRef} className="bg-white p-6 rounded-lg shadow border h-full">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-lg font-semibold">Revenue Trend & 12-Month Forecast</h3>
+          <h3 className="text-lg font-semibold">Revenue Trend, Plan & 12-Month Forecast</h3>
+          <label className="flex items-center space-x-2 text-sm text-gray-600 ml-auto mr-4">
+            <input type="checkbox" checked={showYoyOverlay} onChange={(e) => setShowYoyOverlay(e.target.checked)} />
+            <span>Compare with last year</span>
+          </label>
           <select
             value={forecastHorizon}
             onChange={(e) => setForecastHorizon(Number(e.target.value))}
@@ -253,252 +777,446 @@ const combinedData: CombinedPoint[] = [
             <option value={6}>6 Month Forecast</option>
             <option value={12}>12 Month Forecast</option>
           </select>
+          <div className="ml-4">
+            <ExportMenu title="Revenue Trend" target={revenueChartRef} csv={() => toCsv(combinedData, combinedColumns)} />
+          </div>
         </div>
-        <ResponsiveContainer width="100%" height={400}>
-          <ComposedChart data={combinedData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="month" />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Bar dataKey="revenue" fill="#3B82F6" name="Actual / Forecast Revenue" opacity={0.85} />
-            <Line type="monotone" dataKey="forecastHigh" stroke="#EF4444" strokeDasharray="5 5" name="Forecast High" dot={false} />
-            <Line type="monotone" dataKey="forecastLow" stroke="#EF4444" strokeDasharray="5 5" name="Forecast Low" dot={false} />
-          </ComposedChart>
-        </ResponsiveContainer>
+        <ChartView title="Revenue Trend" csv={() => toCsv(combinedData, combinedColumns)}>
+          <ResponsiveContainer width="100%" height={400}>
+            <ComposedChart data={combinedData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis tickFormatter={(v: number) => formatCompact(v, currency)} />
+              <Tooltip formatter={(v: number) => formatCompact(v, currency, 2)} />
+              <Legend />
+              <Bar dataKey="revenue" fill={colors.primary} name="Actual / Forecast Revenue" opacity={0.85} />
+              <Line type="monotone" dataKey="forecastHigh" stroke={colors.secondary} strokeDasharray="5 5" name="Forecast High" dot={false} />
+              <Line type="monotone" dataKey="forecastLow" stroke={colors.secondary} strokeDasharray="5 5" name="Forecast Low" dot={false} />
+              {planApplies && (
+                <Line type="stepAfter" dataKey="planRevenue" stroke={colors.positive} strokeWidth={2} name="Plan" dot={false} />
+              )}
+              {showYoyOverlay && (
+                <Line type="monotone" dataKey="lastYearRevenue" stroke={colors.muted} strokeDasharray="2 4" name="Same Month Last Year" dot={false} />
+              )}
+              {anomalies
+                .filter((a) => a.metric === "revenue")
+                .map((a) => (
+                  <ReferenceDot key={a.date} x={a.month} y={a.actual} r={7} fill={anomalyColor(a.severity)} stroke={colors.surface} />
+                ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </ChartView>
       </div>
-
-      {/* Traffic Sources + Metrics */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <div className="bg-white p-6 rounded-lg shadow border">
-          <h3 className="text-lg font-semibold mb-4">Traffic Sources Performance</h3>
+    ),
+    regional: () =>
+      regionalTotals && regionalTotals.length > 0 ? (
+        <RegionalConsolidation regions={regionalTotals} currency={currency} basis={rateBasis} windowLabel={kpiWindowLabel} />
+      ) : null,
+    trafficSources: () => (
+      <div ref={trafficChartRef} className="bg-white p-6 rounded-lg shadow border h-full">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Traffic Sources Performance</h3>
+          <ExportMenu title="Traffic Sources" target={trafficChartRef} csv={trafficCsv} />
+        </div>
+        <ChartView title="Traffic Sources" csv={trafficCsv}>
           <ResponsiveContainer width="100%" height={300}>
             <PieChart>
               <Pie
-                data={Object.entries(currentMonthData.trafficSources).map(([key, value]) => ({
+                data={Object.entries(windowTraffic).map(([key, value]) => ({
                   name: key.charAt(0).toUpperCase() + key.slice(1),
                   value,
                 }))}
                 cx="50%"
                 cy="50%"
                 outerRadius={100}
-                fill="#8884d8"
+                fill={colors.primary}
                 dataKey="value"
-                label={({ name, percent = 0 }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                label={({ name, percent = 0 }) => `${name} ${formatPercent(percent, 0)}`}
               >
-                {Object.keys(currentMonthData.trafficSources).map((_, index) => (
-                  <Cell key={`cell-${index}`} fill={["#3B82F6", "#EF4444", "#10B981", "#F59E0B", "#8B5CF6"][index]} />
+                {Object.keys(windowTraffic).map((_, index) => (
+                  <Cell key={`cell-${index}`} fill={colors.series[index % colors.series.length]} />
                 ))}
               </Pie>
               <Tooltip />
             </PieChart>
           </ResponsiveContainer>
+        </ChartView>
+      </div>
+    ),
+    performanceMetrics: () => (
+      <div ref={metricsChartRef} className="bg-white p-6 rounded-lg shadow border h-full">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Monthly Performance Metrics</h3>
+          <ExportMenu title="Monthly Performance Metrics" target={metricsChartRef} csv={metricsCsv} />
         </div>
-
-        <div className="bg-white p-6 rounded-lg shadow border">
-          <h3 className="text-lg font-semibold mb-4">Monthly Performance Metrics</h3>
+        <ChartView title="Monthly Performance Metrics" csv={metricsCsv}>
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={historicalData}>
+            <LineChart data={visibleHistory}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="month" />
               <YAxis />
               <Tooltip />
               <Legend />
-              <Line type="monotone" dataKey="grossMargin" stroke="#10B981" name="Gross Margin %" />
-              <Line type="monotone" dataKey="conversionRate" stroke="#8B5CF6" name="Conversion Rate %" />
+              {showMargin && <Line type="monotone" dataKey="grossMargin" stroke={colors.primary} name="Gross Margin %" />}
+              <Line type="monotone" dataKey="conversionRate" stroke={colors.secondary} name="Conversion Rate %" />
+              {anomalies
+                .filter((a) => a.metric === "grossMargin" || a.metric === "conversionRate")
+                .map((a) => (
+                  <ReferenceDot
+                    key={`${a.metric}-${a.date}`}
+                    x={a.month}
+                    y={a.actual}
+                    r={6}
+                    fill={anomalyColor(a.severity)}
+                    stroke={colors.surface}
+                  />
+                ))}
             </LineChart>
           </ResponsiveContainer>
-        </div>
+        </ChartView>
       </div>
-    </div>
+    ),
+    alerts: () => (
+      <AlertsPanel
+        anomalies={anomalies}
+        breaches={ruleBreaches}
+        rules={visibleRules}
+        onRulesChange={(rules) => setAlertRules([...alertRules.filter((r) => !alertMetrics.includes(r.metric)), ...rules])}
+        metrics={alertMetrics}
+        currency={currency}
+      />
+    ),
+  };
+
+  const renderDashboard = () => (
+    <>
+      <ViewToolbar views={dashboardViews} editing={editingLayout} onEditingChange={setEditingLayout} />
+      <DashboardGrid layout={dashboardViews.layout} render={(id) => dashboardWidgets[id]()} editing={editingLayout} onChange={dashboardViews.setLayout} />
+    </>
   );
 
   const renderForecast = () => (
     <div className="space-y-6">
-      <div className="bg-white p-6 rounded-lg shadow border">
-        <h3 className="text-lg font-semibold mb-4">Advanced Forecasting Models</h3>
+      <div ref={forecastChartRef} className="bg-white p-6 rounded-lg shadow border">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Advanced Forecasting Models</h3>
+          <ExportMenu title="Sales Forecast" target={forecastChartRef} csv={() => toCsv(forecastData, forecastColumns)} />
+        </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
-          <div className="p-4 bg-blue-50 rounded-lg">
-            <h4 className="font-semibold text-blue-800">Time Series Model</h4>
-            <p className="text-sm text-blue-600 mt-1">ARIMA with seasonality</p>
-            <p className="text-2xl font-bold text-blue-800 mt-2">±8.5% MAE</p>
-          </div>
+          {modelResults.map((result, idx) => {
+            const model = FORECAST_MODELS[result.modelId];
+            const tone = (["blue", "green", "purple"] as const)[idx % 3];
+            const palette = {
+              blue: ["bg-blue-50", "text-blue-800", "text-blue-600", "ring-blue-400"],
+              green: ["bg-green-50", "text-green-800", "text-green-600", "ring-green-400"],
+              purple: ["bg-purple-50", "text-purple-800", "text-purple-600", "ring-purple-400"],
+            }[tone];
+            const backtest = backtests[idx].overall;
+            return (
+              <button
+                key={result.modelId}
+                onClick={() => setForecastChoice(result.modelId)}
+                disabled={result.points.length === 0}
+                className={`p-4 text-left rounded-lg ${palette[0]} ${
+                  forecastChoice === result.modelId ? `ring-2 ${palette[3]}` : ""
+                } disabled:opacity-60`}
+              >
+                <h4 className={`font-semibold ${palette[1]}`}>{model.name}</h4>
+                <p className={`text-sm mt-1 ${palette[2]}`}>{model.description}</p>
+                {result.points.length > 0 && backtest ? (
+                  <>
+                    <p className={`text-2xl font-bold mt-2 ${palette[1]}`}>±{formatPercent(backtest.mape)} MAPE</p>
+                    <p className={`text-xs mt-1 ${palette[2]}`}>
+                      MAE {formatCompact(backtest.mae, currency)} • RMSE {formatCompact(backtest.rmse, currency)} •{" "}
+                      {formatPercent(backtest.coverage, 0)} interval coverage
+                    </p>
+                  </>
+                ) : result.points.length > 0 ? (
+                  <p className="text-sm text-gray-600 mt-2">{backtests[idx].unavailableReason}</p>
+                ) : (
+                  <p className="text-sm text-gray-600 mt-2">{result.unavailableReason}</p>
+                )}
+              </button>
+            );
+          })}
+        </div>
 
-          <div className="p-4 bg-green-50 rounded-lg">
-            <h4 className="font-semibold text-green-800">ML Ensemble</h4>
-            <p className="text-sm text-green-600 mt-1">Random Forest + XGBoost</p>
-            <p className="text-2xl font-bold text-green-800 mt-2">±6.2% MAE</p>
-          </div>
+        {data.forecastData.length > 0 && (
+          <label className="flex items-center space-x-2 text-sm text-gray-600 mb-4">
+            <input
+              type="checkbox"
+              checked={forecastChoice === "source"}
+              onChange={(e) => setForecastChoice(e.target.checked ? "source" : "holtWinters")}
+            />
+            <span>Use the forecast supplied by {activeProvider.label}</span>
+          </label>
+        )}
 
-          <div className="p-4 bg-purple-50 rounded-lg">
-            <h4 className="font-semibold text-purple-800">Hybrid Model</h4>
-            <p className="text-sm text-purple-600 mt-1">Combined approach</p>
-            <p className="text-2xl font-bold text-purple-800 mt-2">±5.8% MAE</p>
-          </div>
-        </div>
+        {forecastData.length === 0 && (
+          <p className="text-sm text-gray-600 mb-4">
+            {selectedResult?.unavailableReason ?? "No forecast available for the current data."}
+          </p>
+        )}
 
-        <ResponsiveContainer width="100%" height={400}>
-          <ComposedChart data={forecastData.slice(0, 12)}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="month" />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Area type="monotone" dataKey="forecastHigh" stackId="1" stroke="#EF4444" fill="#FEE2E2" name="Forecast Range" />
-            <Area type="monotone" dataKey="forecastLow" stackId="1" stroke="#EF4444" fill="#FFFFFF" name="Forecast Low" />
-            <Line type="monotone" dataKey="revenue" stroke="#3B82F6" strokeWidth={3} name="Forecast" />
-            <Bar dataKey="confidence" fill="#10B981" opacity={0.3} name="Confidence" />
-          </ComposedChart>
-        </ResponsiveContainer>
+        <ChartView title="Sales Forecast" csv={() => toCsv(forecastData, forecastColumns)}>
+          <ResponsiveContainer width="100%" height={400}>
+            <ComposedChart data={forecastData.slice(0, 12)}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis />
+              <Tooltip />
+              <Legend />
+              <Area type="monotone" dataKey="forecastHigh" stackId="1" stroke={colors.secondary} fill={colors.band} name="Forecast Range" />
+              <Area type="monotone" dataKey="forecastLow" stackId="1" stroke={colors.secondary} fill={colors.surface} name="Forecast Low" />
+              <Line type="monotone" dataKey="revenue" stroke={colors.primary} strokeWidth={3} name="Forecast" />
+              <Bar dataKey="confidence" fill={colors.positive} opacity={0.3} name="Confidence" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </ChartView>
       </div>
 
-      <div className="bg-white p-6 rounded-lg shadow border">
-        <h3 className="text-lg font-semibold mb-4">Scenario Planning</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div className="p-4 border border-red-200 rounded-lg">
-            <h4 className="font-semibold text-red-800 mb-2">Bear Case (-15%)</h4>
-            <ul className="text-sm text-gray-600 space-y-1">
-              <li>• Economic downturn</li>
-              <li>• Increased competition</li>
-              <li>• Supply chain issues</li>
-              <li>• Reduced marketing spend</li>
-            </ul>
-            <p className="text-xl font-bold text-red-600 mt-3">${(kpis.totalRevenue * 0.85 / 1_000_000).toFixed(1)}M</p>
-          </div>
+      <BacktestPanel results={backtests} selectedModel={forecastChoice} horizon={BACKTEST_HORIZON} currency={currency} />
 
-          <div className="p-4 border border-blue-200 rounded-lg">
-            <h4 className="font-semibold text-blue-800 mb-2">Base Case (+8%)</h4>
-            <ul className="text-sm text-gray-600 space-y-1">
-              <li>• Steady market growth</li>
-              <li>• Maintained positioning</li>
-              <li>• Normal seasonality</li>
-              <li>• Current strategies</li>
-            </ul>
-            <p className="text-xl font-bold text-blue-600 mt-3">${(kpis.totalRevenue * 1.08 / 1_000_000).toFixed(1)}M</p>
-          </div>
+      <ScenarioPlanner
+        currency={currency}
+        baseline={forecastData.slice(0, 12)}
+        reference={trailingYear}
+        elasticity={fivePsAnalysis.Price.elasticity}
+        userId={user.id}
+        showMargin={showMargin}
+      />
 
-          <div className="p-4 border border-green-200 rounded-lg">
-            <h4 className="font-semibold text-green-800 mb-2">Bull Case (+25%)</h4>
-            <ul className="text-sm text-gray-600 space-y-1">
-              <li>• Successful new launches</li>
-              <li>• Market expansion</li>
-              <li>• Operational efficiency</li>
-              <li>• Increased brand strength</li>
-            </ul>
-            <p className="text-xl font-bold text-green-600 mt-3">${(kpis.totalRevenue * 1.25 / 1_000_000).toFixed(1)}M</p>
+      {data.inventory && hasDimensions && (
+        regionalFilters ? (
+          <div className="bg-white p-6 rounded-lg shadow border">
+            <h3 className="text-lg font-semibold mb-1">Inventory & Open-to-Buy</h3>
+            <p className="text-sm text-gray-500">
+              Stock is held for every region and channel; clear the region, country and channel filters to project it.
+            </p>
           </div>
-        </div>
-      </div>
+        ) : (
+          <InventoryPanel
+            currency={currency}
+            positions={inventoryPositions}
+            demand={inventoryDemand}
+            forecast={forecastData}
+            calendar={calendar}
+            labelFor={labelFor}
+          />
+        )
+      )}
     </div>
   );
 
   const render5Ps = () => (
     <div className="space-y-6">
       {/* Product Performance */}
-      <div className="bg-white p-6 rounded-lg shadow border">
-        <h3 className="text-lg font-semibold mb-4">Product Performance Analysis</h3>
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <div>
+      {productTree ? (
+        <ProductDrillDown
+          currency={currency}
+          hierarchy={productTree}
+          showMargin={showMargin}
+          notice={
+            regionalFilters
+              ? "SKU figures cover every region and channel."
+              : undefined
+          }
+        />
+      ) : (
+        <div ref={productChartRef} className="bg-white p-6 rounded-lg shadow border">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">Product Performance Analysis</h3>
+            <ExportMenu title="Product Performance" target={productChartRef} csv={categoriesCsv} />
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartView title="Product Performance" csv={categoriesCsv}>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={fivePsAnalysis.Product.topCategories}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="revenue" fill={colors.primary} name="Revenue" />
+                  <Bar dataKey="growth" fill={colors.secondary} name="Growth %" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartView>
+
+            <div className="space-y-4">
+              <h4 className="font-semibold">Category Insights</h4>
+              {fivePsAnalysis.Product.topCategories.map((category, idx) => (
+                <div key={idx} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">{category.name}</span>
+                    <span className="text-sm text-gray-600">{formatPercent(category.growth)} growth</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-gray-600 mt-1">
+                    <span>Revenue: {formatCompact(category.revenue, currency)}</span>
+                    {showMargin && <span>Margin: {formatPercent(category.margin)}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Price */}
+      {showMargin ? (
+        <PriceSimulator
+          currency={currency}
+          categories={fivePsAnalysis.Product.topCategories}
+          estimates={elasticities}
+          summary={fivePsAnalysis.Price}
+          notice={
+            elasticities.length === 0 || elasticities.some((e) => e.source === "assumed")
+              ? `Elasticities marked "assumed" use ${DEFAULT_ELASTICITY}: they need daily rows by category whose prices moved across at least six periods.`
+              : undefined
+          }
+        />
+      ) : (
+        <Restricted title="Price Elasticity & Promotion Depth (Price)" reason="The simulator works in gross profit, which your role doesn't cover." />
+      )}
+
+      {/* Channel Performance */}
+      {hasDimensions ? (
+        <FunnelPanel
+          currency={currency}
+          rows={filteredDaily}
+          calendar={calendar}
+          periodKeys={windowKeys}
+          trendKeys={visibleHistory.map((m) => m.date)}
+          labelFor={labelFor}
+        />
+      ) : (
+        <div className="bg-white p-6 rounded-lg shadow border">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">Channel Performance Analysis (Place)</h3>
+            <ExportMenu title="Channel Performance" csv={channelsCsv} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {fivePsAnalysis.Place.channelPerformance.map((c) => (
+              <div key={c.channel} className="p-3 text-center bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium">{c.channel}</p>
+                <p className="text-lg font-bold text-blue-600">{formatPercent(c.revenue, 0)} of revenue</p>
+                <p className="text-xs text-gray-600">{formatPercent(c.conversion)} conversion</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!hasDimensions && (
+        <p className="text-sm text-gray-500">
+          Category and channel figures are examples; {activeProvider.label} has no daily rows to filter.
+        </p>
+      )}
+
+      {/* Promotion Analysis */}
+      {withheld.includes("marketing") ? (
+        <Restricted title="Campaign Attribution & Marketing Mix (Promotion)" reason="Campaigns cover the whole business, beyond your access." />
+      ) : data.marketing ? (
+        <CampaignPanel
+          currency={currency}
+          marketing={data.marketing}
+          calendar={calendar}
+          periodKeys={windowKeys}
+          labelFor={labelFor}
+          notice={hasDimensions && hasDimensionFilters(filters) ? "Campaigns cover every region, channel and category." : undefined}
+        />
+      ) : (
+        <div ref={campaignChartRef} className="bg-white p-6 rounded-lg shadow border">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">Promotional Campaign ROI Analysis</h3>
+            <ExportMenu title="Campaign ROI" target={campaignChartRef} csv={campaignsCsv} />
+          </div>
+          <ChartView title="Campaign ROI" csv={campaignsCsv}>
             <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={fivePsAnalysis.Product.topCategories}>
+              <ComposedChart data={fivePsAnalysis.Promotion.campaignROI}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" />
+                <XAxis dataKey="campaign" />
                 <YAxis />
                 <Tooltip />
                 <Legend />
-                <Bar dataKey="revenue" fill="#3B82F6" name="Revenue" />
-                <Bar dataKey="growth" fill="#10B981" name="Growth %" />
-              </BarChart>
+                <Bar dataKey="spend" fill={colors.secondary} name={`Campaign Spend (${currency})`} />
+                <Line type="monotone" dataKey="roi" stroke={colors.primary} strokeWidth={3} name="ROI Multiplier" />
+              </ComposedChart>
             </ResponsiveContainer>
-          </div>
+          </ChartView>
 
-          <div className="space-y-4">
-            <h4 className="font-semibold">Category Insights</h4>
-            {fivePsAnalysis.Product.topCategories.map((category, idx) => (
-              <div key={idx} className="p-3 bg-gray-50 rounded-lg">
-                <div className="flex justify-between items-center">
-                  <span className="font-medium">{category.name}</span>
-                  <span className="text-sm text-gray-600">{(category.growth * 100).toFixed(1)}% growth</span>
-                </div>
-                <div className="flex justify-between text-sm text-gray-600 mt-1">
-                  <span>Revenue: ${(category.revenue / 1_000_000).toFixed(1)}M</span>
-                  <span>Margin: {(category.margin * 100).toFixed(1)}%</span>
-                </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+            {fivePsAnalysis.Promotion.campaignROI.map((c, idx) => (
+              <div key={idx} className="p-3 text-center bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium">{c.campaign}</p>
+                <p className="text-lg font-bold text-green-600">{formatMultiple(c.roi)} ROI</p>
+                <p className="text-xs text-gray-600">{formatCompact(c.spend, currency)} spend</p>
               </div>
             ))}
           </div>
+          <p className="text-sm text-gray-500 mt-2">Example campaigns; {activeProvider.label} has no campaign data.</p>
         </div>
-      </div>
-
-      {/* Promotion Analysis */}
-      <div className="bg-white p-6 rounded-lg shadow border">
-        <h3 className="text-lg font-semibold mb-4">Promotional Campaign ROI Analysis</h3>
-        <ResponsiveContainer width="100%" height={300}>
-          <ComposedChart data={fivePsAnalysis.Promotion.campaignROI}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="campaign" />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Bar dataKey="spend" fill="#EF4444" name="Campaign Spend ($)" />
-            <Line type="monotone" dataKey="roi" stroke="#10B981" strokeWidth={3} name="ROI Multiplier" />
-          </ComposedChart>
-        </ResponsiveContainer>
-
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
-          {fivePsAnalysis.Promotion.campaignROI.map((c, idx) => (
-            <div key={idx} className="p-3 text-center bg-gray-50 rounded-lg">
-              <p className="text-sm font-medium">{c.campaign}</p>
-              <p className="text-lg font-bold text-green-600">{c.roi.toFixed(1)}x ROI</p>
-              <p className="text-xs text-gray-600">${(c.spend / 1_000).toFixed(0)}K spend</p>
-            </div>
-          ))}
-        </div>
-      </div>
+      )}
 
       {/* Customer Segments */}
-      <div className="bg-white p-6 rounded-lg shadow border">
-        <h3 className="text-lg font-semibold mb-4">Customer Segment Analysis (People)</h3>
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <ResponsiveContainer width="100%" height={250}>
-            <PieChart>
-              <Pie
-                data={fivePsAnalysis.People.customerSegments}
-                cx="50%"
-                cy="50%"
-                outerRadius={80}
-                fill="#8884d8"
-                dataKey="revenue"
-                label={({ segment, revenue }) => `${segment}: ${(revenue * 100).toFixed(0)}%`}
-              >
-                {fivePsAnalysis.People.customerSegments.map((_, index) => (
-                  <Cell key={`cell-${index}`} fill={["#3B82F6", "#EF4444", "#10B981"][index]} />
-                ))}
-              </Pie>
-              <Tooltip />
-            </PieChart>
-          </ResponsiveContainer>
+      {withheld.includes("orders") ? (
+        <Restricted title="Customer Segment Analysis (People)" reason="Customers cover the whole business, beyond your access." />
+      ) : data.orders ? (
+        <CustomerPanel
+          currency={currency}
+          orders={data.orders}
+          notice={hasDimensions && hasDimensionFilters(filters) ? "Customers cover every region, channel and category." : undefined}
+        />
+      ) : (
+        <div ref={segmentChartRef} className="bg-white p-6 rounded-lg shadow border">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">Customer Segment Analysis (People)</h3>
+            <ExportMenu title="Customer Segments" target={segmentChartRef} csv={segmentsCsv} />
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartView title="Customer Segments" csv={segmentsCsv}>
+              <ResponsiveContainer width="100%" height={250}>
+                <PieChart>
+                  <Pie
+                    data={fivePsAnalysis.People.customerSegments}
+                    cx="50%"
+                    cy="50%"
+                    outerRadius={80}
+                    fill={colors.primary}
+                    dataKey="revenue"
+                    label={({ segment, revenue }) => `${segment}: ${formatPercent(revenue, 0)}`}
+                  >
+                    {fivePsAnalysis.People.customerSegments.map((_, index) => (
+                      <Cell key={`cell-${index}`} fill={colors.series[index % colors.series.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                </PieChart>
+              </ResponsiveContainer>
+            </ChartView>
 
-          <div className="space-y-3">
-            <h4 className="font-semibold">Segment Performance</h4>
-            {fivePsAnalysis.People.customerSegments.map((s, idx) => (
-              <div key={idx} className="p-3 border rounded-lg">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="font-medium">{s.segment}</span>
-                  <span className="text-sm bg-blue-100 text-blue-800 px-2 py-1 rounded">
-                    {(s.count * 100).toFixed(0)}% of customers
-                  </span>
-                </div>
-                <div className="text-sm text-gray-600">
-                  <p>Revenue Contribution: {(s.revenue * 100).toFixed(0)}%</p>
-                  <p>Revenue per Customer: ${((s.revenue / Math.max(s.count, 1e-6)) * 1000).toFixed(0)}</p>
+            <div className="space-y-3">
+              <h4 className="font-semibold">Segment Performance</h4>
+              {fivePsAnalysis.People.customerSegments.map((s, idx) => (
+                <div key={idx} className="p-3 border rounded-lg">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="font-medium">{s.segment}</span>
+                    <span className="text-sm bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                      {formatPercent(s.count, 0)} of customers
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    <p>Revenue Contribution: {formatPercent(s.revenue, 0)}</p>
+                    {s.revenuePerCustomer !== undefined && <p>Revenue per Customer: {formatMoney(s.revenuePerCustomer, currency)}</p>}
+                  </div>
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
+          <p className="text-sm text-gray-500 mt-2">Example segments; {activeProvider.label} has no customer orders.</p>
         </div>
-      </div>
+      )}
     </div>
   );
 
@@ -507,52 +1225,158 @@ const combinedData: CombinedPoint[] = [
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">North America eCommerce Analytics</h1>
-          <p className="text-gray-600">Real-time sales forecasting and performance analytics dashboard</p>
+          <div className="flex items-start justify-between flex-wrap gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">{`${regionScope} eCommerce Analytics`.trim()}</h1>
+              <p className="text-gray-600">Real-time sales forecasting and performance analytics dashboard</p>
+            </div>
+            <UserMenu user={user} auth={auth} />
+          </div>
+          {(scoped || !showMargin) && (
+            <p className="mt-2 text-sm text-gray-500">
+              {access.role.name} access: {describeScope(access.scope)}
+              {withheld.length > 0 && ` • ${withheld.map((w) => WITHHELD_NAMES[w]).join(", ")} cover the whole business and are hidden`}
+              {!showMargin && " • margin figures are hidden"}
+            </p>
+          )}
           <div className="mt-4 flex items-center space-x-4 text-sm text-gray-500">
-            <span>Last Updated: {new Date().toLocaleString()}</span>
+            <span>Last Updated: {(live.lastEventAt ?? new Date()).toLocaleString()}</span>
+            <span>•</span>
+            <LiveStatus live={live} />
             <span>•</span>
-            <span>Data Source: NA eCommerce Platform</span>
+            <span>Data Source: {activeProvider.label}</span>
+            <span>•</span>
+            <button onClick={() => setShowImport((v) => !v)} className="flex items-center space-x-1 text-blue-600 hover:underline">
+              <FileUp className="h-4 w-4" />
+              <span>Import CSV</span>
+            </button>
+            {importedProvider && (
+              <button onClick={() => setImportedProvider(null)} className="text-gray-600 hover:underline">
+                Revert to {baseProvider.label}
+              </button>
+            )}
+          </div>
+          <div className="mt-3 flex items-center flex-wrap gap-4 text-sm text-gray-500">
+            <CalendarSelector value={calendarConfig} onChange={setCalendarConfig} notice={calendarView.notice} />
+            <ThemeSelector value={theme} onChange={onThemeChange} />
+            {rateTable && (
+              <CurrencySelector
+                currencies={rateTable.currencies}
+                value={currency}
+                onChange={setCurrencyChoice}
+                basis={rateBasis}
+                onBasisChange={setRateBasis}
+              />
+            )}
+            {currentMonthData && latestFiscalYear && (
+              <span>
+                Latest period: {currentMonthData.month} • FY{latestFiscalYear.fiscalYear} {latestFiscalYear.start} – {latestFiscalYear.end}
+                {calendar.pattern !== "gregorian" && ` (${latestFiscalYear.weeks} weeks)`}
+              </span>
+            )}
           </div>
         </div>
 
+        {showImport && <CsvImportPanel onApply={applyImport} onClose={() => setShowImport(false)} />}
+
+        {status === "ready" && (
+          <FilterBar
+            value={filters}
+            onChange={setFilters}
+            periods={historicalData}
+            options={filterOptions}
+            dimensionNotice={hasDimensions ? undefined : "Region, channel and category filters need daily data from the source."}
+          />
+        )}
+
         {/* Tabs */}
-        <div className="mb-6">
-          <nav className="flex space-x-8">
-            {[
-              { id: "dashboard", name: "Executive Dashboard", icon: TrendingUp },
-              { id: "forecast",  name: "Sales Forecast",      icon: Calendar   },
-              { id: "5ps",       name: "5P's Analysis",       icon: Target     },
-            ].map((tab) => {
+        <div className="mb-6 flex items-center justify-between flex-wrap gap-4">
+          <nav className="flex space-x-8" role="tablist" aria-label="Analytics views" onKeyDown={onTabKeyDown}>
+            {tabs.map((tab) => {
               const Icon = tab.icon;
               return (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as TabId)}
+                  ref={(el) => {
+                    tabRefs.current[tab.id] = el;
+                  }}
+                  id={`tab-${tab.id}`}
+                  role="tab"
+                  aria-selected={activeTab === tab.id}
+                  aria-controls={`tabpanel-${tab.id}`}
+                  tabIndex={activeTab === tab.id ? 0 : -1}
+                  onClick={() => setActiveTab(tab.id)}
                   className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                    activeTab === (tab.id as TabId)
+                    activeTab === tab.id
                       ? "bg-blue-100 text-blue-700 border border-blue-200"
                       : "text-gray-600 hover:text-gray-900 hover:bg-gray-100"
                   }`}
                 >
-                  <Icon className="h-5 w-5" />
+                  <Icon className="h-5 w-5" aria-hidden="true" />
                   <span>{tab.name}</span>
                 </button>
               );
             })}
           </nav>
+          {status === "ready" && (
+            <ReportExport
+              title={tabs.find((t) => t.id === activeTab)?.name ?? "Report"}
+              subtitle={`${regionScope} eCommerce Analytics`.trim()}
+              target={tabContentRef}
+              details={
+                activeTab === "dashboard"
+                  ? [...reportDetails, `View: ${dashboardViews.active.name}${dashboardViews.modified ? " (modified)" : ""}`]
+                  : reportDetails
+              }
+              summary={[
+                ...(tabInsights.length > 0 ? [insightsSection] : []),
+                ...(activeTab === "dashboard" && kpiSection.tables[0].rows.length > 0 ? [kpiSection] : []),
+              ]}
+              datasets={reportDatasets[activeTab]}
+            />
+          )}
         </div>
 
         {/* Content */}
-        <div>
-          {activeTab === "dashboard" && renderDashboard()}
-          {activeTab === "forecast" && renderForecast()}
-          {activeTab === "5ps" && render5Ps()}
+        <div ref={tabContentRef} id={`tabpanel-${activeTab}`} role="tabpanel" aria-labelledby={`tab-${activeTab}`} tabIndex={0}>
+          {status !== "ready" ? (
+            <DataState status={status} error={error} sourceLabel={activeProvider.label} onRetry={reload} />
+          ) : scoped && data.historicalData.length === 0 ? (
+            <div className="bg-white p-6 rounded-lg shadow border text-center text-gray-600">
+              {withheld.includes("historicalData")
+                ? `${activeProvider.label} has no daily rows by region and category, so it can't be limited to your access (${describeScope(access.scope)}).`
+                : `${activeProvider.label} has no sales in your access (${describeScope(access.scope)}).`}
+            </div>
+          ) : isFiltered(filters) && kpiWindow.length === 0 ? (
+            <div className="bg-white p-6 rounded-lg shadow border text-center text-gray-600">
+              No sales match the current filters.
+            </div>
+          ) : (
+            <>
+              <InsightsPanel insights={tabInsights} />
+              {activeTab === "dashboard" && renderDashboard()}
+              {activeTab === "variance" && (
+                <VarianceReport
+                  currency={currency}
+                  plan={plan}
+                  planNotice={planNotice}
+                  history={historicalData}
+                  closedHistory={closedHistory}
+                  forecast={modelForecast}
+                  daily={filteredDaily}
+                  calendar={calendar}
+                  labelFor={labelFor}
+                />
+              )}
+              {activeTab === "forecast" && renderForecast()}
+              {activeTab === "5ps" && render5Ps()}
+            </>
+          )}
         </div>
 
         {/* Footer */}
         <div className="mt-12 pt-6 border-t border-gray-200 text-center text-sm text-gray-500">
-          <p> North America Retail Finance Analytics • Built with React & Recharts</p>
+          <p>{`${regionScope} Retail Finance Analytics`.trim()} • Built with React & Recharts</p>
           <p className="mt-1">Real-time forecasting powered by advanced ML models</p>
         </div>
       </div>
@@ -560,8 +1384,22 @@ const combinedData: CombinedPoint[] = [
   );
 };
 
-<<<<<<< HEAD:src/CoachRetailAnalytics.tsx
+/** Signs the user in, then shows the dashboard their role allows; switching user starts a fresh dashboard. The theme spans both. */
+const RetailAnalytics: React.FC<RetailAnalyticsProps> = ({ identity, ...props }) => {
+  const [defaultIdentity] = useState<IdentityProvider>(() => createIdentityProviderFromEnv());
+  const auth = useAuth(identity ?? defaultIdentity);
+  const [theme, setTheme] = useTheme();
+  return (
+    <ThemeContext.Provider value={theme}>
+      <div data-theme={theme}>
+        {auth.status !== "signedIn" || !auth.user ? (
+          <SignIn auth={auth} />
+        ) : (
+          <AnalyticsDashboard key={auth.user.id} {...props} user={auth.user} auth={auth} theme={theme} onThemeChange={setTheme} />
+        )}
+      </div>
+    </ThemeContext.Provider>
+  );
+};
+
 export default RetailAnalytics;
-=======
-export default CoachRetailAnalytics;
->>>>>>> 41f5736ff9064d9de931be28c2b40eb1b0093b05:src/RetailAnalytics.tsx
@@ -0,0 +1,54 @@
+import { MonthData } from "../types";
+import { monthLabel, toMonthKey } from "../analytics/periods";
+import { detectAnomalies } from "./anomalies";
+import { evaluateRules } from "./rules";
+
+// Three seasonal years with small deterministic noise
+const history: MonthData[] = Array.from({ length: 36 }, (_, t) => {
+  const date = toMonthKey(2023, t);
+  const season = 1 + 0.3 * Math.sin((2 * Math.PI * t) / 12);
+  const noise = 1 + 0.02 * Math.sin(t * 7.3);
+  return {
+    month: monthLabel(date),
+    date,
+    revenue: 1_000_000 * season * noise,
+    units: 1000,
+    grossMargin: 0.7 + 0.005 * Math.cos(t * 5.1),
+    conversionRate: 0.03 * noise,
+    avgOrderValue: 320,
+    trafficSources: { organic: 1, paid: 1, social: 1, email: 1, direct: 1 },
+  };
+});
+
+test("flags a period far from its seasonal expectation", () => {
+  const dipped = history.map((m, t) => (t === 30 ? { ...m, conversionRate: m.conversionRate * 0.6 } : m));
+  const anomalies = detectAnomalies(dipped, "conversionRate");
+  expect(anomalies).toHaveLength(1);
+  expect(anomalies[0]).toMatchObject({ date: "2025-07-01", severity: "critical" });
+  expect(anomalies[0].deviation).toBeLessThan(-0.3);
+  expect(detectAnomalies(history, "revenue")).toEqual([]);
+});
+
+test("too little history has no seasonal expectation", () => {
+  expect(detectAnomalies(history.slice(0, 12), "revenue")).toEqual([]);
+});
+
+test("threshold rules skip totals for a period still in progress", () => {
+  const rules = [
+    { id: "m", metric: "grossMargin" as const, comparator: "below" as const, value: 0.6975, severity: "warning" as const },
+    { id: "r", metric: "revenue" as const, comparator: "below" as const, value: 750_000, severity: "critical" as const },
+  ];
+  const mtd = { ...history[35], date: "2026-01-01", month: "Jan '26 (MTD)", revenue: 100_000 };
+  const breaches = evaluateRules([...history.slice(-12), mtd], rules, "2026-01-01");
+  expect(breaches.filter((b) => b.rule.id === "r").map((b) => b.date)).not.toContain("2026-01-01");
+  expect(breaches.filter((b) => b.rule.id === "m").length).toBeGreaterThan(0);
+});
+
+test("money thresholds are converted from the currency they were set in", () => {
+  const rule = { id: "aov", metric: "avgOrderValue" as const, comparator: "below" as const, value: 300, currency: "EUR", severity: "warning" as const };
+  const toReporting = (amount: number, currency: string) => (currency === "EUR" ? amount * 1.1 : amount);
+  // €300 is $330, above the $320 order value every period
+  expect(evaluateRules(history.slice(-3), [rule], undefined, toReporting)).toHaveLength(3);
+  expect(evaluateRules(history.slice(-3), [rule])).toHaveLength(0);
+  expect(evaluateRules(history.slice(-3), [{ ...rule, currency: "USD" }], undefined, toReporting)).toHaveLength(0);
+});
@@ -0,0 +1,87 @@
+import { MonthData } from "../types";
+import { FORECAST_MODELS, ForecastModel } from "../forecasting/models";
+import { SEASONAL_PERIOD } from "../forecasting/engine";
+
+/* =======================
+   Anomaly detection
+   =======================
+   Each KPI series is fitted with a seasonal model; a period is anomalous
+   when its deviation from the one-step-ahead expectation is far outside
+   the series' usual deviations (robust z-score on relative residuals).
+*/
+
+export type AlertMetric = "revenue" | "grossMargin" | "conversionRate" | "avgOrderValue";
+
+/** `total` metrics grow through a period, so a period still in progress can't be judged on them. */
+export const ALERT_METRICS: Record<AlertMetric, { name: string; unit: "money" | "rate"; total: boolean }> = {
+  revenue: { name: "Revenue", unit: "money", total: true },
+  grossMargin: { name: "Gross margin", unit: "rate", total: false },
+  conversionRate: { name: "Conversion rate", unit: "rate", total: false },
+  avgOrderValue: { name: "Avg order value", unit: "money", total: false },
+};
+
+export type AlertSeverity = "warning" | "critical";
+
+export interface Anomaly {
+  metric: AlertMetric;
+  date: string;             // period key
+  month: string;            // display label
+  actual: number;
+  expected: number;
+  deviation: number;        // relative, (actual - expected) / expected
+  score: number;            // robust z-score
+  severity: AlertSeverity;
+}
+
+export interface AnomalyOptions {
+  /** |z| at or above which a period is flagged (default 3.5, the usual MAD cut-off); 1.5x this is critical. */
+  threshold?: number;
+  period?: number;
+}
+
+const median = (xs: number[]) => {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/** Holt-Winters when there is enough history, else same period last year. */
+const expectationModel = (n: number, period: number): ForecastModel | null =>
+  [FORECAST_MODELS.holtWinters, FORECAST_MODELS.seasonalNaive].find((m) => n >= m.minHistory(period)) ?? null;
+
+/** Flags unusual periods in one metric; empty when the series is too short to have a seasonal expectation. */
+export const detectAnomalies = (history: MonthData[], metric: AlertMetric, options: AnomalyOptions = {}): Anomaly[] => {
+  const { threshold = 3.5, period = SEASONAL_PERIOD } = options;
+  const model = expectationModel(history.length, period);
+  if (!model) return [];
+  const series = history.map((m) => m[metric]);
+  const { fitted } = model.fit(series, period);
+
+  const residuals = series
+    .map((y, t) => ({ t, expected: fitted[t] }))
+    .filter((r): r is { t: number; expected: number } => r.expected !== null && r.expected > 0)
+    .map(({ t, expected }) => ({ t, expected, deviation: (series[t] - expected) / expected }));
+  if (residuals.length < 4) return [];
+
+  const centre = median(residuals.map((r) => r.deviation));
+  // 1.4826 x MAD estimates the standard deviation for normal residuals.
+  const scale = 1.4826 * median(residuals.map((r) => Math.abs(r.deviation - centre)));
+  if (scale === 0) return [];
+
+  return residuals
+    .map(({ t, expected, deviation }) => ({ t, expected, deviation, score: (deviation - centre) / scale }))
+    .filter((r) => Math.abs(r.score) >= threshold)
+    .map(({ t, expected, deviation, score }) => ({
+      metric,
+      date: history[t].date,
+      month: history[t].month,
+      actual: series[t],
+      expected,
+      deviation,
+      score,
+      severity: Math.abs(score) >= threshold * 1.5 ? "critical" : "warning",
+    }));
+};
+
+export const detectAllAnomalies = (history: MonthData[], options?: AnomalyOptions): Anomaly[] =>
+  (Object.keys(ALERT_METRICS) as AlertMetric[]).flatMap((metric) => detectAnomalies(history, metric, options));
@@ -0,0 +1,62 @@
+import { MonthData } from "../types";
+import { ALERT_METRICS, AlertMetric, AlertSeverity } from "./anomalies";
+import { DEFAULT_CURRENCY, formatCompact, formatMoney } from "../currency/format";
+import { formatPercent } from "../analytics/metrics";
+
+/* =======================
+   Threshold rules
+   ======================= */
+
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  comparator: "below" | "above";
+  value: number;            // same unit as the metric (rates as 0..1)
+  /** Currency a money threshold was set in; it is converted to the reporting currency before comparing. */
+  currency?: string;
+  severity: AlertSeverity;
+}
+
+export interface RuleBreach {
+  rule: AlertRule;
+  date: string;
+  month: string;
+  actual: number;
+}
+
+export const DEFAULT_RULES: AlertRule[] = [
+  { id: "margin-floor", metric: "grossMargin", comparator: "below", value: 0.65, severity: "critical" },
+];
+
+export const formatMetricValue = (metric: AlertMetric, value: number, currency: string = DEFAULT_CURRENCY): string =>
+  ALERT_METRICS[metric].unit === "rate"
+    ? formatPercent(value)
+    : value >= 10_000
+    ? formatCompact(value, currency, 2)
+    : formatMoney(value, currency);
+
+/** "Gross margin below 65.0%"; a money threshold is shown in the currency it was set in. */
+export const describeRule = (rule: AlertRule, currency: string = DEFAULT_CURRENCY): string =>
+  `${ALERT_METRICS[rule.metric].name} ${rule.comparator} ${formatMetricValue(rule.metric, rule.value, rule.currency ?? currency)}`;
+
+/** Restates `amount` from `currency` in the reporting currency at the rates for period `date`. */
+export type ThresholdConverter = (amount: number, currency: string, date: string) => number;
+
+/**
+ * Periods breaching each rule. `inProgress` names a partial period that total
+ * metrics skip; `toReporting` converts money thresholds set in another currency.
+ */
+export const evaluateRules = (
+  history: MonthData[],
+  rules: AlertRule[],
+  inProgress?: string,
+  toReporting?: ThresholdConverter
+): RuleBreach[] =>
+  rules.flatMap((rule) => {
+    const threshold = (date: string) =>
+      ALERT_METRICS[rule.metric].unit === "money" && rule.currency && toReporting ? toReporting(rule.value, rule.currency, date) : rule.value;
+    return history
+      .filter((m) => !(ALERT_METRICS[rule.metric].total && m.date === inProgress))
+      .filter((m) => (rule.comparator === "below" ? m[rule.metric] < threshold(m.date) : m[rule.metric] > threshold(m.date)))
+      .map((m) => ({ rule, date: m.date, month: m.month, actual: m[rule.metric] }));
+  });
@@ -0,0 +1,47 @@
+import { DEFAULT_RULES } from "./rules";
+import { loadAlertRules, saveAlertRules } from "./storage";
+
+afterEach(() => window.localStorage.clear());
+
+test("stored rules with an unknown severity are dropped", () => {
+  window.localStorage.setItem(
+    "retail-analytics:alert-rules:exec",
+    JSON.stringify([
+      { id: "a", metric: "grossMargin", comparator: "below", value: 0.6, severity: "critical" },
+      { id: "b", metric: "grossMargin", comparator: "below", value: 0.6, severity: "urgent" },
+      { id: "c", metric: "grossMargin", comparator: "below", value: 0.6 },
+    ])
+  );
+  expect(loadAlertRules("exec").map((r) => r.id)).toEqual(["a"]);
+});
+
+test("money rules saved without a currency were set in the default one", () => {
+  saveAlertRules("exec", [
+    { id: "r", metric: "revenue", comparator: "below", value: 500_000, severity: "warning" },
+    { id: "e", metric: "revenue", comparator: "above", value: 900_000, currency: "EUR", severity: "warning" },
+    { id: "m", metric: "grossMargin", comparator: "below", value: 0.6, severity: "warning" },
+  ]);
+  expect(loadAlertRules("exec").map((r) => r.currency)).toEqual(["USD", "EUR", undefined]);
+});
+
+test("one user's rules are never loaded for another", () => {
+  saveAlertRules("exec", [{ id: "r", metric: "revenue", comparator: "below", value: 500_000, currency: "USD", severity: "critical" }]);
+  expect(loadAlertRules("emea")).toEqual(DEFAULT_RULES);
+  expect(loadAlertRules("exec").map((r) => r.id)).toEqual(["r"]);
+});
+
+test("stored rules must have fields of the right type and a known metric of their own", () => {
+  window.localStorage.setItem(
+    "retail-analytics:alert-rules:exec",
+    JSON.stringify([
+      { id: "ok", metric: "revenue", comparator: "above", value: 1, currency: "USD", severity: "warning" },
+      { id: "proto", metric: "toString", comparator: "above", value: 1, severity: "warning" },
+      { id: "ctor", metric: "constructor", comparator: "above", value: 1, severity: "warning" },
+      { id: 7, metric: "revenue", comparator: "above", value: 1, severity: "warning" },
+      { id: "text", metric: "revenue", comparator: "above", value: "1", severity: "warning" },
+      { id: "cur", metric: "revenue", comparator: "above", value: 1, currency: 1, severity: "warning" },
+      null,
+    ])
+  );
+  expect(loadAlertRules("exec").map((r) => r.id)).toEqual(["ok"]);
+});
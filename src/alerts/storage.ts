@@ -0,0 +1,51 @@
+import { AlertRule, DEFAULT_RULES } from "./rules";
+import { ALERT_METRICS } from "./anomalies";
+import { DEFAULT_CURRENCY } from "../currency/format";
+
+// One set of rules per user, so switching accounts never evaluates someone else's thresholds.
+const storageKey = (userId: string) => `retail-analytics:alert-rules:${userId}`;
+
+/** A stored rule with every field of the right type; `metric` must be one of ALERT_METRICS' own keys, not an inherited one. */
+const isRule = (raw: unknown): raw is AlertRule => {
+  if (typeof raw !== "object" || raw === null) return false;
+  const r = raw as Record<string, unknown>;
+  return (
+    typeof r.id === "string" &&
+    r.id !== "" &&
+    typeof r.metric === "string" &&
+    Object.prototype.hasOwnProperty.call(ALERT_METRICS, r.metric) &&
+    typeof r.value === "number" &&
+    Number.isFinite(r.value) &&
+    (r.comparator === "below" || r.comparator === "above") &&
+    (r.severity === "warning" || r.severity === "critical") &&
+    (r.currency === undefined || typeof r.currency === "string")
+  );
+};
+
+/**
+ * Reads the user's alert rules from localStorage; nothing stored yet yields the
+ * defaults, bad data yields [] and malformed rules are dropped. Money rules
+ * saved before thresholds carried a currency were set in the default one.
+ */
+export const loadAlertRules = (userId: string): AlertRule[] => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    if (raw === null) return DEFAULT_RULES;
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed
+          .filter(isRule)
+          .map((r) => (ALERT_METRICS[r.metric].unit === "money" && !r.currency ? { ...r, currency: DEFAULT_CURRENCY } : r))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertRules = (userId: string, rules: AlertRule[]): void => {
+  try {
+    window.localStorage.setItem(storageKey(userId), JSON.stringify(rules));
+  } catch {
+    // Storage full or disabled: rules stay in memory for this session.
+  }
+};
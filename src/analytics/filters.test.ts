@@ -0,0 +1,68 @@
+import { Channel, DailyData } from "../types";
+import {
+  EMPTY_FILTERS, categoryPerformance, channelPerformance, describeFilters, filterDaily, filtersFromSearch, filtersToSearch
+} from "./filters";
+
+const row = (date: string, country: string, channel: Channel, category: string, revenue: number): DailyData => ({
+  date,
+  region: "North America",
+  country,
+  channel,
+  category,
+  revenue,
+  units: 1,
+  orders: 1,
+  grossProfit: revenue / 2,
+  trafficSources: { organic: 10, paid: 0, social: 0, email: 0, direct: 0 },
+});
+
+// Every day of a month for one dimension combination
+const month = (ym: string, days: number, country: string, channel: Channel, category: string, revenue: number) =>
+  Array.from({ length: days }, (_, d) => row(`${ym}-${String(d + 1).padStart(2, "0")}`, country, channel, category, revenue));
+
+test("dimension filters combine across dimensions and match any selected value", () => {
+  const rows = [
+    row("2024-01-01", "US", "Desktop", "Handbags", 10),
+    row("2024-01-01", "Canada", "Mobile", "Handbags", 20),
+    row("2024-01-01", "US", "Tablet", "Footwear", 30),
+  ];
+  expect(filterDaily(rows, EMPTY_FILTERS)).toBe(rows);
+  expect(filterDaily(rows, { ...EMPTY_FILTERS, countries: ["US"], categories: ["Handbags"] })).toEqual([rows[0]]);
+  expect(filterDaily(rows, { ...EMPTY_FILTERS, channels: ["Mobile", "Tablet"] })).toEqual([rows[1], rows[2]]);
+});
+
+test("filters round-trip through the query string and keep unrelated params", () => {
+  const filters = { ...EMPTY_FILTERS, from: "2024-03-01", to: "2024-12-01", channels: ["Mobile" as Channel], categories: ["Handbags", "Footwear"] };
+  const search = filtersToSearch(filters, "?tab=forecast&channel=Desktop");
+  expect(search).toBe("?tab=forecast&from=2024-03&to=2024-12&channel=Mobile&category=Handbags&category=Footwear");
+  expect(filtersFromSearch(search)).toEqual(filters);
+  expect(filtersFromSearch("?channel=Phone&from=March")).toEqual(EMPTY_FILTERS);
+});
+
+test("names containing commas survive the round-trip", () => {
+  const filters = { ...EMPTY_FILTERS, categories: ["Bags, Small", "Footwear"], countries: ["Korea, Republic of"] };
+  expect(filtersFromSearch(filtersToSearch(filters))).toEqual(filters);
+});
+
+test("active filters are described in words for report headers", () => {
+  expect(describeFilters(EMPTY_FILTERS)).toBe("No filters");
+  expect(describeFilters({ ...EMPTY_FILTERS, from: "2024-03-01", regions: ["EMEA"], channels: ["Mobile", "Tablet"] }, (k) => k.slice(0, 7))).toBe(
+    "2024-03 – Latest • Region: EMEA • Channel: Mobile, Tablet"
+  );
+});
+
+test("category and channel performance follow the period window", () => {
+  const rows = [
+    ...month("2023-01", 31, "US", "Desktop", "Handbags", 10),
+    ...month("2024-01", 31, "US", "Desktop", "Handbags", 12),
+    ...month("2024-01", 31, "US", "Mobile", "Footwear", 4),
+  ];
+  const [handbags, footwear] = categoryPerformance(rows, ["2024-01-01"]);
+  expect(handbags).toMatchObject({ name: "Handbags", revenue: 372, margin: 0.5 });
+  expect(handbags.growth).toBeCloseTo(0.2);
+  expect(footwear.growth).toBe(0); // no prior-year periods to compare with
+
+  const channels = channelPerformance(rows, ["2024-01-01"]);
+  expect(channels.find((c) => c.channel === "Desktop")?.revenue).toBeCloseTo(0.75);
+  expect(channels.find((c) => c.channel === "Mobile")?.conversion).toBeCloseTo(0.1);
+});
@@ -0,0 +1,184 @@
+import { CategoryPerf, Channel, DailyData, MonthData } from "../types";
+import { GREGORIAN, FiscalCalendarConfig, aggregateDaily, toFiscalPeriod } from "./fiscalCalendar";
+import { addMonths } from "./periods";
+
+/* =======================
+   Dashboard filters
+   =======================
+   Dimension filters narrow the daily rows before they are rolled up into
+   periods; the date range then narrows the resulting periods. An empty
+   list means "all".
+*/
+
+export interface DashboardFilters {
+  from?: string;            // period key, inclusive
+  to?: string;              // period key, inclusive
+  regions: string[];
+  countries: string[];
+  channels: Channel[];
+  categories: string[];
+}
+
+export const EMPTY_FILTERS: DashboardFilters = { regions: [], countries: [], channels: [], categories: [] };
+
+export interface DimensionOptions {
+  regions: string[];
+  countries: { country: string; region?: string }[];
+  channels: Channel[];
+  categories: string[];
+}
+
+export const hasDimensionFilters = (f: DashboardFilters) =>
+  f.regions.length + f.countries.length + f.channels.length + f.categories.length > 0;
+
+export const isFiltered = (f: DashboardFilters) => hasDimensionFilters(f) || !!f.from || !!f.to;
+
+/** "Jan '25 – Jun '25 • Region: EMEA • Channel: Mobile" — the active filters in words, for report headers. */
+export const describeFilters = (f: DashboardFilters, labelFor: (periodKey: string) => string = (k) => k): string => {
+  const parts = [
+    ...(f.from || f.to ? [`${f.from ? labelFor(f.from) : "Start"} – ${f.to ? labelFor(f.to) : "Latest"}`] : []),
+    ...([["Region", f.regions], ["Country", f.countries], ["Channel", f.channels], ["Category", f.categories]] as const)
+      .filter(([, values]) => values.length > 0)
+      .map(([name, values]) => `${name}: ${values.join(", ")}`),
+  ];
+  return parts.length ? parts.join(" • ") : "No filters";
+};
+
+/** Distinct dimension values present in the rows, in first-seen order. */
+export const dimensionOptions = (rows: DailyData[]): DimensionOptions => {
+  const regions = new Set<string>();
+  const countries = new Map<string, string | undefined>();
+  const channels = new Set<Channel>();
+  const categories = new Set<string>();
+  rows.forEach((r) => {
+    if (r.region) regions.add(r.region);
+    if (r.country && !countries.has(r.country)) countries.set(r.country, r.region);
+    if (r.channel) channels.add(r.channel);
+    if (r.category) categories.add(r.category);
+  });
+  return {
+    regions: Array.from(regions),
+    countries: Array.from(countries, ([country, region]) => ({ country, region })),
+    channels: Array.from(channels),
+    categories: Array.from(categories),
+  };
+};
+
+const matches = (selected: string[], value: string | undefined) => selected.length === 0 || (!!value && selected.includes(value));
+
+export const filterDaily = (rows: DailyData[], f: DashboardFilters): DailyData[] =>
+  hasDimensionFilters(f)
+    ? rows.filter(
+        (r) =>
+          matches(f.regions, r.region) &&
+          matches(f.countries, r.country) &&
+          matches(f.channels, r.channel) &&
+          matches(f.categories, r.category)
+      )
+    : rows;
+
+export const filterPeriods = (history: MonthData[], f: DashboardFilters): MonthData[] =>
+  f.from || f.to
+    ? history.filter((m) => (!f.from || m.date >= f.from) && (!f.to || m.date <= f.to))
+    : history;
+
+/**
+ * Category revenue, margin and YoY growth over the given periods, from the
+ * (already filtered) daily rows.
+ */
+export const categoryPerformance = (
+  rows: DailyData[],
+  periodKeys: string[],
+  calendar: FiscalCalendarConfig = GREGORIAN
+): CategoryPerf[] => {
+  const inWindow = new Set(periodKeys);
+  const priorWindow = new Set(periodKeys.map((k) => addMonths(k, -12)));
+  const byCategory = new Map<string, DailyData[]>();
+  rows.forEach((r) => {
+    if (!r.category) return;
+    const list = byCategory.get(r.category) ?? [];
+    list.push(r);
+    byCategory.set(r.category, list);
+  });
+
+  return Array.from(byCategory, ([name, categoryRows]) => {
+    const periods = aggregateDaily(categoryRows, calendar);
+    const current = periods.filter((m) => inWindow.has(m.date));
+    const prior = periods.filter((m) => priorWindow.has(m.date));
+    const revenue = current.reduce((s, m) => s + m.revenue, 0);
+    const grossProfit = current.reduce((s, m) => s + m.revenue * m.grossMargin, 0);
+    const priorRevenue = prior.reduce((s, m) => s + m.revenue, 0);
+    return {
+      name,
+      revenue,
+      units: current.reduce((s, m) => s + m.units, 0),
+      margin: revenue ? grossProfit / revenue : 0,
+      growth: prior.length === current.length && priorRevenue ? revenue / priorRevenue - 1 : 0,
+    };
+  }).sort((a, b) => b.revenue - a.revenue);
+};
+
+/** Revenue share and conversion per device channel over the given periods. */
+export const channelPerformance = (
+  rows: DailyData[],
+  periodKeys: string[],
+  calendar: FiscalCalendarConfig = GREGORIAN
+): { channel: Channel; revenue: number; conversion: number }[] => {
+  const inWindow = new Set(periodKeys);
+  const periodOf = new Map<string, string>();
+  const totals = new Map<Channel, { revenue: number; orders: number; sessions: number }>();
+  rows.forEach((r) => {
+    if (!r.channel) return;
+    let key = periodOf.get(r.date);
+    if (key === undefined) {
+      key = toFiscalPeriod(r.date, calendar).periodKey;
+      periodOf.set(r.date, key);
+    }
+    if (!inWindow.has(key)) return;
+    const t = totals.get(r.channel) ?? { revenue: 0, orders: 0, sessions: 0 };
+    t.revenue += r.revenue;
+    t.orders += r.orders;
+    t.sessions += Object.values(r.trafficSources).reduce((s, v) => s + v, 0);
+    totals.set(r.channel, t);
+  });
+  const total = Array.from(totals.values()).reduce((s, t) => s + t.revenue, 0);
+  return Array.from(totals, ([channel, t]) => ({
+    channel,
+    revenue: total ? t.revenue / total : 0,
+    conversion: t.sessions ? t.orders / t.sessions : 0,
+  }));
+};
+
+/* -------- URL round-trip -------- */
+
+const LIST_PARAMS = { region: "regions", country: "countries", channel: "channels", category: "categories" } as const;
+
+/** Multi-value filters repeat their parameter (`category=A&category=B`), so names may contain commas. */
+export const filtersToSearch = (f: DashboardFilters, base = ""): string => {
+  const params = new URLSearchParams(base);
+  (["from", "to"] as const).forEach((k) => {
+    const v = f[k];
+    if (v) params.set(k, v.slice(0, 7));
+    else params.delete(k);
+  });
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach((param) => {
+    params.delete(param);
+    f[LIST_PARAMS[param]].forEach((v) => params.append(param, v));
+  });
+  const s = params.toString();
+  return s ? `?${s}` : "";
+};
+
+export const filtersFromSearch = (search: string): DashboardFilters => {
+  const params = new URLSearchParams(search);
+  const month = (v: string | null) => (v && /^\d{4}-\d{2}$/.test(v) ? `${v}-01` : undefined);
+  const list = (name: string) => params.getAll(name).map((v) => v.trim()).filter(Boolean);
+  return {
+    from: month(params.get("from")),
+    to: month(params.get("to")),
+    regions: list("region"),
+    countries: list("country"),
+    channels: list("channel").filter((c): c is Channel => c === "Desktop" || c === "Mobile" || c === "Tablet"),
+    categories: list("category"),
+  };
+};
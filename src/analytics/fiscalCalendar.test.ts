@@ -0,0 +1,80 @@
+import { DailyData } from "../types";
+import {
+  GREGORIAN, NRF_454, aggregateDaily, applyCalendar, fiscalYearInfo, periodLabel, remapCalendarMonths, toFiscalPeriod
+} from "./fiscalCalendar";
+
+test("NRF 4-5-4 years end on the Saturday nearest 31 January", () => {
+  const fy2023 = fiscalYearInfo(2023, NRF_454);
+  expect(fy2023.start).toBe("2023-01-29");
+  expect(fy2023.end).toBe("2024-02-03");
+  expect(fy2023.weeks).toBe(53);
+  expect(fy2023.periods[11].weeks).toBe(5);
+
+  const fy2024 = fiscalYearInfo(2024, NRF_454);
+  expect(fy2024.start).toBe("2024-02-04");
+  expect(fy2024.end).toBe("2025-02-01");
+  expect(fy2024.weeks).toBe(52);
+  expect(fy2024.periods.map((p) => p.weeks)).toEqual([4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5, 4]);
+  expect(fy2024.periods[1]).toEqual({ start: "2024-03-03", end: "2024-04-06", weeks: 5 });
+});
+
+test("maps days to fiscal year, quarter, period and week", () => {
+  expect(toFiscalPeriod("2024-02-03", NRF_454)).toEqual({
+    fiscalYear: 2023, quarter: 4, period: 12, week: 53, periodKey: "2023-12-01",
+  });
+  expect(toFiscalPeriod("2024-05-05", NRF_454)).toMatchObject({ fiscalYear: 2024, quarter: 2, period: 4, week: 14 });
+  expect(toFiscalPeriod("2024-01-15", { pattern: "gregorian", startMonth: 6 })).toMatchObject({
+    fiscalYear: 2023, quarter: 3, period: 7,
+  });
+});
+
+test("labels periods for the configured calendar", () => {
+  expect(periodLabel("2024-01-01", GREGORIAN)).toBe("Jan '24");
+  expect(periodLabel("2024-01-01", NRF_454)).toBe("Feb FY24");
+  expect(periodLabel("2024-12-01", NRF_454)).toBe("Jan FY24");
+});
+
+const day = (date: string, revenue: number): DailyData => ({
+  date,
+  revenue,
+  units: 1,
+  orders: 1,
+  grossProfit: revenue / 2,
+  trafficSources: { organic: 10, paid: 0, social: 0, email: 0, direct: 0 },
+});
+
+const days = (from: string, count: number, revenue = 100): DailyData[] =>
+  Array.from({ length: count }, (_, i) => {
+    const d = new Date(Date.parse(`${from}T00:00:00Z`) + i * 86_400_000);
+    return day(d.toISOString().slice(0, 10), revenue);
+  });
+
+test("aggregates daily rows into complete fiscal periods only", () => {
+  // 2024-02-04 .. 2024-04-10: P1 (28 days) and P2 (35 days) complete, P3 partial.
+  const rows = aggregateDaily(days("2024-02-04", 67), NRF_454);
+  expect(rows.map((r) => r.month)).toEqual(["Feb FY24", "Mar FY24"]);
+  expect(rows[0]).toMatchObject({ date: "2024-01-01", revenue: 2800, grossMargin: 0.5, conversionRate: 0.1, avgOrderValue: 100 });
+  expect(rows[1].revenue).toBe(3500);
+});
+
+test("aggregates to weeks and quarters, with weekly rows via `days`", () => {
+  const weekly = [0, 1, 2, 3].map((w) => ({ ...day(`2024-02-${String(4 + w * 7).padStart(2, "0")}`, 700), days: 7 }));
+  expect(aggregateDaily(weekly, NRF_454, "week").map((r) => r.month)).toEqual([
+    "Wk 1 FY24", "Wk 2 FY24", "Wk 3 FY24", "Wk 4 FY24",
+  ]);
+  const quarter = aggregateDaily(days("2024-02-04", 91), NRF_454, "quarter");
+  expect(quarter).toHaveLength(1);
+  expect(quarter[0].month).toBe("Q1 FY24");
+});
+
+test("monthly-only data can shift the fiscal start but not use retail patterns", () => {
+  const history = aggregateDaily(days("2024-01-01", 60), GREGORIAN);
+  const shifted = remapCalendarMonths(history, { pattern: "gregorian", startMonth: 1 });
+  expect(shifted?.map((m) => [m.date, m.month])).toEqual([
+    ["2023-12-01", "Jan FY23"],
+    ["2024-01-01", "Feb FY24"],
+  ]);
+  const view = applyCalendar({ historicalData: history, forecastData: [] }, NRF_454);
+  expect(view.calendar.pattern).toBe("gregorian");
+  expect(view.notice).toMatch(/needs daily or weekly data/);
+});
@@ -0,0 +1,285 @@
+import { DailyData, DashboardData, MonthData } from "../types";
+import { MONTH_NAMES, parseMonthKey, toMonthKey } from "./periods";
+
+/* =======================
+   Fiscal calendars
+   =======================
+   Retail patterns (4-5-4, 4-4-5, 5-4-4) build the year from whole weeks:
+   it ends on the week-ending day nearest the last day of the month before
+   `startMonth`, so every few years it has 53 weeks and the extra week goes
+   to the last period. "gregorian" uses calendar months from `startMonth`.
+
+   Fiscal years are named after the calendar year they start in, and a
+   fiscal month is keyed like a calendar month ("2024-01-01" = FY2024 P01)
+   so period arithmetic and YoY lookups work the same for every calendar.
+*/
+
+export type CalendarPattern = "gregorian" | "4-5-4" | "4-4-5" | "5-4-4";
+export type PeriodGrain = "week" | "period" | "quarter" | "year";
+
+export interface FiscalCalendarConfig {
+  pattern: CalendarPattern;
+  startMonth: number;       // 0 = January … 11 = December
+  weekEndsOn?: number;      // 0 = Sunday … 6 = Saturday (retail patterns only)
+}
+
+export const GREGORIAN: FiscalCalendarConfig = { pattern: "gregorian", startMonth: 0 };
+export const NRF_454: FiscalCalendarConfig = { pattern: "4-5-4", startMonth: 1, weekEndsOn: 6 };
+
+export interface FiscalYearInfo {
+  fiscalYear: number;
+  start: string;            // "YYYY-MM-DD", inclusive
+  end: string;              // inclusive
+  weeks: number;            // 52 or 53 for retail patterns
+  periods: { start: string; end: string; weeks: number }[];
+}
+
+export interface FiscalPeriod {
+  fiscalYear: number;
+  quarter: number;          // 1..4
+  period: number;           // 1..12
+  week: number;             // 1..53
+  periodKey: string;
+}
+
+const DAY_MS = 86_400_000;
+
+const toDay = (iso: string): number => Date.UTC(+iso.slice(0, 4), +iso.slice(5, 7) - 1, +iso.slice(8, 10)) / DAY_MS;
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+const weekdayOf = (day: number): number => (day + 4) % 7; // 1970-01-01 was a Thursday
+
+const PATTERN_WEEKS: Record<Exclude<CalendarPattern, "gregorian">, number[]> = {
+  "4-5-4": [4, 5, 4],
+  "4-4-5": [4, 4, 5],
+  "5-4-4": [5, 4, 4],
+};
+
+const isRetail = (c: FiscalCalendarConfig): c is FiscalCalendarConfig & { pattern: keyof typeof PATTERN_WEEKS } =>
+  c.pattern !== "gregorian";
+
+/** Last day of the retail fiscal year `fy`: week-ending day nearest the month end before the next start. */
+const retailYearEnd = (fy: number, config: FiscalCalendarConfig): number => {
+  const weekEnd = config.weekEndsOn ?? 6;
+  // Day before the nominal start of FY+1.
+  const monthEnd = Date.UTC(fy + 1, config.startMonth, 1) / DAY_MS - 1;
+  const offset = (weekdayOf(monthEnd) - weekEnd + 7) % 7; // days since the previous week end
+  return offset <= 3 ? monthEnd - offset : monthEnd + (7 - offset);
+};
+
+const yearCache = new Map<string, FiscalYearInfo>();
+
+export const fiscalYearInfo = (fy: number, config: FiscalCalendarConfig): FiscalYearInfo => {
+  const cacheKey = `${config.pattern}|${config.startMonth}|${config.weekEndsOn ?? 6}|${fy}`;
+  const cached = yearCache.get(cacheKey);
+  if (cached) return cached;
+
+  let info: FiscalYearInfo;
+  if (isRetail(config)) {
+    const start = retailYearEnd(fy - 1, config) + 1;
+    const end = retailYearEnd(fy, config);
+    const weeks = (end - start + 1) / 7;
+    const pattern = PATTERN_WEEKS[config.pattern];
+    let cursor = start;
+    const periods = Array.from({ length: 12 }, (_, p) => {
+      const w = pattern[p % 3] + (p === 11 && weeks === 53 ? 1 : 0);
+      const period = { start: fromDay(cursor), end: fromDay(cursor + w * 7 - 1), weeks: w };
+      cursor += w * 7;
+      return period;
+    });
+    info = { fiscalYear: fy, start: fromDay(start), end: fromDay(end), weeks, periods };
+  } else {
+    const periods = Array.from({ length: 12 }, (_, p) => {
+      const s = Date.UTC(fy, config.startMonth + p, 1) / DAY_MS;
+      const e = Date.UTC(fy, config.startMonth + p + 1, 1) / DAY_MS - 1;
+      return { start: fromDay(s), end: fromDay(e), weeks: (e - s + 1) / 7 };
+    });
+    const start = toDay(periods[0].start);
+    const end = toDay(periods[11].end);
+    info = { fiscalYear: fy, start: periods[0].start, end: periods[11].end, weeks: Math.ceil((end - start + 1) / 7), periods };
+  }
+  yearCache.set(cacheKey, info);
+  return info;
+};
+
+/** Maps a calendar day ("2024-03-15") to its fiscal year, quarter, period and week. */
+export const toFiscalPeriod = (date: string, config: FiscalCalendarConfig): FiscalPeriod => {
+  const day = toDay(date);
+  const calendarYear = +date.slice(0, 4);
+  const fy = [calendarYear, calendarYear - 1, calendarYear + 1].find((y) => {
+    const info = fiscalYearInfo(y, config);
+    return day >= toDay(info.start) && day <= toDay(info.end);
+  }) as number;
+  const info = fiscalYearInfo(fy, config);
+  const periodIdx = info.periods.findIndex((p) => day <= toDay(p.end));
+  return {
+    fiscalYear: fy,
+    quarter: Math.floor(periodIdx / 3) + 1,
+    period: periodIdx + 1,
+    week: Math.floor((day - toDay(info.start)) / 7) + 1,
+    periodKey: toMonthKey(fy, periodIdx),
+  };
+};
+
+const shortYear = (fy: number) => `FY${String(fy).slice(-2)}`;
+
+/** Axis label for a period key: "Jan '24" for the plain calendar, "Feb FY24" otherwise. */
+export const periodLabel = (periodKey: string, config: FiscalCalendarConfig): string => {
+  const { year, monthIndex } = parseMonthKey(periodKey);
+  if (config.pattern === "gregorian" && config.startMonth === 0) {
+    return `${MONTH_NAMES[monthIndex]} '${String(year).slice(-2)}`;
+  }
+  return `${MONTH_NAMES[(config.startMonth + monthIndex) % 12]} ${shortYear(year)}`;
+};
+
+export const describeCalendar = (config: FiscalCalendarConfig): string =>
+  config.pattern === "gregorian"
+    ? config.startMonth === 0
+      ? "Calendar months"
+      : `Calendar months, year starts ${MONTH_NAMES[config.startMonth]}`
+    : `${config.pattern} retail calendar, year starts ${MONTH_NAMES[config.startMonth]}`;
+
+/* -------- Aggregation -------- */
+
+interface Bucket {
+  key: string;
+  label: string;
+  start: number;
+  end: number;
+  covered: Set<number>;     // day numbers with at least one row
+  revenue: number;
+  units: number;
+  orders: number;
+  grossProfit: number;
+  traffic: DailyData["trafficSources"];
+}
+
+const bucketFor = (fp: FiscalPeriod, grain: PeriodGrain, config: FiscalCalendarConfig) => {
+  const info = fiscalYearInfo(fp.fiscalYear, config);
+  switch (grain) {
+    case "week": {
+      const start = toDay(info.start) + (fp.week - 1) * 7;
+      return {
+        key: `${fp.fiscalYear}-W${String(fp.week).padStart(2, "0")}`,
+        label: `Wk ${fp.week} ${shortYear(fp.fiscalYear)}`,
+        start,
+        end: Math.min(start + 6, toDay(info.end)),
+      };
+    }
+    case "quarter": {
+      const first = info.periods[(fp.quarter - 1) * 3];
+      const last = info.periods[(fp.quarter - 1) * 3 + 2];
+      return {
+        key: toMonthKey(fp.fiscalYear, (fp.quarter - 1) * 3),
+        label: `Q${fp.quarter} ${shortYear(fp.fiscalYear)}`,
+        start: toDay(first.start),
+        end: toDay(last.end),
+      };
+    }
+    case "year":
+      return { key: toMonthKey(fp.fiscalYear, 0), label: shortYear(fp.fiscalYear), start: toDay(info.start), end: toDay(info.end) };
+    case "period":
+    default: {
+      const p = info.periods[fp.period - 1];
+      return { key: fp.periodKey, label: periodLabel(fp.periodKey, config), start: toDay(p.start), end: toDay(p.end) };
+    }
+  }
+};
+
+/**
+ * Rolls daily (or weekly, via `days`) records up to fiscal weeks, periods,
+ * quarters or years. Buckets the data does not fully cover are dropped so a
+ * partial month never shows up as a revenue dip. Each row's `date` is the
+ * bucket key: a period key for periods, quarters and years, "2024-W05" for weeks.
+ */
+export const aggregateDaily = (
+  records: DailyData[],
+  config: FiscalCalendarConfig,
+  grain: PeriodGrain = "period"
+): MonthData[] => {
+  const buckets = new Map<string, Bucket>();
+  const bucketByDate = new Map<string, ReturnType<typeof bucketFor>>(); // rows share dates when split by dimension
+  records.forEach((r) => {
+    let b = bucketByDate.get(r.date);
+    if (!b) {
+      b = bucketFor(toFiscalPeriod(r.date, config), grain, config);
+      bucketByDate.set(r.date, b);
+    }
+    let bucket = buckets.get(b.key);
+    if (!bucket) {
+      bucket = {
+        ...b,
+        covered: new Set<number>(),
+        revenue: 0,
+        units: 0,
+        orders: 0,
+        grossProfit: 0,
+        traffic: { organic: 0, paid: 0, social: 0, email: 0, direct: 0 },
+      };
+      buckets.set(b.key, bucket);
+    }
+    const first = toDay(r.date);
+    for (let d = first; d < first + (r.days ?? 1); d++) bucket.covered.add(d);
+    bucket.revenue += r.revenue;
+    bucket.units += r.units;
+    bucket.orders += r.orders;
+    bucket.grossProfit += r.grossProfit;
+    (Object.keys(bucket.traffic) as (keyof DailyData["trafficSources"])[]).forEach((k) => {
+      (bucket as Bucket).traffic[k] += r.trafficSources[k];
+    });
+  });
+
+  return Array.from(buckets.values())
+    .filter((b) => b.covered.size >= b.end - b.start + 1)
+    .sort((a, b) => a.start - b.start)
+    .map((b) => {
+      const sessions = Object.values(b.traffic).reduce((s, v) => s + v, 0);
+      return {
+        month: b.label,
+        date: b.key,
+        revenue: Math.round(b.revenue),
+        units: Math.round(b.units),
+        grossMargin: b.revenue ? b.grossProfit / b.revenue : 0,
+        conversionRate: sessions ? b.orders / sessions : 0,
+        avgOrderValue: b.orders ? b.revenue / b.orders : 0,
+        trafficSources: b.traffic,
+      };
+    });
+};
+
+/**
+ * Re-keys calendar-month data for a Gregorian fiscal year that starts in
+ * another month. Returns null for retail patterns, which need daily data.
+ */
+export const remapCalendarMonths = (history: MonthData[], config: FiscalCalendarConfig): MonthData[] | null => {
+  if (isRetail(config)) return null;
+  if (config.startMonth === 0) return history;
+  return history.map((m) => {
+    const { year, monthIndex } = parseMonthKey(m.date);
+    const fy = monthIndex >= config.startMonth ? year : year - 1;
+    const key = toMonthKey(fy, (monthIndex - config.startMonth + 12) % 12);
+    return { ...m, date: key, month: periodLabel(key, config) };
+  });
+};
+
+export interface CalendarView {
+  history: MonthData[];
+  /** The calendar actually applied; differs from the request when data is too coarse. */
+  calendar: FiscalCalendarConfig;
+  notice?: string;
+}
+
+/** Builds the period series the dashboard works on for the selected calendar. */
+export const applyCalendar = (data: DashboardData, config: FiscalCalendarConfig): CalendarView => {
+  if (data.dailyData && data.dailyData.length > 0) {
+    return { history: aggregateDaily(data.dailyData, config), calendar: config };
+  }
+  const remapped = remapCalendarMonths(data.historicalData, config);
+  if (remapped) return { history: remapped, calendar: config };
+
+  const fallback: FiscalCalendarConfig = { pattern: "gregorian", startMonth: config.startMonth };
+  return {
+    history: remapCalendarMonths(data.historicalData, fallback) ?? data.historicalData,
+    calendar: fallback,
+    notice: `The ${config.pattern} calendar needs daily or weekly data; showing calendar months instead.`,
+  };
+};
@@ -0,0 +1,46 @@
+import { Channel, DailyData, FunnelSteps } from "../types";
+import { biggestDropOff, conversionRate, funnelByPeriod, funnelTotals, revenuePerSession, stepRates } from "./funnel";
+
+const steps = (productViews: number, addToCart: number, checkout: number, orders: number): FunnelSteps => ({
+  productViews,
+  addToCart,
+  checkout,
+  orders,
+});
+const none = steps(0, 0, 0, 0);
+
+const row = (date: string, channel: Channel, withFunnel: boolean): DailyData => ({
+  date,
+  channel,
+  revenue: 1_000,
+  units: 10,
+  orders: 10,
+  grossProfit: 500,
+  trafficSources: { organic: 100, paid: 0, social: 0, email: 100, direct: 0 },
+  ...(withFunnel
+    ? { funnel: { organic: steps(60, 20, 10, 2), paid: none, social: none, email: steps(80, 40, 20, 8), direct: none } }
+    : {}),
+});
+
+test("device funnels sum the sources and keep untracked steps empty", () => {
+  const byPeriod = funnelByPeriod([row("2024-01-03", "Desktop", true), row("2024-01-09", "Mobile", false)], "channel");
+  const [desktop, mobile] = funnelTotals(byPeriod, ["2024-01-01"]);
+  expect(desktop.counts).toEqual({ sessions: 200, productViews: 140, addToCart: 60, checkout: 30, orders: 10, revenue: 1_000 });
+  expect(mobile.counts).toMatchObject({ sessions: 200, productViews: null, checkout: null, orders: 10 });
+  expect(stepRates(mobile.counts)).toEqual([null, null, null, null, 0.05]);
+  expect(funnelTotals(byPeriod, ["2024-02-01"])).toEqual([]);
+});
+
+test("source funnels split revenue by orders and find the weakest step", () => {
+  const byPeriod = funnelByPeriod([row("2024-01-03", "Desktop", true), row("2024-01-04", "Mobile", false)], "source");
+  const totals = new Map(funnelTotals(byPeriod, ["2024-01-01"]).map((t) => [t.key, t.counts]));
+  const email = totals.get("email")!;
+  expect(email).toMatchObject({ sessions: 100, orders: 8, revenue: 800 });
+  expect(conversionRate(email)).toBeCloseTo(0.08);
+  expect(revenuePerSession(email)).toBeCloseTo(8);
+
+  // Organic: 60% view, 33% add to cart, 50% check out, 20% pay
+  const organic = totals.get("organic")!;
+  expect(stepRates(organic)[2]).toBeCloseTo(1 / 3);
+  expect(biggestDropOff(organic)).toEqual({ stage: "orders", rate: 0.2 });
+});
@@ -0,0 +1,159 @@
+import { DailyData, FunnelSteps, TrafficSources } from "../types";
+import { GREGORIAN, FiscalCalendarConfig, toFiscalPeriod } from "./fiscalCalendar";
+
+/* =======================
+   Conversion funnel
+   =======================
+   Sessions → product views → add to cart → checkout → order, summed from
+   daily rows per device channel or per traffic source. Device funnels only
+   need the row's sessions and orders; the middle steps, and anything by
+   traffic source, need the rows' `funnel` counts.
+*/
+
+export type FunnelStage = "sessions" | keyof FunnelSteps;
+export type FunnelGrouping = "channel" | "source";
+
+export const FUNNEL_STAGES: { key: FunnelStage; label: string }[] = [
+  { key: "sessions", label: "Sessions" },
+  { key: "productViews", label: "Product views" },
+  { key: "addToCart", label: "Add to cart" },
+  { key: "checkout", label: "Checkout" },
+  { key: "orders", label: "Orders" },
+];
+
+export const TRAFFIC_SOURCE_LABELS: Record<keyof TrafficSources, string> = {
+  organic: "Organic",
+  paid: "Paid",
+  social: "Social",
+  email: "Email",
+  direct: "Direct",
+};
+
+export interface FunnelCounts {
+  sessions: number;
+  /** Null when some rows in the group don't track the middle steps. */
+  productViews: number | null;
+  addToCart: number | null;
+  checkout: number | null;
+  orders: number;
+  revenue: number;
+}
+
+export interface FunnelRow {
+  key: string;              // channel name or traffic source
+  counts: FunnelCounts;
+}
+
+const SOURCES: (keyof TrafficSources)[] = ["organic", "paid", "social", "email", "direct"];
+const MIDDLE: ("productViews" | "addToCart" | "checkout")[] = ["productViews", "addToCart", "checkout"];
+
+const empty = (): FunnelCounts => ({ sessions: 0, productViews: 0, addToCart: 0, checkout: 0, orders: 0, revenue: 0 });
+
+const add = (into: FunnelCounts, sessions: number, steps: FunnelSteps | undefined, orders: number, revenue: number) => {
+  into.sessions += sessions;
+  into.orders += orders;
+  into.revenue += revenue;
+  MIDDLE.forEach((k) => {
+    const current = into[k];
+    into[k] = steps && current !== null ? current + steps[k] : null;
+  });
+};
+
+const sumSteps = (funnel: Record<keyof TrafficSources, FunnelSteps>): FunnelSteps =>
+  SOURCES.reduce<FunnelSteps>(
+    (acc, k) => ({
+      productViews: acc.productViews + funnel[k].productViews,
+      addToCart: acc.addToCart + funnel[k].addToCart,
+      checkout: acc.checkout + funnel[k].checkout,
+      orders: acc.orders + funnel[k].orders,
+    }),
+    { productViews: 0, addToCart: 0, checkout: 0, orders: 0 }
+  );
+
+/** Whether any row can be split by traffic source. */
+export const hasSourceFunnel = (rows: DailyData[]) => rows.some((r) => r.funnel);
+
+/**
+ * Funnel counts per period key and group. Rows without `funnel` counts are
+ * skipped when grouping by source; a row's revenue is split across sources
+ * by their share of its orders.
+ */
+export const funnelByPeriod = (
+  rows: DailyData[],
+  grouping: FunnelGrouping,
+  calendar: FiscalCalendarConfig = GREGORIAN
+): Map<string, Map<string, FunnelCounts>> => {
+  const periodOf = new Map<string, string>();
+  const out = new Map<string, Map<string, FunnelCounts>>();
+  const bucket = (period: string, key: string) => {
+    const groups = out.get(period) ?? new Map<string, FunnelCounts>();
+    out.set(period, groups);
+    const counts = groups.get(key) ?? empty();
+    groups.set(key, counts);
+    return counts;
+  };
+
+  rows.forEach((r) => {
+    let period = periodOf.get(r.date);
+    if (period === undefined) {
+      period = toFiscalPeriod(r.date, calendar).periodKey;
+      periodOf.set(r.date, period);
+    }
+    const funnel = r.funnel;
+    if (grouping === "channel") {
+      if (!r.channel) return;
+      const sessions = SOURCES.reduce((s, k) => s + r.trafficSources[k], 0);
+      add(bucket(period, r.channel), sessions, funnel && sumSteps(funnel), r.orders, r.revenue);
+      return;
+    }
+    if (!funnel) return;
+    const orders = SOURCES.reduce((s, k) => s + funnel[k].orders, 0);
+    SOURCES.forEach((k) => {
+      const revenue = orders ? (r.revenue * funnel[k].orders) / orders : 0;
+      add(bucket(period as string, k), r.trafficSources[k], funnel[k], funnel[k].orders, revenue);
+    });
+  });
+  return out;
+};
+
+/** Totals per group over the given periods, largest by sessions first. */
+export const funnelTotals = (byPeriod: Map<string, Map<string, FunnelCounts>>, periodKeys: string[]): FunnelRow[] => {
+  const totals = new Map<string, FunnelCounts>();
+  periodKeys.forEach((period) =>
+    byPeriod.get(period)?.forEach((c, key) => {
+      const t = totals.get(key) ?? empty();
+      const steps = MIDDLE.every((k) => c[k] !== null)
+        ? { productViews: c.productViews as number, addToCart: c.addToCart as number, checkout: c.checkout as number, orders: c.orders }
+        : undefined;
+      add(t, c.sessions, steps, c.orders, c.revenue);
+      totals.set(key, t);
+    })
+  );
+  return Array.from(totals, ([key, counts]) => ({ key, counts })).sort((a, b) => b.counts.sessions - a.counts.sessions);
+};
+
+/** Share of the previous step that reached each stage (null for sessions or untracked steps). */
+export const stepRates = (c: FunnelCounts): (number | null)[] => {
+  let previous: number | null = null;
+  return FUNNEL_STAGES.map(({ key }) => {
+    const value = c[key];
+    const rate = previous !== null && value !== null ? (previous ? value / previous : 0) : null;
+    if (value !== null) previous = value;
+    return rate;
+  });
+};
+
+/** The step (after sessions) that keeps the smallest share of the one before. */
+export const biggestDropOff = (c: FunnelCounts): { stage: FunnelStage; rate: number } | null => {
+  const rates = stepRates(c);
+  let worst: { stage: FunnelStage; rate: number } | null = null;
+  // Sessions → product views is a bounce rather than a funnel loss, so start at add to cart.
+  rates.forEach((rate, i) => {
+    if (i < 2 || rate === null) return;
+    if (!worst || rate < worst.rate) worst = { stage: FUNNEL_STAGES[i].key, rate };
+  });
+  return worst;
+};
+
+export const conversionRate = (c: FunnelCounts) => (c.sessions ? c.orders / c.sessions : 0);
+export const revenuePerSession = (c: FunnelCounts) => (c.sessions ? c.revenue / c.sessions : 0);
@@ -0,0 +1,52 @@
+import { MonthData } from "../types";
+import { compareWithLastYear, summarizeKpis } from "./kpis";
+import { pctChange } from "./metrics";
+import { monthLabel, toMonthKey } from "./periods";
+
+const month = (t: number, revenue: number): MonthData => ({
+  month: monthLabel(toMonthKey(2024, t)),
+  date: toMonthKey(2024, t),
+  revenue,
+  units: 0,
+  grossMargin: 0.7,
+  conversionRate: 0.03,
+  avgOrderValue: 300,
+  trafficSources: { organic: 0, paid: 0, social: 0, email: 0, direct: 0 },
+});
+
+test("compares the trailing window with the same months a year earlier", () => {
+  const history = Array.from({ length: 24 }, (_, t) => month(t, t < 12 ? 100 : 110));
+  const window = history.slice(-12);
+  const { yoy, sameMonthLastYear } = compareWithLastYear(history, window);
+  expect(pctChange(summarizeKpis(window).totalRevenue, yoy?.totalRevenue)).toBeCloseTo(0.1);
+  expect(sameMonthLastYear?.date).toBe("2024-12-01");
+});
+
+test("no YoY when last year is incomplete", () => {
+  const history = Array.from({ length: 18 }, (_, t) => month(t, 100));
+  const { yoy, sameMonthLastYear } = compareWithLastYear(history, history.slice(-12));
+  expect(yoy).toBeNull();
+  expect(sameMonthLastYear?.date).toBe("2024-06-01");
+});
+
+test("pctChange has no base for zero or missing values", () => {
+  expect(pctChange(5, 0)).toBeNull();
+  expect(pctChange(5, undefined)).toBeNull();
+  expect(pctChange(90, 100)).toBeCloseTo(-0.1);
+});
+
+test("KPI rates are weighted by revenue, sessions and orders", () => {
+  const small = { ...month(0, 100), grossMargin: 0.4, conversionRate: 0.01, avgOrderValue: 100 };
+  const large = { ...month(1, 900), grossMargin: 0.8, conversionRate: 0.03, avgOrderValue: 300 };
+  small.trafficSources = { ...small.trafficSources, organic: 1000 };
+  large.trafficSources = { ...large.trafficSources, organic: 3000 };
+  const kpis = summarizeKpis([small, large]);
+  expect(kpis.avgGrossMargin).toBeCloseTo(0.76);
+  expect(kpis.avgConversionRate).toBeCloseTo(0.025);
+  // 1 order at $100 and 3 at $300: $1,000 over 4 orders.
+  expect(kpis.avgOrderValue).toBeCloseTo(250);
+  // Without sessions the rates fall back to the plain mean.
+  const noSessions = month(0, 0).trafficSources;
+  const imported = summarizeKpis([small, large].map((m) => ({ ...m, trafficSources: noSessions })));
+  expect(imported.avgConversionRate).toBeCloseTo(0.02);
+});
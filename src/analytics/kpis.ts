@@ -0,0 +1,60 @@
+import { MonthData } from "../types";
+import { addMonths } from "./periods";
+import { mean, perUnit, sum, weightedAverage } from "./metrics";
+
+export interface KpiSummary {
+  totalRevenue: number;
+  avgGrossMargin: number;     // 0..1, weighted by revenue
+  avgConversionRate: number;  // 0..1, weighted by sessions
+  avgOrderValue: number;      // weighted by orders, i.e. revenue / orders
+  months: number;
+}
+
+const sessionsOf = (m: MonthData) => sum(Object.values(m.trafficSources), (v) => v);
+
+/**
+ * Totals and averages over the months. Rates are weighted by what they are a
+ * share of; months with none of the weight at all (e.g. an import without
+ * sessions) fall back to the plain mean.
+ */
+export const summarizeKpis = (months: MonthData[]): KpiSummary => {
+  const averaged = (value: (m: MonthData) => number, weight: (m: MonthData) => number) =>
+    weightedAverage(months, value, weight) ?? mean(months.map(value));
+  return {
+    totalRevenue: sum(months, (m) => m.revenue),
+    avgGrossMargin: averaged((m) => m.grossMargin, (m) => m.revenue),
+    avgConversionRate: averaged((m) => m.conversionRate, sessionsOf),
+    avgOrderValue: averaged((m) => m.avgOrderValue, (m) => perUnit(m.revenue, m.avgOrderValue)),
+    months: months.length,
+  };
+};
+
+/** Indexes a history by month key for year-over-year lookups. */
+export const indexByDate = (history: MonthData[]): Map<string, MonthData> =>
+  new Map(history.map((m) => [m.date, m]));
+
+/**
+ * The same months one year earlier. Returns null unless every month of the
+ * window has a counterpart, so partial years never masquerade as YoY.
+ */
+export const priorYearWindow = (byDate: Map<string, MonthData>, window: MonthData[]): MonthData[] | null => {
+  const prior = window.map((m) => byDate.get(addMonths(m.date, -12)));
+  return window.length > 0 && prior.every(Boolean) ? (prior as MonthData[]) : null;
+};
+
+export interface KpiComparison {
+  /** Trailing window vs the same window a year earlier. */
+  yoy: KpiSummary | null;
+  /** Latest month vs the same month a year earlier. */
+  sameMonthLastYear: MonthData | null;
+}
+
+export const compareWithLastYear = (history: MonthData[], window: MonthData[]): KpiComparison => {
+  const byDate = indexByDate(history);
+  const prior = priorYearWindow(byDate, window);
+  const latest = window[window.length - 1];
+  return {
+    yoy: prior ? summarizeKpis(prior) : null,
+    sameMonthLastYear: latest ? byDate.get(addMonths(latest.date, -12)) ?? null : null,
+  };
+};
@@ -0,0 +1,49 @@
+import { MonthData } from "../types";
+import { LiveEvent } from "../data/liveStream";
+import { GREGORIAN } from "./fiscalCalendar";
+import { foldEvents, liveCutoff, mergeLive } from "./live";
+import { monthLabel } from "./periods";
+
+const order = (id: number, timestamp: string, revenue: number): LiveEvent => ({
+  type: "order", id, timestamp, revenue, units: 1, grossProfit: revenue / 2, channel: "Mobile",
+});
+const sessions = (id: number, timestamp: string, organic: number): LiveEvent => ({
+  type: "sessions", id, timestamp, sessions: { organic, paid: 0, social: 0, email: 0, direct: 0 }, channel: "Mobile",
+});
+
+const december: MonthData = {
+  month: "Dec '25",
+  date: "2025-12-01",
+  revenue: 1000,
+  units: 10,
+  grossMargin: 0.6,
+  conversionRate: 0.1,
+  avgOrderValue: 100,
+  trafficSources: { organic: 100, paid: 0, social: 0, email: 0, direct: 0 },
+};
+
+test("events fold into one row per day and dimensions", () => {
+  const rows = foldEvents([], [order(1, "2026-01-01T10:00:00Z", 300), sessions(2, "2026-01-01T10:00:00Z", 20)]);
+  const more = foldEvents(rows, [order(3, "2026-01-01T23:59:00Z", 100), order(4, "2026-01-02T00:01:00Z", 50)]);
+  expect(more).toHaveLength(2);
+  expect(more[0]).toMatchObject({ date: "2026-01-01", revenue: 400, orders: 2, trafficSources: { organic: 20 } });
+  expect(rows[0].revenue).toBe(300); // earlier state is untouched
+});
+
+test("live rows top up existing periods and open a month-to-date period", () => {
+  const rows = foldEvents([], [
+    order(1, "2025-12-31T12:00:00Z", 200),
+    order(2, "2026-01-01T12:00:00Z", 300),
+    sessions(3, "2026-01-01T12:00:00Z", 10),
+  ]);
+  const merged = mergeLive([december], rows, GREGORIAN, monthLabel);
+  expect(merged[0]).toMatchObject({ revenue: 1200, avgOrderValue: 1200 / 11, grossMargin: 700 / 1200 });
+  expect(merged[0].conversionRate).toBeCloseTo(11 / 100);
+  expect(merged[1]).toMatchObject({ month: "Jan '26 (MTD)", date: "2026-01-01", revenue: 300, conversionRate: 0.1 });
+});
+
+test("cutoff is the first day the loaded data does not cover", () => {
+  expect(liveCutoff([december])).toBe("2026-01-01");
+  expect(liveCutoff([december], [{ ...december, date: "2025-12-29", days: 7, orders: 1, grossProfit: 0 }])).toBe("2026-01-05");
+  expect(liveCutoff([])).toBeNull();
+});
@@ -0,0 +1,145 @@
+import { DailyData, MonthData, TrafficSources } from "../types";
+import { LiveEvent } from "../data/liveStream";
+import { FiscalCalendarConfig, fiscalYearInfo, toFiscalPeriod } from "./fiscalCalendar";
+import { parseMonthKey } from "./periods";
+
+/* =======================
+   Live roll-up
+   =======================
+   Stream events are folded into one DailyData row per day and dimension
+   combination, so memory stays bounded however long the stream runs. Those
+   rows are then added on top of the loaded history, period by period.
+*/
+
+const NO_TRAFFIC: TrafficSources = { organic: 0, paid: 0, social: 0, email: 0, direct: 0 };
+
+const addTraffic = (a: TrafficSources, b: TrafficSources): TrafficSources => ({
+  organic: a.organic + b.organic,
+  paid: a.paid + b.paid,
+  social: a.social + b.social,
+  email: a.email + b.email,
+  direct: a.direct + b.direct,
+});
+
+const sessionsOf = (t: TrafficSources) => t.organic + t.paid + t.social + t.email + t.direct;
+
+const rowKey = (r: Pick<DailyData, "date" | "region" | "country" | "channel" | "category" | "currency">) =>
+  [r.date, r.region ?? "", r.country ?? "", r.channel ?? "", r.category ?? "", r.currency ?? ""].join("|");
+
+/** One event as a single-day row. Dates are taken in UTC, like the rest of the daily data. */
+export const eventToDaily = (event: LiveEvent): DailyData => {
+  const base = {
+    date: new Date(event.timestamp).toISOString().slice(0, 10),
+    ...(event.region ? { region: event.region } : {}),
+    ...(event.country ? { country: event.country } : {}),
+    ...(event.channel ? { channel: event.channel } : {}),
+    ...(event.category ? { category: event.category } : {}),
+  };
+  return event.type === "order"
+    ? { ...base, ...(event.currency ? { currency: event.currency } : {}), revenue: event.revenue, units: event.units, orders: 1, grossProfit: event.grossProfit, trafficSources: NO_TRAFFIC }
+    : { ...base, revenue: 0, units: 0, orders: 0, grossProfit: 0, trafficSources: event.sessions };
+};
+
+/** Folds a batch of events into the running rows; returns a new array. */
+export const foldEvents = (rows: DailyData[], events: LiveEvent[]): DailyData[] => {
+  const byKey = new Map(rows.map((r) => [rowKey(r), r]));
+  events.forEach((event) => {
+    const row = eventToDaily(event);
+    const key = rowKey(row);
+    const prev = byKey.get(key);
+    byKey.set(
+      key,
+      prev
+        ? {
+            ...prev,
+            revenue: prev.revenue + row.revenue,
+            units: prev.units + row.units,
+            orders: prev.orders + row.orders,
+            grossProfit: prev.grossProfit + row.grossProfit,
+            trafficSources: addTraffic(prev.trafficSources, row.trafficSources),
+          }
+        : row
+    );
+  });
+  return Array.from(byKey.values());
+};
+
+/**
+ * First day not covered by the loaded data: live rows before it are already
+ * in the history and are ignored. Monthly-only sources cover whole months.
+ */
+export const liveCutoff = (history: MonthData[], daily?: DailyData[]): string | null => {
+  if (daily && daily.length > 0) {
+    const latest = daily.reduce((max, r) => (r.date > max.date ? r : max));
+    const d = new Date(`${latest.date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + (latest.days ?? 1));
+    return d.toISOString().slice(0, 10);
+  }
+  const last = history[history.length - 1];
+  if (!last) return null;
+  const d = new Date(`${last.date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+/**
+ * Daily rows after the last complete period. The calendar roll-up drops a
+ * period the source only partly covers; once live data starts filling it,
+ * those days have to be counted again.
+ */
+export const carryOverRows = (daily: DailyData[], history: MonthData[], calendar: FiscalCalendarConfig): DailyData[] => {
+  const last = history[history.length - 1];
+  if (!last) return daily;
+  const { year, monthIndex } = parseMonthKey(last.date);
+  const end = fiscalYearInfo(year, calendar).periods[monthIndex].end;
+  return daily.filter((r) => r.date > end);
+};
+
+/**
+ * Adds live rows to the periods they fall in. Existing periods are topped
+ * up; periods the history doesn't have yet are appended and labelled with
+ * `labelFor` plus " (MTD)" so partial periods are easy to spot.
+ */
+export const mergeLive = (
+  history: MonthData[],
+  rows: DailyData[],
+  calendar: FiscalCalendarConfig,
+  labelFor: (periodKey: string) => string
+): MonthData[] => {
+  if (rows.length === 0) return history;
+  const totals = new Map<string, { revenue: number; units: number; orders: number; grossProfit: number; traffic: TrafficSources }>();
+  rows.forEach((r) => {
+    const key = toFiscalPeriod(r.date, calendar).periodKey;
+    const t = totals.get(key) ?? { revenue: 0, units: 0, orders: 0, grossProfit: 0, traffic: NO_TRAFFIC };
+    totals.set(key, {
+      revenue: t.revenue + r.revenue,
+      units: t.units + r.units,
+      orders: t.orders + r.orders,
+      grossProfit: t.grossProfit + r.grossProfit,
+      traffic: addTraffic(t.traffic, r.trafficSources),
+    });
+  });
+
+  const byDate = new Map(history.map((m) => [m.date, m]));
+  totals.forEach((live, key) => {
+    const base = byDate.get(key);
+    // MonthData is ratios over totals; recover the totals to add to them.
+    const baseOrders = base && base.avgOrderValue > 0 ? base.revenue / base.avgOrderValue : 0;
+    const revenue = (base?.revenue ?? 0) + live.revenue;
+    const orders = baseOrders + live.orders;
+    const grossProfit = (base ? base.revenue * base.grossMargin : 0) + live.grossProfit;
+    const trafficSources = addTraffic(base?.trafficSources ?? NO_TRAFFIC, live.traffic);
+    const sessions = sessionsOf(trafficSources);
+    byDate.set(key, {
+      month: base?.month ?? `${labelFor(key)} (MTD)`,
+      date: key,
+      revenue,
+      units: Math.round((base?.units ?? 0) + live.units),
+      grossMargin: revenue ? grossProfit / revenue : 0,
+      conversionRate: sessions ? orders / sessions : 0,
+      avgOrderValue: orders ? revenue / orders : 0,
+      trafficSources,
+    });
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
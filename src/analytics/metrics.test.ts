@@ -0,0 +1,52 @@
+import {
+  forecastBand, formatChange, formatMultiple, formatPercent, formatPoints, mean, pctChange, perUnit, ppChange, proseDigits, share, shares, sum,
+  weightedAverage,
+} from "./metrics";
+
+test("weighted averages follow the weights and fall back to null without any", () => {
+  const months = [
+    { margin: 0.8, revenue: 900 },
+    { margin: 0.4, revenue: 100 },
+  ];
+  // A small month at a low margin barely moves the revenue-weighted margin.
+  expect(weightedAverage(months, (m) => m.margin, (m) => m.revenue)).toBeCloseTo(0.76);
+  expect(mean(months.map((m) => m.margin))).toBeCloseTo(0.6);
+  expect(weightedAverage(months, (m) => m.margin, () => 0)).toBeNull();
+  expect(mean([])).toBe(0);
+  expect(sum(months, (m) => m.revenue)).toBe(1000);
+});
+
+test("growth, point changes, shares and per-unit amounts", () => {
+  expect(pctChange(110, 100)).toBeCloseTo(0.1);
+  expect(pctChange(-50, -100)).toBeCloseTo(0.5);
+  expect(pctChange(5, 0)).toBeNull();
+  expect(ppChange(0.034, 0.03)).toBeCloseTo(0.004);
+  expect(ppChange(0.034, undefined)).toBeNull();
+  expect(share(25, 100)).toBe(0.25);
+  expect(share(25, 0)).toBe(0);
+  expect(shares([1, 3])).toEqual([0.25, 0.75]);
+  expect(perUnit(1200, 4)).toBe(300);
+  expect(perUnit(1200, 0)).toBe(0);
+});
+
+test("forecast bands never go below zero and report their precision", () => {
+  expect(forecastBand(100, 20)).toEqual({ low: 80, high: 120, confidence: 0.8 });
+  expect(forecastBand(100, 150)).toEqual({ low: 0, high: 250, confidence: 0 });
+  expect(forecastBand(0, 10).confidence).toBe(0);
+});
+
+test("percent formatting", () => {
+  expect(formatPercent(0.0345)).toBe("3.5%");
+  expect(formatPercent(0.72, 0)).toBe("72%");
+  expect(formatChange(0.041)).toBe("+4.1%");
+  expect(formatChange(-0.003, "pp")).toBe("-0.3pp");
+  expect(formatChange(null)).toBe("n/a");
+  expect(formatChange(Infinity)).toBe("n/a");
+  expect(formatChange(null, "pct", 1, "—")).toBe("—");
+  expect(formatPercent(undefined)).toBe("—");
+  expect(formatPoints(-0.0034)).toBe("-0.3pp");
+  expect(formatMultiple(2.46)).toBe("2.5x");
+  expect(formatMultiple(null)).toBe("—");
+  expect(formatPercent(0.123, proseDigits(0.123))).toBe("12%");
+  expect(formatPercent(0.024, proseDigits(0.024))).toBe("2.4%");
+});
@@ -0,0 +1,73 @@
+/* =======================
+   Metrics
+   =======================
+   Pure calculations and number formatting shared by the dashboard, reports
+   and insights. Rates are fractions (0.034 = 3.4%): a change in a rate is a
+   difference in percentage points, a change in an amount is relative.
+   Averages of rates are weighted by what the rate is a share of, so a
+   small month never counts as much as a large one.
+*/
+
+export const sum = <T>(items: T[], value: (item: T) => number): number => items.reduce((s, item) => s + value(item), 0);
+
+/** Plain mean; 0 for no values. */
+export const mean = (values: number[]): number => (values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0);
+
+/** Average of `value` weighted by `weight`; null when the weights add up to nothing. */
+export const weightedAverage = <T>(items: T[], value: (item: T) => number, weight: (item: T) => number): number | null => {
+  const total = sum(items, weight);
+  return total ? sum(items, (item) => value(item) * weight(item)) / total : null;
+};
+
+/** Relative change; null when there is no meaningful base. */
+export const pctChange = (current: number, previous: number | undefined): number | null =>
+  previous === undefined || previous === 0 ? null : (current - previous) / Math.abs(previous);
+
+/** Difference of two rates, in percentage points as a fraction; null without a base. */
+export const ppChange = (current: number, previous: number | undefined): number | null =>
+  previous === undefined ? null : current - previous;
+
+/** Part of a total; 0 when the total is 0. */
+export const share = (part: number, total: number): number => (total ? part / total : 0);
+
+/** Each value's share of their sum. */
+export const shares = (values: number[]): number[] => {
+  const total = values.reduce((s, v) => s + v, 0);
+  return values.map((v) => share(v, total));
+};
+
+/** An amount per unit, e.g. revenue per customer or per order; 0 with no units. */
+export const perUnit = (amount: number, units: number): number => (units ? amount / units : 0);
+
+export interface ForecastBand {
+  low: number;
+  high: number;
+  /** Relative precision of the band: 1 means zero width, 0 a band as wide as the value. */
+  confidence: number;
+}
+
+/** Band of ±`halfWidth` around a forecast value, never below zero. */
+export const forecastBand = (value: number, halfWidth: number): ForecastBand => ({
+  low: Math.max(0, value - halfWidth),
+  high: value + halfWidth,
+  confidence: value > 0 ? Math.max(0, Math.min(1, 1 - halfWidth / value)) : 0,
+});
+
+const known = (value: number | null | undefined): value is number => value !== null && value !== undefined && Number.isFinite(value);
+
+/** "3.4%" from 0.034; "—" when unavailable. */
+export const formatPercent = (value: number | null | undefined, digits = 1): string =>
+  known(value) ? `${(value * 100).toFixed(digits)}%` : "—";
+
+/** "0.3pp" from 0.003: a difference of two rates, signed only when negative. */
+export const formatPoints = (value: number, digits = 1): string => `${(value * 100).toFixed(digits)}pp`;
+
+/** Digits for a percentage in prose: "12%", but "2.4%" below ten percent. */
+export const proseDigits = (value: number): number => (Math.abs(value) < 0.1 ? 1 : 0);
+
+/** "+4.1%" for a relative change or "-0.3pp" for a change in a rate; `missing` ("n/a") when unavailable. */
+export const formatChange = (value: number | null, unit: "pct" | "pp" = "pct", digits = 1, missing = "n/a"): string =>
+  known(value) ? `${value >= 0 ? "+" : ""}${(value * 100).toFixed(digits)}${unit === "pp" ? "pp" : "%"}` : missing;
+
+/** "2.5x" for a return on spend; "—" when unavailable. */
+export const formatMultiple = (value: number | null, digits = 1): string => (known(value) ? `${value.toFixed(digits)}x` : "—");
@@ -0,0 +1,53 @@
+/* =======================
+   Month keys and labels
+   =======================
+   Months are identified by an ISO date on the first of the month
+   ("2024-01-01") so that series spanning several years stay ordered and
+   year-over-year lookups are a string match.
+*/
+
+export const MONTH_NAMES = ["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"] as const;
+
+export const toMonthKey = (year: number, monthIndex: number): string => {
+  const y = year + Math.floor(monthIndex / 12);
+  const m = ((monthIndex % 12) + 12) % 12;
+  return `${String(y).padStart(4, "0")}-${String(m + 1).padStart(2, "0")}-01`;
+};
+
+export const parseMonthKey = (date: string): { year: number; monthIndex: number } => ({
+  year: Number(date.slice(0, 4)),
+  monthIndex: Number(date.slice(5, 7)) - 1,
+});
+
+export const addMonths = (date: string, n: number): string => {
+  const { year, monthIndex } = parseMonthKey(date);
+  return toMonthKey(year, monthIndex + n);
+};
+
+/** "2024-01-01" → "Jan '24" */
+export const monthLabel = (date: string): string => {
+  const { year, monthIndex } = parseMonthKey(date);
+  return `${MONTH_NAMES[monthIndex]} '${String(year).slice(-2)}`;
+};
+
+/**
+ * Works out the month from a free-text label: "Jan '24", "Jan 2024",
+ * "January 2024", "2024-01" or "2024-01-15". Returns null when the label
+ * carries no year (e.g. plain "Jan").
+ */
+export const inferMonthDate = (label: string): string | null => {
+  const text = label.trim();
+  const iso = /^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/.exec(text);
+  if (iso) {
+    const month = Number(iso[2]);
+    return month >= 1 && month <= 12 ? toMonthKey(Number(iso[1]), month - 1) : null;
+  }
+  const named = /^([A-Za-z]{3})[a-z]*\.?[\s-]+'?(\d{2}|\d{4})$/.exec(text);
+  if (named) {
+    const idx = MONTH_NAMES.findIndex((m) => m.toLowerCase() === named[1].toLowerCase());
+    if (idx < 0) return null;
+    const year = named[2].length === 2 ? 2000 + Number(named[2]) : Number(named[2]);
+    return toMonthKey(year, idx);
+  }
+  return null;
+};
@@ -0,0 +1,101 @@
+import { ForecastPoint, MonthData, PlanMonth } from "../types";
+import { toMonthKey } from "./periods";
+import {
+  CategoryMix, buildCategoryVariance, buildVarianceRows, fiscalYearBridge, revenueBridge, totalVariance,
+} from "./variance";
+
+const keys = Array.from({ length: 4 }, (_, i) => toMonthKey(2025, i));
+
+const plan: PlanMonth[] = keys.map((date) => ({
+  date,
+  revenue: 1_000,
+  grossMargin: 0.7,
+  conversionRate: 0.03,
+  avgOrderValue: 100,
+  categories: [
+    { category: "Handbags", revenue: 800, orders: 4 },
+    { category: "Apparel", revenue: 200, orders: 6 },
+  ],
+}));
+
+const month = (date: string, revenue: number, avgOrderValue: number): MonthData => ({
+  month: date.slice(0, 7),
+  date,
+  revenue,
+  units: 0,
+  grossMargin: 0.7,
+  conversionRate: 0.03,
+  avgOrderValue,
+  trafficSources: { organic: 0, paid: 0, social: 0, email: 0, direct: 0 },
+});
+
+const forecast: ForecastPoint[] = keys.slice(2).map((date) => ({
+  month: date.slice(0, 7),
+  date,
+  revenue: 1_200,
+  forecastHigh: 1_300,
+  forecastLow: 1_100,
+  confidence: 0.8,
+}));
+
+test("latest estimate uses actuals for closed periods and the forecast for the rest", () => {
+  const history = [month(keys[0], 900, 100), month(keys[1], 1_100, 100), month(keys[2], 500, 100)];
+  const closed = new Set(keys.slice(0, 2));
+  const rows = buildVarianceRows(keys, { plan, history, closed, forecast, labelFor: (k) => k });
+
+  expect(rows.map((r) => r.latestEstimate)).toEqual([900, 1_100, 1_200, 1_200]);
+  // The in-progress period shows its partial actual but is estimated from the forecast.
+  expect(rows[2]).toMatchObject({ closed: false, actual: 500, forecast: 1_200, variance: 200 });
+  expect(rows[0].variancePct).toBeCloseTo(-0.1);
+
+  const total = totalVariance(rows);
+  expect(total).toMatchObject({ budget: 4_000, latestEstimate: 4_400, variance: 400 });
+  expect(total.variancePct).toBeCloseTo(0.1);
+});
+
+test("category forecasts are allocated by mix", () => {
+  const actuals = new Map<string, CategoryMix[]>(
+    keys.slice(0, 2).map((k) => [k, [{ category: "Handbags", revenue: 700, orders: 4 }, { category: "Apparel", revenue: 300, orders: 6 }]])
+  );
+  const mix = new Map([["Handbags", 0.75], ["Apparel", 0.25]]);
+  const rows = buildCategoryVariance(keys, { plan, actuals, closed: new Set(keys.slice(0, 2)), forecast, mix });
+
+  const handbags = rows.find((r) => r.category === "Handbags");
+  expect(handbags).toMatchObject({ budget: 3_200, actual: 1_400, forecast: 1_800, latestEstimate: 3_200, variance: 0 });
+  const apparel = rows.find((r) => r.category === "Apparel");
+  expect(apparel).toMatchObject({ budget: 800, actual: 600, forecast: 600, variance: 400 });
+});
+
+test("volume, mix and price effects add up to the revenue change", () => {
+  const base: CategoryMix[] = [
+    { category: "Handbags", revenue: 800, orders: 4 },
+    { category: "Apparel", revenue: 200, orders: 6 },
+  ];
+  const actual: CategoryMix[] = [
+    { category: "Handbags", revenue: 1_470, orders: 7 },
+    { category: "Apparel", revenue: 150, orders: 5 },
+    { category: "Footwear", revenue: 300, orders: 2 },
+  ];
+  const bridge = revenueBridge(base, actual);
+
+  expect(bridge.base).toBe(1_000);
+  expect(bridge.actual).toBe(1_920);
+  // 14 orders vs 10 at the budgeted $100 AOV
+  expect(bridge.volume).toBeCloseTo(400);
+  expect(bridge.base + bridge.volume + bridge.mix + bridge.price).toBeCloseTo(bridge.actual);
+  // Handbags ran at $210 vs $200 and Apparel at $30 vs $33.33; Footwear is new, so it is all mix.
+  expect(bridge.price).toBeCloseTo(7 * 10 + 5 * (30 - 200 / 6));
+});
+
+test("without category data the bridge has no mix effect", () => {
+  const history = [month(keys[0], 1_100, 110), month(keys[1], 900, 90)];
+  const totalsOnly = plan.map(({ categories, ...m }) => m);
+  const bridge = fiscalYearBridge(keys, { plan: totalsOnly, history, actuals: new Map(), closed: new Set(keys.slice(0, 2)) });
+
+  expect(bridge).not.toBeNull();
+  expect(bridge?.mix).toBeCloseTo(0);
+  expect(bridge?.base).toBe(2_000);
+  expect(bridge?.actual).toBe(2_000);
+  expect((bridge?.volume ?? 0) + (bridge?.price ?? 0)).toBeCloseTo(0);
+  expect(fiscalYearBridge(keys, { plan, history, actuals: new Map(), closed: new Set() })).toBeNull();
+});
@@ -0,0 +1,229 @@
+import { DailyData, ForecastPoint, MonthData, PlanMonth } from "../types";
+import { FiscalCalendarConfig, aggregateDaily } from "./fiscalCalendar";
+import { toMonthKey } from "./periods";
+
+/* =======================
+   Budget vs actual vs forecast
+   =======================
+   Each period of a fiscal year gets its budget, its actual (when closed) or
+   forecast (when not), and the latest estimate (LE) built from the two.
+   Variances are always LE minus budget.
+*/
+
+export interface CategoryMix {
+  category: string;
+  revenue: number;
+  orders: number;
+}
+
+export interface VarianceLine {
+  budget: number | null;
+  actual: number | null;
+  forecast: number | null;
+  latestEstimate: number | null;
+  variance: number | null;
+  variancePct: number | null;
+}
+
+export interface VarianceRow extends VarianceLine {
+  date: string;
+  month: string;
+  closed: boolean;
+}
+
+export interface CategoryVarianceRow extends VarianceLine {
+  category: string;
+}
+
+export interface RevenueBridge {
+  base: number;
+  volume: number;
+  mix: number;
+  price: number;
+  actual: number;
+}
+
+export const fiscalYearKeys = (fiscalYear: number): string[] =>
+  Array.from({ length: 12 }, (_, i) => toMonthKey(fiscalYear, i));
+
+/** Total of the known values; null, not 0, when none is known. */
+const sumKnown = (xs: (number | null)[]): number | null =>
+  xs.some((x) => x !== null) ? xs.reduce<number>((s, x) => s + (x ?? 0), 0) : null;
+
+const ordersFor = (revenue: number, aov: number) => (aov ? revenue / aov : 0);
+
+const line = (budget: number | null, actual: number | null, forecast: number | null, latestEstimate: number | null): VarianceLine => {
+  const variance = budget !== null && latestEstimate !== null ? latestEstimate - budget : null;
+  return {
+    budget,
+    actual,
+    forecast,
+    latestEstimate,
+    variance,
+    variancePct: variance !== null && budget ? variance / budget : null,
+  };
+};
+
+/** Orders and revenue per category for each complete period. */
+export const categoryActuals = (rows: DailyData[], calendar: FiscalCalendarConfig): Map<string, CategoryMix[]> => {
+  const byCategory = new Map<string, DailyData[]>();
+  rows.forEach((r) => {
+    if (!r.category) return;
+    const list = byCategory.get(r.category) ?? [];
+    list.push(r);
+    byCategory.set(r.category, list);
+  });
+  const byPeriod = new Map<string, CategoryMix[]>();
+  byCategory.forEach((categoryRows, category) =>
+    aggregateDaily(categoryRows, calendar).forEach((m) => {
+      const list = byPeriod.get(m.date) ?? [];
+      list.push({ category, revenue: m.revenue, orders: ordersFor(m.revenue, m.avgOrderValue) });
+      byPeriod.set(m.date, list);
+    })
+  );
+  return byPeriod;
+};
+
+/** One row per period of the fiscal year; actuals of `history` periods not in `closed` are shown but not used for LE. */
+export const buildVarianceRows = (
+  periodKeys: string[],
+  sources: { plan: PlanMonth[]; history: MonthData[]; closed: Set<string>; forecast: ForecastPoint[]; labelFor: (key: string) => string }
+): VarianceRow[] => {
+  const planBy = new Map(sources.plan.map((m) => [m.date, m.revenue]));
+  const actualBy = new Map(sources.history.map((m) => [m.date, m]));
+  const forecastBy = new Map(sources.forecast.filter((p) => p.date).map((p) => [p.date as string, p.revenue]));
+  return periodKeys.map((date) => {
+    const actual = actualBy.get(date);
+    const closed = sources.closed.has(date);
+    const forecast = closed ? null : forecastBy.get(date) ?? null;
+    return {
+      date,
+      month: actual?.month ?? sources.labelFor(date),
+      closed,
+      ...line(planBy.get(date) ?? null, actual?.revenue ?? null, forecast, closed ? actual?.revenue ?? null : forecast),
+    };
+  });
+};
+
+export const totalVariance = (rows: VarianceLine[]): VarianceLine =>
+  line(
+    sumKnown(rows.map((r) => r.budget)),
+    sumKnown(rows.map((r) => r.actual)),
+    sumKnown(rows.map((r) => r.forecast)),
+    sumKnown(rows.map((r) => r.latestEstimate))
+  );
+
+/**
+ * Category lines for the fiscal year. Forecasts have no category split, so
+ * each open period's forecast is allocated by `mix` (category revenue shares).
+ */
+export const buildCategoryVariance = (
+  periodKeys: string[],
+  sources: {
+    plan: PlanMonth[];
+    actuals: Map<string, CategoryMix[]>;
+    closed: Set<string>;
+    forecast: ForecastPoint[];
+    mix: Map<string, number>;
+  }
+): CategoryVarianceRow[] => {
+  const planBy = new Map(sources.plan.map((m) => [m.date, m]));
+  const forecastBy = new Map(sources.forecast.filter((p) => p.date).map((p) => [p.date as string, p.revenue]));
+  const categories = new Set<string>(sources.mix.keys());
+  periodKeys.forEach((k) => {
+    planBy.get(k)?.categories?.forEach((c) => categories.add(c.category));
+    sources.actuals.get(k)?.forEach((c) => categories.add(c.category));
+  });
+
+  return Array.from(categories, (category) => {
+    const budgets = periodKeys.map((k) => planBy.get(k)?.categories?.find((c) => c.category === category)?.revenue ?? null);
+    const actuals = periodKeys.map((k) =>
+      sources.closed.has(k) ? sources.actuals.get(k)?.find((c) => c.category === category)?.revenue ?? null : null
+    );
+    const forecasts = periodKeys.map((k) => {
+      const total = sources.closed.has(k) ? undefined : forecastBy.get(k);
+      return total === undefined ? null : total * (sources.mix.get(category) ?? 0);
+    });
+    const actual = sumKnown(actuals);
+    const forecast = sumKnown(forecasts);
+    return { category, ...line(sumKnown(budgets), actual, forecast, sumKnown([actual, forecast])) };
+  }).sort((a, b) => (b.latestEstimate ?? 0) - (a.latestEstimate ?? 0));
+};
+
+/**
+ * Splits the revenue change from `base` to `actual` into volume (orders),
+ * mix (category shares of orders) and price (AOV within each category).
+ * The three effects add up to the total change.
+ */
+export const revenueBridge = (base: CategoryMix[], actual: CategoryMix[]): RevenueBridge => {
+  const total = (xs: CategoryMix[]) => xs.reduce((s, c) => ({ revenue: s.revenue + c.revenue, orders: s.orders + c.orders }), { revenue: 0, orders: 0 });
+  const b = total(base);
+  const a = total(actual);
+  const baseAov = b.orders ? b.revenue / b.orders : 0;
+  const categories = new Set([...base.map((c) => c.category), ...actual.map((c) => c.category)]);
+
+  let mix = 0;
+  let price = 0;
+  categories.forEach((category) => {
+    const bc = base.find((c) => c.category === category);
+    const ac = actual.find((c) => c.category === category);
+    const actualAov = ac && ac.orders ? ac.revenue / ac.orders : 0;
+    // A category with no base orders is priced at its actual AOV, so all of it counts as mix.
+    const basePrice = bc && bc.orders ? bc.revenue / bc.orders : actualAov;
+    const baseShare = b.orders && bc ? bc.orders / b.orders : 0;
+    const actualShare = a.orders && ac ? ac.orders / a.orders : 0;
+    mix += a.orders * (actualShare - baseShare) * basePrice;
+    price += a.orders * actualShare * (actualAov - basePrice);
+  });
+
+  return { base: b.revenue, volume: (a.orders - b.orders) * baseAov, mix, price, actual: a.revenue };
+};
+
+
+const addMix = (into: Map<string, CategoryMix>, items: CategoryMix[]) =>
+  items.forEach((c) => {
+    const t = into.get(c.category) ?? { category: c.category, revenue: 0, orders: 0 };
+    t.revenue += c.revenue;
+    t.orders += c.orders;
+    into.set(c.category, t);
+  });
+
+/**
+ * Budget-to-actual bridge over the closed, planned periods in `periodKeys`.
+ * Uses category mixes when both the plan and the actuals are split by
+ * category, otherwise totals (so the mix effect is zero). Null when no
+ * period qualifies.
+ */
+export const fiscalYearBridge = (
+  periodKeys: string[],
+  sources: { plan: PlanMonth[]; history: MonthData[]; actuals: Map<string, CategoryMix[]>; closed: Set<string> }
+): RevenueBridge | null => {
+  const planBy = new Map(sources.plan.map((m) => [m.date, m]));
+  const actualBy = new Map(sources.history.map((m) => [m.date, m]));
+  const keys = periodKeys.filter((k) => sources.closed.has(k) && planBy.has(k) && actualBy.has(k));
+  if (keys.length === 0) return null;
+
+  const byCategory = keys.every((k) => planBy.get(k)?.categories?.length && sources.actuals.get(k)?.length);
+  const base = new Map<string, CategoryMix>();
+  const actual = new Map<string, CategoryMix>();
+  keys.forEach((k) => {
+    const p = planBy.get(k) as PlanMonth;
+    const a = actualBy.get(k) as MonthData;
+    if (byCategory) {
+      addMix(base, p.categories ?? []);
+      addMix(actual, sources.actuals.get(k) ?? []);
+    } else {
+      addMix(base, [{ category: "All", revenue: p.revenue, orders: ordersFor(p.revenue, p.avgOrderValue) }]);
+      addMix(actual, [{ category: "All", revenue: a.revenue, orders: ordersFor(a.revenue, a.avgOrderValue) }]);
+    }
+  });
+  return revenueBridge(Array.from(base.values()), Array.from(actual.values()));
+};
+
+/** Revenue share of each category over `periodKeys`, used to split forecasts. */
+export const categoryShares = (actuals: Map<string, CategoryMix[]>, periodKeys: string[]): Map<string, number> => {
+  const totals = new Map<string, CategoryMix>();
+  periodKeys.forEach((k) => addMix(totals, actuals.get(k) ?? []));
+  const all = Array.from(totals.values()).reduce((s, c) => s + c.revenue, 0);
+  return new Map(Array.from(totals.values(), (c) => [c.category, all ? c.revenue / all : 0]));
+};
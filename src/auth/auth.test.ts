@@ -0,0 +1,73 @@
+import { createMockProvider } from "../data/providers";
+import { createIdentityProviderFromEnv, createMockIdentityProvider, parseIdentity } from "./identity";
+import { accessFor, canSee } from "./roles";
+import { describeScope, scopeData } from "./scope";
+
+test("roles decide tabs, scope and masked figures", () => {
+  const manager = accessFor({ id: "m", name: "M", role: "regionalManager", regions: ["EMEA"], categories: ["Apparel"] });
+  expect(manager.tabs).toEqual(["dashboard", "forecast", "5ps"]);
+  expect(manager.scope).toEqual({ regions: ["EMEA"], categories: null });
+  expect(canSee(manager, "margin")).toBe(true);
+
+  // Nothing assigned means nothing visible, not everything.
+  expect(accessFor({ id: "m2", name: "M2", role: "regionalManager" }).scope.regions).toEqual([]);
+
+  const analyst = accessFor({ id: "a", name: "A", role: "marketingAnalyst" });
+  expect(canSee(analyst, "margin")).toBe(false);
+  expect(describeScope(analyst.scope)).toBe("All regions and categories");
+  expect(describeScope(manager.scope)).toBe("Regions: EMEA");
+});
+
+test("scoped data keeps only the user's regions and withholds company-wide datasets", async () => {
+  const data = await createMockProvider({ seed: 7 }).load();
+  const { data: scoped, withheld } = scopeData(data, { regions: ["EMEA"], categories: null });
+
+  expect(scoped.dailyData?.length).toBeGreaterThan(0);
+  expect(scoped.dailyData?.every((r) => r.region === "EMEA")).toBe(true);
+  const total = (rows: { revenue: number }[]) => rows.reduce((s, r) => s + r.revenue, 0);
+  expect(total(scoped.historicalData)).toBeCloseTo(total(scoped.dailyData ?? []), 0);
+  expect(total(scoped.historicalData)).toBeLessThan(total(data.historicalData) / 2);
+
+  expect(scoped.plan).toBeUndefined();
+  expect(scoped.orders).toBeUndefined();
+  expect(scoped.products).toBeUndefined();
+  expect(withheld).toEqual(expect.arrayContaining(["plan", "marketing", "orders", "products"]));
+  expect(withheld).not.toContain("historicalData");
+
+  // Category scopes keep the SKUs in those categories.
+  const byCategory = scopeData(data, { regions: null, categories: ["Footwear"] }).data;
+  expect(byCategory.products?.products.every((p) => p.category === "Footwear")).toBe(true);
+  expect(byCategory.inventory?.map((p) => p.category)).toEqual(["Footwear"]);
+
+  // Monthly-only sources can't be cut down by region.
+  const monthly = scopeData({ historicalData: data.historicalData, forecastData: [] }, { regions: ["EMEA"], categories: null });
+  expect(monthly.data.historicalData).toEqual([]);
+  expect(monthly.withheld).toEqual(["historicalData"]);
+});
+
+test("mock identity provider remembers the account and sign-out", async () => {
+  window.localStorage.clear();
+  const first = createMockIdentityProvider();
+  expect((await first.getSession())?.role).toBe("executive");
+  await first.signIn("marketing");
+  expect((await createMockIdentityProvider().getSession())?.id).toBe("marketing");
+  await first.signOut();
+  expect(await createMockIdentityProvider().getSession()).toBeNull();
+  await expect(first.signIn("nobody")).rejects.toThrow(/Unknown account/);
+  window.localStorage.clear();
+
+  expect(createIdentityProviderFromEnv({}).id).toBe("mock");
+  await expect(createIdentityProviderFromEnv({ REACT_APP_AUTH: "session" }).getSession()).rejects.toThrow(/REACT_APP_AUTH_SESSION_URL/);
+});
+
+test("parseIdentity rejects unknown roles and malformed scopes", () => {
+  expect(parseIdentity({ id: "u1", name: "Sam", role: "regionalManager", regions: ["APAC"], extra: 1 })).toEqual({
+    id: "u1",
+    name: "Sam",
+    role: "regionalManager",
+    regions: ["APAC"],
+  });
+  expect(() => parseIdentity({ id: "u1", name: "Sam", role: "admin" })).toThrow(/unknown role "admin"/);
+  expect(() => parseIdentity({ id: "u1", name: "Sam", role: "executive", regions: "EMEA" })).toThrow(/"regions"/);
+  expect(() => parseIdentity(null)).toThrow(/expected a user object/);
+});
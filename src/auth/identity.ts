@@ -0,0 +1,147 @@
+import { Identity, isRole } from "./roles";
+
+/* =======================
+   Identity provider contract
+   ======================= */
+export interface IdentityProvider {
+  id: string;
+  label: string;
+  /** Accounts offered on the sign-in screen; only the development provider lists them. */
+  accounts?: Identity[];
+  /** The signed-in user, or null when nobody is. */
+  getSession: (signal?: AbortSignal) => Promise<Identity | null>;
+  /** Signs in as one of `accounts`, or hands over to the provider's login page (resolving null). */
+  signIn: (accountId?: string) => Promise<Identity | null>;
+  signOut: () => Promise<void>;
+}
+
+export class IdentityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdentityError";
+  }
+}
+
+const stringList = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === "string");
+
+/** Validates a user record from an identity service. */
+export const parseIdentity = (raw: unknown): Identity => {
+  if (typeof raw !== "object" || raw === null) throw new IdentityError("Session: expected a user object");
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "string" || !r.id) throw new IdentityError('Session: "id" must be a non-empty string');
+  if (typeof r.name !== "string" || !r.name) throw new IdentityError('Session: "name" must be a non-empty string');
+  if (!isRole(r.role)) throw new IdentityError(`Session: unknown role ${JSON.stringify(r.role)}`);
+  if (r.regions !== undefined && !stringList(r.regions)) throw new IdentityError('Session: "regions" must be a list of strings');
+  if (r.categories !== undefined && !stringList(r.categories)) throw new IdentityError('Session: "categories" must be a list of strings');
+  return {
+    id: r.id,
+    name: r.name,
+    role: r.role,
+    ...(typeof r.email === "string" ? { email: r.email } : {}),
+    ...(r.regions !== undefined ? { regions: r.regions as string[] } : {}),
+    ...(r.categories !== undefined ? { categories: r.categories as string[] } : {}),
+  };
+};
+
+/* =======================
+   Mock provider (development)
+   ======================= */
+// One account per role; the regions match the mock data source's storefronts.
+export const MOCK_ACCOUNTS: Identity[] = [
+  { id: "exec", name: "Jordan Avery", email: "jordan.avery@example.com", role: "executive" },
+  { id: "emea", name: "Robin Keller", email: "robin.keller@example.com", role: "regionalManager", regions: ["EMEA"] },
+  { id: "americas", name: "Casey Morgan", email: "casey.morgan@example.com", role: "regionalManager", regions: ["North America"] },
+  { id: "marketing", name: "Drew Patel", email: "drew.patel@example.com", role: "marketingAnalyst" },
+];
+
+const MOCK_SESSION_KEY = "retail-analytics:mock-session";
+
+/**
+ * Signs in locally as any of `accounts`, remembered in localStorage. With
+ * nothing stored it starts signed in as the first account, so the
+ * dashboard opens straight away in development.
+ */
+export const createMockIdentityProvider = (accounts: Identity[] = MOCK_ACCOUNTS): IdentityProvider => {
+  const read = (): string | null => {
+    try {
+      const stored = window.localStorage.getItem(MOCK_SESSION_KEY);
+      return stored === null ? accounts[0]?.id ?? null : stored || null;
+    } catch {
+      return accounts[0]?.id ?? null;
+    }
+  };
+  const write = (id: string) => {
+    try {
+      window.localStorage.setItem(MOCK_SESSION_KEY, id);
+    } catch {
+      // Storage disabled: the session lasts until the page is reloaded.
+    }
+  };
+  let current = read();
+  return {
+    id: "mock",
+    label: "Development accounts",
+    accounts,
+    getSession: async () => accounts.find((a) => a.id === current) ?? null,
+    signIn: async (accountId) => {
+      const account = accounts.find((a) => a.id === accountId);
+      if (!account) throw new IdentityError(`Unknown account "${accountId}"`);
+      current = account.id;
+      write(account.id);
+      return account;
+    },
+    signOut: async () => {
+      current = null;
+      write("");
+    },
+  };
+};
+
+/* =======================
+   Session provider (single sign-on)
+   ======================= */
+export interface SessionProviderOptions {
+  /** Returns the signed-in user as JSON, or 401 when there is none; DELETE signs out. */
+  sessionUrl: string;
+  /** Where the browser goes to sign in. */
+  loginUrl: string;
+}
+
+/** Reads the user from the host's session cookie; signing in happens on the identity service's own page. */
+export const createSessionIdentityProvider = ({ sessionUrl, loginUrl }: SessionProviderOptions): IdentityProvider => ({
+  id: "session",
+  label: "Single sign-on",
+  getSession: async (signal) => {
+    const res = await fetch(sessionUrl, { credentials: "include", headers: { Accept: "application/json" }, signal });
+    if (res.status === 401) return null;
+    if (!res.ok) throw new IdentityError(`Session request failed: ${res.status} ${res.statusText}`);
+    return parseIdentity(await res.json());
+  },
+  signIn: async () => {
+    window.location.assign(loginUrl);
+    return null;
+  },
+  signOut: async () => {
+    await fetch(sessionUrl, { method: "DELETE", credentials: "include" });
+  },
+});
+
+/**
+ * Picks an identity provider from REACT_APP_AUTH ("mock" | "session"),
+ * REACT_APP_AUTH_SESSION_URL and REACT_APP_AUTH_LOGIN_URL. Falls back to
+ * the development accounts.
+ */
+export const createIdentityProviderFromEnv = (env: Record<string, string | undefined> = process.env): IdentityProvider => {
+  if (env.REACT_APP_AUTH !== "session") return createMockIdentityProvider();
+  const sessionUrl = env.REACT_APP_AUTH_SESSION_URL;
+  if (!sessionUrl) {
+    return {
+      id: "session",
+      label: "Single sign-on (not configured)",
+      getSession: () => Promise.reject(new IdentityError("REACT_APP_AUTH_SESSION_URL is required for single sign-on")),
+      signIn: async () => null,
+      signOut: async () => undefined,
+    };
+  }
+  return createSessionIdentityProvider({ sessionUrl, loginUrl: env.REACT_APP_AUTH_LOGIN_URL ?? `${sessionUrl}/login` });
+};
@@ -0,0 +1,87 @@
+import { TabId } from "../types";
+import { DataScope } from "./scope";
+
+/* =======================
+   Roles and access
+   =======================
+   A role decides the tabs a user gets, whether their data is limited to
+   the regions / categories assigned to them, and which figures are masked.
+*/
+
+export type Role = "executive" | "regionalManager" | "marketingAnalyst";
+
+/** Figures a role may be denied; "margin" covers gross margin and gross profit. */
+export type RestrictedFigure = "margin";
+
+export interface RoleDefinition {
+  name: string;
+  description: string;
+  tabs: TabId[];
+  /** "assigned" limits the data to the user's own regions / categories. */
+  regions: "all" | "assigned";
+  categories: "all" | "assigned";
+  masked: RestrictedFigure[];
+}
+
+export const ROLES: Record<Role, RoleDefinition> = {
+  executive: {
+    name: "Executive",
+    description: "Every tab and figure, company-wide",
+    tabs: ["dashboard", "variance", "forecast", "5ps"],
+    regions: "all",
+    categories: "all",
+    masked: [],
+  },
+  regionalManager: {
+    name: "Regional manager",
+    description: "Dashboard, forecast and 5P's for their own regions",
+    tabs: ["dashboard", "forecast", "5ps"],
+    regions: "assigned",
+    categories: "all",
+    masked: [],
+  },
+  marketingAnalyst: {
+    name: "Marketing analyst",
+    description: "Dashboard and 5P's without margin figures",
+    tabs: ["dashboard", "5ps"],
+    regions: "all",
+    categories: "all",
+    masked: ["margin"],
+  },
+};
+
+export const isRole = (v: unknown): v is Role => typeof v === "string" && v in ROLES;
+
+/** Who is signed in, as the identity provider reports them. */
+export interface Identity {
+  id: string;
+  name: string;
+  email?: string;
+  role: Role;
+  /** Regions / categories assigned to the user; only read when the role limits that dimension. */
+  regions?: string[];
+  categories?: string[];
+}
+
+export interface Access {
+  role: RoleDefinition;
+  tabs: TabId[];
+  scope: DataScope;
+  masked: RestrictedFigure[];
+}
+
+/** What `user` may see. A scoped dimension with nothing assigned shows nothing rather than everything. */
+export const accessFor = (user: Identity): Access => {
+  const role = ROLES[user.role];
+  return {
+    role,
+    tabs: role.tabs,
+    scope: {
+      regions: role.regions === "assigned" ? user.regions ?? [] : null,
+      categories: role.categories === "assigned" ? user.categories ?? [] : null,
+    },
+    masked: role.masked,
+  };
+};
+
+export const canSee = (access: Access, figure: RestrictedFigure) => !access.masked.includes(figure);
@@ -0,0 +1,77 @@
+import { DailyData, DashboardData } from "../types";
+import { GREGORIAN, aggregateDaily } from "../analytics/fiscalCalendar";
+
+/* =======================
+   Per-user data scoping
+   =======================
+   A scoped user sees only the daily rows in their regions / categories;
+   everything else is rebuilt from those rows. Datasets kept for the whole
+   business (plan, source forecast, campaigns, customers, and stock or SKU
+   sales when regions are limited) can't be cut down, so they are withheld.
+*/
+
+/** Allowed values per dimension; null allows everything, [] nothing. */
+export interface DataScope {
+  regions: string[] | null;
+  categories: string[] | null;
+}
+
+export const UNSCOPED: DataScope = { regions: null, categories: null };
+
+export type WithheldData = "historicalData" | "forecastData" | "plan" | "products" | "inventory" | "marketing" | "orders";
+
+export const WITHHELD_NAMES: Record<WithheldData, string> = {
+  historicalData: "sales history",
+  forecastData: "the source's forecast",
+  plan: "the plan",
+  products: "SKU sales",
+  inventory: "stock positions",
+  marketing: "campaigns",
+  orders: "customers",
+};
+
+export interface ScopedData {
+  data: DashboardData;
+  /** Datasets the source has that the scope hides. */
+  withheld: WithheldData[];
+}
+
+export const isScoped = (scope: DataScope) => scope.regions !== null || scope.categories !== null;
+
+const allowed = (list: string[] | null, value: string | undefined) => list === null || (!!value && list.includes(value));
+
+/** Rows inside the scope; a row without the scoped dimension is outside it. */
+export const scopeRows = (rows: DailyData[], scope: DataScope): DailyData[] =>
+  isScoped(scope) ? rows.filter((r) => allowed(scope.regions, r.region) && allowed(scope.categories, r.category)) : rows;
+
+export const scopeData = (data: DashboardData, scope: DataScope): ScopedData => {
+  if (!isScoped(scope)) return { data, withheld: [] };
+
+  const daily = scopeRows(data.dailyData ?? [], scope);
+  const byRegion = scope.regions !== null;
+  const categories = scope.categories;
+  const products = data.products && !byRegion ? data.products.products.filter((p) => allowed(categories, p.category)) : undefined;
+  const skus = new Set(products?.map((p) => p.sku));
+  const scoped: DashboardData = {
+    historicalData: data.dailyData?.length ? aggregateDaily(daily, GREGORIAN) : [],
+    forecastData: [],
+    ...(data.dailyData?.length ? { dailyData: daily } : {}),
+    ...(data.currency ? { currency: data.currency } : {}),
+    ...(products && data.products ? { products: { products, sales: data.products.sales.filter((s) => skus.has(s.sku)) } } : {}),
+    ...(data.inventory && !byRegion ? { inventory: data.inventory.filter((p) => allowed(categories, p.category)) } : {}),
+  };
+  const present = (v: unknown) => (Array.isArray(v) ? v.length > 0 : v !== undefined);
+  // Empty history from a scope that matches no rows isn't withheld, just empty.
+  const withheld = (Object.keys(WITHHELD_NAMES) as WithheldData[]).filter(
+    (key) => present(data[key]) && !present(scoped[key]) && (key !== "historicalData" || !data.dailyData?.length)
+  );
+  return { data: scoped, withheld };
+};
+
+/** "Regions: EMEA • Categories: Handbags", or "All regions and categories". */
+export const describeScope = (scope: DataScope): string => {
+  const parts = ([["Regions", scope.regions], ["Categories", scope.categories]] as const)
+    .filter(([, values]) => values !== null)
+    .map(([name, values]) => `${name}: ${values && values.length ? values.join(", ") : "none assigned"}`);
+  return parts.length ? parts.join(" • ") : "All regions and categories";
+};
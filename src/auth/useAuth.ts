@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import { Identity } from "./roles";
+import { IdentityProvider } from "./identity";
+
+export type AuthStatus = "loading" | "signedIn" | "signedOut" | "error";
+
+export interface AuthState {
+  status: AuthStatus;
+  user: Identity | null;
+  error: Error | null;
+  provider: IdentityProvider;
+  signIn: (accountId?: string) => void;
+  signOut: () => void;
+  retry: () => void;
+}
+
+/** The signed-in user from an identity provider, with sign-in / sign-out. */
+export const useAuth = (provider: IdentityProvider): AuthState => {
+  const [user, setUser] = useState<Identity | null>(null);
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const fail = useCallback((err: unknown) => {
+    setUser(null);
+    setError(err instanceof Error ? err : new Error(String(err)));
+    setStatus("error");
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStatus("loading");
+    setError(null);
+    provider
+      .getSession(controller.signal)
+      .then((session) => {
+        if (controller.signal.aborted) return;
+        setUser(session);
+        setStatus(session ? "signedIn" : "signedOut");
+      })
+      .catch((err: unknown) => {
+        if (!controller.signal.aborted) fail(err);
+      });
+    return () => controller.abort();
+  }, [provider, attempt, fail]);
+
+  const signIn = useCallback(
+    (accountId?: string) => {
+      provider
+        .signIn(accountId)
+        .then((session) => {
+          if (!session) return; // handed over to the login page
+          setUser(session);
+          setStatus("signedIn");
+        })
+        .catch(fail);
+    },
+    [provider, fail]
+  );
+  const signOut = useCallback(() => {
+    provider
+      .signOut()
+      .then(() => {
+        setUser(null);
+        setStatus("signedOut");
+      })
+      .catch(fail);
+  }, [provider, fail]);
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { status, user, error, provider, signIn, signOut, retry };
+};
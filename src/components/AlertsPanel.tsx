@@ -0,0 +1,172 @@
+import React, { useState } from "react";
+import { AlertTriangle, Bell, Plus, Trash2 } from "lucide-react";
+import { ALERT_METRICS, AlertMetric, AlertSeverity, Anomaly } from "../alerts/anomalies";
+import { AlertRule, RuleBreach, describeRule, formatMetricValue } from "../alerts/rules";
+import { DEFAULT_CURRENCY, currencySymbol } from "../currency/format";
+import { formatChange } from "../analytics/metrics";
+
+interface AlertsPanelProps {
+  anomalies: Anomaly[];
+  breaches: RuleBreach[];
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  /** Currency the amounts are in. */
+  currency?: string;
+  /** Metrics new rules can watch; defaults to all of them. */
+  metrics?: AlertMetric[];
+}
+
+interface AlertItem {
+  key: string;
+  date: string;
+  month: string;
+  severity: AlertSeverity;
+  title: string;
+  detail: string;
+}
+
+const SEVERITY_STYLE: Record<AlertSeverity, string> = {
+  critical: "bg-red-100 text-red-800",
+  warning: "bg-orange-100 text-orange-800",
+};
+
+const toItems = (anomalies: Anomaly[], breaches: RuleBreach[], currency: string): AlertItem[] =>
+  [
+    ...anomalies.map((a) => ({
+      key: `anomaly-${a.metric}-${a.date}`,
+      date: a.date,
+      month: a.month,
+      severity: a.severity,
+      title: `${ALERT_METRICS[a.metric].name} ${a.deviation < 0 ? "unusually low" : "unusually high"}`,
+      detail: `${formatMetricValue(a.metric, a.actual, currency)} vs ${formatMetricValue(a.metric, a.expected, currency)} expected (${formatChange(a.deviation)})`,
+    })),
+    ...breaches.map((b) => ({
+      key: `rule-${b.rule.id}-${b.date}`,
+      date: b.date,
+      month: b.month,
+      severity: b.rule.severity,
+      title: describeRule(b.rule, currency),
+      detail: `Actual ${formatMetricValue(b.rule.metric, b.actual, currency)}`,
+    })),
+  ].sort((a, b) => b.date.localeCompare(a.date) || (a.severity === b.severity ? 0 : a.severity === "critical" ? -1 : 1));
+
+/** Anomalies and threshold-rule breaches, newest first, with a small rule editor. */
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  anomalies,
+  breaches,
+  rules,
+  onRulesChange,
+  currency = DEFAULT_CURRENCY,
+  metrics = Object.keys(ALERT_METRICS) as AlertMetric[],
+}) => {
+  const [metric, setMetric] = useState<AlertMetric>(metrics.includes("grossMargin") ? "grossMargin" : metrics[0]);
+  const [comparator, setComparator] = useState<AlertRule["comparator"]>("below");
+  const [value, setValue] = useState<string>("");
+  const [severity, setSeverity] = useState<AlertSeverity>("warning");
+
+  const items = toItems(anomalies, breaches, currency);
+  const isRate = ALERT_METRICS[metric].unit === "rate";
+  const parsed = Number(value);
+  const canAdd = value.trim() !== "" && Number.isFinite(parsed);
+
+  const addRule = () => {
+    if (!canAdd) return;
+    onRulesChange([
+      ...rules,
+      { id: `rule-${Date.now()}`, metric, comparator, value: isRate ? parsed / 100 : parsed, ...(isRate ? {} : { currency }), severity },
+    ]);
+    setValue("");
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center space-x-2">
+          <Bell className="h-5 w-5" />
+          <span>Alerts</span>
+        </h3>
+        <span className="text-sm text-gray-600">
+          {items.length === 0 ? "No alerts" : `${items.length} alert${items.length === 1 ? "" : "s"}`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-2 max-h-80 overflow-y-auto">
+          {items.length === 0 && (
+            <p className="text-sm text-gray-600">Nothing unusual in the selected periods, and no rule is breached.</p>
+          )}
+          {items.map((item) => (
+            <div key={item.key} className="p-3 border rounded-lg flex items-start space-x-3">
+              <AlertTriangle className={`h-4 w-4 mt-0.5 ${item.severity === "critical" ? "text-red-600" : "text-orange-500"}`} />
+              <div className="flex-1">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{item.title}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded ${SEVERITY_STYLE[item.severity]}`}>{item.severity}</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {item.month} • {item.detail}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <h4 className="font-semibold">Threshold rules</h4>
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+              <span>
+                {describeRule(rule, currency)} <span className="text-gray-500">({rule.severity})</span>
+              </span>
+              <button
+                onClick={() => onRulesChange(rules.filter((r) => r.id !== rule.id))}
+                className="text-gray-500 hover:text-red-600"
+                aria-label={`Delete rule ${describeRule(rule, currency)}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            <select value={metric} onChange={(e) => setMetric(e.target.value as AlertMetric)} className="px-2 py-1 border rounded" aria-label="Rule metric">
+              {metrics.map((m) => (
+                <option key={m} value={m}>{ALERT_METRICS[m].name}</option>
+              ))}
+            </select>
+            <select
+              value={comparator}
+              onChange={(e) => setComparator(e.target.value as AlertRule["comparator"])}
+              className="px-2 py-1 border rounded"
+              aria-label="Rule comparator"
+            >
+              <option value="below">below</option>
+              <option value="above">above</option>
+            </select>
+            <input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={isRate ? "e.g. 65 (%)" : `e.g. 900000 (${currencySymbol(currency).trim()})`}
+              inputMode="decimal"
+              className="px-2 py-1 border rounded"
+              aria-label="Rule threshold"
+            />
+            <select value={severity} onChange={(e) => setSeverity(e.target.value as AlertSeverity)} className="px-2 py-1 border rounded" aria-label="Rule severity">
+              <option value="warning">warning</option>
+              <option value="critical">critical</option>
+            </select>
+          </div>
+          <button
+            onClick={addRule}
+            disabled={!canAdd}
+            className="flex items-center space-x-1 px-3 py-1 border rounded disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add rule</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
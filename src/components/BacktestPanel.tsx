@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { BacktestResult } from "../forecasting/backtest";
+import { FORECAST_MODELS, ForecastModelId } from "../forecasting/models";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+import { formatPercent } from "../analytics/metrics";
+
+interface BacktestPanelProps {
+  results: BacktestResult[];
+  selectedModel: ForecastModelId | "source";
+  horizon: number;
+  /** Currency the amounts are in. */
+  currency?: string;
+}
+
+/** Backtest summary for every model plus a per-fold drill-down for the selected one. */
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ results, selectedModel, horizon, currency = DEFAULT_CURRENCY }) => {
+  const money = (v: number) => (Number.isFinite(v) ? formatCompact(v, currency) : "—");
+  const [expanded, setExpanded] = useState<ForecastModelId | null>(null);
+  const drillDown = results.find((r) => r.modelId === (expanded ?? selectedModel));
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border">
+      <h3 className="text-lg font-semibold mb-1">Backtest Accuracy</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Rolling-origin backtest: each model is refitted at every month and scored on the following {horizon} months.
+      </p>
+
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-left">
+          <tr>
+            <th className="px-3 py-2">Model</th>
+            <th className="px-3 py-2 text-right">MAE</th>
+            <th className="px-3 py-2 text-right">MAPE</th>
+            <th className="px-3 py-2 text-right">RMSE</th>
+            <th className="px-3 py-2 text-right">Interval coverage</th>
+            <th className="px-3 py-2 text-right">Folds</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r) => {
+            const isOpen = drillDown?.modelId === r.modelId;
+            return (
+              <tr
+                key={r.modelId}
+                onClick={() => setExpanded(r.modelId)}
+                className={`border-t cursor-pointer ${isOpen ? "bg-blue-50" : "hover:bg-gray-50"}`}
+              >
+                <td className="px-3 py-2 font-medium flex items-center space-x-1">
+                  {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  <span>{FORECAST_MODELS[r.modelId].name}</span>
+                </td>
+                {r.overall ? (
+                  <>
+                    <td className="px-3 py-2 text-right">{money(r.overall.mae)}</td>
+                    <td className="px-3 py-2 text-right">{formatPercent(r.overall.mape)}</td>
+                    <td className="px-3 py-2 text-right">{money(r.overall.rmse)}</td>
+                    <td className="px-3 py-2 text-right">{formatPercent(r.overall.coverage)}</td>
+                    <td className="px-3 py-2 text-right">{r.folds.length}</td>
+                  </>
+                ) : (
+                  <td colSpan={5} className="px-3 py-2 text-right text-gray-500">{r.unavailableReason}</td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {drillDown && drillDown.folds.length > 0 && (
+        <div className="mt-6">
+          <h4 className="font-semibold mb-2">Per-fold errors — {FORECAST_MODELS[drillDown.modelId].name}</h4>
+          <div className="max-h-80 overflow-auto border rounded">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="px-3 py-2">Forecast from</th>
+                  <th className="px-3 py-2 text-right">Train months</th>
+                  <th className="px-3 py-2 text-right">MAE</th>
+                  <th className="px-3 py-2 text-right">MAPE</th>
+                  <th className="px-3 py-2 text-right">RMSE</th>
+                  <th className="px-3 py-2 text-right">Coverage</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drillDown.folds.map((f) => (
+                  <tr key={f.originLabel} className="border-t">
+                    <td className="px-3 py-1">{f.originLabel}</td>
+                    <td className="px-3 py-1 text-right">{f.trainSize}</td>
+                    <td className="px-3 py-1 text-right">{money(f.mae)}</td>
+                    <td className="px-3 py-1 text-right">{formatPercent(f.mape)}</td>
+                    <td className="px-3 py-1 text-right">{money(f.rmse)}</td>
+                    <td className="px-3 py-1 text-right">{formatPercent(f.coverage)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
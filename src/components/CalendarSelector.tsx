@@ -0,0 +1,49 @@
+import React from "react";
+import { CalendarDays } from "lucide-react";
+import { CalendarPattern, FiscalCalendarConfig } from "../analytics/fiscalCalendar";
+import { MONTH_NAMES } from "../analytics/periods";
+
+interface CalendarSelectorProps {
+  value: FiscalCalendarConfig;
+  onChange: (config: FiscalCalendarConfig) => void;
+  notice?: string;
+}
+
+const PATTERNS: { id: CalendarPattern; name: string }[] = [
+  { id: "gregorian", name: "Calendar months" },
+  { id: "4-5-4", name: "4-5-4 retail" },
+  { id: "4-4-5", name: "4-4-5 retail" },
+  { id: "5-4-4", name: "5-4-4 retail" },
+];
+
+/** Reporting calendar picker shown in the page header. */
+const CalendarSelector: React.FC<CalendarSelectorProps> = ({ value, onChange, notice }) => (
+  <div className="flex items-center flex-wrap gap-2 text-sm">
+    <CalendarDays className="h-4 w-4 text-gray-500" />
+    <select
+      value={value.pattern}
+      onChange={(e) => onChange({ ...value, pattern: e.target.value as CalendarPattern })}
+      className="px-2 py-1 border rounded"
+      aria-label="Fiscal calendar"
+    >
+      {PATTERNS.map((p) => (
+        <option key={p.id} value={p.id}>{p.name}</option>
+      ))}
+    </select>
+    <label className="flex items-center space-x-1 text-gray-600">
+      <span>FY starts</span>
+      <select
+        value={value.startMonth}
+        onChange={(e) => onChange({ ...value, startMonth: Number(e.target.value) })}
+        className="px-2 py-1 border rounded"
+      >
+        {MONTH_NAMES.map((m, idx) => (
+          <option key={m} value={idx}>{m}</option>
+        ))}
+      </select>
+    </label>
+    {notice && <span className="text-orange-600">{notice}</span>}
+  </div>
+);
+
+export default CalendarSelector;
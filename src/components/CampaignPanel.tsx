@@ -0,0 +1,249 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  Bar, BarChart, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis,
+} from "recharts";
+import { MarketingData } from "../types";
+import { FiscalCalendarConfig } from "../analytics/fiscalCalendar";
+import { ATTRIBUTION_MODELS, AttributionModel, campaignPerformance, campaignPeriods } from "../marketing/attribution";
+import { ResponseCurve, curveRevenue, fitResponseCurve, reallocateSpend } from "../marketing/mix";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+import { formatMultiple } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+import ExportMenu from "./ExportMenu";
+
+interface CampaignPanelProps {
+  marketing: MarketingData;
+  calendar: FiscalCalendarConfig;
+  /** Periods to total over (the KPI window). */
+  periodKeys: string[];
+  labelFor: (key: string) => string;
+  /** Shown under the heading, e.g. when dimension filters don't apply to campaigns. */
+  notice?: string;
+  /** Currency the amounts are in. */
+  currency?: string;
+}
+
+
+/** Attributed campaign returns, spend over time and a diminishing-returns re-allocation (the Promotion "P"). */
+const CampaignPanel: React.FC<CampaignPanelProps> = ({ marketing, calendar, periodKeys, labelFor, notice, currency = DEFAULT_CURRENCY }) => {
+  const money = (v: number) => formatCompact(v, currency, 2);
+  const signedMoney = (v: number) => `${v >= 0 ? "+" : ""}${money(v)}`;
+  const [model, setModel] = useState<AttributionModel>("lastTouch");
+  const [selected, setSelected] = useState<string | undefined>(undefined);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const colors = useChartPalette();
+
+  const periods = useMemo(() => campaignPeriods(marketing, model, calendar), [marketing, model, calendar]);
+  const performance = useMemo(() => campaignPerformance(marketing.campaigns, periods, periodKeys), [marketing, periods, periodKeys]);
+  // Curves use every period with spend, not just the window, to see as many spend levels as possible.
+  const curves = useMemo(
+    () =>
+      new Map(
+        marketing.campaigns.map((c) => [c.id, fitResponseCurve(periods.filter((p) => p.campaignId === c.id))] as [string, ResponseCurve | null])
+      ),
+    [marketing, periods]
+  );
+  const suggestions = useMemo(
+    () =>
+      reallocateSpend(
+        performance.map((p) => ({
+          campaignId: p.campaign.id,
+          spend: p.spend,
+          revenue: p.revenue,
+          exponent: curves.get(p.campaign.id)?.exponent ?? null,
+        }))
+      ),
+    [performance, curves]
+  );
+  const gain = suggestions.reduce((s, x) => s + x.suggestedRevenue - x.revenue, 0);
+
+  const colorOf = new Map(marketing.campaigns.map((c, i) => [c.id, colors.series[i % colors.series.length]]));
+  const spendOverTime: Record<string, string | number>[] = periodKeys.map((key) => ({
+    period: labelFor(key),
+    ...Object.fromEntries(
+      marketing.campaigns.map((c) => [c.id, periods.find((p) => p.campaignId === c.id && p.date === key)?.spend ?? 0])
+    ),
+  }));
+
+  const focus = performance.find((p) => p.campaign.id === selected) ?? performance[0];
+  const focusCurve = focus ? curves.get(focus.campaign.id) ?? null : null;
+  const observed = focus ? periods.filter((p) => p.campaignId === focus.campaign.id && p.spend > 0) : [];
+  const maxSpend = Math.max(0, ...observed.map((p) => p.spend)) * 1.5;
+  const curveData = focusCurve
+    ? Array.from({ length: 31 }, (_, i) => {
+        const spend = (maxSpend * i) / 30;
+        return { spend, curve: curveRevenue(focusCurve, spend) };
+      })
+    : [];
+
+  const suggestionFor = new Map(suggestions.map((s) => [s.campaignId, s]));
+  const performanceCsv = () =>
+    toCsv(performance, [
+      { header: "Campaign", value: (p) => p.campaign.name },
+      { header: "Channel", value: (p) => p.campaign.channel },
+      { header: `Spend (${currency})`, value: (p) => p.spend },
+      { header: `Attributed revenue (${currency})`, value: (p) => p.revenue },
+      { header: "Orders", value: (p) => p.conversions },
+      { header: "ROAS", value: (p) => p.roas },
+      { header: "Marginal ROAS", value: (p) => suggestionFor.get(p.campaign.id)?.marginalRoas },
+      { header: `Suggested spend (${currency})`, value: (p) => suggestionFor.get(p.campaign.id)?.suggestedSpend },
+      { header: `Revenue at suggested spend (${currency})`, value: (p) => suggestionFor.get(p.campaign.id)?.suggestedRevenue },
+    ]);
+  const spendCsv = () =>
+    toCsv(spendOverTime, [
+      { header: "Period", value: (row) => row.period },
+      ...marketing.campaigns.map((c) => ({ header: `${c.name} (${currency})`, value: (row: Record<string, string | number>) => row[c.id] })),
+    ]);
+  const curveCsv = () =>
+    toCsv(observed, [
+      { header: "Period", value: (p) => labelFor(p.date) },
+      { header: `Spend (${currency})`, value: (p) => p.spend },
+      { header: `Attributed revenue (${currency})`, value: (p) => p.revenue },
+      { header: `Fitted revenue (${currency})`, value: (p) => (focusCurve ? curveRevenue(focusCurve, p.spend) : undefined) },
+    ]);
+
+  return (
+    <div ref={cardRef} className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold">Campaign Attribution & Marketing Mix (Promotion)</h3>
+        <div className="ml-auto mr-4">
+          <ExportMenu title={`Campaign Attribution ${ATTRIBUTION_MODELS[model].name}`} target={cardRef} csv={performanceCsv} />
+        </div>
+        <select
+          value={model}
+          onChange={(e) => setModel(e.target.value as AttributionModel)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          aria-label="Attribution model"
+        >
+          {(Object.keys(ATTRIBUTION_MODELS) as AttributionModel[]).map((m) => (
+            <option key={m} value={m}>{ATTRIBUTION_MODELS[m].name}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {ATTRIBUTION_MODELS[model].description} {marketing.journeys.length.toLocaleString()} converting journeys.
+        {notice && ` ${notice}`}
+      </p>
+
+      <ChartView title="Campaign returns" csv={performanceCsv}>
+        <ResponsiveContainer width="100%" height={300}>
+          <ComposedChart data={performance.map((p) => ({ campaign: p.campaign.name, spend: p.spend, revenue: p.revenue, roas: p.roas }))}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="campaign" />
+            <YAxis yAxisId="money" tickFormatter={(v: number) => money(v)} />
+            <YAxis yAxisId="roas" orientation="right" tickFormatter={(v: number) => `${v}x`} />
+            <Tooltip formatter={(v: number, name: string) => (name === "ROAS" ? formatMultiple(v) : money(v))} />
+            <Legend />
+            <Bar yAxisId="money" dataKey="spend" fill={colors.secondary} name="Spend" />
+            <Bar yAxisId="money" dataKey="revenue" fill={colors.primary} name="Attributed revenue" />
+            <Line yAxisId="roas" type="monotone" dataKey="roas" stroke={colors.positive} strokeWidth={3} name="ROAS" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </ChartView>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4">
+        {performance.map((p) => (
+          <div key={p.campaign.id} className="p-3 text-center bg-gray-50 rounded-lg">
+            <p className="text-sm font-medium">{p.campaign.name}</p>
+            <p className="text-lg font-bold text-green-600">{formatMultiple(p.roas)} ROAS</p>
+            <p className="text-xs text-gray-600">
+              {money(p.spend)} spend • {Math.round(p.conversions).toLocaleString()} orders • {p.campaign.channel}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <h4 className="font-semibold mt-6 mb-2">Spend over time</h4>
+      <ChartView title="Spend over time" csv={spendCsv}>
+        <ResponsiveContainer width="100%" height={220}>
+          <BarChart data={spendOverTime}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="period" />
+            <YAxis tickFormatter={(v: number) => money(v)} />
+            <Tooltip formatter={(v: number) => money(v)} />
+            <Legend />
+            {marketing.campaigns.map((c) => (
+              <Bar key={c.id} dataKey={c.id} stackId="spend" fill={colorOf.get(c.id)} name={c.name} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartView>
+
+      <h4 className="font-semibold mt-6 mb-1">Diminishing returns and re-allocation</h4>
+      <p className="text-sm text-gray-600 mb-2">
+        Marginal ROAS is the attributed revenue the next dollar would bring. Moving the same {money(suggestions.reduce((s, x) => s + x.spend, 0))} to
+        where it earns most would add about {signedMoney(gain)} under this model; each campaign stays within 50–150% of its current spend.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="px-3 py-2">Campaign</th>
+              <th className="px-3 py-2 text-right">Spend</th>
+              <th className="px-3 py-2 text-right">ROAS</th>
+              <th className="px-3 py-2 text-right">Marginal ROAS</th>
+              <th className="px-3 py-2 text-right">Suggested spend</th>
+              <th className="px-3 py-2 text-right">Revenue change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {suggestions.map((s) => {
+              const p = performance.find((x) => x.campaign.id === s.campaignId);
+              const curve = curves.get(s.campaignId);
+              const change = s.suggestedSpend - s.spend;
+              return (
+                <tr
+                  key={s.campaignId}
+                  onClick={() => setSelected(s.campaignId)}
+                  className={`border-t cursor-pointer ${focus?.campaign.id === s.campaignId ? "bg-blue-50" : "hover:bg-gray-50"}`}
+                >
+                  <td className="px-3 py-2 font-medium">{p?.campaign.name}</td>
+                  <td className="px-3 py-2 text-right">{money(s.spend)}</td>
+                  <td className="px-3 py-2 text-right">{formatMultiple(p?.roas ?? null)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {formatMultiple(s.marginalRoas)}
+                    {!curve && <span className="block text-xs text-gray-500">not enough spend history</span>}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {money(s.suggestedSpend)}
+                    {Math.abs(change) >= 500 && (
+                      <span className={change > 0 ? "text-green-600" : "text-red-600"}> ({signedMoney(change)})</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">{signedMoney(s.suggestedRevenue - s.revenue)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {focus && focusCurve && (
+        <div className="mt-6">
+          <h4 className="font-semibold mb-1">Response curve — {focus.campaign.name}</h4>
+          <p className="text-sm text-gray-600 mb-2">
+            Attributed revenue per period ≈ {focusCurve.scale.toFixed(1)} × spend^{focusCurve.exponent.toFixed(2)} (R²{" "}
+            {focusCurve.rSquared.toFixed(2)}, {focusCurve.observations} periods).
+          </p>
+          <ChartView title={`Response curve for ${focus.campaign.name}`} csv={curveCsv}>
+            <ResponsiveContainer width="100%" height={260}>
+              <ComposedChart>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" dataKey="spend" domain={[0, maxSpend]} tickFormatter={(v: number) => money(v)} name="Spend" />
+                <YAxis type="number" tickFormatter={(v: number) => money(v)} />
+                <Tooltip formatter={(v: number) => money(v)} />
+                <Legend />
+                <Line data={curveData} type="monotone" dataKey="curve" stroke={colors.positive} strokeWidth={2} dot={false} name="Fitted curve" />
+                <Scatter data={observed} dataKey="revenue" fill={colors.primary} name="Periods" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </ChartView>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignPanel;
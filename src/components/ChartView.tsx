@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { ChartColumn, Table2 } from "lucide-react";
+import { parseCsv } from "../data/csvImport";
+import { isFormulaText } from "../export/csv";
+
+interface ChartViewProps {
+  /** Names the chart for screen readers and captions its table. */
+  title: string;
+  /** The data behind the chart, as CSV text (what its CSV download holds). */
+  csv: () => string;
+  children: React.ReactNode;
+}
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+/** CSV numbers are unformatted; the table groups thousands and trims long fractions, and drops the apostrophe guarding formula-like text. */
+const displayCell = (cell: string) => {
+  if (cell.startsWith("'") && isFormulaText(cell.slice(1))) return cell.slice(1);
+  if (!NUMBER.test(cell)) return cell;
+  const value = Number(cell);
+  return value.toLocaleString("en-US", { maximumFractionDigits: Math.abs(value) >= 100 ? 0 : Math.abs(value) >= 1 ? 2 : 4 });
+};
+
+/**
+ * A chart with a "View as table" switch. Charts are keyboard-navigable
+ * through recharts' accessibility layer; the table gives screen readers
+ * (and anyone else) the exact figures, and is what the PDF report captures
+ * while it is shown.
+ */
+const ChartView: React.FC<ChartViewProps> = ({ title, csv, children }) => {
+  const [asTable, setAsTable] = useState(false);
+  const [header = [], ...rows] = asTable ? parseCsv(csv()) : [];
+  const numeric = header.map((_, i) => rows.length > 0 && rows.every((r) => r[i] === "" || NUMBER.test(r[i] ?? "")));
+  return (
+    <div>
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => setAsTable(!asTable)}
+          className="flex items-center space-x-1 px-1 text-xs text-blue-600 hover:underline"
+          aria-label={asTable ? `View ${title} as chart` : `View ${title} as table`}
+        >
+          {asTable ? <ChartColumn className="h-3.5 w-3.5" aria-hidden="true" /> : <Table2 className="h-3.5 w-3.5" aria-hidden="true" />}
+          <span>{asTable ? "View as chart" : "View as table"}</span>
+        </button>
+      </div>
+      {asTable ? (
+        <div className="overflow-auto max-h-96 mt-2">
+          <table className="min-w-full text-sm">
+            <caption className="sr-only">{title}</caption>
+            <thead>
+              <tr className="bg-gray-50">
+                {header.map((h, i) => (
+                  <th key={i} scope="col" className={`px-3 py-2 font-medium ${numeric[i] ? "text-right" : "text-left"}`}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r} className="border-t">
+                  {header.map((_, i) => (
+                    <td key={i} className={`px-3 py-1 ${numeric[i] ? "text-right tabular-nums" : ""}`}>
+                      {displayCell(row[i] ?? "")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div role="group" aria-label={`${title} chart`}>
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartView;
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { FileUp, X, CheckCircle, AlertTriangle } from "lucide-react";
+import { MonthData } from "../types";
+import { CsvImportResult, csvTemplate, importMonthlyCsv } from "../data/csvImport";
+
+interface CsvImportPanelProps {
+  onApply: (rows: MonthData[], fileName: string) => void;
+  onClose: () => void;
+}
+
+const MAX_ERRORS_SHOWN = 50;
+
+/** Upload a monthly actuals CSV, review the validation report, then apply it. */
+const CsvImportPanel: React.FC<CsvImportPanelProps> = ({ onApply, onClose }) => {
+  const [fileName, setFileName] = useState<string>("");
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setResult(null);
+    setReadError(null);
+    const reader = new FileReader();
+    reader.onload = () => setResult(importMonthlyCsv(String(reader.result ?? "")));
+    reader.onerror = () => setReadError(reader.error?.message ?? "Could not read file");
+    reader.readAsText(file);
+  };
+
+  const templateHref = `data:text/csv;charset=utf-8,${encodeURIComponent(csvTemplate())}`;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center space-x-2">
+          <FileUp className="h-5 w-5" />
+          <span>Import Monthly Actuals (CSV)</span>
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-900" aria-label="Close import">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-3">
+        One row per month. Rates (<code>grossMargin</code>, <code>conversionRate</code>) are fractions between 0 and 1.{" "}
+        <a href={templateHref} download="monthly-actuals-template.csv" className="text-blue-600 underline">
+          Download template
+        </a>
+      </p>
+
+      <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="text-sm" />
+
+      {readError && <p className="text-sm text-red-600 mt-3">{readError}</p>}
+
+      {result && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center space-x-2 text-sm">
+            {result.errors.length === 0 ? (
+              <CheckCircle className="h-4 w-4 text-green-500" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-orange-500" />
+            )}
+            <span>
+              {result.rows.length} of {result.totalRows} rows valid
+              {result.errors.length > 0 && ` • ${result.errors.length} issue(s) found`}
+            </span>
+          </div>
+
+          {result.errors.length > 0 && (
+            <div className="max-h-64 overflow-auto border rounded">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Column</th>
+                    <th className="px-3 py-2">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.errors.slice(0, MAX_ERRORS_SHOWN).map((err, idx) => (
+                    <tr key={idx} className="border-t">
+                      <td className="px-3 py-1">{err.line}</td>
+                      <td className="px-3 py-1">{err.field ?? "—"}</td>
+                      <td className="px-3 py-1 text-red-700">{err.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.errors.length > MAX_ERRORS_SHOWN && (
+                <p className="px-3 py-2 text-xs text-gray-500">
+                  …and {result.errors.length - MAX_ERRORS_SHOWN} more
+                </p>
+              )}
+            </div>
+          )}
+
+          <button
+            disabled={result.rows.length === 0}
+            onClick={() => onApply(result.rows, fileName)}
+            className="px-4 py-2 rounded-lg font-medium bg-blue-600 text-white disabled:opacity-50"
+          >
+            Use {result.rows.length} imported month(s)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvImportPanel;
@@ -0,0 +1,40 @@
+import React from "react";
+import { Coins } from "lucide-react";
+import { RateBasis } from "../currency/fx";
+
+interface CurrencySelectorProps {
+  currencies: string[];
+  value: string;
+  onChange: (currency: string) => void;
+  basis: RateBasis;
+  onBasisChange: (basis: RateBasis) => void;
+}
+
+const BASES: { id: RateBasis; name: string }[] = [
+  { id: "actual", name: "Actual rates" },
+  { id: "budget", name: "Budget rates" },
+];
+
+/** Reporting currency and FX rate picker shown in the page header. */
+const CurrencySelector: React.FC<CurrencySelectorProps> = ({ currencies, value, onChange, basis, onBasisChange }) => (
+  <div className="flex items-center flex-wrap gap-2 text-sm">
+    <Coins className="h-4 w-4 text-gray-500" />
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="px-2 py-1 border rounded" aria-label="Reporting currency">
+      {currencies.map((c) => (
+        <option key={c} value={c}>{c}</option>
+      ))}
+    </select>
+    <select
+      value={basis}
+      onChange={(e) => onBasisChange(e.target.value as RateBasis)}
+      className="px-2 py-1 border rounded"
+      aria-label="FX rates"
+    >
+      {BASES.map((b) => (
+        <option key={b.id} value={b.id}>{b.name}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default CurrencySelector;
@@ -0,0 +1,206 @@
+import React, { useMemo, useRef } from "react";
+import { CartesianGrid, Cell, Legend, Line, LineChart, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { CustomerOrder } from "../types";
+import { RFM_SEGMENTS, RfmSegment, scoreCustomers, summarizeSegments } from "../customers/rfm";
+import { acquisitionCohorts, averageCurve, predictLifetimeValue, segmentForwardValue } from "../customers/lifetimeValue";
+import { DEFAULT_CURRENCY, formatCompact, formatMoney } from "../currency/format";
+import { formatPercent } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+import ExportMenu from "./ExportMenu";
+
+interface CustomerPanelProps {
+  orders: CustomerOrder[];
+  /** Shown under the heading, e.g. when dimension filters don't apply to customers. */
+  notice?: string;
+  /** Currency the amounts are in. */
+  currency?: string;
+}
+
+const LIFETIME_MONTHS = 24;
+const COHORT_ROWS = 12;
+const COHORT_AGES = 12;
+// Darker blue for higher retention, full strength from 30%.
+const heat = (v: number) => `rgba(59, 130, 246, ${Math.min(1, v / 0.3) * 0.8})`;
+
+/** RFM segments, acquisition cohorts and lifetime value from order-level data (the People "P"). */
+const CustomerPanel: React.FC<CustomerPanelProps> = ({ orders, notice, currency = DEFAULT_CURRENCY }) => {
+  const money = (v: number) => (Math.abs(v) >= 10_000 ? formatCompact(v, currency) : formatMoney(v, currency));
+  const cardRef = useRef<HTMLDivElement>(null);
+  const colors = useChartPalette();
+  const customers = useMemo(() => scoreCustomers(orders), [orders]);
+  const segments = useMemo(() => summarizeSegments(customers), [customers]);
+  const forward = useMemo(() => segmentForwardValue(orders), [orders]);
+  const cohorts = useMemo(() => acquisitionCohorts(orders), [orders]);
+  const curve = useMemo(() => averageCurve(cohorts), [cohorts]);
+  const lifetimeValue = predictLifetimeValue(curve, LIFETIME_MONTHS);
+
+  const repeatRate = customers.length ? customers.filter((c) => c.orders > 1).length / customers.length : 0;
+  const revenue = customers.reduce((s, c) => s + c.revenue, 0);
+  const orderCount = customers.reduce((s, c) => s + c.orders, 0);
+  const colorOf = (segment: string) => colors.series[(Object.keys(RFM_SEGMENTS) as string[]).indexOf(segment) % colors.series.length];
+
+  const retentionData = curve.retention.slice(1, LIFETIME_MONTHS + 1).map((r, i) => ({
+    month: i + 1,
+    retention: r * 100,
+    cumulative: curve.revenuePerCustomer.slice(0, i + 2).reduce((s, v) => s + v, 0),
+  }));
+  const recentCohorts = cohorts.slice(-COHORT_ROWS);
+
+  const segmentsCsv = () =>
+    toCsv(segments, [
+      { header: "Segment", value: (s) => s.segment },
+      { header: "Customers", value: (s) => s.customers },
+      { header: "Customer share", value: (s) => s.count },
+      { header: "Revenue share", value: (s) => s.revenue },
+      { header: `Revenue per customer (${currency})`, value: (s) => s.revenuePerCustomer },
+      { header: "Orders per customer", value: (s) => s.avgOrders },
+      { header: `Next 12 months per customer (${currency})`, value: (s) => forward.get(s.segment as RfmSegment) },
+    ]);
+  const retentionCsv = () =>
+    toCsv(retentionData, [
+      { header: "Months since acquisition", value: (r) => r.month },
+      { header: "Retention (%)", value: (r) => r.retention },
+      { header: `Cumulative value per customer (${currency})`, value: (r) => r.cumulative },
+    ]);
+
+  return (
+    <div ref={cardRef} className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-semibold">Customer Segment Analysis (People)</h3>
+        <ExportMenu title="Customer Segments" target={cardRef} csv={segmentsCsv} />
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {customers.length.toLocaleString()} customers and {orderCount.toLocaleString()} orders, segmented by recency, frequency
+        and spend.{notice && ` ${notice}`}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Predicted {LIFETIME_MONTHS}-month value</p>
+          <p className="text-lg font-bold text-blue-600">{money(lifetimeValue)}</p>
+          <p className="text-xs text-gray-600">Per newly acquired customer</p>
+        </div>
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Revenue per customer</p>
+          <p className="text-lg font-bold text-gray-900">{money(customers.length ? revenue / customers.length : 0)}</p>
+          <p className="text-xs text-gray-600">All orders to date</p>
+        </div>
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Repeat customers</p>
+          <p className="text-lg font-bold text-green-600">{formatPercent(repeatRate, 0)}</p>
+          <p className="text-xs text-gray-600">Ordered more than once</p>
+        </div>
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Average order value</p>
+          <p className="text-lg font-bold text-gray-900">{money(orderCount ? revenue / orderCount : 0)}</p>
+          <p className="text-xs text-gray-600">{(customers.length ? orderCount / customers.length : 0).toFixed(1)} orders per customer</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartView title="Revenue by customer segment" csv={segmentsCsv}>
+          <ResponsiveContainer width="100%" height={300}>
+            <PieChart>
+              <Pie
+                data={segments}
+                cx="50%"
+                cy="50%"
+                outerRadius={90}
+                dataKey="revenue"
+                nameKey="segment"
+                label={({ segment, revenue }) => `${segment}: ${formatPercent(revenue, 0)}`}
+              >
+                {segments.map((s) => (
+                  <Cell key={s.segment} fill={colorOf(s.segment)} />
+                ))}
+              </Pie>
+              <Tooltip formatter={(v: number) => `${formatPercent(v, 0)} of revenue`} />
+            </PieChart>
+          </ResponsiveContainer>
+        </ChartView>
+
+        <div className="space-y-3">
+          <h4 className="font-semibold">Segment Performance</h4>
+          {segments.map((s) => {
+            const next = forward.get(s.segment as RfmSegment);
+            return (
+              <div key={s.segment} className="p-3 border rounded-lg">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="font-medium" style={{ color: colorOf(s.segment) }}>{s.segment}</span>
+                  <span className="text-sm bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                    {s.customers.toLocaleString()} customers ({formatPercent(s.count, 0)})
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mb-1">{RFM_SEGMENTS[s.segment as RfmSegment]}</p>
+                <div className="text-sm text-gray-600">
+                  <p>
+                    Revenue contribution: {formatPercent(s.revenue, 0)} • {money(s.revenuePerCustomer ?? 0)} per customer • {s.avgOrders.toFixed(1)} orders
+                  </p>
+                  {next !== undefined && <p>Next 12 months (historically): {money(next)} per customer</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <h4 className="font-semibold mt-6 mb-1">Retention and cumulative value</h4>
+      <p className="text-sm text-gray-600 mb-2">
+        Share of a cohort ordering again each month after acquisition, and revenue per acquired customer to date, averaged over{" "}
+        {cohorts.length} monthly cohorts.
+      </p>
+      <ChartView title="Retention and cumulative value" csv={retentionCsv}>
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart data={retentionData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="month" tickFormatter={(v: number) => `M${v}`} />
+            <YAxis yAxisId="retention" tickFormatter={(v: number) => formatPercent(v / 100, 0)} />
+            <YAxis yAxisId="value" orientation="right" tickFormatter={(v: number) => money(v)} />
+            <Tooltip
+              formatter={(v: number, name: string) => (name === "Retention" ? formatPercent(v / 100) : money(v))}
+              labelFormatter={(v) => `Month ${v}`}
+            />
+            <Legend />
+            <Line yAxisId="retention" type="monotone" dataKey="retention" stroke={colors.primary} strokeWidth={3} dot={false} name="Retention" />
+            <Line yAxisId="value" type="monotone" dataKey="cumulative" stroke={colors.positive} strokeWidth={2} dot={false} name="Cumulative value" />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartView>
+
+      <h4 className="font-semibold mt-6 mb-2">Acquisition cohorts</h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="px-2 py-2">Cohort</th>
+              <th className="px-2 py-2 text-right">Customers</th>
+              {Array.from({ length: COHORT_AGES }, (_, k) => (
+                <th key={k} className="px-2 py-2 text-right">M{k + 1}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {recentCohorts.map((c) => (
+              <tr key={c.date} className="border-t">
+                <td className="px-2 py-1 font-medium">{c.label}</td>
+                <td className="px-2 py-1 text-right">{c.customers.toLocaleString()}</td>
+                {Array.from({ length: COHORT_AGES }, (_, k) => {
+                  const r = c.retention[k + 1];
+                  return (
+                    <td key={k} className="px-2 py-1 text-right" style={r !== undefined ? { backgroundColor: heat(r) } : undefined}>
+                      {r !== undefined ? formatPercent(r, 0) : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerPanel;
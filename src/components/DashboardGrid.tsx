@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight, GripVertical, Plus, X } from "lucide-react";
+import {
+  WIDGETS,
+  WIDGET_SPANS,
+  WidgetId,
+  WidgetPlacement,
+  WidgetSpan,
+  addWidget,
+  hiddenWidgets,
+  moveWidget,
+  removeWidget,
+  resizeWidget,
+} from "../dashboard/widgets";
+
+interface DashboardGridProps {
+  layout: WidgetPlacement[];
+  /** The widget's content, or null when the current data can't support it (e.g. no regional FX). */
+  render: (id: WidgetId) => React.ReactNode | null;
+  editing: boolean;
+  onChange: (layout: WidgetPlacement[]) => void;
+}
+
+// Full width on small screens; KPI-sized widgets pair up on medium ones.
+const SPAN_CLASS: Record<WidgetSpan, string> = {
+  2: "col-span-10 md:col-span-5 lg:col-span-2",
+  4: "col-span-10 md:col-span-5 lg:col-span-4",
+  5: "col-span-10 lg:col-span-5",
+  6: "col-span-10 lg:col-span-6",
+  10: "col-span-10",
+};
+
+/**
+ * The Executive Dashboard's widgets on a ten-column grid. While editing,
+ * each widget gets a toolbar to drag it (or step it) into place, resize it
+ * or remove it, and hidden widgets can be added back.
+ */
+const DashboardGrid: React.FC<DashboardGridProps> = ({ layout, render, editing, onChange }) => {
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [over, setOver] = useState<number | null>(null);
+  const hidden = hiddenWidgets(layout);
+
+  const drop = (index: number) => {
+    if (dragging !== null) onChange(moveWidget(layout, dragging, index));
+    setDragging(null);
+    setOver(null);
+  };
+
+  const iconButton = "p-1 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-100 disabled:opacity-30";
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-10 gap-4 lg:gap-6">
+        {layout.map((placement, index) => {
+          const { id, span } = placement;
+          const content = render(id);
+          if (!editing) {
+            return content === null ? null : (
+              <div key={id} className={SPAN_CLASS[span]}>
+                {content}
+              </div>
+            );
+          }
+          const name = WIDGETS[id].name;
+          return (
+            <div
+              key={id}
+              className={`${SPAN_CLASS[span]} rounded-lg border-2 border-dashed ${over === index && dragging !== index ? "border-blue-400 bg-blue-50" : "border-gray-300"} ${dragging === index ? "opacity-50" : ""}`}
+              onDragOver={(e) => {
+                if (dragging === null) return;
+                e.preventDefault();
+                setOver(index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(index);
+              }}
+            >
+              <div
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", id);
+                  setDragging(index);
+                }}
+                onDragEnd={() => {
+                  setDragging(null);
+                  setOver(null);
+                }}
+                className="flex items-center gap-1 px-2 py-1 text-sm text-gray-700 bg-gray-50 rounded-t-lg cursor-move"
+              >
+                <GripVertical className="h-4 w-4 text-gray-400" aria-hidden="true" />
+                <span className="font-medium truncate mr-auto">{name}</span>
+                <select
+                  value={span}
+                  onChange={(e) => onChange(resizeWidget(layout, id, Number(e.target.value) as WidgetSpan))}
+                  className="px-1 py-0.5 border rounded text-xs"
+                  aria-label={`Width of ${name}`}
+                >
+                  {WIDGET_SPANS.map((s) => (
+                    <option key={s.span} value={s.span}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={() => onChange(moveWidget(layout, index, index - 1))} disabled={index === 0} className={iconButton} aria-label={`Move ${name} earlier`}>
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onChange(moveWidget(layout, index, index + 1))}
+                  disabled={index === layout.length - 1}
+                  className={iconButton}
+                  aria-label={`Move ${name} later`}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+                <button onClick={() => onChange(removeWidget(layout, id))} className={iconButton} aria-label={`Remove ${name}`}>
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              {content ?? (
+                <div className="p-6 text-sm text-gray-500 text-center">Not available for the current data source — it'll show once the data supports it.</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {layout.length === 0 && (
+        <div className="bg-white p-6 rounded-lg shadow border text-center text-gray-600">
+          This view has no widgets yet. {editing ? "Add some below." : "Choose Customize to add some."}
+        </div>
+      )}
+
+      {editing && hidden.length > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <Plus className="h-4 w-4 text-gray-500" aria-hidden="true" />
+          <select
+            value=""
+            onChange={(e) => e.target.value && onChange(addWidget(layout, e.target.value as WidgetId))}
+            className="px-3 py-1 border rounded"
+            aria-label="Add widget"
+          >
+            <option value="">Add widget…</option>
+            {hidden.map((id) => (
+              <option key={id} value={id}>
+                {WIDGETS[id].name} — {WIDGETS[id].description}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DashboardGrid;
@@ -0,0 +1,45 @@
+import React from "react";
+import { AlertTriangle, Database, RefreshCw } from "lucide-react";
+import { LoadStatus } from "../data/useDashboardData";
+
+interface DataStateProps {
+  status: Exclude<LoadStatus, "ready">;
+  error?: Error | null;
+  sourceLabel: string;
+  onRetry: () => void;
+}
+
+/** Placeholder shown inside a tab while its data is loading, missing or failed. */
+const DataState: React.FC<DataStateProps> = ({ status, error, sourceLabel, onRetry }) => {
+  if (status === "loading") {
+    return (
+      <div className="bg-white p-12 rounded-lg shadow border text-center text-gray-500" role="status">
+        <RefreshCw className="h-8 w-8 mx-auto mb-3 animate-spin" />
+        <p>Loading data from {sourceLabel}…</p>
+      </div>
+    );
+  }
+
+  if (status === "empty") {
+    return (
+      <div className="bg-white p-12 rounded-lg shadow border text-center text-gray-500">
+        <Database className="h-8 w-8 mx-auto mb-3" />
+        <p className="font-medium text-gray-700">No data available</p>
+        <p className="text-sm mt-1">{sourceLabel} returned no monthly history.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-12 rounded-lg shadow border border-red-200 text-center" role="alert">
+      <AlertTriangle className="h-8 w-8 mx-auto mb-3 text-red-600" />
+      <p className="font-medium text-red-700">Could not load data</p>
+      <p className="text-sm text-gray-600 mt-1">{error?.message ?? "Unknown error"}</p>
+      <button onClick={onRetry} className="mt-4 px-4 py-2 bg-red-50 text-red-700 border border-red-200 rounded-lg">
+        Retry
+      </button>
+    </div>
+  );
+};
+
+export default DataState;
@@ -0,0 +1,60 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { chartImage, toPngBlob } from "../export/chartImage";
+import { downloadBlob, downloadCsv, exportFilename } from "../export/download";
+
+interface ExportMenuProps {
+  /** Chart title; names the files and heads the images. */
+  title: string;
+  /** Element holding the chart(s); without it only CSV is offered. */
+  target?: React.RefObject<HTMLElement | null>;
+  /** The data behind the chart, as CSV text. */
+  csv?: () => string;
+}
+
+/** PNG / SVG / CSV download links shown in a chart's header. */
+const ExportMenu: React.FC<ExportMenuProps> = ({ title, target, csv }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const image = () => {
+    const captured = target?.current ? chartImage(target.current, title) : null;
+    if (!captured) setError("Nothing to export — the chart hasn't been drawn yet or is shown as a table.");
+    return captured;
+  };
+
+  const exportSvg = () => {
+    const captured = image();
+    if (captured) downloadBlob(new Blob([captured.markup], { type: "image/svg+xml" }), exportFilename(title, "svg"));
+  };
+
+  const exportPng = async () => {
+    const captured = image();
+    if (!captured) return;
+    try {
+      downloadBlob(await toPngBlob(captured), exportFilename(title, "png"));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const link = "px-1 text-blue-600 hover:underline";
+  return (
+    <div className="flex items-center text-xs text-gray-500">
+      <Download className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+      {target && (
+        <>
+          <button onClick={() => { setError(null); void exportPng(); }} className={link} aria-label={`Download ${title} as PNG`}>PNG</button>
+          <button onClick={() => { setError(null); exportSvg(); }} className={link} aria-label={`Download ${title} as SVG`}>SVG</button>
+        </>
+      )}
+      {csv && (
+        <button onClick={() => downloadCsv(csv(), exportFilename(title, "csv"))} className={link} aria-label={`Download ${title} data as CSV`}>
+          CSV
+        </button>
+      )}
+      {error && <span className="ml-1 text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,122 @@
+import React from "react";
+import { Filter, X } from "lucide-react";
+import { MonthData } from "../types";
+import { DashboardFilters, DimensionOptions, EMPTY_FILTERS, isFiltered } from "../analytics/filters";
+
+interface FilterBarProps {
+  value: DashboardFilters;
+  onChange: (filters: DashboardFilters) => void;
+  /** Periods the date range can start/end on. */
+  periods: MonthData[];
+  options: DimensionOptions;
+  /** Shown instead of the dimension pickers when the source has no dimension data. */
+  dimensionNotice?: string;
+}
+
+interface ChipGroupProps<T extends string> {
+  label: string;
+  values: T[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  display?: (value: T) => string;
+}
+
+const ChipGroup = <T extends string>({ label, values, selected, onChange, display }: ChipGroupProps<T>) => {
+  if (values.length === 0) return null;
+  const toggle = (v: T) => onChange(selected.includes(v) ? selected.filter((x) => x !== v) : [...selected, v]);
+  return (
+    <div className="flex items-center flex-wrap gap-1" role="group" aria-label={label}>
+      <span className="text-gray-600 mr-1">{label}:</span>
+      {values.map((v) => {
+        const active = selected.includes(v);
+        return (
+          <button
+            key={v}
+            onClick={() => toggle(v)}
+            aria-pressed={active}
+            className={`px-2 py-0.5 rounded-full border ${
+              active ? "bg-blue-100 text-blue-700 border-blue-200" : "text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            {display ? display(v) : v}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+/** Global date-range and dimension filters shown above the tabs. */
+const FilterBar: React.FC<FilterBarProps> = ({ value, onChange, periods, options, dimensionNotice }) => {
+  const set = (patch: Partial<DashboardFilters>) => onChange({ ...value, ...patch });
+  const countryRegion = new Map(options.countries.map((c) => [c.country, c.region]));
+  const visibleCountries = options.countries
+    .filter((c) => value.regions.length === 0 || (c.region && value.regions.includes(c.region)))
+    .map((c) => c.country);
+
+  return (
+    <div className="mb-6 bg-white p-3 rounded-lg shadow border flex items-center flex-wrap gap-x-6 gap-y-2 text-sm">
+      <Filter className="h-4 w-4 text-gray-500" />
+      <div className="flex items-center space-x-1">
+        <span className="text-gray-600">From</span>
+        <select
+          value={value.from ?? ""}
+          onChange={(e) => set({ from: e.target.value || undefined })}
+          className="px-2 py-1 border rounded"
+          aria-label="From period"
+        >
+          <option value="">Start</option>
+          {periods.map((p) => (
+            <option key={p.date} value={p.date} disabled={!!value.to && p.date > value.to}>{p.month}</option>
+          ))}
+        </select>
+        <span className="text-gray-600">to</span>
+        <select
+          value={value.to ?? ""}
+          onChange={(e) => set({ to: e.target.value || undefined })}
+          className="px-2 py-1 border rounded"
+          aria-label="To period"
+        >
+          <option value="">Latest</option>
+          {periods.map((p) => (
+            <option key={p.date} value={p.date} disabled={!!value.from && p.date < value.from}>{p.month}</option>
+          ))}
+        </select>
+      </div>
+
+      {dimensionNotice ? (
+        <span className="text-gray-500">{dimensionNotice}</span>
+      ) : (
+        <>
+          <ChipGroup
+            label="Region"
+            values={options.regions}
+            selected={value.regions}
+            onChange={(regions) =>
+              set({
+                regions,
+                // drop countries that fall outside the newly selected regions
+                countries: value.countries.filter((c) => {
+                  const region = countryRegion.get(c);
+                  return regions.length === 0 || (!!region && regions.includes(region));
+                }),
+              })
+            }
+          />
+          <ChipGroup label="Country" values={visibleCountries} selected={value.countries} onChange={(countries) => set({ countries })} />
+          <ChipGroup label="Channel" values={options.channels} selected={value.channels} onChange={(channels) => set({ channels })} />
+          <ChipGroup label="Category" values={options.categories} selected={value.categories} onChange={(categories) => set({ categories })} />
+        </>
+      )}
+
+      {isFiltered(value) && (
+        <button onClick={() => onChange(EMPTY_FILTERS)} className="flex items-center space-x-1 text-gray-600 hover:underline ml-auto">
+          <X className="h-4 w-4" />
+          <span>Clear filters</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
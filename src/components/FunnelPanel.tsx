@@ -0,0 +1,224 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { DailyData, TrafficSources } from "../types";
+import { FiscalCalendarConfig } from "../analytics/fiscalCalendar";
+import {
+  FUNNEL_STAGES, FunnelCounts, FunnelGrouping, TRAFFIC_SOURCE_LABELS, biggestDropOff, conversionRate, funnelByPeriod, funnelTotals,
+  hasSourceFunnel, revenuePerSession, stepRates,
+} from "../analytics/funnel";
+import { DEFAULT_CURRENCY, formatMoney } from "../currency/format";
+import { formatPercent } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+import ExportMenu from "./ExportMenu";
+
+interface FunnelPanelProps {
+  /** Daily rows, already narrowed by the dimension filters. */
+  rows: DailyData[];
+  calendar: FiscalCalendarConfig;
+  /** Periods to total over (the KPI window). */
+  periodKeys: string[];
+  /** Periods for the trend chart. */
+  trendKeys: string[];
+  labelFor: (key: string) => string;
+  /** Currency the amounts are in. */
+  currency?: string;
+}
+
+type TrendMetric = "conversion" | "revenuePerSession";
+
+const count = (v: number | null) => (v === null ? "—" : Math.round(v).toLocaleString());
+
+/** Sessions-to-order funnel by device or traffic source, with conversion trends (the Place "P"). */
+const FunnelPanel: React.FC<FunnelPanelProps> = ({ rows, calendar, periodKeys, trendKeys, labelFor, currency = DEFAULT_CURRENCY }) => {
+  const [grouping, setGrouping] = useState<FunnelGrouping>("channel");
+  const [metric, setMetric] = useState<TrendMetric>("conversion");
+  const cardRef = useRef<HTMLDivElement>(null);
+  const colors = useChartPalette();
+  const bySource = useMemo(() => hasSourceFunnel(rows), [rows]);
+  const active = bySource ? grouping : "channel";
+
+  const byPeriod = useMemo(() => funnelByPeriod(rows, active, calendar), [rows, active, calendar]);
+  const totals = useMemo(() => funnelTotals(byPeriod, periodKeys), [byPeriod, periodKeys]);
+  const labelOf = (key: string) => (active === "source" ? TRAFFIC_SOURCE_LABELS[key as keyof TrafficSources] : key);
+  const revenue = totals.reduce((s, t) => s + t.counts.revenue, 0);
+
+  // Step-to-step rates, one bar per group, so the chart shows where each loses shoppers.
+  const tracked = totals.filter((t) => t.counts.checkout !== null);
+  const stepData: Record<string, string | number>[] = FUNNEL_STAGES.slice(1).map((stage, i) => ({
+    stage: stage.label,
+    ...Object.fromEntries(tracked.map((t) => [t.key, (stepRates(t.counts)[i + 1] ?? 0) * 100])),
+  }));
+
+  const trendValue = (c: FunnelCounts | undefined) =>
+    c === undefined ? null : metric === "conversion" ? conversionRate(c) * 100 : revenuePerSession(c);
+  const trendData: Record<string, string | number | null>[] = trendKeys.map((key) => ({
+    period: labelFor(key),
+    ...Object.fromEntries(totals.map((t) => [t.key, trendValue(byPeriod.get(key)?.get(t.key))])),
+  }));
+
+  const totalsCsv = () =>
+    toCsv(totals, [
+      { header: active === "channel" ? "Device" : "Source", value: (t) => labelOf(t.key) },
+      ...FUNNEL_STAGES.map((stage) => ({ header: stage.label, value: (t: (typeof totals)[number]) => t.counts[stage.key] })),
+      { header: `Revenue (${currency})`, value: (t) => t.counts.revenue },
+      { header: "Conversion rate", value: (t) => conversionRate(t.counts) },
+      { header: `Revenue per session (${currency})`, value: (t) => revenuePerSession(t.counts) },
+    ]);
+  const stepCsv = () =>
+    toCsv(stepData, [
+      { header: "Step", value: (row) => row.stage },
+      ...tracked.map((t) => ({
+        header: `${labelOf(t.key)} (% of previous step)`,
+        value: (row: Record<string, string | number>) => row[t.key],
+      })),
+    ]);
+  const trendCsv = () =>
+    toCsv(trendData, [
+      { header: "Period", value: (row) => row.period },
+      ...totals.map((t) => ({
+        header: `${labelOf(t.key)} (${metric === "conversion" ? "conversion %" : `revenue per session, ${currency}`})`,
+        value: (row: Record<string, string | number | null>) => row[t.key],
+      })),
+    ]);
+
+  return (
+    <div ref={cardRef} className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Channel & Funnel Analysis (Place)</h3>
+        <div className="ml-auto mr-4">
+          <ExportMenu title="Channel Funnel" target={cardRef} csv={totalsCsv} />
+        </div>
+        <div className="flex space-x-1 text-sm" role="group" aria-label="Group funnel by">
+          {(["channel", "source"] as FunnelGrouping[]).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGrouping(g)}
+              disabled={g === "source" && !bySource}
+              className={`px-3 py-1 rounded-md border ${active === g ? "bg-blue-600 text-white border-blue-600" : "border-gray-300 text-gray-700"} disabled:opacity-50`}
+            >
+              {g === "channel" ? "By device" : "By traffic source"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`grid grid-cols-2 ${active === "source" ? "md:grid-cols-5" : "md:grid-cols-3"} gap-4 mb-6`}>
+        {totals.map((t) => {
+          const drop = biggestDropOff(t.counts);
+          return (
+            <div key={t.key} className="p-3 text-center bg-gray-50 rounded-lg">
+              <p className="text-sm font-medium">{labelOf(t.key)}</p>
+              <p className="text-lg font-bold text-blue-600">{formatPercent(revenue ? t.counts.revenue / revenue : 0, 0)} of revenue</p>
+              <p className="text-xs text-gray-600">
+                {formatPercent(conversionRate(t.counts))} conversion • {formatMoney(revenuePerSession(t.counts), currency, 2)} per session
+              </p>
+              {drop && (
+                <p className="text-xs text-red-600">
+                  Biggest loss: {FUNNEL_STAGES.find((s) => s.key === drop.stage)?.label.toLowerCase()} ({formatPercent(1 - drop.rate, 0)} drop)
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="px-3 py-2">{active === "channel" ? "Device" : "Source"}</th>
+              {FUNNEL_STAGES.map((s) => (
+                <th key={s.key} className="px-3 py-2 text-right">{s.label}</th>
+              ))}
+              <th className="px-3 py-2 text-right">Revenue / session</th>
+            </tr>
+          </thead>
+          <tbody>
+            {totals.map((t) => {
+              const rates = stepRates(t.counts);
+              const drop = biggestDropOff(t.counts);
+              return (
+                <tr key={t.key} className="border-t">
+                  <td className="px-3 py-2 font-medium">{labelOf(t.key)}</td>
+                  {FUNNEL_STAGES.map((s, i) => (
+                    <td key={s.key} className="px-3 py-2 text-right">
+                      {count(t.counts[s.key])}
+                      {rates[i] !== null && (
+                        <span className={`block text-xs ${drop?.stage === s.key ? "text-red-600 font-semibold" : "text-gray-500"}`}>
+                          {formatPercent(rates[i] as number)} of previous
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right">{formatMoney(revenuePerSession(t.counts), currency, 2)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {tracked.length < totals.length && (
+        <p className="text-sm text-gray-500 mt-2">Product views, add to cart and checkout need funnel counts in the daily rows.</p>
+      )}
+
+      {tracked.length > 0 && (
+        <>
+          <h4 className="font-semibold mt-6 mb-2">Step conversion</h4>
+          <ChartView title="Step conversion" csv={stepCsv}>
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={stepData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="stage" />
+                <YAxis tickFormatter={(v: number) => `${v}%`} domain={[0, 100]} />
+                <Tooltip formatter={(v: number) => formatPercent(v / 100)} />
+                <Legend />
+                {tracked.map((t, i) => (
+                  <Bar key={t.key} dataKey={t.key} fill={colors.series[i % colors.series.length]} name={labelOf(t.key)} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartView>
+        </>
+      )}
+
+      <div className="flex items-center justify-between mt-6 mb-2">
+        <h4 className="font-semibold">Trend</h4>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as TrendMetric)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+          aria-label="Trend metric"
+        >
+          <option value="conversion">Conversion rate</option>
+          <option value="revenuePerSession">Revenue per session</option>
+        </select>
+      </div>
+      <ChartView title={metric === "conversion" ? "Conversion rate trend" : "Revenue per session trend"} csv={trendCsv}>
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart data={trendData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="period" />
+            <YAxis tickFormatter={(v: number) => (metric === "conversion" ? formatPercent(v / 100) : formatMoney(v, currency))} />
+            <Tooltip formatter={(v: number) => (metric === "conversion" ? formatPercent(v / 100, 2) : formatMoney(v, currency, 2))} />
+            <Legend />
+            {totals.map((t, i) => (
+              <Line
+                key={t.key}
+                type="monotone"
+                dataKey={t.key}
+                stroke={colors.series[i % colors.series.length]}
+                strokeWidth={2}
+                dot={false}
+                name={labelOf(t.key)}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartView>
+    </div>
+  );
+};
+
+export default FunnelPanel;
@@ -0,0 +1,39 @@
+import React from "react";
+import { ArrowDownRight, ArrowUpRight, Info, Lightbulb } from "lucide-react";
+import { Insight, InsightTone } from "../insights/insights";
+
+interface InsightsPanelProps {
+  insights: Insight[];
+}
+
+const TONE_ICON: Record<InsightTone, { icon: typeof Info; className: string; label: string }> = {
+  positive: { icon: ArrowUpRight, className: "text-green-600", label: "Favourable" },
+  negative: { icon: ArrowDownRight, className: "text-red-600", label: "Unfavourable" },
+  neutral: { icon: Info, className: "text-gray-400", label: "Note" },
+};
+
+/** Ranked plain-English commentary at the top of a tab; nothing when there is nothing to say. */
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights }) => {
+  if (insights.length === 0) return null;
+  return (
+    <section className="bg-white p-4 rounded-lg border mb-6" aria-label="Insights">
+      <p className="flex items-center text-sm font-semibold text-gray-700 mb-2">
+        <Lightbulb className="h-4 w-4 mr-2 text-yellow-500" aria-hidden="true" />
+        Insights
+      </p>
+      <ol className="space-y-1">
+        {insights.map((insight) => {
+          const { icon: Icon, className, label } = TONE_ICON[insight.tone];
+          return (
+            <li key={insight.id} className="flex items-start text-sm text-gray-800">
+              <Icon className={`h-4 w-4 mr-2 mt-0.5 flex-shrink-0 ${className}`} aria-label={label} />
+              <span>{insight.text}</span>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
+
+export default InsightsPanel;
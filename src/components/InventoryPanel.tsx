@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from "react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { ForecastPoint, InventoryPosition } from "../types";
+import { FiscalCalendarConfig } from "../analytics/fiscalCalendar";
+import { CategoryDemand, DEFAULT_TARGET_WEEKS, projectInventory } from "../inventory/projection";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+
+interface InventoryPanelProps {
+  positions: InventoryPosition[];
+  demand: CategoryDemand[];
+  /** Dated forecast periods after the last actual. */
+  forecast: ForecastPoint[];
+  calendar: FiscalCalendarConfig;
+  labelFor: (key: string) => string;
+  /** Currency the amounts are in. */
+  currency?: string;
+}
+
+const units = (v: number) => Math.round(v).toLocaleString();
+const coverTone = (weeks: number | null, target: number) =>
+  weeks === null ? "text-gray-500" : weeks < 2 ? "text-red-600" : weeks < target / 2 ? "text-yellow-600" : "text-gray-900";
+
+/** Stock run-down against the unit forecast, stock-outs and open-to-buy per category. */
+const InventoryPanel: React.FC<InventoryPanelProps> = ({ positions, demand, forecast, calendar, labelFor, currency = DEFAULT_CURRENCY }) => {
+  const money = (v: number) => formatCompact(v, currency, 2);
+  const [targetWeeks, setTargetWeeks] = useState(DEFAULT_TARGET_WEEKS);
+  const [selected, setSelected] = useState<string | undefined>(undefined);
+  const colors = useChartPalette();
+
+  const demandBy = useMemo(() => new Map(demand.map((d) => [d.category, d])), [demand]);
+  const projections = useMemo(
+    () =>
+      positions
+        .filter((p) => demandBy.has(p.category))
+        .map((p) => projectInventory(p, demandBy.get(p.category) as CategoryDemand, forecast, calendar, targetWeeks)),
+    [positions, demandBy, forecast, calendar, targetWeeks]
+  );
+  const missing = positions.filter((p) => !demandBy.has(p.category)).map((p) => p.category);
+  const atRisk = projections.reduce((s, p) => s + p.revenueAtRisk, 0);
+  const openToBuy = projections.reduce((s, p) => s + p.openToBuyCost, 0);
+  const stockOuts = projections.filter((p) => p.stockOut).length;
+
+  const focus = projections.find((p) => p.category === selected) ?? projections[0];
+  const periodKeys = focus ? focus.periods.map((p) => p.date) : [];
+  const otbByPeriod = periodKeys.map((key) =>
+    projections.reduce((s, p) => s + (p.periods.find((x) => x.date === key)?.openToBuyCost ?? 0), 0)
+  );
+  const projectionCsv = () =>
+    toCsv(focus?.periods ?? [], [
+      { header: "Period", value: (p) => labelFor(p.date) },
+      { header: "Opening stock", value: (p) => p.opening },
+      { header: "Receipts", value: (p) => p.receipts },
+      { header: "Forecast demand", value: (p) => p.demand },
+      { header: "Shortfall", value: (p) => p.shortfall },
+      { header: "Closing stock", value: (p) => p.closing },
+    ]);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold">Inventory & Open-to-Buy</h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>Target cover</span>
+          <input
+            type="number"
+            min={1}
+            max={26}
+            value={targetWeeks}
+            onChange={(e) => setTargetWeeks(Math.max(1, Number(e.target.value) || DEFAULT_TARGET_WEEKS))}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+          />
+          <span>weeks</span>
+        </label>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Unit demand is the selected forecast split by each category's share of revenue and average price over the last twelve
+        periods. Stock counted {positions[0]?.asOf ?? "—"}.
+        {missing.length > 0 && ` No sales history for ${missing.join(", ")}.`}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Revenue at risk</p>
+          <p className={`text-lg font-bold ${atRisk > 0 ? "text-red-600" : "text-gray-900"}`}>{money(atRisk)}</p>
+          <p className="text-xs text-gray-600">Forecast demand without stock</p>
+        </div>
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Categories selling out</p>
+          <p className="text-lg font-bold text-gray-900">{stockOuts} of {projections.length}</p>
+          <p className="text-xs text-gray-600">Within {periodKeys.length} forecast periods</p>
+        </div>
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Open-to-buy</p>
+          <p className="text-lg font-bold text-blue-600">{money(openToBuy)}</p>
+          <p className="text-xs text-gray-600">At cost, to hold {targetWeeks} weeks of cover</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="px-3 py-2">Category</th>
+              <th className="px-3 py-2 text-right">On hand</th>
+              <th className="px-3 py-2 text-right">On order</th>
+              <th className="px-3 py-2 text-right">Cover now</th>
+              <th className="px-3 py-2 text-right">Stock-out</th>
+              <th className="px-3 py-2 text-right">Revenue at risk</th>
+              <th className="px-3 py-2 text-right">Open-to-buy</th>
+            </tr>
+          </thead>
+          <tbody>
+            {projections.map((p) => {
+              const position = positions.find((x) => x.category === p.category) as InventoryPosition;
+              return (
+                <tr
+                  key={p.category}
+                  onClick={() => setSelected(p.category)}
+                  className={`border-t cursor-pointer ${focus?.category === p.category ? "bg-blue-50" : "hover:bg-gray-50"}`}
+                >
+                  <td className="px-3 py-2 font-medium">{p.category}</td>
+                  <td className="px-3 py-2 text-right">{units(position.onHand)}</td>
+                  <td className="px-3 py-2 text-right">{units(position.onOrder.reduce((s, o) => s + o.units, 0))}</td>
+                  <td className={`px-3 py-2 text-right ${coverTone(p.coverNow, targetWeeks)}`}>
+                    {p.coverNow === null ? "—" : `${p.coverNow.toFixed(1)} wks`}
+                  </td>
+                  <td className={`px-3 py-2 text-right ${p.stockOut ? "text-red-600 font-semibold" : "text-gray-500"}`}>
+                    {p.stockOut ?? "None"}
+                  </td>
+                  <td className="px-3 py-2 text-right">{money(p.revenueAtRisk)}</td>
+                  <td className="px-3 py-2 text-right">{money(p.openToBuyCost)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {focus && (
+        <div className="mt-6">
+          <h4 className="font-semibold mb-2">Stock projection — {focus.category}</h4>
+          <ChartView title={`Stock projection for ${focus.category}`} csv={projectionCsv}>
+            <ResponsiveContainer width="100%" height={280}>
+              <ComposedChart data={focus.periods.map((p) => ({ ...p, period: labelFor(p.date) }))}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" />
+                <YAxis tickFormatter={(v: number) => units(v)} />
+                <Tooltip formatter={(v: number) => units(v)} />
+                <Legend />
+                <Bar dataKey="receipts" fill={colors.positive} name="Receipts" />
+                <Bar dataKey="shortfall" fill={colors.negative} name="Shortfall" />
+                <Line type="monotone" dataKey="demand" stroke={colors.muted} strokeDasharray="4 4" dot={false} name="Forecast demand" />
+                <Line type="monotone" dataKey="closing" stroke={colors.primary} strokeWidth={3} name="Closing stock" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </ChartView>
+
+          <h4 className="font-semibold mt-6 mb-2">Open-to-buy by period</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="px-3 py-2">Period</th>
+                  <th className="px-3 py-2 text-right">{focus.category} demand</th>
+                  <th className="px-3 py-2 text-right">Closing cover</th>
+                  <th className="px-3 py-2 text-right">{focus.category} buy (units)</th>
+                  <th className="px-3 py-2 text-right">{focus.category} buy (cost)</th>
+                  <th className="px-3 py-2 text-right">All categories (cost)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {focus.periods.map((p, i) => (
+                  <tr key={p.date} className="border-t">
+                    <td className="px-3 py-2">{labelFor(p.date)}</td>
+                    <td className="px-3 py-2 text-right">{units(p.demand)}</td>
+                    <td className={`px-3 py-2 text-right ${coverTone(p.weeksOfCover, targetWeeks)}`}>
+                      {p.weeksOfCover === null ? "—" : `${p.weeksOfCover.toFixed(1)} wks`}
+                    </td>
+                    <td className="px-3 py-2 text-right">{units(p.openToBuyUnits)}</td>
+                    <td className="px-3 py-2 text-right">{money(p.openToBuyCost)}</td>
+                    <td className="px-3 py-2 text-right">{money(otbByPeriod[i])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryPanel;
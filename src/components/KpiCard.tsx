@@ -0,0 +1,30 @@
+import React from "react";
+import { TrendingUp } from "lucide-react";
+
+interface KpiCardProps {
+  label: string;
+  value: string;
+  /** Text colour of the value, e.g. "text-green-600". */
+  valueClass: string;
+  icon: typeof TrendingUp;
+  /** Icon colour; follows the target status where there is one. */
+  iconClass: string;
+  /** Target badge and comparison lines under the value. */
+  children?: React.ReactNode;
+}
+
+/** One headline figure on the Executive Dashboard. */
+const KpiCard: React.FC<KpiCardProps> = ({ label, value, valueClass, icon: Icon, iconClass, children }) => (
+  <div className="bg-white p-4 rounded-lg shadow border h-full">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm text-gray-600">{label}</p>
+        <p className={`text-2xl font-bold ${valueClass}`}>{value}</p>
+      </div>
+      <Icon className={`h-8 w-8 ${iconClass}`} />
+    </div>
+    {children}
+  </div>
+);
+
+export default KpiCard;
@@ -0,0 +1,32 @@
+import React from "react";
+import { TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { formatChange } from "../analytics/metrics";
+
+interface KpiDeltaProps {
+  label: string;
+  /** Relative change (unit "pct") or difference of two rates (unit "pp"); null when unavailable. */
+  value: number | null;
+  unit?: "pct" | "pp";
+}
+
+/** One comparison line under a KPI card, e.g. "▲ +4.1% YoY". */
+const KpiDelta: React.FC<KpiDeltaProps> = ({ label, value, unit = "pct" }) => {
+  if (value === null || !Number.isFinite(value)) {
+    return (
+      <span className="flex items-center text-xs text-gray-400">
+        <Minus className="h-3 w-3 mr-1" />
+        {label}: n/a
+      </span>
+    );
+  }
+  const up = value >= 0;
+  const Icon = up ? TrendingUp : TrendingDown;
+  return (
+    <span className={`flex items-center text-xs ${up ? "text-green-600" : "text-red-600"}`}>
+      <Icon className="h-3 w-3 mr-1" />
+      {formatChange(value, unit)} {label}
+    </span>
+  );
+};
+
+export default KpiDelta;
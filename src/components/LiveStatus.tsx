@@ -0,0 +1,37 @@
+import React from "react";
+import { Radio, WifiOff } from "lucide-react";
+import { LiveStreamState } from "../data/useLiveStream";
+
+interface LiveStatusProps {
+  live: LiveStreamState;
+}
+
+const STATUS_STYLE = {
+  connecting: { dot: "bg-gray-400", text: "text-gray-600", label: "Connecting…" },
+  live: { dot: "bg-green-500 animate-pulse", text: "text-green-700", label: "Live" },
+  reconnecting: { dot: "bg-orange-500", text: "text-orange-700", label: "Reconnecting…" },
+  offline: { dot: "bg-gray-400", text: "text-gray-600", label: "Offline" },
+};
+
+/** Connection indicator for the live stream, shown in the page header. */
+const LiveStatus: React.FC<LiveStatusProps> = ({ live }) => {
+  if (live.status === "disabled") {
+    return (
+      <span className="flex items-center space-x-1 text-gray-400" title="Set REACT_APP_STREAM_URL to enable live updates">
+        <WifiOff className="h-4 w-4" />
+        <span>Live updates off</span>
+      </span>
+    );
+  }
+  const style = STATUS_STYLE[live.status];
+  return (
+    <span className={`flex items-center space-x-1 ${style.text}`} role="status">
+      <Radio className="h-4 w-4" />
+      <span className={`inline-block h-2 w-2 rounded-full ${style.dot}`} />
+      <span>{style.label}</span>
+      {live.eventCount > 0 && <span className="text-gray-500">• {live.eventCount.toLocaleString()} events</span>}
+    </span>
+  );
+};
+
+export default LiveStatus;
@@ -0,0 +1,208 @@
+import React, { useMemo, useRef, useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { CategoryPerf } from "../types";
+import {
+  DEFAULT_ELASTICITY, ElasticityEstimate, MAX_DISCOUNT, PriceSummary, discountCurve, marginOptimalDiscount, simulateDiscount,
+} from "../scenarios/pricing";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+import { formatChange, formatPercent, formatPoints } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+import ExportMenu from "./ExportMenu";
+
+interface PriceSimulatorProps {
+  categories: CategoryPerf[];
+  /** Per-category estimates; categories without one use DEFAULT_ELASTICITY. */
+  estimates: ElasticityEstimate[];
+  summary: PriceSummary;
+  /** Shown under the estimates when they are assumed rather than fitted. */
+  notice?: string;
+  /** Currency the amounts are in. */
+  currency?: string;
+}
+
+const deltaColor = (v: number) => (v >= 0 ? "text-green-600" : "text-red-600");
+
+/** Discount-depth simulator per category with its gross-profit curve (the Price "P"). */
+const PriceSimulator: React.FC<PriceSimulatorProps> = ({ categories, estimates, summary, notice, currency = DEFAULT_CURRENCY }) => {
+  const money = (v: number) => formatCompact(v, currency, 2);
+  const signedMoney = (v: number) => `${v >= 0 ? "+" : ""}${money(v)}`;
+  const [depths, setDepths] = useState<Record<string, number>>({});
+  const [selected, setSelected] = useState<string | undefined>(undefined);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const colors = useChartPalette();
+  const estimateFor = useMemo(() => new Map(estimates.map((e) => [e.category, e])), [estimates]);
+  const elasticityFor = (category: string) => estimateFor.get(category)?.elasticity ?? DEFAULT_ELASTICITY;
+
+  const rows = categories.map((c) => {
+    const depth = depths[c.name] ?? 0;
+    const base = simulateDiscount(c, 0, elasticityFor(c.name));
+    const promo = simulateDiscount(c, depth, elasticityFor(c.name));
+    return { category: c, depth, base, promo, unitsChange: Math.pow(1 - promo.depth, elasticityFor(c.name)) - 1 };
+  });
+  const total = rows.reduce(
+    (t, r) => ({
+      revenue: t.revenue + r.promo.revenue - r.base.revenue,
+      grossProfit: t.grossProfit + r.promo.grossProfit - r.base.grossProfit,
+    }),
+    { revenue: 0, grossProfit: 0 }
+  );
+
+  const focus = categories.find((c) => c.name === selected) ?? categories[0];
+  const curve = focus ? discountCurve(focus, elasticityFor(focus.name)) : [];
+  const best = curve.length > 0 ? marginOptimalDiscount(curve) : undefined;
+  const chartData = curve.map((p) => ({ depth: Math.round(p.depth * 100), revenue: p.revenue, grossProfit: p.grossProfit }));
+
+  const rowsCsv = () =>
+    toCsv(rows, [
+      { header: "Category", value: (r) => r.category.name },
+      { header: "Elasticity", value: (r) => elasticityFor(r.category.name) },
+      { header: "Elasticity source", value: (r) => estimateFor.get(r.category.name)?.source ?? "assumed" },
+      { header: "Discount", value: (r) => r.depth },
+      { header: "Units", value: (r) => (r.category.units !== undefined ? r.promo.units : undefined) },
+      { header: "Units change", value: (r) => r.unitsChange },
+      { header: `Revenue (${currency})`, value: (r) => r.promo.revenue },
+      { header: `Revenue change (${currency})`, value: (r) => r.promo.revenue - r.base.revenue },
+      { header: `Gross profit (${currency})`, value: (r) => r.promo.grossProfit },
+      { header: `Gross profit change (${currency})`, value: (r) => r.promo.grossProfit - r.base.grossProfit },
+      { header: "Gross margin", value: (r) => r.promo.grossMargin },
+    ]);
+  const curveCsv = () =>
+    toCsv(chartData, [
+      { header: "Discount (%)", value: (p) => p.depth },
+      { header: `Revenue (${currency})`, value: (p) => p.revenue },
+      { header: `Gross profit (${currency})`, value: (p) => p.grossProfit },
+    ]);
+
+  return (
+    <div ref={cardRef} className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">Price Elasticity & Promotion Depth (Price)</h3>
+        <ExportMenu title="Price Elasticity" target={cardRef} csv={rowsCsv} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Price elasticity</p>
+          <p className="text-lg font-bold text-blue-600">{summary.elasticity.toFixed(2)}</p>
+          <p className="text-xs text-gray-600">Revenue-weighted across categories</p>
+        </div>
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Margin-optimal promotion depth</p>
+          <p className="text-lg font-bold text-green-600">{formatPercent(summary.optimalPromotionDepth, 0)}</p>
+          <p className="text-xs text-gray-600">Same discount on every category</p>
+        </div>
+        <div className="p-3 text-center bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium">Margin impact at that depth</p>
+          <p className={`text-lg font-bold ${summary.marginImpact < 0 ? "text-red-600" : "text-gray-900"}`}>
+            {formatPoints(summary.marginImpact)}
+          </p>
+          <p className="text-xs text-gray-600">Gross margin vs full price</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="px-3 py-2">Category</th>
+              <th className="px-3 py-2 text-right">Elasticity</th>
+              <th className="px-3 py-2">Discount</th>
+              <th className="px-3 py-2 text-right">Units</th>
+              <th className="px-3 py-2 text-right">Revenue</th>
+              <th className="px-3 py-2 text-right">Gross profit</th>
+              <th className="px-3 py-2 text-right">Gross margin</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ category, depth, base, promo, unitsChange }) => {
+              const estimate = estimateFor.get(category.name);
+              return (
+                <tr
+                  key={category.name}
+                  onClick={() => setSelected(category.name)}
+                  className={`border-t cursor-pointer ${focus?.name === category.name ? "bg-blue-50" : "hover:bg-gray-50"}`}
+                >
+                  <td className="px-3 py-2 font-medium">{category.name}</td>
+                  <td className="px-3 py-2 text-right">
+                    {elasticityFor(category.name).toFixed(2)}
+                    <span className="block text-xs text-gray-500">
+                      {estimate?.source === "estimated" ? `R² ${(estimate.rSquared ?? 0).toFixed(2)}, ${estimate.observations} periods` : "assumed"}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="range"
+                        min={0}
+                        max={MAX_DISCOUNT * 100}
+                        value={Math.round(depth * 100)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setDepths({ ...depths, [category.name]: Number(e.target.value) / 100 })}
+                        aria-label={`${category.name} discount`}
+                      />
+                      <span className="w-10 text-right">{Math.round(depth * 100)}%</span>
+                    </div>
+                  </td>
+                  <td className={`px-3 py-2 text-right ${deltaColor(unitsChange)}`}>
+                    {category.units !== undefined
+                      ? `${Math.round(promo.units).toLocaleString()} (${formatChange(unitsChange)})`
+                      : formatChange(unitsChange)}
+                  </td>
+                  <td className={`px-3 py-2 text-right ${deltaColor(promo.revenue - base.revenue)}`}>
+                    {money(promo.revenue)} ({signedMoney(promo.revenue - base.revenue)})
+                  </td>
+                  <td className={`px-3 py-2 text-right ${deltaColor(promo.grossProfit - base.grossProfit)}`}>
+                    {money(promo.grossProfit)} ({signedMoney(promo.grossProfit - base.grossProfit)})
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {formatPercent(promo.grossMargin)}
+                    {depth > 0 && <span className="text-red-600"> ({formatPoints(promo.grossMargin - base.grossMargin)})</span>}
+                  </td>
+                </tr>
+              );
+            })}
+            <tr className="border-t-2 font-semibold bg-gray-50">
+              <td className="px-3 py-2" colSpan={4}>Total change</td>
+              <td className={`px-3 py-2 text-right ${deltaColor(total.revenue)}`}>{signedMoney(total.revenue)}</td>
+              <td className={`px-3 py-2 text-right ${deltaColor(total.grossProfit)}`}>{signedMoney(total.grossProfit)}</td>
+              <td />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {notice && <p className="text-sm text-gray-500 mt-2">{notice}</p>}
+
+      {focus && best && (
+        <div className="mt-6">
+          <h4 className="font-semibold mb-1">Discount curve — {focus.name}</h4>
+          <p className="text-sm text-gray-600 mb-2">
+            {best.depth > 0
+              ? `Gross profit peaks at a ${formatPercent(best.depth, 0)} discount (${signedMoney(best.grossProfit - curve[0].grossProfit)} vs full price).`
+              : "Any discount lowers gross profit: demand isn't elastic enough to pay for the lower margin."}
+          </p>
+          <ChartView title={`Discount curve for ${focus.name}`} csv={curveCsv}>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="depth" tickFormatter={(v: number) => `${v}%`} />
+                <YAxis tickFormatter={(v: number) => money(v)} />
+                <Tooltip formatter={(v: number) => money(v)} labelFormatter={(v) => `${v}% discount`} />
+                <Legend />
+                <Line type="monotone" dataKey="revenue" stroke={colors.primary} strokeWidth={2} dot={false} name="Revenue" />
+                <Line type="monotone" dataKey="grossProfit" stroke={colors.positive} strokeWidth={3} dot={false} name="Gross profit" />
+                <ReferenceLine x={Math.round(best.depth * 100)} stroke={colors.positive} strokeDasharray="4 4" label="Optimal" />
+                {(depths[focus.name] ?? 0) > 0 && (
+                  <ReferenceLine x={Math.round((depths[focus.name] ?? 0) * 100)} stroke={colors.muted} strokeDasharray="2 2" label="Simulated" />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartView>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceSimulator;
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from "react";
+import {
+  Bar, BarChart, CartesianGrid, Cell, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from "recharts";
+import { CategoryPerf } from "../types";
+import { skusUnder } from "../products/hierarchy";
+import { ABC_CUTOFFS, AbcClass, abcSummary, paretoAnalysis } from "../products/pareto";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+import { formatPercent } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+import ExportMenu from "./ExportMenu";
+
+interface ProductDrillDownProps {
+  /** Category → subcategory → SKU tree for the KPI window. */
+  hierarchy: CategoryPerf[];
+  /** Shown under the heading, e.g. when some filters don't apply to SKU data. */
+  notice?: string;
+  /** Currency the amounts are in. */
+  currency?: string;
+  /** False hides the margin column for roles that can't see margins. */
+  showMargin?: boolean;
+}
+
+const LEVEL_NAMES = { category: "Category", subcategory: "Subcategory", sku: "SKU" };
+
+/** Category, subcategory and SKU performance with breadcrumbs and a Pareto view (the Product "P"). */
+const ProductDrillDown: React.FC<ProductDrillDownProps> = ({ hierarchy, notice, currency = DEFAULT_CURRENCY, showMargin = true }) => {
+  const money = (v: number) => formatCompact(v, currency, 2);
+  const [path, setPath] = useState<string[]>([]);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const colors = useChartPalette();
+  const abcColors: Record<AbcClass, string> = { A: colors.positive, B: colors.secondary, C: colors.muted };
+
+  // Follow the path as far as it still exists (a filter change can remove a node).
+  const trail: CategoryPerf[] = [];
+  for (const name of path) {
+    const next = (trail.length ? trail[trail.length - 1].children : hierarchy)?.find((c) => c.name === name);
+    if (!next) break;
+    trail.push(next);
+  }
+  const current = trail[trail.length - 1];
+  const items = current ? current.children ?? [] : hierarchy;
+  const level = items[0]?.level ?? "category";
+
+  const pareto = paretoAnalysis(current ? skusUnder(current) : hierarchy.flatMap(skusUnder));
+  const abcOf = new Map(pareto.map((p) => [p.item.sku, p.abc]));
+  const abc = abcSummary(pareto);
+  const drill = (item: CategoryPerf) => {
+    if (item.level !== "sku") setPath([...trail.map((t) => t.name), item.name]);
+  };
+
+  const itemsCsv = () =>
+    toCsv(items, [
+      { header: LEVEL_NAMES[level], value: (i) => i.name },
+      ...(level === "sku" ? [{ header: "SKU code", value: (i: CategoryPerf) => i.sku }] : []),
+      { header: `Revenue (${currency})`, value: (i) => i.revenue },
+      { header: "Units", value: (i) => i.units },
+      ...(showMargin ? [{ header: "Margin", value: (i: CategoryPerf) => i.margin }] : []),
+      { header: "Growth", value: (i) => i.growth },
+      { header: "Sell-through", value: (i) => i.sellThrough },
+      { header: "Weeks of cover", value: (i) => i.weeksOfCover },
+      ...(level === "sku" ? [{ header: "ABC", value: (i: CategoryPerf) => abcOf.get(i.sku) }] : []),
+    ]);
+  const paretoCsv = () =>
+    toCsv(pareto, [
+      { header: "SKU", value: (p) => p.item.name },
+      { header: "SKU code", value: (p) => p.item.sku },
+      { header: `Revenue (${currency})`, value: (p) => p.item.revenue },
+      { header: "Cumulative share", value: (p) => p.cumulativeShare },
+      { header: "ABC", value: (p) => p.abc },
+    ]);
+
+  return (
+    <div ref={cardRef} className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-semibold">Product Performance Analysis</h3>
+        <ExportMenu title={`Product Performance ${current ? current.name : ""}`.trim()} target={cardRef} csv={itemsCsv} />
+      </div>
+      <nav className="flex flex-wrap items-center text-sm mb-4" aria-label="Product breadcrumb">
+        {[{ name: "All categories" }, ...trail].map((node, i) => (
+          <span key={node.name} className="flex items-center">
+            {i > 0 && <span className="mx-2 text-gray-400">›</span>}
+            {i === trail.length ? (
+              <span className="font-medium text-gray-900" aria-current="page">{node.name}</span>
+            ) : (
+              <button onClick={() => setPath(trail.slice(0, i).map((t) => t.name))} className="text-blue-600 hover:underline">
+                {node.name}
+              </button>
+            )}
+          </span>
+        ))}
+      </nav>
+      {notice && <p className="text-sm text-gray-500 mb-4">{notice}</p>}
+
+      <ChartView title={`Revenue by ${LEVEL_NAMES[level].toLowerCase()}`} csv={itemsCsv}>
+        <ResponsiveContainer width="100%" height={280}>
+          <BarChart data={items}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" interval={0} tick={{ fontSize: 12 }} />
+            <YAxis tickFormatter={(v: number) => money(v)} />
+            <Tooltip formatter={(v: number) => money(v)} />
+            <Bar dataKey="revenue" name="Revenue" onClick={(_, index: number) => drill(items[index])} cursor={level === "sku" ? undefined : "pointer"}>
+              {items.map((item) => (
+                <Cell key={item.name} fill={item.level === "sku" ? abcColors[abcOf.get(item.sku) ?? "C"] : colors.primary} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartView>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="px-3 py-2">{LEVEL_NAMES[level]}</th>
+              <th className="px-3 py-2 text-right">Revenue</th>
+              <th className="px-3 py-2 text-right">Units</th>
+              {showMargin && <th className="px-3 py-2 text-right">Margin</th>}
+              <th className="px-3 py-2 text-right">Growth</th>
+              <th className="px-3 py-2 text-right">Sell-through</th>
+              <th className="px-3 py-2 text-right">Weeks of cover</th>
+              {level === "sku" && <th className="px-3 py-2 text-center">ABC</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr
+                key={item.name}
+                onClick={() => drill(item)}
+                className={`border-t ${item.level === "sku" ? "" : "cursor-pointer hover:bg-gray-50"}`}
+              >
+                <td className="px-3 py-2 font-medium">
+                  {item.name}
+                  {item.sku && <span className="block text-xs text-gray-500">{item.sku}</span>}
+                </td>
+                <td className="px-3 py-2 text-right">{money(item.revenue)}</td>
+                <td className="px-3 py-2 text-right">{Math.round(item.units ?? 0).toLocaleString()}</td>
+                {showMargin && <td className="px-3 py-2 text-right">{formatPercent(item.margin)}</td>}
+                <td className={`px-3 py-2 text-right ${item.growth >= 0 ? "text-green-600" : "text-red-600"}`}>{formatPercent(item.growth)}</td>
+                <td className="px-3 py-2 text-right">{formatPercent(item.sellThrough)}</td>
+                <td className="px-3 py-2 text-right">{item.weeksOfCover === undefined ? "—" : item.weeksOfCover.toFixed(1)}</td>
+                {level === "sku" && (
+                  <td className="px-3 py-2 text-center font-semibold" style={{ color: abcColors[abcOf.get(item.sku) ?? "C"] }}>
+                    {abcOf.get(item.sku)}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h4 className="font-semibold mt-6 mb-1">Pareto — {current ? current.name : "all"} SKUs</h4>
+      <p className="text-sm text-gray-600 mb-2">
+        {(["A", "B", "C"] as AbcClass[])
+          .map((c) => `${c}: ${abc[c].items} SKU${abc[c].items === 1 ? "" : "s"}, ${formatPercent(abc[c].share)} of revenue`)
+          .join(" • ")}
+      </p>
+      <ChartView title="Pareto of SKU revenue" csv={paretoCsv}>
+        <ResponsiveContainer width="100%" height={280}>
+          <ComposedChart data={pareto.map((p) => ({ name: p.item.name, revenue: p.item.revenue, cumulative: p.cumulativeShare * 100, abc: p.abc }))}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" tick={false} />
+            <YAxis yAxisId="revenue" tickFormatter={(v: number) => money(v)} />
+            <YAxis yAxisId="share" orientation="right" domain={[0, 100]} tickFormatter={(v: number) => `${v}%`} />
+            <Tooltip formatter={(v: number, name: string) => (name === "Cumulative share" ? formatPercent(v / 100) : money(v))} />
+            <Legend />
+            <Bar yAxisId="revenue" dataKey="revenue" name="Revenue">
+              {pareto.map((p) => (
+                <Cell key={p.item.sku ?? p.item.name} fill={abcColors[p.abc]} />
+              ))}
+            </Bar>
+            <Line yAxisId="share" type="monotone" dataKey="cumulative" stroke={colors.primary} strokeWidth={2} dot={false} name="Cumulative share" />
+            <ReferenceLine yAxisId="share" y={ABC_CUTOFFS.A * 100} stroke={colors.positive} strokeDasharray="4 4" />
+            <ReferenceLine yAxisId="share" y={ABC_CUTOFFS.B * 100} stroke={colors.secondary} strokeDasharray="4 4" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </ChartView>
+    </div>
+  );
+};
+
+export default ProductDrillDown;
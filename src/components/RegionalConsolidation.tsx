@@ -0,0 +1,121 @@
+import React, { useRef } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { RateBasis, RegionConsolidation, totalGrowth } from "../currency/fx";
+import { formatCompact } from "../currency/format";
+import { formatChange, formatPercent } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+import ExportMenu from "./ExportMenu";
+
+interface RegionalConsolidationProps {
+  regions: RegionConsolidation[];
+  currency: string;
+  basis: RateBasis;
+  /** e.g. "12M" — the KPI window the figures cover. */
+  windowLabel: string;
+}
+
+const tone = (v: number | null) => (v === null ? "text-gray-500" : v >= 0 ? "text-green-600" : "text-red-600");
+
+/** Revenue by region in local and reporting currency, with reported and constant-currency growth. */
+const RegionalConsolidation: React.FC<RegionalConsolidationProps> = ({ regions, currency, basis, windowLabel }) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const colors = useChartPalette();
+  const total = regions.reduce((s, r) => s + r.revenue, 0);
+  const growth = totalGrowth(regions);
+  const fxEffect = (reported: number | null, constant: number | null) =>
+    reported === null || constant === null ? null : reported - constant;
+
+  const localCurrencies = Array.from(new Set(regions.flatMap((r) => Object.keys(r.local))));
+  const regionsCsv = () =>
+    toCsv(regions, [
+      { header: "Region", value: (r) => r.region },
+      ...localCurrencies.map((code) => ({ header: `Local revenue (${code})`, value: (r: RegionConsolidation) => r.local[code] })),
+      { header: `Revenue (${currency})`, value: (r) => r.revenue },
+      { header: `Prior-year revenue (${currency})`, value: (r) => r.priorRevenue },
+      { header: `Prior-year revenue at current rates (${currency})`, value: (r) => r.restatedPriorRevenue },
+      { header: "Reported growth", value: (r) => r.reportedGrowth },
+      { header: "Constant-currency growth", value: (r) => r.constantCurrencyGrowth },
+    ]);
+
+  return (
+    <div ref={cardRef} className="bg-white p-6 rounded-lg shadow border">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-semibold">Regional Consolidation ({windowLabel})</h3>
+        <ExportMenu title="Regional Consolidation" target={cardRef} csv={regionsCsv} />
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Consolidated in {currency} at {basis} rates. Constant-currency growth restates last year's local revenue at this year's
+        rates, so the gap to reported growth is the FX effect.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-3 py-2">Region</th>
+                <th className="px-3 py-2 text-right">Local revenue</th>
+                <th className="px-3 py-2 text-right">{currency}</th>
+                <th className="px-3 py-2 text-right">Reported</th>
+                <th className="px-3 py-2 text-right">Constant FX</th>
+                <th className="px-3 py-2 text-right">FX effect</th>
+              </tr>
+            </thead>
+            <tbody>
+              {regions.map((r) => (
+                <tr key={r.region} className="border-t">
+                  <td className="px-3 py-2 font-medium">
+                    {r.region}
+                    <span className="block text-xs text-gray-500">{total ? `${formatPercent(r.revenue / total, 0)} of total` : ""}</span>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {Object.entries(r.local).map(([code, amount]) => (
+                      <span key={code} className="block">{formatCompact(amount, code)}</span>
+                    ))}
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatCompact(r.revenue, currency, 2)}</td>
+                  <td className={`px-3 py-2 text-right ${tone(r.reportedGrowth)}`}>{formatChange(r.reportedGrowth, "pct", 1, "—")}</td>
+                  <td className={`px-3 py-2 text-right ${tone(r.constantCurrencyGrowth)}`}>{formatChange(r.constantCurrencyGrowth, "pct", 1, "—")}</td>
+                  <td className="px-3 py-2 text-right text-gray-600">{formatChange(fxEffect(r.reportedGrowth, r.constantCurrencyGrowth), "pct", 1, "—")}</td>
+                </tr>
+              ))}
+              <tr className="border-t font-semibold">
+                <td className="px-3 py-2">Total</td>
+                <td className="px-3 py-2" />
+                <td className="px-3 py-2 text-right">{formatCompact(total, currency, 2)}</td>
+                <td className={`px-3 py-2 text-right ${tone(growth.reported)}`}>{formatChange(growth.reported, "pct", 1, "—")}</td>
+                <td className={`px-3 py-2 text-right ${tone(growth.constantCurrency)}`}>{formatChange(growth.constantCurrency, "pct", 1, "—")}</td>
+                <td className="px-3 py-2 text-right text-gray-600">{formatChange(fxEffect(growth.reported, growth.constantCurrency), "pct", 1, "—")}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <ChartView title="Growth by region" csv={regionsCsv}>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart
+              data={regions.map((r) => ({
+                region: r.region,
+                reported: r.reportedGrowth === null ? null : r.reportedGrowth * 100,
+                constant: r.constantCurrencyGrowth === null ? null : r.constantCurrencyGrowth * 100,
+              }))}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="region" />
+              <YAxis tickFormatter={(v: number) => `${v}%`} />
+              <Tooltip formatter={(v: number) => formatChange(v / 100, "pct", 1, "—")} />
+              <Legend />
+              <ReferenceLine y={0} stroke={colors.muted} />
+              <Bar dataKey="reported" fill={colors.primary} name="Reported growth" />
+              <Bar dataKey="constant" fill={colors.secondary} name="Constant-currency growth" />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartView>
+      </div>
+    </div>
+  );
+};
+
+export default RegionalConsolidation;
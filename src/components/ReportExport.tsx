@@ -0,0 +1,76 @@
+import React, { useState } from "react";
+import { FileDown } from "lucide-react";
+import { captureSections } from "../export/capture";
+import { csvSections, toCsv } from "../export/csv";
+import { downloadBlob, downloadCsv, exportFilename } from "../export/download";
+import { renderPdf } from "../export/pdf";
+import { ReportSection, ReportTable, layoutReport } from "../export/report";
+
+export interface ReportDataset {
+  title: string;
+  csv: () => string;
+}
+
+interface ReportExportProps {
+  /** Report title, e.g. "Executive Dashboard". */
+  title: string;
+  subtitle?: string;
+  /** The rendered tab to capture. */
+  target: React.RefObject<HTMLElement | null>;
+  /** Header lines: active filters, currency, calendar… */
+  details: string[];
+  /** Sections ahead of the captured cards, e.g. the KPI summary. */
+  summary?: ReportSection[];
+  /** Raw data written ahead of the captured tables in the CSV. */
+  datasets?: ReportDataset[];
+}
+
+const tableCsv = (table: ReportTable) => toCsv(table.rows, table.columns.map((header, i) => ({ header, value: (row: string[]) => row[i] })));
+
+/** Tab-level export: a paginated PDF report of the tab, or its tables as one CSV. */
+const ReportExport: React.FC<ReportExportProps> = ({ title, subtitle, target, details, summary = [], datasets = [] }) => {
+  const [busy, setBusy] = useState<"pdf" | "csv" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (kind: "pdf" | "csv") => {
+    if (!target.current) return;
+    setBusy(kind);
+    setError(null);
+    try {
+      const generatedAt = new Date();
+      const sections = [...summary, ...(await captureSections(target.current))];
+      if (kind === "pdf") {
+        const pdf = renderPdf(layoutReport({ title, subtitle, details, generatedAt }, sections), { title, createdAt: generatedAt });
+        downloadBlob(new Blob([pdf], { type: "application/pdf" }), exportFilename(title, "pdf", generatedAt));
+      } else {
+        const blocks = [
+          { title, csv: toCsv(details, [{ header: "Report", value: (line) => line }]) },
+          ...datasets.map((d) => ({ title: d.title, csv: d.csv() })),
+          ...sections.flatMap((s) => s.tables.map((t) => ({ title: s.title, csv: tableCsv(t) }))),
+        ];
+        downloadCsv(csvSections(blocks), exportFilename(title, "csv", generatedAt));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const button = "flex items-center space-x-1 px-3 py-1.5 border rounded text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50";
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <button onClick={() => void run("pdf")} disabled={busy !== null} className={button}>
+        <FileDown className="h-4 w-4" />
+        <span>{busy === "pdf" ? "Preparing…" : "PDF report"}</span>
+      </button>
+      <button onClick={() => void run("csv")} disabled={busy !== null} className={button}>
+        <FileDown className="h-4 w-4" />
+        <span>{busy === "csv" ? "Preparing…" : "CSV"}</span>
+      </button>
+    </div>
+  );
+};
+
+export default ReportExport;
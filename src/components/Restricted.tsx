@@ -0,0 +1,20 @@
+import React from "react";
+import { Lock } from "lucide-react";
+
+interface RestrictedProps {
+  title: string;
+  reason: string;
+}
+
+/** Stands in for a card the signed-in user's role doesn't cover. */
+const Restricted: React.FC<RestrictedProps> = ({ title, reason }) => (
+  <div className="bg-white p-6 rounded-lg shadow border">
+    <h3 className="text-lg font-semibold mb-1 flex items-center space-x-2">
+      <Lock className="h-4 w-4 text-gray-400" aria-hidden="true" />
+      <span>{title}</span>
+    </h3>
+    <p className="text-sm text-gray-500">{reason}</p>
+  </div>
+);
+
+export default Restricted;
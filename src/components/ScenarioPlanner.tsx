@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from "recharts";
+import { Save, Trash2, RotateCcw } from "lucide-react";
+import { ForecastPoint, MonthData, TrafficSources } from "../types";
+import {
+  NEUTRAL_DRIVERS, PRESET_SCENARIOS, Scenario, ScenarioDrivers, projectScenario
+} from "../scenarios/projection";
+import { loadSavedScenarios, saveScenarios } from "../scenarios/storage";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+import { formatChange, formatPercent } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+
+interface ScenarioPlannerProps {
+  baseline: ForecastPoint[];
+  reference: MonthData[];
+  elasticity: number;
+  /** Whose saved scenarios to show. */
+  userId: string;
+  /** Currency the amounts are in. */
+  currency?: string;
+  /** False hides the margin driver and gross profit for roles that can't see margins. */
+  showMargin?: boolean;
+}
+
+const DRAFT_ID = "__draft__";
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+  onChange: (v: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, onChange }) => (
+  <label className="block text-sm">
+    <div className="flex justify-between text-gray-600">
+      <span>{label}</span>
+      <span className="font-medium text-gray-900">{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full"
+    />
+  </label>
+);
+
+/** Driver sliders, named scenarios and a side-by-side comparison chart. */
+const ScenarioPlanner: React.FC<ScenarioPlannerProps> = ({
+  baseline,
+  reference,
+  elasticity,
+  userId,
+  currency = DEFAULT_CURRENCY,
+  showMargin = true,
+}) => {
+  const [drivers, setDrivers] = useState<ScenarioDrivers>(NEUTRAL_DRIVERS);
+  const [name, setName] = useState<string>("");
+  const [saved, setSaved] = useState<Scenario[]>(() => loadSavedScenarios(userId));
+  const [compared, setCompared] = useState<string[]>(["bear", "base", "bull", DRAFT_ID]);
+  const colors = useChartPalette();
+
+  useEffect(() => saveScenarios(userId, saved), [userId, saved]);
+
+  const scenarios: Scenario[] = useMemo(
+    () => [...PRESET_SCENARIOS, ...saved, { id: DRAFT_ID, name: "Current draft", drivers }],
+    [saved, drivers]
+  );
+
+  const projections = useMemo(
+    () =>
+      scenarios
+        .filter((s) => compared.includes(s.id))
+        .map((s) => ({ scenario: s, projection: projectScenario(baseline, reference, s.drivers, elasticity) })),
+    [scenarios, compared, baseline, reference, elasticity]
+  );
+
+  const chartData = baseline.map((b, i) => {
+    const row: Record<string, string | number> = { month: b.month };
+    projections.forEach(({ scenario, projection }) => {
+      row[scenario.id] = Math.round(projection.months[i].revenue);
+    });
+    return row;
+  });
+  const chartCsv = () =>
+    toCsv(chartData, [
+      { header: "Month", value: (row) => row.month },
+      ...projections.map(({ scenario }) => ({
+        header: `${scenario.name} revenue (${currency})`,
+        value: (row: Record<string, string | number>) => row[scenario.id],
+      })),
+    ]);
+
+  const setTraffic = (key: keyof TrafficSources, v: number) =>
+    setDrivers((d) => ({ ...d, traffic: { ...d.traffic, [key]: v } }));
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = saved.find((s) => s.name === trimmed);
+    const scenario: Scenario = { id: existing?.id ?? `custom-${Date.now()}`, name: trimmed, drivers };
+    setSaved((list) => (existing ? list.map((s) => (s.id === existing.id ? scenario : s)) : [...list, scenario]));
+    setCompared((ids) => (ids.includes(scenario.id) ? ids : [...ids, scenario.id]));
+    setName("");
+  };
+
+  const toggleCompared = (id: string) =>
+    setCompared((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+
+  if (baseline.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow border">
+        <h3 className="text-lg font-semibold mb-2">Scenario Planning</h3>
+        <p className="text-sm text-gray-600">Scenarios need a forecast to flex. Choose a model with enough history.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border">
+      <h3 className="text-lg font-semibold mb-4">Scenario Planning</h3>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Drivers */}
+        <div className="space-y-3">
+          <h4 className="font-semibold">Drivers</h4>
+          {(Object.keys(drivers.traffic) as (keyof TrafficSources)[]).map((key) => (
+            <Slider
+              key={key}
+              label={`${key.charAt(0).toUpperCase() + key.slice(1)} traffic`}
+              value={drivers.traffic[key]}
+              min={-0.3}
+              max={0.3}
+              step={0.01}
+              format={(v) => formatChange(v, "pct", 0)}
+              onChange={(v) => setTraffic(key, v)}
+            />
+          ))}
+          <Slider label="Conversion rate" value={drivers.conversionRate} min={-0.2} max={0.2} step={0.01}
+            format={(v) => formatChange(v, "pct", 0)} onChange={(v) => setDrivers((d) => ({ ...d, conversionRate: v }))} />
+          <Slider label="Avg order value" value={drivers.avgOrderValue} min={-0.2} max={0.2} step={0.01}
+            format={(v) => formatChange(v, "pct", 0)} onChange={(v) => setDrivers((d) => ({ ...d, avgOrderValue: v }))} />
+          {showMargin && (
+            <Slider label="Gross margin (list price)" value={drivers.grossMargin} min={-0.05} max={0.05} step={0.005}
+              format={(v) => formatChange(v, "pp")} onChange={(v) => setDrivers((d) => ({ ...d, grossMargin: v }))} />
+          )}
+          <Slider label="Promo depth" value={drivers.promoDepth} min={0} max={0.5} step={0.01}
+            format={(v) => `${formatPercent(v, 0)} off`} onChange={(v) => setDrivers((d) => ({ ...d, promoDepth: v }))} />
+
+          <div className="flex space-x-2 pt-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Scenario name"
+              className="flex-1 px-3 py-1 border rounded text-sm"
+            />
+            <button onClick={handleSave} disabled={!name.trim()} className="px-3 py-1 border rounded disabled:opacity-50" aria-label="Save scenario">
+              <Save className="h-4 w-4" />
+            </button>
+            <button onClick={() => setDrivers(NEUTRAL_DRIVERS)} className="px-3 py-1 border rounded" aria-label="Reset drivers">
+              <RotateCcw className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Scenario list + chart */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {scenarios.map((s) => {
+              const p = projectScenario(baseline, reference, s.drivers, elasticity);
+              // Only months with an actual a year earlier are compared, so a short forecast isn't set against a full year.
+              const matched = p.months.filter((m) => m.priorRevenue !== undefined);
+              const prior = matched.reduce((sum, m) => sum + (m.priorRevenue ?? 0), 0);
+              const growth = prior ? matched.reduce((sum, m) => sum + m.revenue, 0) / prior - 1 : null;
+              return (
+                <div key={s.id} className={`p-3 border rounded-lg ${compared.includes(s.id) ? "border-blue-300" : ""}`}>
+                  <div className="flex justify-between items-center">
+                    <label className="flex items-center space-x-2 font-medium">
+                      <input type="checkbox" checked={compared.includes(s.id)} onChange={() => toggleCompared(s.id)} />
+                      <span>{s.name}</span>
+                    </label>
+                    <div className="flex items-center space-x-2 text-sm">
+                      {s.id !== DRAFT_ID && (
+                        <button onClick={() => setDrivers(s.drivers)} className="text-blue-600 hover:underline">Edit</button>
+                      )}
+                      {!s.builtIn && s.id !== DRAFT_ID && (
+                        <button
+                          onClick={() => setSaved((list) => list.filter((x) => x.id !== s.id))}
+                          className="text-gray-500 hover:text-red-600"
+                          aria-label={`Delete ${s.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xl font-bold mt-2">{formatCompact(p.totalRevenue, currency)}</p>
+                  <p className="text-xs text-gray-600">
+                    {growth === null
+                      ? "No prior-year months to compare"
+                      : `${formatChange(growth, "pct", 0)} vs same ${matched.length === 1 ? "month" : `${matched.length} months`} last year`}
+                    {showMargin && ` • GP ${formatCompact(p.totalGrossProfit, currency)} • ${formatPercent(p.grossMargin)} margin`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <ChartView title="Scenario revenue" csv={chartCsv}>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                {projections.map(({ scenario }, idx) => (
+                  <Line
+                    key={scenario.id}
+                    type="monotone"
+                    dataKey={scenario.id}
+                    name={scenario.name}
+                    stroke={colors.series[idx % colors.series.length]}
+                    strokeDasharray={scenario.id === DRAFT_ID ? "5 5" : undefined}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartView>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioPlanner;
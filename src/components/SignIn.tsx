@@ -0,0 +1,71 @@
+import React from "react";
+import { AlertTriangle, LogIn, RefreshCw, UserCircle } from "lucide-react";
+import { AuthState } from "../auth/useAuth";
+import { ROLES } from "../auth/roles";
+
+interface SignInProps {
+  auth: AuthState;
+}
+
+/** Full-page sign-in: the development accounts to pick from, or a hand-over to single sign-on. */
+const SignIn: React.FC<SignInProps> = ({ auth }) => {
+  const { status, error, provider } = auth;
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+      <div className="bg-white p-8 rounded-lg shadow border w-full max-w-md">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">eCommerce Analytics</h1>
+        <p className="text-sm text-gray-600 mb-6">Sign in to see the figures your role covers.</p>
+
+        {status === "loading" && (
+          <p className="flex items-center text-gray-500" role="status">
+            <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            Checking your session…
+          </p>
+        )}
+
+        {status === "error" && (
+          <div className="mb-4" role="alert">
+            <p className="flex items-center font-medium text-red-700">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Could not sign in
+            </p>
+            <p className="text-sm text-gray-600 mt-1">{error?.message ?? "Unknown error"}</p>
+            <button onClick={auth.retry} className="mt-3 px-4 py-2 bg-red-50 text-red-700 border border-red-200 rounded-lg text-sm">
+              Retry
+            </button>
+          </div>
+        )}
+
+        {status !== "loading" &&
+          (provider.accounts ? (
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-wide text-gray-500">{provider.label}</p>
+              {provider.accounts.map((account) => (
+                <button
+                  key={account.id}
+                  onClick={() => auth.signIn(account.id)}
+                  className="w-full flex items-center p-3 border rounded-lg text-left hover:bg-gray-50"
+                >
+                  <UserCircle className="h-8 w-8 text-gray-400 mr-3" />
+                  <span>
+                    <span className="block font-medium">{account.name}</span>
+                    <span className="block text-sm text-gray-600">
+                      {ROLES[account.role].name}
+                      {account.regions ? ` • ${account.regions.join(", ")}` : ""} — {ROLES[account.role].description}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button onClick={() => auth.signIn()} className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg">
+              <LogIn className="h-4 w-4" />
+              <span>Sign in with {provider.label}</span>
+            </button>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default SignIn;
@@ -0,0 +1,35 @@
+import React from "react";
+import { AlertTriangle, CheckCircle, MinusCircle, XCircle } from "lucide-react";
+import { TargetStatus } from "../targets/status";
+
+interface TargetBadgeProps {
+  /** null when there is no plan to compare with. */
+  status: TargetStatus | null;
+  label: string;
+}
+
+export const STATUS_TEXT: Record<TargetStatus, string> = {
+  "on-track": "text-green-600",
+  "at-risk": "text-amber-600",
+  "off-track": "text-red-600",
+};
+
+const STATUS_ICON = {
+  "on-track": CheckCircle,
+  "at-risk": AlertTriangle,
+  "off-track": XCircle,
+};
+
+/** Status line under a KPI card, e.g. "✓ +2.1% vs plan". */
+const TargetBadge: React.FC<TargetBadgeProps> = ({ status, label }) => {
+  const Icon = status ? STATUS_ICON[status] : MinusCircle;
+  const color = status ? STATUS_TEXT[status] : "text-gray-400";
+  return (
+    <div className="flex items-center mt-2">
+      <Icon className={`h-4 w-4 mr-1 ${color}`} />
+      <span className={`text-sm ${color}`}>{label}</span>
+    </div>
+  );
+};
+
+export default TargetBadge;
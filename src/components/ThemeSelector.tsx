@@ -0,0 +1,22 @@
+import React from "react";
+import { Contrast } from "lucide-react";
+import { THEMES, ThemeId } from "../theme/themes";
+
+interface ThemeSelectorProps {
+  value: ThemeId;
+  onChange: (theme: ThemeId) => void;
+}
+
+/** Light, dark or high-contrast page and chart colours, shown in the page header. */
+const ThemeSelector: React.FC<ThemeSelectorProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2 text-sm">
+    <Contrast className="h-4 w-4 text-gray-500" aria-hidden="true" />
+    <select value={value} onChange={(e) => onChange(e.target.value as ThemeId)} className="px-2 py-1 border rounded" aria-label="Theme">
+      {(Object.keys(THEMES) as ThemeId[]).map((id) => (
+        <option key={id} value={id}>{THEMES[id].name}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default ThemeSelector;
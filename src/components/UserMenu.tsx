@@ -0,0 +1,43 @@
+import React from "react";
+import { LogOut, UserCircle } from "lucide-react";
+import { AuthState } from "../auth/useAuth";
+import { Identity, ROLES } from "../auth/roles";
+
+interface UserMenuProps {
+  user: Identity;
+  auth: AuthState;
+}
+
+/** The signed-in user and their role, with sign-out (and account switching in development). */
+const UserMenu: React.FC<UserMenuProps> = ({ user, auth }) => {
+  const accounts = auth.provider.accounts;
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <UserCircle className="h-5 w-5 text-gray-400" aria-hidden="true" />
+      {accounts ? (
+        <select
+          value={user.id}
+          onChange={(e) => auth.signIn(e.target.value)}
+          className="px-2 py-1 border rounded"
+          aria-label="Switch account"
+        >
+          {accounts.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.name} ({ROLES[a.role].name})
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span>
+          <span className="font-medium">{user.name}</span> <span className="text-gray-500">({ROLES[user.role].name})</span>
+        </span>
+      )}
+      <button onClick={auth.signOut} className="flex items-center space-x-1 px-2 py-1 text-gray-600 hover:text-gray-900" aria-label="Sign out">
+        <LogOut className="h-4 w-4" />
+        <span>Sign out</span>
+      </button>
+    </div>
+  );
+};
+
+export default UserMenu;
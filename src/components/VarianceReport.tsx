@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { DailyData, ForecastPoint, MonthData, PlanMonth } from "../types";
+import { FiscalCalendarConfig } from "../analytics/fiscalCalendar";
+import {
+  VarianceLine, buildCategoryVariance, buildVarianceRows, categoryActuals, categoryShares, fiscalYearBridge,
+  fiscalYearKeys, totalVariance,
+} from "../analytics/variance";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+import { formatChange } from "../analytics/metrics";
+import { toCsv } from "../export/csv";
+import { useChartPalette } from "../theme/useTheme";
+import ChartView from "./ChartView";
+
+interface VarianceReportProps {
+  /** Plan restated in the reporting calendar. */
+  plan: PlanMonth[];
+  /** Why the plan can't be compared, when it can't (no plan, or dimension filters active). */
+  planNotice?: string;
+  /** All periods, including one in progress. */
+  history: MonthData[];
+  /** Complete periods; only these count as actuals in the latest estimate. */
+  closedHistory: MonthData[];
+  /** Forecast from the period after the last complete one. */
+  forecast: ForecastPoint[];
+  daily: DailyData[];
+  calendar: FiscalCalendarConfig;
+  labelFor: (key: string) => string;
+  /** Currency the amounts are in. */
+  currency?: string;
+}
+
+const money = (v: number | null, currency: string) => (v === null ? "—" : formatCompact(v, currency, 2));
+const signedMoney = (v: number | null, currency: string) => (v === null ? "—" : `${v >= 0 ? "+" : ""}${money(v, currency)}`);
+const varianceColor = (v: number | null) => (v === null ? "" : v >= 0 ? "text-green-600" : "text-red-600");
+
+const VarianceCells: React.FC<{ line: VarianceLine; currency: string }> = ({ line, currency }) => (
+  <>
+    <td className="px-3 py-2 text-right">{money(line.budget, currency)}</td>
+    <td className="px-3 py-2 text-right">{money(line.actual, currency)}</td>
+    <td className="px-3 py-2 text-right">{money(line.forecast, currency)}</td>
+    <td className="px-3 py-2 text-right font-medium">{money(line.latestEstimate, currency)}</td>
+    <td className={`px-3 py-2 text-right ${varianceColor(line.variance)}`}>{signedMoney(line.variance, currency)}</td>
+    <td className={`px-3 py-2 text-right ${varianceColor(line.variance)}`}>{formatChange(line.variancePct, "pct", 1, "—")}</td>
+  </>
+);
+
+const VarianceHead: React.FC<{ first: string; currency: string }> = ({ first, currency }) => (
+  <thead className="bg-gray-50 text-left">
+    <tr>
+      <th className="px-3 py-2">{first}</th>
+      <th className="px-3 py-2 text-right">Budget</th>
+      <th className="px-3 py-2 text-right">Actual</th>
+      <th className="px-3 py-2 text-right">Forecast</th>
+      <th className="px-3 py-2 text-right">Latest estimate</th>
+      <th className="px-3 py-2 text-right">Var {currency}</th>
+      <th className="px-3 py-2 text-right">Var %</th>
+    </tr>
+  </thead>
+);
+
+/** Budget vs actual vs forecast for one fiscal year, by period and by category, with a revenue bridge. */
+const VarianceReport: React.FC<VarianceReportProps> = ({
+  plan, planNotice, history, closedHistory, forecast, daily, calendar, labelFor, currency = DEFAULT_CURRENCY,
+}) => {
+  const colors = useChartPalette();
+  const closed = useMemo(() => new Set(closedHistory.map((m) => m.date)), [closedHistory]);
+
+  // Fiscal years with actuals, plan or forecast; period keys start with the fiscal year.
+  const years = useMemo(() => {
+    const keys = [...history.map((m) => m.date), ...plan.map((m) => m.date), ...forecast.map((p) => p.date ?? "")];
+    return Array.from(new Set(keys.filter(Boolean).map((k) => Number(k.slice(0, 4))))).sort((a, b) => a - b);
+  }, [history, plan, forecast]);
+  const latestClosedYear = closedHistory.length > 0 ? Number(closedHistory[closedHistory.length - 1].date.slice(0, 4)) : undefined;
+  const [chosenYear, setChosenYear] = useState<number | undefined>(undefined);
+  const fiscalYear = chosenYear ?? latestClosedYear ?? years[years.length - 1];
+  const keys = useMemo(() => (fiscalYear === undefined ? [] : fiscalYearKeys(fiscalYear)), [fiscalYear]);
+
+  const rows = useMemo(
+    () => buildVarianceRows(keys, { plan, history, closed, forecast, labelFor }),
+    [keys, plan, history, closed, forecast, labelFor]
+  );
+  const total = useMemo(() => totalVariance(rows), [rows]);
+
+  const actualsByCategory = useMemo(() => categoryActuals(daily, calendar), [daily, calendar]);
+  const categoryRows = useMemo(() => {
+    if (actualsByCategory.size === 0) return [];
+    // Open periods' forecasts are split by the trailing twelve closed periods' category mix.
+    const mix = categoryShares(actualsByCategory, closedHistory.slice(-12).map((m) => m.date));
+    return buildCategoryVariance(keys, { plan, actuals: actualsByCategory, closed, forecast, mix });
+  }, [actualsByCategory, closedHistory, keys, plan, closed, forecast]);
+
+  const bridge = useMemo(
+    () => fiscalYearBridge(keys, { plan, history, actuals: actualsByCategory, closed }),
+    [keys, plan, history, actualsByCategory, closed]
+  );
+  const waterfall = useMemo(() => {
+    if (!bridge) return [];
+    const steps = [
+      { name: "Volume", value: bridge.volume },
+      { name: "Mix", value: bridge.mix },
+      { name: "Price / AOV", value: bridge.price },
+    ];
+    let level = bridge.base;
+    return [
+      { name: "Budget", offset: 0, value: bridge.base, delta: bridge.base, fill: colors.muted },
+      ...steps.map((s) => {
+        const fill = s.value >= 0 ? colors.positive : colors.negative;
+        const bar = { name: s.name, offset: Math.min(level, level + s.value), value: Math.abs(s.value), delta: s.value, fill };
+        level += s.value;
+        return bar;
+      }),
+      { name: "Actual", offset: 0, value: bridge.actual, delta: bridge.actual, fill: colors.primary },
+    ];
+  }, [bridge, colors]);
+  const waterfallCsv = () =>
+    toCsv(waterfall, [
+      { header: "Step", value: (w) => w.name },
+      { header: `Amount (${currency})`, value: (w) => w.delta },
+    ]);
+  // Start the axis near the lowest bar so the effects aren't dwarfed by the totals.
+  const waterfallFloor = waterfall.length > 0 ? Math.min(...waterfall.slice(1, -1).map((w) => w.offset), bridge?.actual ?? 0, bridge?.base ?? 0) * 0.9 : 0;
+  const closedCount = rows.filter((r) => r.closed && r.budget !== null).length;
+
+  if (planNotice) {
+    return <div className="bg-white p-6 rounded-lg shadow border text-center text-gray-600">{planNotice}</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Year selector and full-year totals */}
+      <div className="bg-white p-6 rounded-lg shadow border">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Full-Year Latest Estimate</h3>
+          <select
+            value={fiscalYear ?? ""}
+            onChange={(e) => setChosenYear(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            aria-label="Fiscal year"
+          >
+            {years.map((y) => (
+              <option key={y} value={y}>FY{y}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">Budget</p>
+            <p className="text-xl font-bold">{money(total.budget, currency)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">Actual to date</p>
+            <p className="text-xl font-bold">{money(rows.reduce<number | null>((s, r) => (r.closed && r.actual !== null ? (s ?? 0) + r.actual : s), null), currency)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">Latest estimate</p>
+            <p className="text-xl font-bold">{money(total.latestEstimate, currency)}</p>
+            <p className="text-xs text-gray-600">Actuals for closed periods, forecast for the rest</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">Variance to budget</p>
+            <p className={`text-xl font-bold ${varianceColor(total.variance)}`}>{signedMoney(total.variance, currency)}</p>
+            <p className={`text-xs ${varianceColor(total.variance)}`}>{formatChange(total.variancePct, "pct", 1, "—")}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Revenue bridge */}
+      <div className="bg-white p-6 rounded-lg shadow border">
+        <h3 className="text-lg font-semibold mb-1">Revenue Bridge: Budget to Actual</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {bridge
+            ? `Closed periods of FY${fiscalYear} (${closedCount}). Volume is the change in orders at budgeted AOV, mix the shift between categories, price the AOV change within each category.`
+            : `No closed period of FY${fiscalYear} has both a budget and actuals yet.`}
+        </p>
+        {bridge && (
+          <ChartView title="Revenue bridge" csv={waterfallCsv}>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={waterfall}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis
+                  domain={[waterfallFloor, "auto"]}
+                  allowDataOverflow
+                  tickFormatter={(v: number) => formatCompact(v, currency)}
+                />
+                <Tooltip
+                  formatter={(_: number, name: string, item: { payload?: { delta: number; name: string } }) => [
+                    signedMoney(item.payload?.delta ?? null, currency),
+                    item.payload?.name ?? name,
+                  ]}
+                />
+                <Bar dataKey="offset" stackId="bridge" fill="transparent" isAnimationActive={false} />
+                <Bar dataKey="value" stackId="bridge" name="Revenue">
+                  {waterfall.map((w) => (
+                    <Cell key={w.name} fill={w.fill} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartView>
+        )}
+      </div>
+
+      {/* By period */}
+      <div className="bg-white p-6 rounded-lg shadow border">
+        <h3 className="text-lg font-semibold mb-4">By Period</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <VarianceHead first="Period" currency={currency} />
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.date} className="border-t">
+                  <td className="px-3 py-2">
+                    {r.month}
+                    {!r.closed && r.actual !== null && <span className="ml-1 text-xs text-gray-500">(in progress)</span>}
+                  </td>
+                  <VarianceCells line={r} currency={currency} />
+                </tr>
+              ))}
+              <tr className="border-t-2 font-semibold bg-gray-50">
+                <td className="px-3 py-2">FY{fiscalYear} total</td>
+                <VarianceCells line={total} currency={currency} />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* By category */}
+      <div className="bg-white p-6 rounded-lg shadow border">
+        <h3 className="text-lg font-semibold mb-1">By Category</h3>
+        {categoryRows.length === 0 ? (
+          <p className="text-sm text-gray-600">Category variance needs daily rows tagged with a category from the source.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">Forecasts are split by each category's share of the last twelve closed periods.</p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <VarianceHead first="Category" currency={currency} />
+                <tbody>
+                  {categoryRows.map((c) => (
+                    <tr key={c.category} className="border-t">
+                      <td className="px-3 py-2 font-medium">{c.category}</td>
+                      <VarianceCells line={c} currency={currency} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VarianceReport;
@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { Check, Download, LayoutGrid, Save, Trash2, Upload } from "lucide-react";
+import { DashboardViews } from "../dashboard/useDashboardViews";
+import { exportViewsJson, importViewsJson } from "../dashboard/views";
+import { downloadBlob, exportFilename } from "../export/download";
+
+interface ViewToolbarProps {
+  views: DashboardViews;
+  editing: boolean;
+  onEditingChange: (editing: boolean) => void;
+}
+
+/** Picks the dashboard view; saves, deletes, exports and imports the user's views. */
+const ViewToolbar: React.FC<ViewToolbarProps> = ({ views, editing, onEditingChange }) => {
+  const { active, modified } = views;
+  const [naming, setNaming] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const saved = views.views.filter((v) => !v.builtIn);
+
+  const saveAs = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = naming?.trim() ?? "";
+    if (!name) return;
+    if (views.views.some((v) => v.name === name)) {
+      setMessage({ text: `A view called "${name}" already exists.`, error: true });
+      return;
+    }
+    views.saveAs(name);
+    setNaming(null);
+    setMessage(null);
+  };
+
+  const exportViews = () =>
+    downloadBlob(new Blob([exportViewsJson(saved)], { type: "application/json" }), exportFilename("Dashboard views", "json"));
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = importViewsJson(String(reader.result ?? ""), views.views);
+      views.addViews(result.views);
+      const summary = `Imported ${result.views.length} view(s) from ${file.name}.`;
+      setMessage({ text: [summary, ...result.errors].join(" "), error: result.errors.length > 0 });
+    };
+    reader.onerror = () => setMessage({ text: reader.error?.message ?? "Could not read file", error: true });
+    reader.readAsText(file);
+  };
+
+  const button = "flex items-center space-x-1 px-3 py-1 border rounded text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50";
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center flex-wrap gap-2">
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>View</span>
+          <select value={active.id} onChange={(e) => views.select(e.target.value)} className="px-3 py-1 border rounded">
+            <optgroup label="Built-in">
+              {views.views.filter((v) => v.builtIn).map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.name}
+                </option>
+              ))}
+            </optgroup>
+            {saved.length > 0 && (
+              <optgroup label="My views">
+                {saved.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        {modified && (
+          <span className="text-xs text-orange-600">
+            Unsaved changes •{" "}
+            <button onClick={views.revert} className="underline">
+              Revert
+            </button>
+          </span>
+        )}
+
+        <div className="ml-auto flex items-center flex-wrap gap-2">
+          <button onClick={() => onEditingChange(!editing)} className={button} aria-pressed={editing}>
+            {editing ? <Check className="h-4 w-4" /> : <LayoutGrid className="h-4 w-4" />}
+            <span>{editing ? "Done" : "Customize"}</span>
+          </button>
+          <button
+            onClick={views.save}
+            disabled={active.builtIn || !modified}
+            className={button}
+            title={active.builtIn ? "Built-in views can't be changed — use Save as" : undefined}
+          >
+            <Save className="h-4 w-4" />
+            <span>Save</span>
+          </button>
+          {naming === null ? (
+            <button onClick={() => setNaming(active.builtIn ? `My ${active.name}` : `${active.name} copy`)} className={button}>
+              <Save className="h-4 w-4" />
+              <span>Save as…</span>
+            </button>
+          ) : (
+            <form onSubmit={saveAs} className="flex items-center gap-1">
+              <input
+                autoFocus
+                value={naming}
+                onChange={(e) => setNaming(e.target.value)}
+                className="px-2 py-1 border rounded text-sm"
+                aria-label="New view name"
+              />
+              <button type="submit" className={button} disabled={!naming.trim()}>
+                Save
+              </button>
+              <button type="button" onClick={() => setNaming(null)} className="text-sm text-gray-500 hover:text-gray-900 px-1">
+                Cancel
+              </button>
+            </form>
+          )}
+          {!active.builtIn && (
+            <button onClick={() => views.remove(active.id)} className={button} aria-label={`Delete view ${active.name}`}>
+              <Trash2 className="h-4 w-4" />
+              <span>Delete</span>
+            </button>
+          )}
+          <button onClick={exportViews} disabled={saved.length === 0} className={button} title="Download your saved views as JSON">
+            <Download className="h-4 w-4" />
+            <span>Export</span>
+          </button>
+          <label className={`${button} cursor-pointer`} title="Add views from an exported JSON file">
+            <Upload className="h-4 w-4" />
+            <span>Import</span>
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" aria-label="Import views from JSON" />
+          </label>
+        </div>
+      </div>
+      {message && <p className={`text-xs ${message.error ? "text-orange-600" : "text-green-700"}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default ViewToolbar;
@@ -0,0 +1,84 @@
+import { CurrencyConfig, DailyData, DashboardData } from "../types";
+import { GREGORIAN } from "../analytics/fiscalCalendar";
+import { consolidate, consolidateRegions, createRateTable, totalGrowth } from "./fx";
+import { formatCompact, formatMoney } from "./format";
+
+// A euro buys $1.25 through 2024 and $1.00 from January 2025; the 2025 plan was set at $1.10.
+const currency: CurrencyConfig = {
+  base: "USD",
+  rates: [
+    { currency: "EUR", date: "2024-01-01", budget: 0.8, actual: 0.8 },
+    { currency: "EUR", date: "2025-01-01", budget: 1 / 1.1, actual: 1 },
+    { currency: "EUR", date: "2026-01-01", budget: 1 },
+  ],
+};
+
+const row = (date: string, region: string, rowCurrency: string, revenue: number): DailyData => ({
+  date,
+  region,
+  currency: rowCurrency,
+  revenue,
+  units: 1,
+  orders: 1,
+  grossProfit: revenue / 2,
+  trafficSources: { organic: 0, paid: 0, social: 0, email: 0, direct: 0 },
+});
+
+test("rates carry forward from their month and fall back to budget before any actual", () => {
+  const table = createRateTable(currency);
+  expect(table.currencies).toEqual(["USD", "EUR"]);
+  expect(table.rate("EUR", "2024-07-15", "actual")).toBe(0.8);
+  expect(table.rate("EUR", "2026-03-01", "actual")).toBe(1); // latest actual carried forward
+  expect(table.rate("EUR", "2026-03-01", "budget")).toBe(1);
+  expect(table.rate("EUR", "2023-06-01", "actual")).toBe(0.8); // before the first quote
+  expect(table.rate("USD", "2025-01-01", "budget")).toBe(1);
+  expect(createRateTable({ base: "USD", rates: [{ currency: "GBP", date: "2026-01-01", budget: 0.8 }] }).rate("GBP", "2026-02-01", "actual")).toBe(0.8);
+});
+
+test("consolidation restates local rows at actual rates and the plan at budget rates", () => {
+  const data: DashboardData = {
+    historicalData: [],
+    forecastData: [],
+    dailyData: [row("2025-03-02", "EMEA", "EUR", 100), row("2025-03-02", "North America", "USD", 100)],
+    plan: [{ date: "2025-03-01", revenue: 1_100, grossMargin: 0.7, conversionRate: 0.03, avgOrderValue: 110 }],
+    currency,
+  };
+  const inDollars = consolidate(data, "USD", "actual");
+  expect(inDollars.dailyData?.map((r) => [r.currency, r.revenue, r.grossProfit])).toEqual([["USD", 100, 50], ["USD", 100, 50]]);
+  expect(inDollars.plan?.[0].revenue).toBe(1_100);
+
+  const inEuros = consolidate(data, "EUR", "actual");
+  expect(inEuros.dailyData?.[1].revenue).toBeCloseTo(100);
+  expect(inEuros.plan?.[0].revenue).toBeCloseTo(1_000); // $1,100 at the $1.10 budget rate
+
+  const atBudget = consolidate(data, "USD", "budget");
+  expect(atBudget.dailyData?.[0].revenue).toBeCloseTo(110);
+  expect(consolidate({ ...data, currency: undefined }, "EUR", "actual")).toEqual({ ...data, currency: undefined });
+});
+
+test("constant-currency growth restates last year's local revenue at this year's rates", () => {
+  const rows = [
+    row("2024-03-10", "EMEA", "EUR", 100),
+    row("2025-03-10", "EMEA", "EUR", 110),
+    row("2024-03-10", "North America", "USD", 200),
+    row("2025-03-10", "North America", "USD", 220),
+  ];
+  const regions = consolidateRegions(rows, createRateTable(currency), "USD", "actual", ["2025-03-01"], GREGORIAN);
+  const emea = regions.find((r) => r.region === "EMEA");
+  expect(emea).toMatchObject({ local: { EUR: 110 }, revenue: 110, priorRevenue: 125, restatedPriorRevenue: 100 });
+  expect(emea?.reportedGrowth).toBeCloseTo(-0.12); // the euro fell from $1.25 to $1.00
+  expect(emea?.constantCurrencyGrowth).toBeCloseTo(0.1);
+  expect(regions[0].region).toBe("North America");
+
+  const total = totalGrowth(regions);
+  expect(total.reported).toBeCloseTo(330 / 325 - 1);
+  expect(total.constantCurrency).toBeCloseTo(0.1);
+});
+
+test("money is formatted with the currency's symbol", () => {
+  expect(formatCompact(4_240_000, "USD")).toBe("$4.2M");
+  expect(formatCompact(-350_000, "EUR", 2)).toBe("-€350K");
+  expect(formatCompact(1_200_000_000, "JPY")).toBe("¥1.2B");
+  expect(formatMoney(1234.5, "CAD", 2)).toBe("CA$1,234.50");
+  expect(formatMoney(12, "XYZ")).toBe("XYZ 12");
+});
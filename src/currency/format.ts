@@ -0,0 +1,45 @@
+/* =======================
+   Money formatting
+   ======================= */
+export const DEFAULT_CURRENCY = "USD";
+
+const symbols = new Map<string, string>();
+
+/** "$", "€", "CA$"… falling back to the ISO code for currencies without a symbol. */
+export const currencySymbol = (currency: string = DEFAULT_CURRENCY): string => {
+  let symbol = symbols.get(currency);
+  if (symbol === undefined) {
+    try {
+      symbol =
+        new Intl.NumberFormat("en-US", { style: "currency", currency, currencyDisplay: "symbol" })
+          .formatToParts(0)
+          .find((p) => p.type === "currency")?.value ?? currency;
+    } catch {
+      symbol = currency;
+    }
+    if (symbol === currency) symbol = `${currency} `;
+    symbols.set(currency, symbol);
+  }
+  return symbol;
+};
+
+/** "$1,234" — whole units unless `digits` says otherwise. */
+export const formatMoney = (value: number, currency: string = DEFAULT_CURRENCY, digits = 0): string =>
+  `${value < 0 ? "-" : ""}${currencySymbol(currency)}${Math.abs(value).toLocaleString("en-US", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  })}`;
+
+/**
+ * "$4.2M", "$350K", "$120" — `millionDigits` decimals for millions and
+ * billions, whole thousands and units below that.
+ */
+export const formatCompact = (value: number, currency: string = DEFAULT_CURRENCY, millionDigits = 1): string => {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? "-" : "";
+  const symbol = currencySymbol(currency);
+  if (abs >= 1_000_000_000) return `${sign}${symbol}${(abs / 1_000_000_000).toFixed(millionDigits)}B`;
+  if (abs >= 1_000_000) return `${sign}${symbol}${(abs / 1_000_000).toFixed(millionDigits)}M`;
+  if (abs >= 1_000) return `${sign}${symbol}${(abs / 1_000).toFixed(0)}K`;
+  return `${sign}${symbol}${abs.toFixed(0)}`;
+};
@@ -0,0 +1,207 @@
+import { CurrencyConfig, DailyData, DashboardData, FxRate } from "../types";
+import { FiscalCalendarConfig, toFiscalPeriod } from "../analytics/fiscalCalendar";
+import { addMonths } from "../analytics/periods";
+import { DataSourceError } from "../data/validate";
+
+/* =======================
+   FX rates and consolidation
+   =======================
+   Rates are quoted per unit of the base currency and apply from the first
+   of their month until the next quote. Actual rates are only known for
+   past months, so later dates carry the latest one forward.
+
+   Reported figures use each month's own rate. Constant-currency figures
+   restate last year's local amounts at this year's rates for the same
+   month, so what's left of the growth is trading rather than FX.
+*/
+
+/** Which rate converts actuals: the one seen that month or the one the plan was set at. */
+export type RateBasis = "actual" | "budget";
+
+export interface RateTable {
+  base: string;
+  currencies: string[];     // base first, then the rest alphabetically
+  /** Units of `currency` per unit of the base currency on `date`. */
+  rate: (currency: string, date: string, basis: RateBasis) => number;
+}
+
+const monthOf = (date: string) => `${date.slice(0, 7)}-01`;
+
+export const createRateTable = (config: CurrencyConfig): RateTable => {
+  const byCurrency = new Map<string, FxRate[]>();
+  config.rates.forEach((r) => byCurrency.set(r.currency, [...(byCurrency.get(r.currency) ?? []), r]));
+  byCurrency.forEach((rates) => rates.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const cache = new Map<string, number>();
+  const rate = (currency: string, date: string, basis: RateBasis): number => {
+    if (currency === config.base) return 1;
+    const month = monthOf(date);
+    const key = `${currency}|${month}|${basis}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const quotes = byCurrency.get(currency);
+    if (!quotes) throw new DataSourceError(`No FX rates for ${currency}`);
+    const known = basis === "actual" ? quotes.filter((r) => r.actual !== undefined) : quotes;
+    // Before the first actual rate is in, the budget rate is the best guess.
+    if (known.length === 0) return rate(currency, date, "budget");
+    let quote = known[0];
+    for (const q of known) {
+      if (q.date > month) break;
+      quote = q;
+    }
+    const value = basis === "actual" ? (quote.actual as number) : quote.budget;
+    cache.set(key, value);
+    return value;
+  };
+
+  return {
+    base: config.base,
+    currencies: [config.base, ...Array.from(byCurrency.keys()).filter((c) => c !== config.base).sort()],
+    rate,
+  };
+};
+
+/** Converts an amount in `from` on `date` into `to`. */
+export const convert = (table: RateTable, amount: number, from: string, to: string, date: string, basis: RateBasis): number =>
+  from === to ? amount : (amount / table.rate(from, date, basis)) * table.rate(to, date, basis);
+
+/** Daily rows restated in `reporting`; rows without a currency are in the base currency. */
+export const convertDaily = (rows: DailyData[], table: RateTable, reporting: string, basis: RateBasis): DailyData[] =>
+  rows.map((r) => {
+    const from = r.currency ?? table.base;
+    if (from === reporting) return r.currency ? r : { ...r, currency: reporting };
+    const factor = convert(table, 1, from, reporting, r.date, basis);
+    return { ...r, currency: reporting, revenue: r.revenue * factor, grossProfit: r.grossProfit * factor };
+  });
+
+/**
+ * Every amount in the payload restated in `reporting`. Actuals use `basis`;
+ * the plan always uses budget rates, as that's what it was set at. Without
+ * FX rates the data is returned as it is.
+ */
+export const consolidate = (data: DashboardData, reporting: string, basis: RateBasis): DashboardData => {
+  if (!data.currency) return data;
+  const table = createRateTable(data.currency);
+  const base = table.base;
+  if (reporting === base && !data.dailyData?.some((r) => r.currency && r.currency !== base)) return data;
+  const factor = (date: string, rateBasis: RateBasis = basis) => convert(table, 1, base, reporting, date, rateBasis);
+  const lastActual = data.historicalData[data.historicalData.length - 1]?.date;
+
+  return {
+    ...data,
+    historicalData: data.historicalData.map((m) => {
+      const f = factor(m.date);
+      return { ...m, revenue: m.revenue * f, avgOrderValue: m.avgOrderValue * f };
+    }),
+    forecastData: data.forecastData.map((p) => {
+      const f = factor(p.date ?? lastActual ?? "");
+      return { ...p, revenue: p.revenue * f, forecastHigh: p.forecastHigh * f, forecastLow: p.forecastLow * f };
+    }),
+    ...(data.dailyData ? { dailyData: convertDaily(data.dailyData, table, reporting, basis) } : {}),
+    ...(data.plan
+      ? {
+          plan: data.plan.map((m) => {
+            const f = factor(m.date, "budget");
+            return {
+              ...m,
+              revenue: m.revenue * f,
+              avgOrderValue: m.avgOrderValue * f,
+              ...(m.categories ? { categories: m.categories.map((c) => ({ ...c, revenue: c.revenue * f })) } : {}),
+            };
+          }),
+        }
+      : {}),
+    ...(data.marketing
+      ? {
+          marketing: {
+            ...data.marketing,
+            spend: data.marketing.spend.map((s) => ({ ...s, spend: s.spend * factor(s.date) })),
+            journeys: data.marketing.journeys.map((j) => ({ ...j, revenue: j.revenue * factor(j.date) })),
+          },
+        }
+      : {}),
+    ...(data.orders ? { orders: data.orders.map((o) => ({ ...o, revenue: o.revenue * factor(o.date) })) } : {}),
+    ...(data.products
+      ? {
+          products: {
+            ...data.products,
+            sales: data.products.sales.map((r) => {
+              const f = factor(r.date);
+              return { ...r, revenue: r.revenue * f, grossProfit: r.grossProfit * f };
+            }),
+          },
+        }
+      : {}),
+  };
+};
+
+export interface RegionConsolidation {
+  region: string;
+  /** Local-currency revenue over the periods, by currency. */
+  local: Record<string, number>;
+  revenue: number;          // in the reporting currency
+  priorRevenue: number;     // same periods a year earlier, at their own rates
+  /** Prior-year local amounts at this year's rates. */
+  restatedPriorRevenue: number;
+  reportedGrowth: number | null;
+  constantCurrencyGrowth: number | null;
+}
+
+const growth = (current: number, prior: number) => (prior > 0 ? current / prior - 1 : null);
+
+/**
+ * Revenue over `periodKeys` per region (rows without one are "Other"), with
+ * reported and constant-currency growth against the same periods a year
+ * earlier. Rows must still be in their local currencies.
+ */
+export const consolidateRegions = (
+  rows: Pick<DailyData, "date" | "region" | "currency" | "revenue">[],
+  table: RateTable,
+  reporting: string,
+  basis: RateBasis,
+  periodKeys: string[],
+  calendar: FiscalCalendarConfig
+): RegionConsolidation[] => {
+  const current = new Set(periodKeys);
+  const prior = new Set(periodKeys.map((k) => addMonths(k, -12)));
+  const periodOf = new Map<string, string>();
+  const regions = new Map<string, RegionConsolidation>();
+
+  rows.forEach((r) => {
+    let period = periodOf.get(r.date);
+    if (period === undefined) {
+      period = toFiscalPeriod(r.date, calendar).periodKey;
+      periodOf.set(r.date, period);
+    }
+    const isCurrent = current.has(period);
+    if (!isCurrent && !prior.has(period)) return;
+    const name = r.region ?? "Other";
+    const region = regions.get(name) ?? {
+      region: name, local: {}, revenue: 0, priorRevenue: 0, restatedPriorRevenue: 0, reportedGrowth: null, constantCurrencyGrowth: null,
+    };
+    regions.set(name, region);
+    const from = r.currency ?? table.base;
+    if (isCurrent) {
+      region.local[from] = (region.local[from] ?? 0) + r.revenue;
+      region.revenue += convert(table, r.revenue, from, reporting, r.date, basis);
+    } else {
+      region.priorRevenue += convert(table, r.revenue, from, reporting, r.date, basis);
+      region.restatedPriorRevenue += convert(table, r.revenue, from, reporting, addMonths(monthOf(r.date), 12), basis);
+    }
+  });
+
+  return Array.from(regions.values())
+    .map((r) => ({
+      ...r,
+      reportedGrowth: growth(r.revenue, r.priorRevenue),
+      constantCurrencyGrowth: growth(r.revenue, r.restatedPriorRevenue),
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+/** Reported and constant-currency growth for regions taken together. */
+export const totalGrowth = (regions: RegionConsolidation[]): { reported: number | null; constantCurrency: number | null } => {
+  const sum = (key: "revenue" | "priorRevenue" | "restatedPriorRevenue") => regions.reduce((s, r) => s + r[key], 0);
+  return { reported: growth(sum("revenue"), sum("priorRevenue")), constantCurrency: growth(sum("revenue"), sum("restatedPriorRevenue")) };
+};
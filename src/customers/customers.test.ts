@@ -0,0 +1,74 @@
+import { CustomerOrder } from "../types";
+import { scoreCustomers, segmentFor, summarizeSegments } from "./rfm";
+import { acquisitionCohorts, averageCurve, predictLifetimeValue, segmentForwardValue } from "./lifetimeValue";
+
+const order = (customerId: string, date: string, revenue: number): CustomerOrder => ({
+  id: `${customerId}-${date}`,
+  customerId,
+  date,
+  revenue,
+});
+
+test("customers are scored by quintile and mapped to segments", () => {
+  const orders = [
+    // Frequent, recent, big spender
+    ...["2025-01-10", "2025-03-10", "2025-05-10", "2025-06-20"].map((d) => order("vip", d, 500)),
+    // Used to buy often, nothing this year
+    ...["2024-03-01", "2024-05-01", "2024-07-01"].map((d) => order("lapsed", d, 300)),
+    order("new", "2025-06-25", 80),
+    order("old", "2024-02-01", 60),
+    order("mid", "2025-02-01", 100),
+  ];
+  const customers = new Map(scoreCustomers(orders).map((c) => [c.customerId, c]));
+  expect(customers.get("vip")).toMatchObject({ orders: 4, revenue: 2000, r: 4, f: 5, m: 5, segment: "Champions" });
+  expect(customers.get("new")).toMatchObject({ recencyDays: 0, f: 1, segment: "New" });
+  expect(customers.get("lapsed")?.segment).toBe("At Risk");
+  expect(customers.get("old")?.segment).toBe("Lost");
+  expect(segmentFor(3, 4, 2)).toBe("Loyal");
+
+  const segments = summarizeSegments(Array.from(customers.values()));
+  const champions = segments.find((s) => s.segment === "Champions");
+  expect(champions).toMatchObject({ customers: 1, count: 0.2, revenuePerCustomer: 2000, avgOrders: 4 });
+  expect(segments.reduce((s, x) => s + x.revenue, 0)).toBeCloseTo(1);
+});
+
+test("cohorts track retention and revenue per acquired customer by month since acquisition", () => {
+  const orders = [
+    order("a", "2025-01-05", 100),
+    order("a", "2025-02-05", 50),
+    order("b", "2025-01-20", 100),
+    order("c", "2025-02-10", 200),
+    order("c", "2025-03-10", 100),
+  ];
+  const [january, february] = acquisitionCohorts(orders);
+  expect(january).toMatchObject({ date: "2025-01-01", customers: 2, retention: [1, 0.5, 0], revenuePerCustomer: [100, 25, 0] });
+  expect(february).toMatchObject({ date: "2025-02-01", customers: 1, retention: [1, 1], revenuePerCustomer: [200, 100] });
+
+  const curve = averageCurve([january, february]);
+  expect(curve.cohorts).toEqual([2, 2, 1]);
+  expect(curve.retention[1]).toBeCloseTo((0.5 * 2 + 1) / 3);
+  expect(curve.revenuePerCustomer[0]).toBeCloseTo(400 / 3);
+});
+
+test("lifetime value extends the observed curve with its recent decay", () => {
+  const observed = { retention: [1, 0.5, 0.25, 0.125], revenuePerCustomer: [100, 50, 25, 12.5], cohorts: [3, 3, 2, 1] };
+  expect(predictLifetimeValue(observed, 3)).toBeCloseTo(175);
+  // Halving continues past the last age: 100 + 50 + ... → 200
+  expect(predictLifetimeValue(observed, 60)).toBeCloseTo(200);
+  expect(predictLifetimeValue({ retention: [], revenuePerCustomer: [], cohorts: [] })).toBe(0);
+});
+
+test("forward value averages what each segment spent after the cutoff", () => {
+  const orders = [
+    order("a", "2024-01-10", 100),
+    order("a", "2024-06-10", 100),
+    order("a", "2025-03-10", 300),
+    order("b", "2024-06-20", 50),
+    order("c", "2025-06-01", 80),
+  ];
+  const forward = segmentForwardValue(orders, 12);
+  // Cutoff is 2024-06-30; "c" wasn't a customer yet.
+  const total = Array.from(forward.values()).reduce((s, v) => s + v, 0);
+  expect(total).toBeCloseTo(300);
+  expect(segmentForwardValue(orders.slice(4), 12).size).toBe(0);
+});
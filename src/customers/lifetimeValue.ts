@@ -0,0 +1,137 @@
+import { CustomerOrder } from "../types";
+import { addMonths, monthLabel } from "../analytics/periods";
+import { RfmSegment, scoreCustomers } from "./rfm";
+
+/* =======================
+   Cohorts and lifetime value
+   =======================
+   Customers are grouped by the calendar month of their first order. For
+   each month since acquisition we track the share who ordered again and
+   the revenue per acquired customer; averaging across cohorts gives the
+   curve a new customer is expected to follow, which is summed (with a
+   geometric tail past the oldest cohort) into a predicted lifetime value.
+*/
+
+export interface Cohort {
+  date: string;             // acquisition month, "2024-01-01"
+  label: string;
+  customers: number;
+  /** Index k: share of the cohort with an order k months after acquisition (k = 0 is 100%). */
+  retention: number[];
+  /** Index k: revenue k months after acquisition per acquired customer. */
+  revenuePerCustomer: number[];
+}
+
+export interface CohortCurve {
+  retention: number[];
+  revenuePerCustomer: number[];
+  /** Cohorts observed at each age. */
+  cohorts: number[];
+}
+
+const DAY_MS = 86_400_000;
+
+const monthOf = (date: string) => `${date.slice(0, 7)}-01`;
+const monthsBetween = (from: string, to: string) =>
+  (Number(to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 + Number(to.slice(5, 7)) - Number(from.slice(5, 7));
+
+/** One cohort per acquisition month, observed up to the month of the latest order. */
+export const acquisitionCohorts = (orders: CustomerOrder[]): Cohort[] => {
+  const firstMonth = new Map<string, string>();
+  let lastMonth = "";
+  orders.forEach((o) => {
+    const m = monthOf(o.date);
+    const seen = firstMonth.get(o.customerId);
+    if (!seen || m < seen) firstMonth.set(o.customerId, m);
+    if (m > lastMonth) lastMonth = m;
+  });
+
+  const cohorts = new Map<string, { customers: number; active: Set<string>[]; revenue: number[] }>();
+  firstMonth.forEach((m) => {
+    const c = cohorts.get(m) ?? { customers: 0, active: [], revenue: [] };
+    c.customers += 1;
+    cohorts.set(m, c);
+  });
+  orders.forEach((o) => {
+    const start = firstMonth.get(o.customerId) as string;
+    const c = cohorts.get(start) as { active: Set<string>[]; revenue: number[] };
+    const age = monthsBetween(start, monthOf(o.date));
+    (c.active[age] ??= new Set()).add(o.customerId);
+    c.revenue[age] = (c.revenue[age] ?? 0) + o.revenue;
+  });
+
+  return Array.from(cohorts, ([date, c]) => {
+    const ages = monthsBetween(date, lastMonth) + 1;
+    return {
+      date,
+      label: monthLabel(date),
+      customers: c.customers,
+      retention: Array.from({ length: ages }, (_, k) => (c.active[k]?.size ?? 0) / c.customers),
+      revenuePerCustomer: Array.from({ length: ages }, (_, k) => (c.revenue[k] ?? 0) / c.customers),
+    };
+  }).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/** Customer-weighted average of the cohorts observed at each age. */
+export const averageCurve = (cohorts: Cohort[]): CohortCurve => {
+  const longest = Math.max(0, ...cohorts.map((c) => c.retention.length));
+  const curve: CohortCurve = { retention: [], revenuePerCustomer: [], cohorts: [] };
+  for (let k = 0; k < longest; k++) {
+    const seen = cohorts.filter((c) => c.retention.length > k);
+    const customers = seen.reduce((s, c) => s + c.customers, 0);
+    curve.retention.push(seen.reduce((s, c) => s + c.retention[k] * c.customers, 0) / customers);
+    curve.revenuePerCustomer.push(seen.reduce((s, c) => s + c.revenuePerCustomer[k] * c.customers, 0) / customers);
+    curve.cohorts.push(seen.length);
+  }
+  return curve;
+};
+
+/**
+ * Expected revenue from a newly acquired customer over `months`. Ages past
+ * the oldest cohort continue at the average month-on-month decay of the
+ * last six observed ages (never growing).
+ */
+export const predictLifetimeValue = (curve: CohortCurve, months = 24): number => {
+  const observed = curve.revenuePerCustomer;
+  if (observed.length === 0) return 0;
+  const tail = observed.slice(-7);
+  const ratios = tail.slice(1).map((v, i) => (tail[i] > 0 ? v / tail[i] : 0));
+  const decay = ratios.length ? Math.min(ratios.reduce((s, r) => s + r, 0) / ratios.length, 1) : 0;
+  let total = 0;
+  let last = observed[observed.length - 1];
+  for (let k = 0; k < months; k++) {
+    if (k >= observed.length) last *= decay;
+    total += k < observed.length ? observed[k] : last;
+  }
+  return total;
+};
+
+/**
+ * What customers in each segment went on to spend: customers are segmented
+ * as they stood `months` before the latest order, and their revenue over
+ * the following `months` is averaged per segment. Empty when the history
+ * is too short to look back that far.
+ */
+export const segmentForwardValue = (orders: CustomerOrder[], months = 12): Map<RfmSegment, number> => {
+  const latest = orders.reduce((max, o) => (o.date > max ? o.date : max), "");
+  const earliest = orders.reduce((min, o) => (!min || o.date < min ? o.date : min), "");
+  if (!latest) return new Map();
+  const cutoffMonth = addMonths(monthOf(latest), -months);
+  if (cutoffMonth <= monthOf(earliest)) return new Map();
+  // Last day of the cutoff month; the look-ahead starts the day after.
+  const cutoff = new Date(Date.parse(`${addMonths(cutoffMonth, 1)}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10);
+
+  const segmentOf = new Map(scoreCustomers(orders, cutoff).map((c) => [c.customerId, c.segment]));
+  const totals = new Map<RfmSegment, { customers: number; revenue: number }>();
+  segmentOf.forEach((segment) => {
+    const t = totals.get(segment) ?? { customers: 0, revenue: 0 };
+    t.customers += 1;
+    totals.set(segment, t);
+  });
+  orders.forEach((o) => {
+    const segment = segmentOf.get(o.customerId);
+    if (!segment || o.date <= cutoff) return;
+    (totals.get(segment) as { revenue: number }).revenue += o.revenue;
+  });
+  return new Map(Array.from(totals, ([segment, t]) => [segment, t.revenue / t.customers]));
+};
@@ -0,0 +1,120 @@
+import { CustomerOrder, Segment } from "../types";
+import { perUnit, share, sum } from "../analytics/metrics";
+
+/* =======================
+   RFM segmentation
+   =======================
+   Customers are scored 1–5 on recency (days since the last order),
+   frequency (orders) and monetary value (revenue), by quintile of the
+   customer base, and the scores are mapped to named segments.
+*/
+
+const DAY_MS = 86_400_000;
+
+export interface CustomerSummary {
+  customerId: string;
+  firstOrder: string;
+  lastOrder: string;
+  orders: number;
+  revenue: number;
+  recencyDays: number;
+  r: number;                // 1..5, 5 = most recent
+  f: number;                // 1..5, 5 = most orders
+  m: number;                // 1..5, 5 = most revenue
+  segment: RfmSegment;
+}
+
+export type RfmSegment = "Champions" | "Loyal" | "New" | "Promising" | "At Risk" | "Lost";
+
+/** Segments in display order, with what each one means. */
+export const RFM_SEGMENTS: Record<RfmSegment, string> = {
+  Champions: "Bought recently, buy often and spend the most",
+  Loyal: "Buy regularly and spend well",
+  New: "First order was recent",
+  Promising: "Bought fairly recently but not often yet",
+  "At Risk": "Used to buy often but haven't for a while",
+  Lost: "Few orders, long ago",
+};
+
+export const segmentFor = (r: number, f: number, m: number): RfmSegment => {
+  if (r >= 4 && f >= 4 && m >= 4) return "Champions";
+  if (f >= 4 && r >= 3) return "Loyal";
+  if (r >= 4 && f <= 1) return "New";
+  if (r >= 3) return "Promising";
+  if (f >= 3 || m >= 4) return "At Risk";
+  return "Lost";
+};
+
+/**
+ * 1..5 by quintile of `values`. Ties share the lower score, so when most
+ * customers have a single order they all score 1 on frequency.
+ */
+const quintileScorer = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return (v: number) => {
+    // Count of values below v
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < v) lo = mid + 1;
+      else hi = mid;
+    }
+    return Math.min(5, Math.max(1, Math.ceil(((lo + 1) / sorted.length) * 5)));
+  };
+};
+
+/** One row per customer, scored as of `asOf` (default: the latest order date). */
+export const scoreCustomers = (orders: CustomerOrder[], asOf?: string): CustomerSummary[] => {
+  const byCustomer = new Map<string, { firstOrder: string; lastOrder: string; orders: number; revenue: number }>();
+  let latest = "";
+  orders.forEach((o) => {
+    if (asOf && o.date > asOf) return;
+    const c = byCustomer.get(o.customerId);
+    if (!c) {
+      byCustomer.set(o.customerId, { firstOrder: o.date, lastOrder: o.date, orders: 1, revenue: o.revenue });
+    } else {
+      if (o.date < c.firstOrder) c.firstOrder = o.date;
+      if (o.date > c.lastOrder) c.lastOrder = o.date;
+      c.orders += 1;
+      c.revenue += o.revenue;
+    }
+    if (o.date > latest) latest = o.date;
+  });
+  const end = Date.parse(`${asOf ?? latest}T00:00:00Z`);
+  const rows = Array.from(byCustomer, ([customerId, c]) => ({
+    customerId,
+    ...c,
+    recencyDays: Math.round((end - Date.parse(`${c.lastOrder}T00:00:00Z`)) / DAY_MS),
+  }));
+
+  // Recency is scored on its negative so that recent buyers score high.
+  const rScore = quintileScorer(rows.map((c) => -c.recencyDays));
+  const fScore = quintileScorer(rows.map((c) => c.orders));
+  const mScore = quintileScorer(rows.map((c) => c.revenue));
+  return rows.map((c) => {
+    const r = rScore(-c.recencyDays);
+    const f = fScore(c.orders);
+    const m = mScore(c.revenue);
+    return { ...c, r, f, m, segment: segmentFor(r, f, m) };
+  });
+};
+
+/** Share of customers and revenue, with $ per customer, for each segment that has customers. */
+export const summarizeSegments = (customers: CustomerSummary[]): (Segment & { customers: number; avgOrders: number })[] => {
+  const totalRevenue = sum(customers, (c) => c.revenue);
+  return (Object.keys(RFM_SEGMENTS) as RfmSegment[])
+    .map((segment) => {
+      const members = customers.filter((c) => c.segment === segment);
+      const revenue = sum(members, (c) => c.revenue);
+      return {
+        segment,
+        customers: members.length,
+        count: share(members.length, customers.length),
+        revenue: share(revenue, totalRevenue),
+        revenuePerCustomer: perUnit(revenue, members.length),
+        avgOrders: perUnit(sum(members, (c) => c.orders), members.length),
+      };
+    })
+    .filter((s) => s.customers > 0);
+};
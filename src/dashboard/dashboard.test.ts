@@ -0,0 +1,73 @@
+import { BUILT_IN_VIEWS, exportViewsJson, importViewsJson, loadViews, saveViews } from "./views";
+import { DEFAULT_LAYOUT, WidgetPlacement, addWidget, hiddenWidgets, moveWidget, removeWidget, resizeWidget } from "./widgets";
+
+const ids = (layout: WidgetPlacement[]) => layout.map((w) => w.id);
+
+test("layout edits move, resize, remove and re-add widgets", () => {
+  const layout: WidgetPlacement[] = [
+    { id: "revenue", span: 2 },
+    { id: "revenueTrend", span: 10 },
+    { id: "alerts", span: 10 },
+  ];
+  expect(ids(moveWidget(layout, 2, 0))).toEqual(["alerts", "revenue", "revenueTrend"]);
+  expect(ids(moveWidget(layout, 0, 2))).toEqual(["revenueTrend", "alerts", "revenue"]);
+  expect(ids(moveWidget(layout, 0, -1))).toEqual(ids(layout));
+  expect(resizeWidget(layout, "revenueTrend", 5)[1]).toEqual({ id: "revenueTrend", span: 5 });
+
+  const removed = removeWidget(layout, "revenue");
+  expect(hiddenWidgets(removed)).toContain("revenue");
+  expect(addWidget(removed, "revenue").slice(-1)).toEqual([{ id: "revenue", span: 2 }]);
+  expect(addWidget(layout, "alerts")).toBe(layout);
+  expect(hiddenWidgets(DEFAULT_LAYOUT)).toEqual([]);
+});
+
+test("saved views survive a reload and drop widgets this version doesn't know", () => {
+  window.localStorage.clear();
+  expect(loadViews("exec")).toEqual({ views: [], activeId: "standard", layout: BUILT_IN_VIEWS[0].widgets });
+
+  const mine = { id: "view-1", name: "Weekly", widgets: [{ id: "revenue" as const, span: 4 as const }] };
+  saveViews("exec", { views: [mine], activeId: "view-1", layout: [{ id: "alerts", span: 10 }] });
+  expect(loadViews("exec")).toEqual({ views: [mine], activeId: "view-1", layout: [{ id: "alerts", span: 10 }] });
+
+  window.localStorage.setItem(
+    "retail-analytics:dashboard-views:exec",
+    JSON.stringify({ views: [{ id: "v", name: "Old", widgets: [{ id: "heatmap", span: 10 }, { id: "revenue", span: 3 }, { id: "alerts", span: 5 }] }], activeId: "gone" })
+  );
+  expect(loadViews("exec")).toEqual({ views: [{ id: "v", name: "Old", widgets: [{ id: "alerts", span: 5 }] }], activeId: "standard", layout: BUILT_IN_VIEWS[0].widgets });
+  window.localStorage.clear();
+});
+
+test("each user has their own saved views", () => {
+  const mine = { id: "view-1", name: "Board pack", widgets: [{ id: "revenue" as const, span: 4 as const }] };
+  saveViews("exec", { views: [mine], activeId: "view-1", layout: mine.widgets });
+  expect(loadViews("emea")).toEqual({ views: [], activeId: "standard", layout: BUILT_IN_VIEWS[0].widgets });
+  expect(loadViews("exec").views).toEqual([mine]);
+  window.localStorage.clear();
+});
+
+test("exported views import with fresh ids and unique names", () => {
+  const existing = [{ id: "view-1", name: "Weekly", widgets: [{ id: "revenue" as const, span: 2 as const }] }];
+  const json = exportViewsJson(existing);
+  expect(JSON.parse(json)).toEqual({ version: 1, views: [{ name: "Weekly", widgets: [{ id: "revenue", span: 2 }] }] });
+
+  const result = importViewsJson(json, [...BUILT_IN_VIEWS, ...existing]);
+  expect(result.errors).toEqual([]);
+  expect(result.views).toHaveLength(1);
+  expect(result.views[0]).toMatchObject({ name: "Weekly (2)", widgets: [{ id: "revenue", span: 2 }] });
+  expect(result.views[0].id).not.toBe("view-1");
+
+  const partial = importViewsJson(
+    JSON.stringify({ views: [{ name: "Finance", widgets: [{ id: "revenue", span: 2 }, { id: "revenue", span: 4 }] }, { name: "" }, { name: "Bad", widgets: "x" }] }),
+    BUILT_IN_VIEWS
+  );
+  expect(partial.views.map((v) => v.name)).toEqual(["Finance (2)"]);
+  expect(partial.views[0].widgets).toEqual([{ id: "revenue", span: 2 }]);
+  expect(partial.errors).toEqual([
+    "View 1 (Finance): skipped 1 unknown or repeated widget(s)",
+    'View 2: "name" must be a non-empty string',
+    'View 3 (Bad): "widgets" must be an array',
+  ]);
+
+  expect(importViewsJson("{", []).errors).toEqual(["The file isn't valid JSON."]);
+  expect(importViewsJson("[]", []).errors).toEqual(['Expected an object with a "views" array.']);
+});
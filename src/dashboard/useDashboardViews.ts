@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { WidgetPlacement } from "./widgets";
+import { BUILT_IN_VIEWS, DashboardView, SavedViews, loadViews, newViewId, saveViews } from "./views";
+
+const sameLayout = (a: WidgetPlacement[], b: WidgetPlacement[]) =>
+  a.length === b.length && a.every((w, i) => w.id === b[i].id && w.span === b[i].span);
+
+export interface DashboardViews {
+  /** Built-in views first, then the user's. */
+  views: DashboardView[];
+  active: DashboardView;
+  /** The layout on screen. */
+  layout: WidgetPlacement[];
+  /** The layout differs from the active view as saved. */
+  modified: boolean;
+  setLayout: (layout: WidgetPlacement[]) => void;
+  select: (id: string) => void;
+  /** Overwrites the active view; built-in views can only be saved as a new view. */
+  save: () => void;
+  saveAs: (name: string) => void;
+  remove: (id: string) => void;
+  /** Discards unsaved changes. */
+  revert: () => void;
+  addViews: (views: DashboardView[]) => void;
+}
+
+/** The user's dashboard layout and named views, persisted to localStorage on every change. */
+export const useDashboardViews = (userId: string): DashboardViews => {
+  const [state, setState] = useState<SavedViews>(() => loadViews(userId));
+  useEffect(() => saveViews(userId, state), [userId, state]);
+
+  const views = [...BUILT_IN_VIEWS, ...state.views];
+  const active = views.find((v) => v.id === state.activeId) ?? BUILT_IN_VIEWS[0];
+  const find = (s: SavedViews, id: string) => [...BUILT_IN_VIEWS, ...s.views].find((v) => v.id === id);
+
+  return {
+    views,
+    active,
+    layout: state.layout,
+    modified: !sameLayout(active.widgets, state.layout),
+    setLayout: (layout) => setState((s) => ({ ...s, layout })),
+    select: (id) =>
+      setState((s) => {
+        const view = find(s, id);
+        return view ? { ...s, activeId: id, layout: view.widgets } : s;
+      }),
+    save: () =>
+      setState((s) => ({ ...s, views: s.views.map((v) => (v.id === s.activeId ? { ...v, widgets: s.layout } : v)) })),
+    saveAs: (name) =>
+      setState((s) => {
+        const view = { id: newViewId(), name, widgets: s.layout };
+        return { ...s, views: [...s.views, view], activeId: view.id };
+      }),
+    remove: (id) =>
+      setState((s) => {
+        const views = s.views.filter((v) => v.id !== id);
+        return s.activeId === id ? { views, activeId: BUILT_IN_VIEWS[0].id, layout: BUILT_IN_VIEWS[0].widgets } : { ...s, views };
+      }),
+    revert: () => setState((s) => ({ ...s, layout: find(s, s.activeId)?.widgets ?? s.layout })),
+    addViews: (added) => setState((s) => ({ ...s, views: [...s.views, ...added] })),
+  };
+};
@@ -0,0 +1,148 @@
+import { DEFAULT_LAYOUT, WidgetPlacement, isWidgetId, isWidgetSpan } from "./widgets";
+
+/* =======================
+   Saved dashboard views
+   =======================
+   A view is a named widget layout. The built-in views can't be changed;
+   the user's own are kept in localStorage along with the layout on screen,
+   under a key per user, and move between browsers as a JSON file.
+*/
+
+export interface DashboardView {
+  id: string;
+  name: string;
+  widgets: WidgetPlacement[];
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_VIEWS: DashboardView[] = [
+  { id: "standard", name: "Standard", builtIn: true, widgets: DEFAULT_LAYOUT },
+  {
+    id: "finance",
+    name: "Finance",
+    builtIn: true,
+    widgets: [
+      { id: "revenue", span: 2 },
+      { id: "grossMargin", span: 2 },
+      { id: "avgOrderValue", span: 2 },
+      { id: "forecastConfidence", span: 4 },
+      { id: "revenueTrend", span: 10 },
+      { id: "regional", span: 10 },
+      { id: "alerts", span: 10 },
+    ],
+  },
+  {
+    id: "merchandising",
+    name: "Merchandising",
+    builtIn: true,
+    widgets: [
+      { id: "revenue", span: 2 },
+      { id: "conversionRate", span: 2 },
+      { id: "avgOrderValue", span: 2 },
+      { id: "grossMargin", span: 4 },
+      { id: "performanceMetrics", span: 6 },
+      { id: "trafficSources", span: 4 },
+      { id: "revenueTrend", span: 10 },
+    ],
+  },
+];
+
+export interface SavedViews {
+  /** The user's own views; built-ins aren't stored. */
+  views: DashboardView[];
+  activeId: string;
+  /** Layout on screen, which may have unsaved edits to the active view. */
+  layout: WidgetPlacement[];
+}
+
+const storageKey = (userId: string) => `retail-analytics:dashboard-views:${userId}`;
+const FILE_VERSION = 1;
+
+/** Placements that name a known widget and size, each widget once. */
+const sanitizeWidgets = (raw: unknown): WidgetPlacement[] =>
+  Array.isArray(raw)
+    ? raw.filter(
+        (w, i) =>
+          w && isWidgetId(w.id) && isWidgetSpan(w.span) && raw.findIndex((other) => other && other.id === w.id) === i
+      ).map((w) => ({ id: w.id, span: w.span }))
+    : [];
+
+export const newViewId = () => `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/** Reads the user's saved views from localStorage; nothing stored (or unreadable) yields the standard view. */
+export const loadViews = (userId: string): SavedViews => {
+  const fallback: SavedViews = { views: [], activeId: BUILT_IN_VIEWS[0].id, layout: BUILT_IN_VIEWS[0].widgets };
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    if (raw === null) return fallback;
+    const parsed = JSON.parse(raw);
+    const views: DashboardView[] = (Array.isArray(parsed?.views) ? parsed.views : [])
+      .filter((v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null)
+      .filter((v: Record<string, unknown>) => typeof v.id === "string" && typeof v.name === "string")
+      .map((v: Record<string, unknown>) => ({ id: v.id as string, name: v.name as string, widgets: sanitizeWidgets(v.widgets) }));
+    const known = [...BUILT_IN_VIEWS, ...views].some((v) => v.id === parsed?.activeId);
+    return {
+      views,
+      activeId: known ? parsed.activeId : fallback.activeId,
+      layout: Array.isArray(parsed?.layout) ? sanitizeWidgets(parsed.layout) : fallback.layout,
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveViews = (userId: string, saved: SavedViews): void => {
+  try {
+    window.localStorage.setItem(storageKey(userId), JSON.stringify(saved));
+  } catch {
+    // Storage full or disabled: views stay in memory for this session.
+  }
+};
+
+/* -------- JSON files -------- */
+
+export const exportViewsJson = (views: DashboardView[]): string =>
+  JSON.stringify({ version: FILE_VERSION, views: views.map(({ name, widgets }) => ({ name, widgets })) }, null, 2);
+
+export interface ViewImportResult {
+  views: DashboardView[];
+  errors: string[];
+}
+
+/**
+ * Views from an exported file, with fresh ids. Names already taken by
+ * `existing` views get a number appended. Widgets this version doesn't
+ * know are dropped with a warning rather than failing the import.
+ */
+export const importViewsJson = (text: string, existing: DashboardView[]): ViewImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { views: [], errors: ["The file isn't valid JSON."] };
+  }
+  const list = (parsed as { views?: unknown })?.views;
+  if (!Array.isArray(list)) return { views: [], errors: ['Expected an object with a "views" array.'] };
+
+  const errors: string[] = [];
+  const taken = new Set(existing.map((v) => v.name));
+  const views: DashboardView[] = [];
+  list.forEach((raw, idx) => {
+    const where = `View ${idx + 1}`;
+    if (typeof raw?.name !== "string" || raw.name.trim() === "") {
+      errors.push(`${where}: "name" must be a non-empty string`);
+      return;
+    }
+    if (!Array.isArray(raw.widgets)) {
+      errors.push(`${where} (${raw.name}): "widgets" must be an array`);
+      return;
+    }
+    const widgets = sanitizeWidgets(raw.widgets);
+    if (widgets.length < raw.widgets.length) errors.push(`${where} (${raw.name}): skipped ${raw.widgets.length - widgets.length} unknown or repeated widget(s)`);
+    let name = raw.name.trim();
+    for (let n = 2; taken.has(name); n++) name = `${raw.name.trim()} (${n})`;
+    taken.add(name);
+    views.push({ id: newViewId(), name, widgets });
+  });
+  return { views, errors };
+};
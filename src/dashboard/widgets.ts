@@ -0,0 +1,85 @@
+/* =======================
+   Executive Dashboard widgets
+   =======================
+   The registry of KPI cards and charts the dashboard can show, and the
+   layout operations behind the editor. A layout is an ordered list of
+   placements on a ten-column grid: five KPI cards fill a row, two charts
+   share one at half width.
+*/
+
+export type WidgetId =
+  | "revenue"
+  | "grossMargin"
+  | "conversionRate"
+  | "avgOrderValue"
+  | "forecastConfidence"
+  | "revenueTrend"
+  | "regional"
+  | "trafficSources"
+  | "performanceMetrics"
+  | "alerts";
+
+/** Columns out of ten. */
+export type WidgetSpan = 2 | 4 | 5 | 6 | 10;
+
+export const WIDGET_SPANS: { span: WidgetSpan; name: string }[] = [
+  { span: 2, name: "1/5 width" },
+  { span: 4, name: "2/5 width" },
+  { span: 5, name: "Half width" },
+  { span: 6, name: "3/5 width" },
+  { span: 10, name: "Full width" },
+];
+
+export interface WidgetDefinition {
+  name: string;
+  description: string;
+  kind: "kpi" | "chart";
+  defaultSpan: WidgetSpan;
+}
+
+export const WIDGETS: Record<WidgetId, WidgetDefinition> = {
+  revenue: { name: "Total Revenue", description: "Revenue vs plan, MoM and YoY", kind: "kpi", defaultSpan: 2 },
+  grossMargin: { name: "Gross Margin", description: "Margin vs plan and last year", kind: "kpi", defaultSpan: 2 },
+  conversionRate: { name: "Conversion Rate", description: "Conversion vs plan and last year", kind: "kpi", defaultSpan: 2 },
+  avgOrderValue: { name: "Avg Order Value", description: "AOV vs plan and last year", kind: "kpi", defaultSpan: 2 },
+  forecastConfidence: { name: "Forecast Confidence", description: "Backtested accuracy of the selected model", kind: "kpi", defaultSpan: 2 },
+  revenueTrend: { name: "Revenue Trend", description: "Actuals, plan, forecast and last year", kind: "chart", defaultSpan: 10 },
+  regional: { name: "Regional Consolidation", description: "Revenue by region, reported and at constant FX", kind: "chart", defaultSpan: 10 },
+  trafficSources: { name: "Traffic Sources", description: "Sessions by source", kind: "chart", defaultSpan: 5 },
+  performanceMetrics: { name: "Performance Metrics", description: "Gross margin and conversion by period", kind: "chart", defaultSpan: 5 },
+  alerts: { name: "Alerts", description: "Anomalies and threshold rules", kind: "chart", defaultSpan: 10 },
+};
+
+export const WIDGET_IDS = Object.keys(WIDGETS) as WidgetId[];
+
+export interface WidgetPlacement {
+  id: WidgetId;
+  span: WidgetSpan;
+}
+
+export const DEFAULT_LAYOUT: WidgetPlacement[] = WIDGET_IDS.map((id) => ({ id, span: WIDGETS[id].defaultSpan }));
+
+export const isWidgetId = (v: unknown): v is WidgetId => typeof v === "string" && v in WIDGETS;
+export const isWidgetSpan = (v: unknown): v is WidgetSpan => WIDGET_SPANS.some((s) => s.span === v);
+
+/* -------- Layout editing -------- */
+
+/** Moves the widget at `from` so it ends up at index `to`. */
+export const moveWidget = (layout: WidgetPlacement[], from: number, to: number): WidgetPlacement[] => {
+  if (from === to || from < 0 || from >= layout.length) return layout;
+  const next = layout.filter((_, i) => i !== from);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, layout[from]);
+  return next;
+};
+
+export const resizeWidget = (layout: WidgetPlacement[], id: WidgetId, span: WidgetSpan): WidgetPlacement[] =>
+  layout.map((w) => (w.id === id ? { ...w, span } : w));
+
+export const removeWidget = (layout: WidgetPlacement[], id: WidgetId): WidgetPlacement[] => layout.filter((w) => w.id !== id);
+
+/** Adds a widget at the end at its default size; a widget already shown is left where it is. */
+export const addWidget = (layout: WidgetPlacement[], id: WidgetId): WidgetPlacement[] =>
+  layout.some((w) => w.id === id) ? layout : [...layout, { id, span: WIDGETS[id].defaultSpan }];
+
+/** Registry widgets not in the layout, in registry order. */
+export const hiddenWidgets = (layout: WidgetPlacement[]): WidgetId[] => WIDGET_IDS.filter((id) => !layout.some((w) => w.id === id));
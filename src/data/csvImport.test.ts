@@ -0,0 +1,94 @@
+import { importMonthlyCsv, parseCsv } from "./csvImport";
+
+const HEADER = "month,revenue,units,grossMargin,conversionRate,avgOrderValue,organic,paid,social,email,direct";
+
+test("parseCsv handles quotes, escaped quotes and semicolons", () => {
+  expect(parseCsv('a,"b,c","say ""hi"""\r\n1,2,3\n')).toEqual([
+    ["a", "b,c", 'say "hi"'],
+    ["1", "2", "3"],
+  ]);
+  expect(parseCsv("a;b\n1;2")).toEqual([["a", "b"], ["1", "2"]]);
+});
+
+test("imports valid rows into MonthData", () => {
+  const csv = `${HEADER}\nJan 2025,"$850,000",2900,0.7,0.034,290,15000,8000,5000,4000,12000\n`;
+  const { rows, errors } = importMonthlyCsv(csv);
+  expect(errors).toEqual([]);
+  expect(rows).toEqual([
+    {
+      month: "Jan 2025",
+      date: "2025-01-01",
+      revenue: 850_000,
+      units: 2900,
+      grossMargin: 0.7,
+      conversionRate: 0.034,
+      avgOrderValue: 290,
+      trafficSources: { organic: 15000, paid: 8000, social: 5000, email: 4000, direct: 12000 },
+    },
+  ]);
+});
+
+test("semicolon files read decimal commas and thousands dots", () => {
+  const csv = `${HEADER.replace(/,/g, ";")}\nJan 2025;"1.850,50";2900;0,68;0,034;290,5;15000;8000;5000;4000;12.000\n`;
+  const { rows, errors } = importMonthlyCsv(csv);
+  expect(errors).toEqual([]);
+  expect(rows[0]).toMatchObject({
+    revenue: 1850.5,
+    grossMargin: 0.68,
+    conversionRate: 0.034,
+    avgOrderValue: 290.5,
+    trafficSources: { organic: 15000, paid: 8000, social: 5000, email: 4000, direct: 12000 },
+  });
+});
+
+test("semicolon files keep dot decimals and reject ambiguous separators", () => {
+  const header = HEADER.replace(/,/g, ";");
+  const { rows, errors } = importMonthlyCsv(
+    [
+      header,
+      "Jan 2025;850000.50;2900;0.7;0.034;290;15000;8000;5000;4000;12000",
+      "Feb 2025;1.234,56;2900;0,7;0,034;1,234.5;15000;8000;5000;4000;1.234.567",
+      "Mar 2025;1.23.4;2900;0.7;0.034;290;15000;8000;5000;4000;12000",
+    ].join("\n")
+  );
+  expect(rows[0]).toMatchObject({ revenue: 850_000.5, grossMargin: 0.7, conversionRate: 0.034 });
+  expect(rows[1]).toMatchObject({ revenue: 1234.56, conversionRate: 0.034, avgOrderValue: 1234.5 });
+  expect(rows[1].trafficSources.direct).toBe(1_234_567);
+  expect(errors).toEqual([{ line: 4, field: "revenue", message: '"1.23.4" is not a number' }]);
+});
+
+test("reports out-of-range rates and duplicates per row", () => {
+  const csv = [
+    HEADER,
+    "Jan '25,1000,10,0.7,0.03,100,1,1,1,1,1",
+    "Feb '25,1000,10,68,0.03,100,1,1,1,1,1",
+    "January 2025,1000,10,0.7,abc,100,1,1,1,1,1",
+    "Mar,1000,10,0.7,0.03,100,1,1,1,1,1",
+  ].join("\n");
+  const { rows, errors, totalRows } = importMonthlyCsv(csv);
+  expect(totalRows).toBe(4);
+  expect(rows.map((r) => r.month)).toEqual(["Jan '25"]);
+  expect(errors).toEqual([
+    { line: 3, field: "grossMargin", message: "Must be between 0 and 1 (got 68)" },
+    { line: 4, field: "month", message: "Duplicate of line 2" },
+    { line: 4, field: "conversionRate", message: '"abc" is not a number' },
+    { line: 5, field: "month", message: 'Add a year to "Mar" (e.g. "Mar 2024") or a date column' },
+  ]);
+});
+
+test("an optional date column orders rows and overrides the label", () => {
+  const csv = [
+    `${HEADER},date`,
+    "Feb,1000,10,0.7,0.03,100,1,1,1,1,1,2025-02",
+    "Jan,1000,10,0.7,0.03,100,1,1,1,1,1,2025-01-01",
+  ].join("\n");
+  const { rows, errors } = importMonthlyCsv(csv);
+  expect(errors).toEqual([]);
+  expect(rows.map((r) => r.date)).toEqual(["2025-01-01", "2025-02-01"]);
+});
+
+test("rejects files with missing columns", () => {
+  const { rows, errors } = importMonthlyCsv("month,revenue\nJan,100");
+  expect(rows).toEqual([]);
+  expect(errors[0].message).toMatch(/Missing column\(s\): units/);
+});
@@ -0,0 +1,235 @@
+import { MonthData, TrafficSources } from "../types";
+import { inferMonthDate } from "../analytics/periods";
+
+/* =======================
+   CSV parsing
+   ======================= */
+
+export type CsvDelimiter = "," | ";" | "\t";
+
+/** The delimiter splitting the header row into the most cells. */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] ?? "";
+  return ([",", ";", "\t"] as CsvDelimiter[]).reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  , ",");
+};
+
+/** Splits CSV text into rows of cells (RFC 4180 quoting, `,` `;` or tab delimited). */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+};
+
+/* =======================
+   MonthData import
+   ======================= */
+export interface CsvRowError {
+  line: number;             // 1-based row in the file (header is row 1, blank rows skipped)
+  field?: string;
+  message: string;
+}
+
+export interface CsvImportResult {
+  rows: MonthData[];
+  errors: CsvRowError[];
+  totalRows: number;
+}
+
+type NumericField = Exclude<keyof MonthData, "month" | "date" | "trafficSources">;
+type TrafficField = keyof TrafficSources;
+
+const TRAFFIC_FIELDS: TrafficField[] = ["organic", "paid", "social", "email", "direct"];
+
+export const CSV_COLUMNS = [
+  "month", "revenue", "units", "grossMargin", "conversionRate", "avgOrderValue", ...TRAFFIC_FIELDS,
+] as const;
+
+const FIELD_RULES: Record<NumericField | TrafficField, { min: number; max: number }> = {
+  revenue: { min: 0, max: Infinity },
+  units: { min: 0, max: Infinity },
+  grossMargin: { min: 0, max: 1 },
+  conversionRate: { min: 0, max: 1 },
+  avgOrderValue: { min: 0, max: Infinity },
+  organic: { min: 0, max: Infinity },
+  paid: { min: 0, max: Infinity },
+  social: { min: 0, max: Infinity },
+  email: { min: 0, max: Infinity },
+  direct: { min: 0, max: Infinity },
+};
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase().replace(/[\s_-]+/g, "").replace(/^traffic/, "");
+
+/** "1.234.567" or "12,000": whole groups of three after a leading 1–3 digits that isn't a bare 0. */
+const isGrouped = (digits: string, separator: "." | ",") =>
+  new RegExp(`^[1-9]\\d{0,2}(\\${separator}\\d{3})+$`).test(digits);
+
+/**
+ * `;`-delimited files come from both "1.234,50" locales and tools that keep
+ * "1234.50", so each value is read on its own: with both separators the last
+ * one is the decimal point; a lone `.` groups thousands only in whole groups
+ * of three ("12.000" but not "0.034" or "850000.50"); a lone `,` is the
+ * decimal point unless it repeats in groups of three. Anything else is NaN
+ * rather than a guess.
+ */
+const parseSemicolonNumber = (value: string): number => {
+  const point = Math.max(value.lastIndexOf("."), value.lastIndexOf(","));
+  if (value.includes(".") && value.includes(",")) {
+    const thousands = value[point] === "," ? "." : ",";
+    const whole = value.slice(0, point);
+    const fraction = value.slice(point + 1);
+    return isGrouped(whole, thousands) && /^\d+$/.test(fraction) ? Number(`${whole.split(thousands).join("")}.${fraction}`) : NaN;
+  }
+  if (value.includes(".")) return isGrouped(value, ".") ? Number(value.replace(/\./g, "")) : Number(value);
+  if (value.includes(",")) {
+    return value.indexOf(",") !== point && isGrouped(value, ",") ? Number(value.replace(/,/g, "")) : Number(value.replace(",", "."));
+  }
+  return Number(value);
+};
+
+/** Reads a numeric cell; outside `;` files `,` groups thousands and `.` is the decimal point. */
+const parseNumber = (raw: string, delimiter: CsvDelimiter): number => {
+  const cleaned = raw.trim().replace(delimiter === ";" ? /[$\s]/g : /[$,\s]/g, "");
+  if (cleaned === "") return NaN;
+  return delimiter === ";" ? parseSemicolonNumber(cleaned) : Number(cleaned);
+};
+
+/** Optional column; without it the month label must carry a year ("Jan 2024"). */
+const DATE_COLUMN = "date";
+
+/** Header row every import file should start with. */
+export const csvTemplate = (): string => `${[...CSV_COLUMNS, DATE_COLUMN].join(",")}\n`;
+
+/**
+ * Parses a monthly actuals export into MonthData rows. Rows that fail
+ * validation are left out and reported in `errors`; valid rows are kept.
+ */
+export const importMonthlyCsv = (text: string): CsvImportResult => {
+  const table = parseCsv(text);
+  const delimiter = detectDelimiter(text);
+  if (table.length === 0) {
+    return { rows: [], errors: [{ line: 1, message: "File is empty" }], totalRows: 0 };
+  }
+
+  const header = table[0].map(normalizeHeader);
+  const columnIndex = new Map<string, number>();
+  CSV_COLUMNS.forEach((col) => {
+    const idx = header.indexOf(col.toLowerCase());
+    if (idx >= 0) columnIndex.set(col, idx);
+  });
+  const dateIdx = header.indexOf(DATE_COLUMN);
+
+  const missing = CSV_COLUMNS.filter((col) => !columnIndex.has(col));
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: [{ line: 1, message: `Missing column(s): ${missing.join(", ")}` }],
+      totalRows: table.length - 1,
+    };
+  }
+
+  const rows: MonthData[] = [];
+  const errors: CsvRowError[] = [];
+  const seenDates = new Map<string, number>();
+
+  table.slice(1).forEach((cells, i) => {
+    const line = i + 2;
+    const rowErrors: CsvRowError[] = [];
+    const cell = (col: string) => (cells[columnIndex.get(col) as number] ?? "").trim();
+
+    const month = cell("month");
+    const rawDate = dateIdx >= 0 ? (cells[dateIdx] ?? "").trim() : "";
+    const date = rawDate ? inferMonthDate(rawDate) : month ? inferMonthDate(month) : null;
+    if (!month) {
+      rowErrors.push({ line, field: "month", message: "Month is required" });
+    } else if (!date) {
+      rowErrors.push(
+        rawDate
+          ? { line, field: DATE_COLUMN, message: `"${rawDate}" is not a recognised month` }
+          : { line, field: "month", message: `Add a year to "${month}" (e.g. "${month} 2024") or a date column` }
+      );
+    } else if (seenDates.has(date)) {
+      rowErrors.push({ line, field: "month", message: `Duplicate of line ${seenDates.get(date)}` });
+    }
+
+    const values = {} as Record<NumericField | TrafficField, number>;
+    (Object.keys(FIELD_RULES) as (NumericField | TrafficField)[]).forEach((field) => {
+      const raw = cell(field);
+      const value = parseNumber(raw, delimiter);
+      const { min, max } = FIELD_RULES[field];
+      if (!Number.isFinite(value)) {
+        rowErrors.push({ line, field, message: raw ? `"${raw}" is not a number` : "Value is required" });
+      } else if (value < min || value > max) {
+        rowErrors.push({
+          line,
+          field,
+          message: max === Infinity ? `Must be ≥ ${min} (got ${value})` : `Must be between ${min} and ${max} (got ${value})`,
+        });
+      }
+      values[field] = value;
+    });
+
+    if (rowErrors.length > 0 || !date) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    seenDates.set(date, line);
+    rows.push({
+      month,
+      date,
+      revenue: values.revenue,
+      units: values.units,
+      grossMargin: values.grossMargin,
+      conversionRate: values.conversionRate,
+      avgOrderValue: values.avgOrderValue,
+      trafficSources: {
+        organic: values.organic,
+        paid: values.paid,
+        social: values.social,
+        email: values.email,
+        direct: values.direct,
+      },
+    });
+  });
+
+  rows.sort((a, b) => a.date.localeCompare(b.date));
+  return { rows, errors, totalRows: table.length - 1 };
+};
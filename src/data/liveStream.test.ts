@@ -0,0 +1,87 @@
+import { DailyData } from "../types";
+import { foldEvents } from "../analytics/live";
+import { LiveEvent, StreamStatus, createSseStream, parseLiveEvent } from "./liveStream";
+import { createMockProvider } from "./providers";
+import { simulateHour } from "../../scripts/mock-stream-server";
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: ((ev: Event) => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  onerror: ((ev: Event) => void) | null = null;
+  closed = false;
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+  close() {
+    this.closed = true;
+  }
+  send(payload: unknown) {
+    this.onmessage?.({ data: JSON.stringify(payload) } as MessageEvent);
+  }
+}
+
+const order = (id: number) => ({ type: "order", id, timestamp: "2026-01-01T10:00:00Z", revenue: 100, units: 1, grossProfit: 60 });
+
+beforeEach(() => {
+  FakeEventSource.instances = [];
+  jest.useFakeTimers();
+});
+afterEach(() => jest.useRealTimers());
+
+test("reconnects with backoff and asks the server to backfill after the last id", () => {
+  const events: LiveEvent[] = [];
+  const statuses: StreamStatus[] = [];
+  const stream = createSseStream("http://localhost:4001/events", {
+    createEventSource: (url) => new FakeEventSource(url),
+    initialBackoffMs: 100,
+  });
+  const disconnect = stream.connect({ onEvent: (e) => events.push(e), onStatus: (s) => statuses.push(s) });
+
+  const first = FakeEventSource.instances[0];
+  first.onopen?.(new Event("open"));
+  first.send(order(1));
+  first.send({ type: "refund" }); // malformed messages are skipped
+  first.send(order(2));
+  first.onerror?.(new Event("error"));
+  expect(first.closed).toBe(true);
+
+  jest.advanceTimersByTime(100);
+  const second = FakeEventSource.instances[1];
+  expect(second.url).toBe("http://localhost:4001/events?since=2");
+  second.send(order(2)); // replayed duplicate
+  second.send(order(3));
+
+  expect(events.map((e) => e.id)).toEqual([1, 2, 3]);
+  expect(statuses).toEqual(["connecting", "live", "reconnecting"]);
+
+  second.onerror?.(new Event("error"));
+  jest.advanceTimersByTime(199);
+  expect(FakeEventSource.instances).toHaveLength(2); // backoff doubled
+  disconnect();
+  jest.advanceTimersByTime(1_000);
+  expect(FakeEventSource.instances).toHaveLength(2);
+  expect(statuses[statuses.length - 1]).toBe("offline");
+});
+
+test("parseLiveEvent validates the event shape", () => {
+  expect(parseLiveEvent({ ...order(1), channel: "Mobile" })).toMatchObject({ type: "order", channel: "Mobile" });
+  expect(() => parseLiveEvent({ ...order(1), timestamp: "yesterday" })).toThrow(/timestamp/);
+  expect(() => parseLiveEvent({ ...order(1), channel: "Kiosk" })).toThrow(/channel/);
+  expect(() => parseLiveEvent({ type: "sessions", id: 1, timestamp: "2026-01-01T00:00:00Z", sessions: { organic: 1 } })).toThrow(
+    /"paid"/
+  );
+});
+
+test("the mock stream covers every storefront the mock history has, in its own currency", async () => {
+  const history = await createMockProvider().load();
+  const storefronts = (rows: DailyData[]) => new Set(rows.map((r) => `${r.region}|${r.country}|${r.currency}`));
+  const events: LiveEvent[] = [];
+  const publish = (event: object) => events.push(parseLiveEvent({ id: events.length + 1, ...event }));
+  // A week of simulated hours, so even the smallest storefront takes orders
+  for (let hour = 0; hour < 7 * 24; hour++) simulateHour(Date.parse("2026-01-05T00:00:00Z") + hour * 3_600_000, publish);
+  const live = foldEvents([], events);
+  // Sessions carry no amounts, so only order rows name a currency.
+  expect(storefronts(live.filter((r) => r.orders > 0))).toEqual(storefronts(history.dailyData ?? []));
+  expect(new Set(live.map((r) => r.region))).toEqual(new Set(["North America", "EMEA", "APAC"]));
+});
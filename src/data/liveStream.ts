@@ -0,0 +1,206 @@
+import { Channel, TrafficSources } from "../types";
+import { DataSourceError } from "./validate";
+
+/* =======================
+   Live event contract
+   =======================
+   A stream pushes one JSON event per message. Orders carry money; session
+   events carry traffic so conversion can be kept current too. Event ids
+   increase monotonically and are used for de-duplication and backfill.
+*/
+
+interface EventDimensions {
+  region?: string;
+  country?: string;
+  channel?: Channel;
+  category?: string;
+}
+
+export interface OrderEvent extends EventDimensions {
+  type: "order";
+  id: number;
+  timestamp: string;        // ISO 8601
+  currency?: string;        // of revenue and gross profit; the base currency when omitted
+  revenue: number;
+  units: number;
+  grossProfit: number;
+}
+
+export interface SessionsEvent extends EventDimensions {
+  type: "sessions";
+  id: number;
+  timestamp: string;
+  sessions: TrafficSources;
+}
+
+export type LiveEvent = OrderEvent | SessionsEvent;
+
+export type StreamStatus = "connecting" | "live" | "reconnecting" | "offline";
+
+export interface StreamHandlers {
+  onEvent: (event: LiveEvent) => void;
+  onStatus: (status: StreamStatus) => void;
+}
+
+export interface LiveStream {
+  id: string;
+  label: string;
+  /** Opens the stream, replaying events after `lastEventId` first. Returns a disconnect function. */
+  connect: (handlers: StreamHandlers, lastEventId?: number) => () => void;
+}
+
+/* -------- Validation -------- */
+
+const CHANNELS: Channel[] = ["Desktop", "Mobile", "Tablet"];
+const SOURCES: (keyof TrafficSources)[] = ["organic", "paid", "social", "email", "direct"];
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const finite = (obj: Record<string, unknown>, key: string): number => {
+  const v = obj[key];
+  if (typeof v !== "number" || !Number.isFinite(v)) throw new DataSourceError(`Live event: "${key}" must be a finite number`);
+  return v;
+};
+
+const optionalText = (obj: Record<string, unknown>, key: string): string | undefined => {
+  const v = obj[key];
+  if (v === undefined) return undefined;
+  if (typeof v !== "string" || v.length === 0) throw new DataSourceError(`Live event: "${key}" must be a non-empty string`);
+  return v;
+};
+
+/** Checks one untrusted stream message against the LiveEvent shape. */
+export const parseLiveEvent = (payload: unknown): LiveEvent => {
+  if (!isRecord(payload)) throw new DataSourceError("Live event must be a JSON object");
+  const timestamp = payload.timestamp;
+  if (typeof timestamp !== "string" || Number.isNaN(Date.parse(timestamp))) {
+    throw new DataSourceError('Live event: "timestamp" must be an ISO date');
+  }
+  const channel = optionalText(payload, "channel");
+  if (channel !== undefined && !CHANNELS.includes(channel as Channel)) {
+    throw new DataSourceError(`Live event: "channel" must be one of ${CHANNELS.join(", ")}`);
+  }
+  const dimensions: EventDimensions = {};
+  (["region", "country", "category"] as const).forEach((key) => {
+    const v = optionalText(payload, key);
+    if (v) dimensions[key] = v;
+  });
+  if (channel) dimensions.channel = channel as Channel;
+  const base = { id: finite(payload, "id"), timestamp, ...dimensions };
+
+  switch (payload.type) {
+    case "order": {
+      const currency = optionalText(payload, "currency");
+      if (currency !== undefined && !/^[A-Z]{3}$/.test(currency)) {
+        throw new DataSourceError('Live event: "currency" must be an ISO currency code like "EUR"');
+      }
+      return {
+        type: "order",
+        ...base,
+        ...(currency ? { currency } : {}),
+        revenue: finite(payload, "revenue"),
+        units: finite(payload, "units"),
+        grossProfit: finite(payload, "grossProfit"),
+      };
+    }
+    case "sessions": {
+      const sessions = payload.sessions;
+      if (!isRecord(sessions)) throw new DataSourceError('Live event: "sessions" must be an object');
+      return {
+        type: "sessions",
+        ...base,
+        sessions: SOURCES.reduce((acc, k) => ({ ...acc, [k]: finite(sessions, k) }), {} as TrafficSources),
+      };
+    }
+    default:
+      throw new DataSourceError('Live event: "type" must be "order" or "sessions"');
+  }
+};
+
+/* =======================
+   Server-Sent Events stream
+   ======================= */
+
+interface EventSourceLike {
+  onopen: ((ev: Event) => void) | null;
+  onmessage: ((ev: MessageEvent) => void) | null;
+  onerror: ((ev: Event) => void) | null;
+  close: () => void;
+}
+
+export interface SseOptions {
+  /** Injected for tests; defaults to the browser EventSource. */
+  createEventSource?: (url: string) => EventSourceLike;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+/**
+ * Subscribes to an SSE endpoint. On any error the connection is closed and
+ * reopened with exponential backoff, passing `?since=<last id>` so the
+ * server can replay what was missed. Malformed messages are skipped.
+ */
+export const createSseStream = (url: string, options: SseOptions = {}): LiveStream => {
+  const {
+    createEventSource = (u: string) => new EventSource(u),
+    initialBackoffMs = 1_000,
+    maxBackoffMs = 30_000,
+  } = options;
+
+  return {
+    id: "sse",
+    label: `Live stream (${url})`,
+    connect: ({ onEvent, onStatus }, lastEventId) => {
+      let lastId = lastEventId;
+      let source: EventSourceLike | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+      let backoff = initialBackoffMs;
+      let closed = false;
+
+      const open = () => {
+        const target = lastId === undefined ? url : `${url}${url.includes("?") ? "&" : "?"}since=${lastId}`;
+        source = createEventSource(target);
+        source.onopen = () => {
+          backoff = initialBackoffMs;
+          onStatus("live");
+        };
+        source.onmessage = (message) => {
+          let event: LiveEvent;
+          try {
+            event = parseLiveEvent(JSON.parse(message.data));
+          } catch {
+            return;
+          }
+          if (lastId !== undefined && event.id <= lastId) return; // already seen
+          lastId = event.id;
+          onEvent(event);
+        };
+        source.onerror = () => {
+          source?.close();
+          source = null;
+          if (closed) return;
+          onStatus("reconnecting");
+          retryTimer = setTimeout(open, backoff);
+          backoff = Math.min(backoff * 2, maxBackoffMs);
+        };
+      };
+
+      onStatus("connecting");
+      open();
+      return () => {
+        closed = true;
+        clearTimeout(retryTimer);
+        source?.close();
+        onStatus("offline");
+      };
+    },
+  };
+};
+
+/**
+ * Picks a live stream from REACT_APP_STREAM_URL; returns null (no live
+ * updates) when it is not set.
+ */
+export const createStreamFromEnv = (env: Record<string, string | undefined> = process.env): LiveStream | null =>
+  env.REACT_APP_STREAM_URL ? createSseStream(env.REACT_APP_STREAM_URL) : null;
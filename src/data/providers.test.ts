@@ -0,0 +1,118 @@
+import { createMockProvider, createProviderFromEnv } from "./providers";
+import { parseCurrency, parseDashboardData, parseMarketing, parsePlan, parseProducts } from "./validate";
+
+test("seeded mock provider returns identical data on every load", async () => {
+  const provider = createMockProvider({ seed: 42 });
+  const first = await provider.load();
+  const second = await provider.load();
+  expect(second).toEqual(first);
+  expect(first.historicalData).toHaveLength(36);
+  expect(first.historicalData[35].month).toBe("Dec '25");
+});
+
+test("different seeds produce different figures", async () => {
+  const a = await createMockProvider({ seed: 1 }).load();
+  const b = await createMockProvider({ seed: 2 }).load();
+  expect(a.historicalData[0].revenue).not.toEqual(b.historicalData[0].revenue);
+});
+
+test("env selects the provider and rest without a URL fails on load", async () => {
+  expect(createProviderFromEnv({}).id).toBe("mock");
+  expect(createProviderFromEnv({ REACT_APP_DATA_SOURCE: "static" }).id).toBe("static");
+  await expect(createProviderFromEnv({ REACT_APP_DATA_SOURCE: "rest" }).load()).rejects.toThrow(/REACT_APP_DATA_URL/);
+});
+
+test("parseDashboardData rejects malformed payloads", () => {
+  expect(() => parseDashboardData({})).toThrow(/historicalData/);
+  expect(() => parseDashboardData({ historicalData: [{ month: "Jan 2025", revenue: "lots" }] })).toThrow(
+    /historicalData\[0\]: "revenue"/
+  );
+  expect(() => parseDashboardData({ historicalData: [{ month: "Jan", revenue: 1 }] })).toThrow(/with a year/);
+  expect(parseDashboardData({ historicalData: [] })).toEqual({ historicalData: [], forecastData: [] });
+});
+
+test("parseDashboardData keeps daily dimension tags", () => {
+  const daily = {
+    date: "2025-01-01",
+    region: "North America",
+    country: "Canada",
+    channel: "Mobile",
+    category: "Footwear",
+    revenue: 1,
+    units: 1,
+    orders: 1,
+    grossProfit: 1,
+    trafficSources: { organic: 1, paid: 0, social: 0, email: 0, direct: 0 },
+  };
+  expect(parseDashboardData({ historicalData: [], dailyData: [daily] }).dailyData).toEqual([daily]);
+  expect(() => parseDashboardData({ historicalData: [], dailyData: [{ ...daily, channel: "Kiosk" }] })).toThrow(/"channel"/);
+});
+
+test("plan rows are validated and accepted as a bare array or a plan file", () => {
+  const row = { month: "Jan 2026", revenue: 1, grossMargin: 0.7, conversionRate: 0.03, avgOrderValue: 300 };
+  expect(parsePlan({ plan: [row] })).toEqual([{ date: "2026-01-01", revenue: 1, grossMargin: 0.7, conversionRate: 0.03, avgOrderValue: 300 }]);
+  expect(parseDashboardData({ historicalData: [], plan: [row] }).plan).toHaveLength(1);
+  expect(() => parsePlan([row, row])).toThrow(/two entries/);
+});
+
+test("campaign data must refer to listed campaigns", () => {
+  const marketing = {
+    campaigns: [{ id: "email", name: "Email", channel: "email" }],
+    spend: [{ campaignId: "email", date: "2025-01-02", spend: 100 }],
+    journeys: [
+      {
+        id: "o1",
+        date: "2025-01-05",
+        revenue: 300,
+        touchpoints: [
+          { campaignId: "email", date: "2025-01-04" },
+          { campaignId: "email", date: "2025-01-01" },
+        ],
+      },
+    ],
+  };
+  const parsed = parseDashboardData({ historicalData: [], marketing }).marketing;
+  expect(parsed?.journeys[0].touchpoints.map((t) => t.date)).toEqual(["2025-01-01", "2025-01-04"]);
+  expect(() => parseMarketing({ ...marketing, spend: [{ campaignId: "tv", date: "2025-01-02", spend: 1 }] })).toThrow(/unknown campaign "tv"/);
+  expect(() => parseMarketing({ ...marketing, campaigns: [{ id: "tv", name: "TV", channel: "tv" }] })).toThrow(/"channel"/);
+});
+
+test("SKU sales must refer to catalogued products", () => {
+  const products = {
+    products: [{ sku: "HB-01", name: "Tote", category: "Handbags", subcategory: "Totes" }],
+    sales: [{ sku: "HB-01", date: "2025-01-06", days: 7, units: 3, revenue: 900, grossProfit: 600, onHand: 12 }],
+  };
+  expect(parseDashboardData({ historicalData: [], products }).products?.sales[0]).toMatchObject({ days: 7, onHand: 12 });
+  expect(() => parseProducts({ ...products, sales: [{ ...products.sales[0], sku: "XX" }] })).toThrow(/unknown SKU "XX"/);
+});
+
+test("inventory positions default to nothing on order and need ISO dates", () => {
+  const position = { category: "Handbags", asOf: "2025-12-31", onHand: 400 };
+  expect(parseDashboardData({ historicalData: [], inventory: [position] }).inventory).toEqual([{ ...position, onOrder: [] }]);
+  expect(() => parseDashboardData({ historicalData: [], inventory: [{ ...position, asOf: "31/12/2025" }] })).toThrow(
+    /inventory\[0\]: "asOf"/
+  );
+});
+
+test("daily rows in another currency need FX rates for it", () => {
+  const daily = {
+    date: "2025-01-01",
+    region: "EMEA",
+    currency: "EUR",
+    revenue: 1,
+    units: 1,
+    orders: 1,
+    grossProfit: 1,
+    trafficSources: { organic: 1, paid: 0, social: 0, email: 0, direct: 0 },
+  };
+  const currency = { base: "USD", rates: [{ currency: "EUR", date: "2025-01-15", budget: 0.9, actual: 0.92 }] };
+  expect(parseDashboardData({ historicalData: [], dailyData: [daily], currency }).currency?.rates[0]).toEqual({
+    currency: "EUR",
+    date: "2025-01-01",
+    budget: 0.9,
+    actual: 0.92,
+  });
+  expect(() => parseDashboardData({ historicalData: [], dailyData: [daily] })).toThrow(/no "currency" rates/);
+  expect(() => parseDashboardData({ historicalData: [], dailyData: [{ ...daily, currency: "GBP" }], currency })).toThrow(/no GBP rates/);
+  expect(() => parseCurrency({ ...currency, base: "usd" })).toThrow(/ISO currency code/);
+});
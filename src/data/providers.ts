@@ -0,0 +1,588 @@
+import {
+  Campaign, CampaignSpend, Channel, ConversionJourney, CustomerOrder, DailyData, DashboardData, FunnelSteps, FxRate,
+  InventoryPosition, MarketingData, MonthData, PlanMonth, Product, ProductData, SkuSales, TrafficSources,
+} from "../types";
+import { GREGORIAN, aggregateDaily } from "../analytics/fiscalCalendar";
+import { toMonthKey } from "../analytics/periods";
+import { createRateTable } from "../currency/fx";
+import { createSeededRandom } from "./random";
+import { DataSourceError, parseDashboardData, parsePlan } from "./validate";
+
+/* =======================
+   Provider contract
+   ======================= */
+export interface DataProvider {
+  id: string;
+  label: string;
+  load: (signal?: AbortSignal) => Promise<DashboardData>;
+}
+
+/* =======================
+   Mock provider
+   ======================= */
+export const DEFAULT_MOCK_SEED = 20240101;
+
+const DAY_MS = 86_400_000;
+
+// Monthly sessions per source at the latest year's scale.
+const MONTHLY_SESSIONS: TrafficSources = { organic: 30_000, paid: 16_000, social: 10_000, email: 8_000, direct: 24_000 };
+
+// Dimension splits for the mock storefronts; each country trades in its own currency.
+const MOCK_COUNTRIES = [
+  { region: "North America", country: "United States", currency: "USD", share: 0.6 },
+  { region: "North America", country: "Canada", currency: "CAD", share: 0.1 },
+  { region: "EMEA", country: "Germany", currency: "EUR", share: 0.18 },
+  { region: "APAC", country: "Japan", currency: "JPY", share: 0.12 },
+];
+const MOCK_BASE_CURRENCY = "USD";
+// Units per USD at the start of the history and the yearly drift, so reported and constant-currency growth differ.
+const MOCK_FX: Record<string, { rate: number; drift: number }> = {
+  CAD: { rate: 1.34, drift: 0.02 },
+  EUR: { rate: 0.9, drift: -0.03 },
+  JPY: { rate: 135, drift: 0.07 },
+};
+// `toCheckout` and `toOrder` are the shares of carts reaching checkout and of checkouts that pay; mobile loses most at checkout.
+const MOCK_CHANNELS: { channel: Channel; sessionShare: number; conversion: number; toCheckout: number; toOrder: number }[] = [
+  { channel: "Desktop", sessionShare: 0.48, conversion: 0.038, toCheckout: 0.6, toOrder: 0.6 },
+  { channel: "Mobile", sessionShare: 0.48, conversion: 0.028, toCheckout: 0.5, toOrder: 0.35 },
+  { channel: "Tablet", sessionShare: 0.04, conversion: 0.042, toCheckout: 0.55, toOrder: 0.5 },
+];
+// Per traffic source: share of sessions viewing a product, and orders per session relative to the average.
+const MOCK_SOURCE_FUNNEL: Record<keyof TrafficSources, { views: number; intent: number }> = {
+  organic: { views: 0.62, intent: 1 },
+  paid: { views: 0.7, intent: 1.1 },
+  social: { views: 0.45, intent: 0.5 },
+  email: { views: 0.75, intent: 1.8 },
+  direct: { views: 0.66, intent: 1.3 },
+};
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const round4 = (v: number) => Math.round(v * 10_000) / 10_000;
+
+/**
+ * Splits a row's orders across traffic sources by intent and works back up
+ * the funnel with the device's step rates. Uses no random draws so the rest
+ * of the mock is unchanged.
+ */
+const mockFunnel = (
+  trafficSources: TrafficSources,
+  orders: number,
+  device: { toCheckout: number; toOrder: number }
+): Record<keyof TrafficSources, FunnelSteps> => {
+  const sources = Object.keys(trafficSources) as (keyof TrafficSources)[];
+  const weight = sources.reduce((s, k) => s + trafficSources[k] * MOCK_SOURCE_FUNNEL[k].intent, 0);
+  return sources.reduce((acc, k) => {
+    const sourceOrders = weight ? (orders * trafficSources[k] * MOCK_SOURCE_FUNNEL[k].intent) / weight : 0;
+    const checkout = sourceOrders / device.toOrder;
+    const addToCart = checkout / device.toCheckout;
+    return {
+      ...acc,
+      [k]: {
+        productViews: round2(Math.max(trafficSources[k] * MOCK_SOURCE_FUNNEL[k].views, addToCart)),
+        addToCart: round2(addToCart),
+        checkout: round2(checkout),
+        orders: round2(sourceOrders),
+      },
+    };
+  }, {} as Record<keyof TrafficSources, FunnelSteps>);
+};
+// Each category runs a sale in its promo months; orders respond to the discount through its elasticity.
+const MOCK_CATEGORIES = [
+  { category: "Handbags", share: 0.52, aov: 420, margin: 0.72, elasticity: -0.7, promoMonths: [0, 6] },
+  { category: "Accessories", share: 0.22, aov: 210, margin: 0.68, elasticity: -1.4, promoMonths: [3, 10] },
+  { category: "Footwear", share: 0.15, aov: 310, margin: 0.65, elasticity: -1.2, promoMonths: [1, 8] },
+  { category: "Apparel", share: 0.11, aov: 260, margin: 0.58, elasticity: -1.8, promoMonths: [5, 10] },
+];
+const MOCK_PROMO_DEPTHS = [0.1, 0.15, 0.2];
+
+// Campaigns earn `roas` at `monthlySpend` with diminishing returns (`exponent`); seasonal ones run in `months` only.
+const MOCK_CAMPAIGNS: (Campaign & { monthlySpend: number; roas: number; exponent: number; months?: number[] })[] = [
+  { id: "holiday-sale", name: "Holiday Sale", channel: "paid", monthlySpend: 50_000, roas: 4.2, exponent: 0.7, months: [9, 10, 11] },
+  { id: "new-collection", name: "New Collection", channel: "social", monthlySpend: 10_000, roas: 3.8, exponent: 0.6, months: [2, 3, 8, 9] },
+  { id: "email", name: "Email Campaigns", channel: "email", monthlySpend: 6_500, roas: 6.5, exponent: 0.4 },
+  { id: "social", name: "Social Media", channel: "social", monthlySpend: 8_500, roas: 2.9, exponent: 0.8 },
+  { id: "paid-search", name: "Paid Search", channel: "paid", monthlySpend: 12_000, roas: 3.5, exponent: 0.75 },
+];
+const MOCK_JOURNEY_REVENUE = 350;
+
+const isoDay = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Mock campaign spend (spread evenly over each month) and converting
+ * journeys. Each journey is driven by one campaign; some also get an
+ * earlier social touch or a later email reminder, so the attribution
+ * models disagree.
+ */
+const mockMarketing = (random: () => number, startYear: number, endYear: number): MarketingData => {
+  const spend: CampaignSpend[] = [];
+  const journeys: ConversionJourney[] = [];
+  for (let year = startYear; year <= endYear; year++) {
+    const yearScale = Math.pow(1.08, year - endYear);
+    for (let month = 0; month < 12; month++) {
+      const first = Date.UTC(year, month, 1) / DAY_MS;
+      const days = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      MOCK_CAMPAIGNS.forEach((c) => {
+        if (c.months && !c.months.includes(month)) return;
+        const level = c.monthlySpend * yearScale * (0.6 + random() * 0.8);
+        for (let d = 0; d < days; d++) spend.push({ campaignId: c.id, date: isoDay(first + d), spend: Math.round((level / days) * 100) / 100 });
+
+        const revenue = c.roas * c.monthlySpend * yearScale * Math.pow(level / (c.monthlySpend * yearScale), c.exponent) * (0.9 + random() * 0.2);
+        const count = Math.max(1, Math.round(revenue / MOCK_JOURNEY_REVENUE));
+        for (let n = 0; n < count; n++) {
+          const orderDay = first + Math.floor(random() * days);
+          const lag = Math.floor(random() * 10);
+          const touchpoints = [{ campaignId: c.id, date: isoDay(orderDay - lag) }];
+          if (c.id !== "social" && random() < 0.35) touchpoints.unshift({ campaignId: "social", date: isoDay(orderDay - lag - 5 - Math.floor(random() * 20)) });
+          if (c.id !== "email" && random() < 0.3) touchpoints.push({ campaignId: "email", date: isoDay(orderDay - Math.floor(random() * (lag + 1))) });
+          journeys.push({
+            id: `${c.id}-${year}-${month + 1}-${n}`,
+            date: isoDay(orderDay),
+            revenue: Math.round((revenue / count) * (0.6 + random() * 0.8) * 100) / 100,
+            touchpoints,
+          });
+        }
+      });
+    }
+  }
+  return { campaigns: MOCK_CAMPAIGNS.map(({ id, name, channel }) => ({ id, name, channel })), spend, journeys };
+};
+
+// Customer types for the order-level mock: monthly chance of ordering, chance of churning each month, order size.
+const MOCK_CUSTOMER_TYPES = [
+  { share: 0.06, orderChance: 0.35, churn: 0.03, aov: 900 },
+  { share: 0.3, orderChance: 0.12, churn: 0.06, aov: 400 },
+  { share: 0.64, orderChance: 0.03, churn: 0.1, aov: 280 },
+];
+const MOCK_NEW_CUSTOMERS = 350; // per month at the latest year's scale
+
+/**
+ * Mock customers acquired every month (more in the holiday season), each
+ * ordering again at random until they churn, so cohorts, RFM segments and
+ * lifetime values have something to find.
+ */
+const mockOrders = (random: () => number, startYear: number, endYear: number): CustomerOrder[] => {
+  const orders: CustomerOrder[] = [];
+  const months = (endYear - startYear + 1) * 12;
+  let customerCount = 0;
+  for (let t = 0; t < months; t++) {
+    const year = startYear + Math.floor(t / 12);
+    const season = [10, 11].includes(t % 12) ? 1.6 : 1;
+    const acquired = Math.round(MOCK_NEW_CUSTOMERS * season * Math.pow(1.08, year - endYear) * (0.9 + random() * 0.2));
+    for (let n = 0; n < acquired; n++) {
+      const customerId = `C${String(++customerCount).padStart(6, "0")}`;
+      const pick = random();
+      const type = MOCK_CUSTOMER_TYPES.find((_, i) => pick < MOCK_CUSTOMER_TYPES.slice(0, i + 1).reduce((s, c) => s + c.share, 0)) ?? MOCK_CUSTOMER_TYPES[2];
+      for (let m = t; m < months; m++) {
+        if (m > t && random() < type.churn) break;
+        if (m > t && random() >= type.orderChance) continue;
+        const y = startYear + Math.floor(m / 12);
+        const days = new Date(Date.UTC(y, (m % 12) + 1, 0)).getUTCDate();
+        orders.push({
+          id: `O${orders.length + 1}`,
+          customerId,
+          date: isoDay(Date.UTC(y, m % 12, 1 + Math.floor(random() * days)) / DAY_MS),
+          revenue: Math.round(type.aov * (0.5 + random()) * 100) / 100,
+        });
+      }
+    }
+  }
+  return orders;
+};
+
+// Subcategories and SKUs per mock category, best sellers first.
+const MOCK_PRODUCTS: Record<string, Record<string, string[]>> = {
+  Handbags: {
+    Totes: ["Classic Tote", "Mini Tote", "Canvas Tote", "Weekender"],
+    Crossbody: ["Saddle Bag", "Camera Bag", "Chain Crossbody", "Belt Bag"],
+    Clutches: ["Evening Clutch", "Pouch", "Envelope Clutch", "Wristlet"],
+  },
+  Accessories: {
+    Wallets: ["Zip Wallet", "Card Case", "Continental Wallet"],
+    Belts: ["Reversible Belt", "Logo Belt", "Skinny Belt"],
+    Scarves: ["Silk Scarf", "Cashmere Stole", "Bandana"],
+  },
+  Footwear: {
+    Sneakers: ["Court Sneaker", "Runner"],
+    Boots: ["Ankle Boot", "Riding Boot"],
+    Heels: ["Pump", "Slingback", "Mule"],
+  },
+  Apparel: {
+    Outerwear: ["Trench Coat", "Leather Jacket"],
+    Knitwear: ["Cashmere Sweater", "Cardigan", "Knit Dress"],
+  },
+};
+
+/**
+ * Splits each category's daily sales across its SKUs: a long tail of
+ * sellers whose shares drift year to year, each restocked to its own
+ * weeks of cover whenever it falls below two weeks.
+ */
+const mockProducts = (random: () => number, dailyData: DailyData[]): ProductData => {
+  const skus: (Product & { weight: number; trend: number; price: number; margin: number; cover: number })[] = [];
+  Object.entries(MOCK_PRODUCTS).forEach(([category, subcategories]) => {
+    const count = Object.keys(subcategories).length;
+    Object.entries(subcategories).forEach(([subcategory, names], j) =>
+      names.forEach((name, i) =>
+        skus.push({
+          sku: `${category.slice(0, 2).toUpperCase()}-${subcategory.slice(0, 3).toUpperCase()}-${String(i + 1).padStart(2, "0")}`,
+          name,
+          category,
+          subcategory,
+          // Each subcategory's best seller outsells the runners-up of every subcategory.
+          weight: 1 / Math.pow(1 + i * count + j, 1.1),
+          trend: -0.2 + random() * 0.5,
+          price: 0.6 + random() * 0.8,
+          margin: (random() - 0.5) * 0.1,
+          cover: 3 + random() * 15,
+        })
+      )
+    );
+  });
+
+  const totals = new Map<string, { units: number; revenue: number; grossProfit: number }>();
+  const dates: string[] = [];
+  dailyData.forEach((r) => {
+    const key = `${r.date}|${r.category}`;
+    const t = totals.get(key);
+    if (!t) {
+      totals.set(key, { units: r.units, revenue: r.revenue, grossProfit: r.grossProfit });
+      if (dates[dates.length - 1] !== r.date) dates.push(r.date);
+    } else {
+      t.units += r.units;
+      t.revenue += r.revenue;
+      t.grossProfit += r.grossProfit;
+    }
+  });
+
+  const stock = new Map<string, { onHand: number; rate: number }>();
+  const sales: SkuSales[] = [];
+  dates.forEach((date, dayIndex) =>
+    Object.keys(MOCK_PRODUCTS).forEach((category) => {
+      const t = totals.get(`${date}|${category}`);
+      if (!t) return;
+      const inCategory = skus.filter((p) => p.category === category);
+      const share = inCategory.map((p) => p.weight * Math.pow(1 + p.trend, dayIndex / 365));
+      const shareTotal = share.reduce((a, b) => a + b, 0);
+      const unitTotal = inCategory.reduce((a, p, i) => a + share[i] / p.price, 0);
+      // Margin offsets are centred on the category's own margin.
+      const marginOffset = inCategory.reduce((a, p, i) => a + share[i] * p.margin, 0) / shareTotal;
+      inCategory.forEach((p, i) => {
+        const noise = 0.8 + random() * 0.4;
+        const revenue = (t.revenue * share[i] * noise) / shareTotal;
+        const units = (t.units * (share[i] / p.price) * noise) / unitTotal;
+        const s = stock.get(p.sku) ?? { onHand: units * 7 * p.cover, rate: units };
+        stock.set(p.sku, s);
+        s.rate = s.rate * 0.9 + units * 0.1;
+        if (s.onHand < s.rate * 14) s.onHand += s.rate * 7 * p.cover;
+        s.onHand = Math.max(0, s.onHand - units);
+        sales.push({
+          sku: p.sku,
+          date,
+          units: round2(units),
+          revenue: Math.round(revenue),
+          grossProfit: Math.round(revenue * (t.revenue ? t.grossProfit / t.revenue + p.margin - marginOffset : 0)),
+          onHand: Math.round(s.onHand),
+        });
+      });
+    })
+  );
+  return { products: skus.map(({ sku, name, category, subcategory }) => ({ sku, name, category, subcategory })), sales };
+};
+
+// Weeks of recent sales due in over each of the next three months; Handbags stock is allocated tightly.
+const MOCK_INBOUND_WEEKS: Record<string, number> = { Handbags: 1.5, Accessories: 4, Footwear: 3.5, Apparel: 3 };
+
+/** Category stock at the end of the mock SKU history, with inbound orders for the next three months. */
+const mockInventory = (random: () => number, { products, sales }: ProductData): InventoryPosition[] => {
+  const asOf = sales.reduce((max, r) => (r.date > max ? r.date : max), "");
+  const recentFrom = isoDay(Date.parse(`${asOf}T00:00:00Z`) / DAY_MS - 27);
+  const categoryOf = new Map(products.map((p) => [p.sku, p.category]));
+  const onHand = new Map<string, number>();
+  const recentUnits = new Map<string, number>();
+  sales.forEach((r) => {
+    const category = categoryOf.get(r.sku) as string;
+    if (r.date === asOf) onHand.set(category, (onHand.get(category) ?? 0) + (r.onHand ?? 0));
+    if (r.date >= recentFrom) recentUnits.set(category, (recentUnits.get(category) ?? 0) + r.units);
+  });
+  const [year, month] = [Number(asOf.slice(0, 4)), Number(asOf.slice(5, 7))];
+  return Array.from(onHand, ([category, units]) => ({
+    category,
+    asOf,
+    onHand: units,
+    onOrder: [1, 2, 3].map((m) => ({
+      date: isoDay(Date.UTC(year, month - 1 + m, 5 + Math.floor(random() * 20)) / DAY_MS),
+      units: Math.round(((recentUnits.get(category) ?? 0) / 4) * (MOCK_INBOUND_WEEKS[category] ?? 3) * (0.8 + random() * 0.4)),
+    })),
+  }));
+};
+
+/**
+ * Monthly FX rates for the mock currencies, with no random draws. Actual
+ * rates wobble around a yearly drift; each year's budget rate is the
+ * actual rate of the December before (January's for the first year).
+ * Budget rates run a year past the history to cover the plan.
+ */
+const mockFx = (startYear: number, endYear: number): FxRate[] =>
+  Object.entries(MOCK_FX).flatMap(([currency, { rate, drift }]) => {
+    const actual = (year: number, month: number) => {
+      const t = year - startYear + month / 12;
+      return round4(rate * Math.pow(1 + drift, t) * (1 + 0.02 * Math.sin(t * 5)));
+    };
+    const rates: FxRate[] = [];
+    for (let year = startYear; year <= endYear + 1; year++) {
+      const budget = year === startYear ? actual(year, 0) : actual(year - 1, 11);
+      for (let month = 0; month < 12; month++) {
+        rates.push({
+          currency,
+          date: toMonthKey(year, month),
+          budget,
+          ...(year <= endYear ? { actual: actual(year, month) } : {}),
+        });
+      }
+    }
+    return rates;
+  });
+
+/**
+ * The mock budget: each month is planned at 10% revenue growth on the same
+ * month a year earlier (a stretch on the ~8% trend), with a 70% margin, 5%
+ * better conversion and 2% higher AOV, split by category the same way.
+ * Covers every year after the first plus the year after the history.
+ */
+const mockPlan = (history: MonthData[], daily: DailyData[]): PlanMonth[] => {
+  const categoryMonths = new Map<string, Map<string, { revenue: number; orders: number }>>();
+  daily.forEach((r) => {
+    const month = `${r.date.slice(0, 7)}-01`;
+    const byCategory = categoryMonths.get(month) ?? new Map<string, { revenue: number; orders: number }>();
+    const t = byCategory.get(r.category ?? "") ?? { revenue: 0, orders: 0 };
+    byCategory.set(r.category ?? "", { revenue: t.revenue + r.revenue, orders: t.orders + r.orders });
+    categoryMonths.set(month, byCategory);
+  });
+
+  const nextYear = history.slice(-12).map((m) => ({ ...m, date: `${+m.date.slice(0, 4) + 1}${m.date.slice(4)}` }));
+  return [...history.slice(12), ...nextYear].map((m, i) => {
+    const lastYear = history[i];
+    return {
+      date: m.date,
+      revenue: Math.round(lastYear.revenue * 1.1),
+      grossMargin: 0.7,
+      conversionRate: Math.round(lastYear.conversionRate * 1.05 * 10_000) / 10_000,
+      avgOrderValue: Math.round(lastYear.avgOrderValue * 1.02 * 100) / 100,
+      categories: Array.from(categoryMonths.get(lastYear.date) ?? [], ([category, t]) => ({
+        category,
+        revenue: Math.round(t.revenue * 1.1),
+        orders: Math.round((t.orders * 1.1) / 1.02),
+      })),
+    };
+  });
+};
+
+/**
+ * Builds `years` calendar years of daily sales ending 31 Dec `endYear`,
+ * split by country (in its own currency), device channel and category, each year ~8% above the
+ * one before, and rolls them up to calendar months with a matching plan,
+ * campaign data, customer orders, SKU sales and stock. Forecasts are left
+ * to the forecasting engine.
+ */
+export const generateMockData = (
+  random: () => number = Math.random,
+  options: { years?: number; endYear?: number } = {}
+): DashboardData => {
+  const { years = 3, endYear = 2025 } = options;
+  const dailyData: DailyData[] = [];
+  const first = Date.UTC(endYear - years + 1, 0, 1) / DAY_MS;
+  const last = Date.UTC(endYear, 11, 31) / DAY_MS;
+  const sources = Object.keys(MONTHLY_SESSIONS) as (keyof TrafficSources)[];
+  let monthShock = 1;
+
+  for (let day = first; day <= last; day++) {
+    const d = new Date(day * DAY_MS);
+    const date = d.toISOString().slice(0, 10);
+    const index = d.getUTCMonth();
+    if (d.getUTCDate() === 1) monthShock = 0.92 + random() * 0.16;
+    const seasonality = index < 6 ? 0.8 + index * 0.05 : 1.2 - (index - 6) * 0.03;
+    const holidayBoost = [10, 11].includes(index) ? 1.4 : 1.0; // Nov/Dec boost
+    const yearScale = Math.pow(1.08, d.getUTCFullYear() - endYear); // 8% YoY growth
+    const weekdayFactor = [0, 6].includes(d.getUTCDay()) ? 1.15 : 0.94;
+    const demand = (seasonality * holidayBoost * yearScale * weekdayFactor * monthShock) / 30.4;
+
+    MOCK_COUNTRIES.forEach(({ region, country, currency, share: countryShare }) =>
+      MOCK_CHANNELS.forEach(({ channel, sessionShare, conversion, ...device }) =>
+        MOCK_CATEGORIES.forEach(({ category, share: categoryShare, aov, margin, elasticity, promoMonths }) => {
+          const scale = demand * countryShare * sessionShare * categoryShare;
+          // Sale depth varies from year to year so price and volume can be related.
+          const discount = promoMonths.includes(index) ? MOCK_PROMO_DEPTHS[(d.getUTCFullYear() + index) % MOCK_PROMO_DEPTHS.length] : 0;
+          const priceFactor = 1 - discount;
+          const trafficSources = sources.reduce(
+            (acc, k) => ({ ...acc, [k]: Math.round(MONTHLY_SESSIONS[k] * scale * (0.85 + random() * 0.3)) }),
+            {} as TrafficSources
+          );
+          const sessions = sources.reduce((sum, k) => sum + trafficSources[k], 0);
+          const orders = sessions * conversion * Math.pow(priceFactor, elasticity) * (0.88 + random() * 0.24);
+          const revenue = orders * aov * priceFactor * (0.93 + random() * 0.14);
+          dailyData.push({
+            date,
+            region,
+            country,
+            channel,
+            category,
+            currency,
+            revenue: Math.round(revenue),
+            units: Math.round(orders * (1 + random() * 0.2) * 100) / 100,
+            orders: Math.round(orders * 100) / 100,
+            // Discounts cut price but not unit cost.
+            grossProfit: Math.round(revenue * (1 - (1 - margin) / priceFactor + (random() * 0.06 - 0.03))),
+            trafficSources,
+            funnel: mockFunnel(trafficSources, Math.round(orders * 100) / 100, device),
+          });
+        })
+      )
+    );
+  }
+
+  // Everything is built in dollars; daily rows are then restated in their local currency at the actual rate.
+  const historicalData = aggregateDaily(dailyData, GREGORIAN);
+  // Generated in this order so each addition leaves the earlier random draws unchanged.
+  const marketing = mockMarketing(random, endYear - years + 1, endYear);
+  const orders = mockOrders(random, endYear - years + 1, endYear);
+  const products = mockProducts(random, dailyData);
+  const currency = { base: MOCK_BASE_CURRENCY, rates: mockFx(endYear - years + 1, endYear) };
+  const rates = createRateTable(currency);
+  return {
+    historicalData,
+    forecastData: [],
+    dailyData: dailyData.map((r) => {
+      if (r.currency === MOCK_BASE_CURRENCY) return r;
+      const rate = rates.rate(r.currency as string, r.date, "actual");
+      return { ...r, revenue: Math.round(r.revenue * rate), grossProfit: Math.round(r.grossProfit * rate) };
+    }),
+    plan: mockPlan(historicalData, dailyData),
+    marketing,
+    orders,
+    products,
+    inventory: mockInventory(random, products),
+    currency,
+  };
+};
+
+/**
+ * Deterministic mock: the same seed always yields the same figures, which is
+ * what demos and tests want. Pass `seed: null` for the old random behaviour.
+ */
+export const createMockProvider = (
+  options: { seed?: number | null; latencyMs?: number } = {}
+): DataProvider => {
+  const { seed = DEFAULT_MOCK_SEED, latencyMs = 0 } = options;
+  return {
+    id: "mock",
+    label: seed === null ? "Mock data (random)" : `Mock data (seed ${seed})`,
+    load: (signal) =>
+      new Promise((resolve, reject) => {
+        const random = seed === null ? Math.random : createSeededRandom(seed);
+        const finish = () => resolve(generateMockData(random));
+        if (latencyMs <= 0) return finish();
+        const timer = setTimeout(finish, latencyMs);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(new DataSourceError("Request aborted"));
+        });
+      }),
+  };
+};
+
+/** Serves data already held in memory, e.g. rows imported from a CSV file. */
+export const createInMemoryProvider = (data: DashboardData, label: string): DataProvider => ({
+  id: "memory",
+  label,
+  load: () => Promise.resolve(data),
+});
+
+/* =======================
+   Fetch-based providers
+   ======================= */
+const fetchJson = async (url: string, signal?: AbortSignal, init?: RequestInit): Promise<unknown> => {
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal });
+  } catch (err) {
+    throw new DataSourceError(`Could not reach ${url}: ${(err as Error).message}`);
+  }
+  if (!res.ok) throw new DataSourceError(`${url} responded with ${res.status} ${res.statusText}`);
+  try {
+    return await res.json();
+  } catch {
+    throw new DataSourceError(`${url} did not return valid JSON`);
+  }
+};
+
+/** Reads a single JSON file shaped like DashboardData (e.g. from /public). */
+export const createStaticJsonProvider = (url: string): DataProvider => ({
+  id: "static",
+  label: `Static file (${url})`,
+  load: async (signal) => parseDashboardData(await fetchJson(url, signal)),
+});
+
+/**
+ * REST backend exposing `GET {baseUrl}/history` (MonthData[]) and
+ * `GET {baseUrl}/forecast` (ForecastPoint[]).
+ */
+export const createRestProvider = (options: { baseUrl: string; headers?: Record<string, string> }): DataProvider => {
+  const base = options.baseUrl.replace(/\/+$/, "");
+  const init: RequestInit = { headers: { Accept: "application/json", ...options.headers } };
+  return {
+    id: "rest",
+    label: `REST API (${base})`,
+    load: async (signal) => {
+      const [historicalData, forecastData] = await Promise.all([
+        fetchJson(`${base}/history`, signal, init),
+        fetchJson(`${base}/forecast`, signal, init),
+      ]);
+      return parseDashboardData({ historicalData, forecastData });
+    },
+  };
+};
+
+/**
+ * Replaces the plan of another provider's data with one read from a JSON
+ * file (an array of PlanMonth, or `{ "plan": [...] }`).
+ */
+export const withPlanFile = (provider: DataProvider, planUrl: string): DataProvider => ({
+  id: provider.id,
+  label: provider.label,
+  load: async (signal) => {
+    const [data, plan] = await Promise.all([provider.load(signal), fetchJson(planUrl, signal)]);
+    return { ...data, plan: parsePlan(plan) };
+  },
+});
+
+const createBaseProvider = (env: Record<string, string | undefined>): DataProvider => {
+  const source = env.REACT_APP_DATA_SOURCE ?? "mock";
+  const url = env.REACT_APP_DATA_URL;
+  switch (source) {
+    case "static":
+      return createStaticJsonProvider(url ?? `${env.PUBLIC_URL ?? ""}/data/dashboard.json`);
+    case "rest":
+      if (!url) {
+        return {
+          id: "rest",
+          label: "REST API (not configured)",
+          load: () => Promise.reject(new DataSourceError("REACT_APP_DATA_URL is required for the REST data source")),
+        };
+      }
+      return createRestProvider({ baseUrl: url });
+    case "mock":
+    default: {
+      const seed = env.REACT_APP_MOCK_SEED;
+      return createMockProvider({ seed: seed === "random" ? null : seed ? Number(seed) : DEFAULT_MOCK_SEED });
+    }
+  }
+};
+
+/**
+ * Picks a provider from REACT_APP_DATA_SOURCE ("mock" | "static" | "rest")
+ * and REACT_APP_DATA_URL, with the plan optionally taken from
+ * REACT_APP_PLAN_URL. Falls back to the seeded mock.
+ */
+export const createProviderFromEnv = (env: Record<string, string | undefined> = process.env): DataProvider => {
+  const provider = createBaseProvider(env);
+  return env.REACT_APP_PLAN_URL ? withPlanFile(provider, env.REACT_APP_PLAN_URL) : provider;
+};
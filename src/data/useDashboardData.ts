@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import { DashboardData } from "../types";
+import { DataProvider } from "./providers";
+
+export type LoadStatus = "loading" | "ready" | "empty" | "error";
+
+export interface DashboardDataState {
+  status: LoadStatus;
+  data: DashboardData;
+  error: Error | null;
+  reload: () => void;
+}
+
+const EMPTY: DashboardData = { historicalData: [], forecastData: [] };
+
+/** Loads DashboardData from a provider and tracks loading / empty / error. */
+export const useDashboardData = (provider: DataProvider): DashboardDataState => {
+  const [data, setData] = useState<DashboardData>(EMPTY);
+  const [status, setStatus] = useState<LoadStatus>("loading");
+  const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStatus("loading");
+    setError(null);
+    provider
+      .load(controller.signal)
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setData(result);
+        setStatus(result.historicalData.length === 0 ? "empty" : "ready");
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setData(EMPTY);
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setStatus("error");
+      });
+    return () => controller.abort();
+  }, [provider, attempt]);
+
+  const reload = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { status, data, error, reload };
+};
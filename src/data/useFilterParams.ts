@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import { DashboardFilters, filtersFromSearch, filtersToSearch } from "../analytics/filters";
+
+/**
+ * Dashboard filters mirrored into the query string, so a filtered view can
+ * be bookmarked or shared. Uses replaceState to avoid a history entry per click.
+ */
+export const useFilterParams = (): [DashboardFilters, (next: DashboardFilters) => void] => {
+  const [filters, setFilters] = useState<DashboardFilters>(() => filtersFromSearch(window.location.search));
+
+  useEffect(() => {
+    const search = filtersToSearch(filters, window.location.search);
+    if (search !== window.location.search) {
+      window.history.replaceState(window.history.state, "", `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    const onPopState = () => setFilters(filtersFromSearch(window.location.search));
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const update = useCallback((next: DashboardFilters) => setFilters(next), []);
+  return [filters, update];
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from "react";
+import { DailyData } from "../types";
+import { LiveEvent, LiveStream, StreamStatus } from "./liveStream";
+import { foldEvents } from "../analytics/live";
+
+export interface LiveStreamState {
+  status: StreamStatus | "disabled";
+  /** Events folded into one row per day and dimension combination. */
+  rows: DailyData[];
+  eventCount: number;
+  lastEventAt: Date | null;
+}
+
+const FLUSH_MS = 500; // batch bursts (e.g. a backfill replay) into one render
+
+/**
+ * Subscribes to a live stream while mounted. Incoming events are buffered
+ * and folded into `rows` every FLUSH_MS; pass null to switch live updates off.
+ */
+export const useLiveStream = (stream: LiveStream | null): LiveStreamState => {
+  const [status, setStatus] = useState<StreamStatus>("connecting");
+  const [rows, setRows] = useState<DailyData[]>([]);
+  const [eventCount, setEventCount] = useState(0);
+  const [lastEventAt, setLastEventAt] = useState<Date | null>(null);
+  const pending = useRef<LiveEvent[]>([]);
+
+  useEffect(() => {
+    setRows([]);
+    setEventCount(0);
+    setLastEventAt(null);
+    if (!stream) return;
+
+    let active = true;
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    const flush = () => {
+      flushTimer = undefined;
+      const batch = pending.current;
+      pending.current = [];
+      if (!active || batch.length === 0) return;
+      setRows((current) => foldEvents(current, batch));
+      setEventCount((n) => n + batch.length);
+      setLastEventAt(new Date());
+    };
+
+    const disconnect = stream.connect({
+      onEvent: (event) => {
+        pending.current.push(event);
+        if (flushTimer === undefined) flushTimer = setTimeout(flush, FLUSH_MS);
+      },
+      onStatus: (next) => {
+        if (active) setStatus(next);
+      },
+    });
+
+    return () => {
+      active = false;
+      clearTimeout(flushTimer);
+      pending.current = [];
+      disconnect();
+    };
+  }, [stream]);
+
+  return { status: stream ? status : "disabled", rows, eventCount, lastEventAt };
+};
@@ -0,0 +1,361 @@
+import {
+  Campaign, Channel, ConversionJourney, CurrencyConfig, CustomerOrder, DailyData, DashboardData, ForecastPoint, FunnelSteps, FxRate,
+  InventoryPosition, MarketingChannel, MarketingData, MonthData, PlanCategory, PlanMonth, Product, ProductData, SkuSales,
+  TrafficSources,
+} from "../types";
+import { inferMonthDate } from "../analytics/periods";
+
+export class DataSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DataSourceError";
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const num = (obj: Record<string, unknown>, key: string, where: string): number => {
+  const v = obj[key];
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new DataSourceError(`${where}: "${key}" must be a finite number`);
+  }
+  return v;
+};
+
+const str = (obj: Record<string, unknown>, key: string, where: string): string => {
+  const v = obj[key];
+  if (typeof v !== "string" || v.length === 0) {
+    throw new DataSourceError(`${where}: "${key}" must be a non-empty string`);
+  }
+  return v;
+};
+
+/** Explicit `date` wins; otherwise it is inferred from the month label. */
+const monthDate = (obj: Record<string, unknown>, label: string, where: string, required: boolean): string | undefined => {
+  const raw = obj.date;
+  if (raw !== undefined) {
+    const date = typeof raw === "string" ? inferMonthDate(raw) : null;
+    if (!date) throw new DataSourceError(`${where}: "date" must look like "2024-01-01"`);
+    return date;
+  }
+  const inferred = inferMonthDate(label);
+  if (!inferred && required) {
+    throw new DataSourceError(`${where}: add a "date" or a month label with a year (e.g. "Jan 2024")`);
+  }
+  return inferred ?? undefined;
+};
+
+const parseTraffic = (v: unknown, where: string): TrafficSources => {
+  if (!isRecord(v)) throw new DataSourceError(`${where}: "trafficSources" must be an object`);
+  return {
+    organic: num(v, "organic", where),
+    paid: num(v, "paid", where),
+    social: num(v, "social", where),
+    email: num(v, "email", where),
+    direct: num(v, "direct", where),
+  };
+};
+
+const parseFunnel = (v: unknown, where: string): DailyData["funnel"] => {
+  if (!isRecord(v)) throw new DataSourceError(`${where}: "funnel" must be an object`);
+  const steps = (source: keyof TrafficSources): FunnelSteps => {
+    const s = v[source];
+    const at = `${where}.funnel.${source}`;
+    if (!isRecord(s)) throw new DataSourceError(`${at} must be an object`);
+    return {
+      productViews: num(s, "productViews", at),
+      addToCart: num(s, "addToCart", at),
+      checkout: num(s, "checkout", at),
+      orders: num(s, "orders", at),
+    };
+  };
+  return { organic: steps("organic"), paid: steps("paid"), social: steps("social"), email: steps("email"), direct: steps("direct") };
+};
+
+const parseMonth = (v: unknown, idx: number): MonthData => {
+  const where = `historicalData[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  const month = str(v, "month", where);
+  return {
+    month,
+    date: monthDate(v, month, where, true) as string,
+    revenue: num(v, "revenue", where),
+    units: num(v, "units", where),
+    grossMargin: num(v, "grossMargin", where),
+    conversionRate: num(v, "conversionRate", where),
+    avgOrderValue: num(v, "avgOrderValue", where),
+    trafficSources: parseTraffic(v.trafficSources, where),
+  };
+};
+
+const parseForecast = (v: unknown, idx: number): ForecastPoint => {
+  const where = `forecastData[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  const month = str(v, "month", where);
+  const date = monthDate(v, month.replace(/\s*\(F\)$/, ""), where, false);
+  return {
+    month,
+    ...(date ? { date } : {}),
+    revenue: num(v, "revenue", where),
+    forecastHigh: num(v, "forecastHigh", where),
+    forecastLow: num(v, "forecastLow", where),
+    confidence: num(v, "confidence", where),
+  };
+};
+
+const CHANNELS: Channel[] = ["Desktop", "Mobile", "Tablet"];
+
+/** Optional region/country/channel/category tags on a daily row. */
+const dimensions = (obj: Record<string, unknown>, where: string): Pick<DailyData, "region" | "country" | "channel" | "category"> => {
+  const out: Pick<DailyData, "region" | "country" | "channel" | "category"> = {};
+  (["region", "country", "category"] as const).forEach((key) => {
+    if (obj[key] !== undefined) out[key] = str(obj, key, where);
+  });
+  if (obj.channel !== undefined) {
+    const channel = str(obj, "channel", where);
+    if (!CHANNELS.includes(channel as Channel)) {
+      throw new DataSourceError(`${where}: "channel" must be one of ${CHANNELS.join(", ")}`);
+    }
+    out.channel = channel as Channel;
+  }
+  return out;
+};
+
+const day = (obj: Record<string, unknown>, where: string, key = "date"): string => {
+  const date = str(obj, key, where);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new DataSourceError(`${where}: "${key}" must look like "2024-01-15"`);
+  return date;
+};
+
+const currencyCode = (obj: Record<string, unknown>, key: string, where: string): string => {
+  const code = str(obj, key, where);
+  if (!/^[A-Z]{3}$/.test(code)) throw new DataSourceError(`${where}: "${key}" must be an ISO currency code like "EUR"`);
+  return code;
+};
+
+const parseDaily = (v: unknown, idx: number): DailyData => {
+  const where = `dailyData[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  return {
+    date: day(v, where),
+    ...(v.days !== undefined ? { days: num(v, "days", where) } : {}),
+    ...dimensions(v, where),
+    ...(v.currency !== undefined ? { currency: currencyCode(v, "currency", where) } : {}),
+    revenue: num(v, "revenue", where),
+    units: num(v, "units", where),
+    orders: num(v, "orders", where),
+    grossProfit: num(v, "grossProfit", where),
+    trafficSources: parseTraffic(v.trafficSources, where),
+    ...(v.funnel !== undefined ? { funnel: parseFunnel(v.funnel, where) } : {}),
+  };
+};
+
+const parsePlanCategory = (v: unknown, where: string): PlanCategory => {
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  return { category: str(v, "category", where), revenue: num(v, "revenue", where), orders: num(v, "orders", where) };
+};
+
+const parsePlanMonth = (v: unknown, idx: number): PlanMonth => {
+  const where = `plan[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  if (v.categories !== undefined && !Array.isArray(v.categories)) {
+    throw new DataSourceError(`${where}: "categories" must be an array when present`);
+  }
+  return {
+    date: monthDate(v, typeof v.month === "string" ? v.month : "", where, true) as string,
+    revenue: num(v, "revenue", where),
+    grossMargin: num(v, "grossMargin", where),
+    conversionRate: num(v, "conversionRate", where),
+    avgOrderValue: num(v, "avgOrderValue", where),
+    ...(Array.isArray(v.categories)
+      ? { categories: v.categories.map((c, i) => parsePlanCategory(c, `${where}.categories[${i}]`)) }
+      : {}),
+  };
+};
+
+/** Checks a plan: an array of months, or an object with a "plan" array (a standalone plan file). */
+export const parsePlan = (payload: unknown): PlanMonth[] => {
+  const rows = isRecord(payload) ? payload.plan : payload;
+  if (!Array.isArray(rows)) throw new DataSourceError('"plan" must be an array of months');
+  const plan = rows.map(parsePlanMonth).sort((a, b) => a.date.localeCompare(b.date));
+  plan.forEach((m, i) => {
+    if (i > 0 && plan[i - 1].date === m.date) throw new DataSourceError(`plan has two entries for ${m.date}`);
+  });
+  return plan;
+};
+
+const MARKETING_CHANNELS: MarketingChannel[] = ["paid", "social", "email"];
+
+const list = (obj: Record<string, unknown>, key: string, where: string): unknown[] => {
+  const v = obj[key];
+  if (!Array.isArray(v)) throw new DataSourceError(`${where}: "${key}" must be an array`);
+  return v;
+};
+
+const parseCampaign = (v: unknown, idx: number): Campaign => {
+  const where = `marketing.campaigns[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  const channel = str(v, "channel", where);
+  if (!MARKETING_CHANNELS.includes(channel as MarketingChannel)) {
+    throw new DataSourceError(`${where}: "channel" must be one of ${MARKETING_CHANNELS.join(", ")}`);
+  }
+  return { id: str(v, "id", where), name: str(v, "name", where), channel: channel as MarketingChannel };
+};
+
+const parseJourney = (v: unknown, idx: number): ConversionJourney => {
+  const where = `marketing.journeys[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  const touchpoints = list(v, "touchpoints", where).map((t, i) => {
+    const at = `${where}.touchpoints[${i}]`;
+    if (!isRecord(t)) throw new DataSourceError(`${at} must be an object`);
+    return { campaignId: str(t, "campaignId", at), date: day(t, at) };
+  });
+  return {
+    id: str(v, "id", where),
+    date: day(v, where),
+    revenue: num(v, "revenue", where),
+    touchpoints: touchpoints.sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+/** Checks campaign data; spend and touchpoints must refer to a listed campaign. */
+export const parseMarketing = (payload: unknown): MarketingData => {
+  if (!isRecord(payload)) throw new DataSourceError('"marketing" must be an object');
+  const campaigns = list(payload, "campaigns", "marketing").map(parseCampaign);
+  const ids = new Set(campaigns.map((c) => c.id));
+  const known = (id: string, where: string) => {
+    if (!ids.has(id)) throw new DataSourceError(`${where}: unknown campaign "${id}"`);
+    return id;
+  };
+  const spend = list(payload, "spend", "marketing").map((v, idx) => {
+    const where = `marketing.spend[${idx}]`;
+    if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+    return { campaignId: known(str(v, "campaignId", where), where), date: day(v, where), spend: num(v, "spend", where) };
+  });
+  const journeys = list(payload, "journeys", "marketing").map(parseJourney);
+  journeys.forEach((j, idx) => j.touchpoints.forEach((t) => known(t.campaignId, `marketing.journeys[${idx}]`)));
+  return { campaigns, spend, journeys };
+};
+
+export const parseProducts = (payload: unknown): ProductData => {
+  if (!isRecord(payload)) throw new DataSourceError('"products" must be an object');
+  const products = list(payload, "products", "products").map((v, idx): Product => {
+    const where = `products.products[${idx}]`;
+    if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+    return {
+      sku: str(v, "sku", where),
+      name: str(v, "name", where),
+      category: str(v, "category", where),
+      subcategory: str(v, "subcategory", where),
+    };
+  });
+  const skus = new Set(products.map((p) => p.sku));
+  const sales = list(payload, "sales", "products").map((v, idx): SkuSales => {
+    const where = `products.sales[${idx}]`;
+    if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+    const sku = str(v, "sku", where);
+    if (!skus.has(sku)) throw new DataSourceError(`${where}: unknown SKU "${sku}"`);
+    return {
+      sku,
+      date: day(v, where),
+      ...(v.days !== undefined ? { days: num(v, "days", where) } : {}),
+      units: num(v, "units", where),
+      revenue: num(v, "revenue", where),
+      grossProfit: num(v, "grossProfit", where),
+      ...(v.onHand !== undefined ? { onHand: num(v, "onHand", where) } : {}),
+    };
+  });
+  return { products, sales };
+};
+
+const parseInventory = (v: unknown, idx: number): InventoryPosition => {
+  const where = `inventory[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  return {
+    category: str(v, "category", where),
+    asOf: day(v, where, "asOf"),
+    onHand: num(v, "onHand", where),
+    onOrder: (v.onOrder === undefined ? [] : list(v, "onOrder", where)).map((o, i) => {
+      const at = `${where}.onOrder[${i}]`;
+      if (!isRecord(o)) throw new DataSourceError(`${at} must be an object`);
+      return { date: day(o, at), units: num(o, "units", at) };
+    }),
+  };
+};
+
+const parseOrder = (v: unknown, idx: number): CustomerOrder => {
+  const where = `orders[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  return { id: str(v, "id", where), customerId: str(v, "customerId", where), date: day(v, where), revenue: num(v, "revenue", where) };
+};
+
+const parseRate = (v: unknown, idx: number): FxRate => {
+  const where = `currency.rates[${idx}]`;
+  if (!isRecord(v)) throw new DataSourceError(`${where} must be an object`);
+  const positive = (key: string) => {
+    const rate = num(v, key, where);
+    if (rate <= 0) throw new DataSourceError(`${where}: "${key}" must be above zero`);
+    return rate;
+  };
+  return {
+    currency: currencyCode(v, "currency", where),
+    date: `${day(v, where).slice(0, 7)}-01`,
+    budget: positive("budget"),
+    ...(v.actual !== undefined ? { actual: positive("actual") } : {}),
+  };
+};
+
+/** Base currency and FX rates; every currency the daily rows use needs rates. */
+export const parseCurrency = (payload: unknown, dailyData: DailyData[] = []): CurrencyConfig => {
+  if (!isRecord(payload)) throw new DataSourceError('"currency" must be an object');
+  const base = currencyCode(payload, "base", "currency");
+  const rates = list(payload, "rates", "currency").map(parseRate);
+  const quoted = new Set([base, ...rates.map((r) => r.currency)]);
+  const unquoted = dailyData.find((r) => r.currency && !quoted.has(r.currency));
+  if (unquoted) throw new DataSourceError(`dailyData uses ${unquoted.currency} but "currency.rates" has no ${unquoted.currency} rates`);
+  return { base, rates };
+};
+
+/**
+ * Checks an untrusted payload (JSON file, REST response) against the
+ * DashboardData shape. `forecastData`, `dailyData`, `plan`, `marketing`, `orders`,
+ * `products`, `inventory` and `currency` are optional in the payload. Daily rows
+ * with a `currency` other than the base need `currency` rates.
+ */
+export const parseDashboardData = (payload: unknown): DashboardData => {
+  if (!isRecord(payload)) throw new DataSourceError("Payload must be a JSON object");
+  if (!Array.isArray(payload.historicalData)) {
+    throw new DataSourceError('Payload is missing the "historicalData" array');
+  }
+  const forecast = payload.forecastData ?? [];
+  if (!Array.isArray(forecast)) {
+    throw new DataSourceError('"forecastData" must be an array when present');
+  }
+  const historicalData = payload.historicalData.map(parseMonth).sort((a, b) => a.date.localeCompare(b.date));
+  historicalData.forEach((m, i) => {
+    if (i > 0 && historicalData[i - 1].date === m.date) {
+      throw new DataSourceError(`historicalData has two entries for ${m.date}`);
+    }
+  });
+  let dailyData: DailyData[] | undefined;
+  if (payload.dailyData !== undefined) {
+    if (!Array.isArray(payload.dailyData)) {
+      throw new DataSourceError('"dailyData" must be an array when present');
+    }
+    dailyData = payload.dailyData.map(parseDaily);
+    const foreign = payload.currency === undefined && dailyData.find((r) => r.currency);
+    if (foreign) throw new DataSourceError(`dailyData uses ${foreign.currency} but the payload has no "currency" rates`);
+  }
+  return {
+    historicalData,
+    forecastData: forecast.map(parseForecast),
+    ...(dailyData ? { dailyData } : {}),
+    ...(payload.plan !== undefined ? { plan: parsePlan(payload.plan) } : {}),
+    ...(payload.marketing !== undefined ? { marketing: parseMarketing(payload.marketing) } : {}),
+    ...(payload.orders !== undefined ? { orders: list(payload, "orders", "Payload").map(parseOrder) } : {}),
+    ...(payload.products !== undefined ? { products: parseProducts(payload.products) } : {}),
+    ...(payload.inventory !== undefined ? { inventory: list(payload, "inventory", "Payload").map(parseInventory) } : {}),
+    ...(payload.currency !== undefined ? { currency: parseCurrency(payload.currency, dailyData) } : {}),
+  };
+};
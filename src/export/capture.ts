@@ -0,0 +1,62 @@
+import { chartImage, toJpeg } from "./chartImage";
+import { ReportSection, ReportTable } from "./report";
+
+/* =======================
+   Capturing a rendered tab
+   =======================
+   Every card on the dashboard is a shadowed box headed by an <h3>; a tab
+   is exported as one report section per card, with its charts drawn as a
+   single image and its tables read back as text, as they're shown.
+*/
+
+const SKIPPED = new Set(["SELECT", "OPTION", "SCRIPT", "STYLE"]);
+
+/** Visible text of a cell, with nested elements set apart by spaces ("EMEA 18% of total"). */
+export const cellText = (el: Element): string => {
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) parts.push(node.textContent ?? "");
+    else if (node.nodeType === Node.ELEMENT_NODE && !SKIPPED.has((node as Element).tagName)) {
+      parts.push(" ");
+      node.childNodes.forEach(walk);
+      parts.push(" ");
+    }
+  };
+  el.childNodes.forEach(walk);
+  return parts.join("").replace(/\s+/g, " ").trim();
+};
+
+/** Header and body rows of an HTML table; without a <thead> the first row is the header. */
+export const tableContents = (table: HTMLTableElement): ReportTable => {
+  const rows = Array.from(table.rows).map((tr) => Array.from(tr.cells).map(cellText));
+  const headerCount = table.tHead?.rows.length ?? 0;
+  const columns = headerCount > 0 ? rows[headerCount - 1] : rows[0] ?? [];
+  return { columns, rows: rows.slice(Math.max(headerCount, 1)) };
+};
+
+/** The cards under `root`, in page order. */
+export const reportCards = (root: HTMLElement): { title: string; card: HTMLElement }[] => {
+  const seen = new Set<HTMLElement>();
+  return Array.from(root.querySelectorAll("h3")).flatMap((heading) => {
+    const card = (heading.closest(".shadow") as HTMLElement | null) ?? heading.parentElement;
+    if (!card || seen.has(card)) return [];
+    seen.add(card);
+    return [{ title: cellText(heading), card }];
+  });
+};
+
+/**
+ * A report section per card with a chart or table. Charts that can't be
+ * drawn (e.g. canvas blocked by the browser) are left out rather than
+ * failing the whole export.
+ */
+export const captureSections = async (root: HTMLElement): Promise<ReportSection[]> => {
+  const sections: ReportSection[] = [];
+  for (const { title, card } of reportCards(root)) {
+    const svg = chartImage(card);
+    const image = svg ? await toJpeg(svg).catch(() => undefined) : undefined;
+    const tables = Array.from(card.querySelectorAll("table")).map(tableContents).filter((t) => t.rows.length > 0);
+    if (image || tables.length > 0) sections.push({ title, image, tables });
+  }
+  return sections;
+};
@@ -0,0 +1,141 @@
+/* =======================
+   Chart images
+   =======================
+   Recharts draws each chart as an SVG but its legend as HTML next to it,
+   so exports clone the SVGs, redraw the legend entries inside them and
+   stack the charts of a card into one standalone SVG. PNGs and the PDF's
+   JPEGs are that SVG drawn onto a canvas.
+*/
+
+export interface ChartImage {
+  markup: string;           // standalone SVG document
+  width: number;
+  height: number;
+}
+
+export interface RasterImage {
+  data: Uint8Array;         // JPEG bytes
+  width: number;            // pixels
+  height: number;
+}
+
+const FONT = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+const TITLE_HEIGHT = 28;
+const LEGEND_ROW = 20;
+const CHAR_WIDTH = 6.5;     // rough width of a 12px sans-serif character, for wrapping legend rows
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** The plotted charts under `root`, skipping the small SVG icons inside legends. */
+export const chartSvgs = (root: ParentNode): SVGSVGElement[] =>
+  Array.from(root.querySelectorAll<SVGSVGElement>(".recharts-wrapper > svg.recharts-surface"));
+
+const sizeOf = (svg: SVGSVGElement) => {
+  const box = svg.getBoundingClientRect();
+  return {
+    width: Number(svg.getAttribute("width")) || box.width,
+    height: Number(svg.getAttribute("height")) || box.height,
+  };
+};
+
+const legendEntries = (svg: SVGSVGElement): { label: string; color: string }[] =>
+  Array.from(svg.parentElement?.querySelectorAll(".recharts-legend-item") ?? []).map((item) => {
+    const icon = item.querySelector(".recharts-legend-icon");
+    const fill = icon?.getAttribute("fill");
+    const color = fill && fill !== "none" ? fill : icon?.getAttribute("stroke") ?? "#6B7280";
+    return { label: item.querySelector(".recharts-legend-item-text")?.textContent ?? item.textContent ?? "", color };
+  });
+
+/** Legend entries laid out in rows across `width`, as SVG markup. */
+const legendMarkup = (entries: { label: string; color: string }[], width: number, top: number) => {
+  let x = 0;
+  let row = 0;
+  const placed = entries.map((e) => {
+    const itemWidth = 18 + e.label.length * CHAR_WIDTH + 16;
+    if (x > 0 && x + itemWidth > width) {
+      x = 0;
+      row++;
+    }
+    const markup =
+      `<rect x="${x}" y="${top + row * LEGEND_ROW + 4}" width="12" height="12" fill="${escapeXml(e.color)}"/>` +
+      `<text x="${x + 18}" y="${top + row * LEGEND_ROW + 14}" fill="#374151">${escapeXml(e.label)}</text>`;
+    x += itemWidth;
+    return markup;
+  });
+  return { markup: placed.join(""), height: entries.length ? (row + 1) * LEGEND_ROW + 8 : 0 };
+};
+
+/**
+ * One SVG with every chart under `root` stacked top to bottom, each with
+ * its legend, and `title` above them. Null when there's nothing drawn.
+ */
+export const chartImage = (root: ParentNode, title?: string): ChartImage | null => {
+  const svgs = chartSvgs(root).filter((svg) => sizeOf(svg).width > 0 && sizeOf(svg).height > 0);
+  if (svgs.length === 0) return null;
+  const width = Math.max(...svgs.map((svg) => sizeOf(svg).width));
+  const serializer = new XMLSerializer();
+
+  let y = title ? TITLE_HEIGHT : 0;
+  const parts = svgs.map((svg) => {
+    const size = sizeOf(svg);
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute("x", "0");
+    clone.setAttribute("y", String(y));
+    clone.setAttribute("width", String(size.width));
+    clone.setAttribute("height", String(size.height));
+    clone.removeAttribute("style");
+    y += size.height;
+    const legend = legendMarkup(legendEntries(svg), width, y);
+    y += legend.height;
+    return serializer.serializeToString(clone) + legend.markup;
+  });
+
+  const heading = title ? `<text x="0" y="18" font-size="16" font-weight="600" fill="#111827">${escapeXml(title)}</text>` : "";
+  return {
+    markup:
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${y}" viewBox="0 0 ${width} ${y}" ` +
+      `font-family="${escapeXml(FONT)}" font-size="12"><rect width="100%" height="100%" fill="#FFFFFF"/>${heading}${parts.join("")}</svg>`,
+    width,
+    height: y,
+  };
+};
+
+/** Draws the SVG onto a white canvas at `scale`× its size. */
+export const rasterize = (image: ChartImage, scale = 2): Promise<HTMLCanvasElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas is not available in this browser"));
+        return;
+      }
+      ctx.fillStyle = "#FFFFFF";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas);
+    };
+    img.onerror = () => reject(new Error("The chart could not be drawn as an image"));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.markup)}`;
+  });
+
+export const toPngBlob = async (image: ChartImage): Promise<Blob> => {
+  const canvas = await rasterize(image);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png")
+  );
+};
+
+/** JPEG bytes for embedding in a PDF (which takes JPEG as is, but not PNG). */
+export const toJpeg = async (image: ChartImage): Promise<RasterImage> => {
+  const canvas = await rasterize(image);
+  const base64 = canvas.toDataURL("image/jpeg", 0.92).split(",")[1] ?? "";
+  const binary = atob(base64);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { data, width: canvas.width, height: canvas.height };
+};
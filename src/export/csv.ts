@@ -0,0 +1,39 @@
+/* =======================
+   CSV export
+   =======================
+   Numbers are written unformatted (no currency symbols or thousands
+   separators) so the files open cleanly in a spreadsheet. Text that a
+   spreadsheet would run as a formula (imported category names, saved-view
+   names) is prefixed with an apostrophe.
+*/
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+/** Text a spreadsheet would evaluate as a formula, rather than show. */
+export const isFormulaText = (text: string): boolean => FORMULA_START.test(text) && !NUMBER.test(text);
+
+/** One CSV cell, quoted when it holds a delimiter, quote or line break. */
+export const csvCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return "";
+  const raw = typeof value === "number" ? (Number.isFinite(value) ? String(Math.round(value * 1e6) / 1e6) : "") : String(value);
+  const text = typeof value === "string" && isFormulaText(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Header plus one line per row, CRLF separated as RFC 4180 asks. */
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string =>
+  [columns.map((c) => csvCell(c.header)), ...rows.map((r) => columns.map((c) => csvCell(c.value(r))))]
+    .map((line) => line.join(","))
+    .join("\r\n");
+
+/** Several titled tables in one file, separated by a blank line. */
+export const csvSections = (sections: { title: string; csv: string }[]): string =>
+  sections.map((s) => `${csvCell(s.title)}\r\n${s.csv}`).join("\r\n\r\n");
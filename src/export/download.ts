@@ -0,0 +1,30 @@
+/* =======================
+   Browser downloads
+   ======================= */
+
+/** "revenue-trend-2026-01-31.csv" — a file name from a title and the export date. */
+export const exportFilename = (title: string, extension: string, at: Date = new Date()): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const day = `${at.getFullYear()}-${String(at.getMonth() + 1).padStart(2, "0")}-${String(at.getDate()).padStart(2, "0")}`;
+  return `${slug || "export"}-${day}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** CSV with a BOM so Excel reads non-ASCII currency symbols correctly. */
+export const downloadCsv = (csv: string, filename: string) =>
+  downloadBlob(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), filename);
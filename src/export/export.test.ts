@@ -0,0 +1,109 @@
+import { tableContents } from "./capture";
+import { csvSections, toCsv } from "./csv";
+import { exportFilename } from "./download";
+import { renderPdf } from "./pdf";
+import { layoutReport } from "./report";
+
+const decode = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+
+test("CSV quotes cells with delimiters and writes numbers unformatted", () => {
+  const csv = toCsv(
+    [
+      { name: 'Bags, "Luxe"', revenue: 1234.5678901, share: null },
+      { name: "Shoes", revenue: 10, share: 0.25 },
+    ],
+    [
+      { header: "Category", value: (r) => r.name },
+      { header: "Revenue (EUR)", value: (r) => r.revenue },
+      { header: "Share", value: (r) => r.share },
+    ]
+  );
+  expect(csv).toBe('Category,Revenue (EUR),Share\r\n"Bags, ""Luxe""",1234.56789,\r\nShoes,10,0.25');
+  expect(csvSections([{ title: "Forecast", csv: "a\r\n1" }, { title: "Plan", csv: "b" }])).toBe("Forecast\r\na\r\n1\r\n\r\nPlan\r\nb");
+  expect(exportFilename("Budget vs Actual", "pdf", new Date(2026, 0, 5))).toBe("budget-vs-actual-2026-01-05.pdf");
+});
+
+test("CSV neutralises text that a spreadsheet would run as a formula", () => {
+  const csv = toCsv(
+    [
+      { name: "=HYPERLINK(\"http://x\")", view: "@SUM(A1)", change: -0.25 },
+      { name: "+Shoes", view: "-rebate", change: 3 },
+      { name: "\tTabbed", view: "-12.5", change: 0 },
+    ],
+    [
+      { header: "Category", value: (r) => r.name },
+      { header: "View", value: (r) => r.view },
+      { header: "Change", value: (r) => r.change },
+    ]
+  );
+  expect(csv.split("\r\n")).toEqual([
+    "Category,View,Change",
+    `"'=HYPERLINK(""http://x"")",'@SUM(A1),-0.25`,
+    "'+Shoes,'-rebate,3",
+    "'\tTabbed,-12.5,0",
+  ]);
+});
+
+test("PDF output has a valid cross-reference table and escaped WinAnsi text", () => {
+  const pdf = decode(
+    renderPdf(
+      [
+        { items: [{ kind: "text", x: 36, y: 50, text: "Revenue (€4.2M) \\ plan", size: 12 }] },
+        { items: [{ kind: "rect", x: 36, y: 60, width: 100, height: 10, fill: "#3B82F6" }] },
+      ],
+      { title: "Board pack" }
+    )
+  );
+  expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+  expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+  expect(pdf).toContain("/Type /Pages /Kids [6 0 R 8 0 R] /Count 2");
+  expect(pdf).toContain("(Revenue \\(\\2004.2M\\) \\\\ plan) Tj");
+
+  // Every xref entry points at the start of its object.
+  const xrefAt = pdf.lastIndexOf("\nxref\n") + 1;
+  const xref = pdf.slice(xrefAt);
+  const offsets = Array.from(xref.matchAll(/^(\d{10}) 00000 n $/gm), (m) => Number(m[1]));
+  expect(offsets).toHaveLength(9);
+  offsets.forEach((offset, idx) => expect(pdf.slice(offset, offset + 10)).toContain(`${idx + 1} 0 obj`));
+  expect(Number(/startxref\n(\d+)/.exec(pdf)?.[1])).toBe(xrefAt);
+});
+
+test("long tables continue on the next page under a repeated header", () => {
+  const rows = Array.from({ length: 60 }, (_, i) => [`Period ${i + 1}`, `$${i + 1}.0M`]);
+  const pages = layoutReport(
+    { title: "Sales Forecast", details: ["Filters: Region: EMEA"], generatedAt: new Date(2026, 0, 31, 9, 5) },
+    [{ title: "Forecast", tables: [{ columns: ["Period", "Revenue"], rows }] }]
+  );
+  const texts = pages.map((p) => p.items.flatMap((i) => (i.kind === "text" ? [i.text] : [])));
+
+  expect(pages).toHaveLength(2);
+  expect(texts[0]).toEqual(expect.arrayContaining(["Sales Forecast", "Filters: Region: EMEA", "Forecast", "Page 1 of 2"]));
+  expect(texts[1]).toEqual(expect.arrayContaining(["Forecast (continued)", "Period", "Revenue", "Period 60", "Page 2 of 2"]));
+  expect(texts[1]).toContain("Sales Forecast • 31 Jan 2026, 09:05");
+  expect(texts.flat().filter((t) => t.startsWith("Period ")).length).toBe(60);
+
+  // Figures are right-aligned, labels left-aligned.
+  const cell = (text: string) => pages[0].items.find((i) => i.kind === "text" && i.text === text);
+  expect(cell("$1.0M")).toMatchObject({ align: "right" });
+  expect(cell("Period 1")).toMatchObject({ align: "left" });
+});
+
+test("rendered tables are read back with their nested labels", () => {
+  document.body.innerHTML = `
+    <table>
+      <thead><tr><th>Region</th><th>Revenue</th></tr></thead>
+      <tbody>
+        <tr><td>EMEA<span>18% of total</span></td><td><span>€1.9M</span><span>$2.3M</span></td></tr>
+        <tr><td>APAC <select><option>Ignored</option></select></td><td></td></tr>
+      </tbody>
+    </table>`;
+  // React writes `{value}%` as two text nodes.
+  (document.querySelector("tbody tr:last-child td:last-child") as HTMLElement).append("71.6", "%");
+  expect(tableContents(document.querySelector("table") as HTMLTableElement)).toEqual({
+    columns: ["Region", "Revenue"],
+    rows: [
+      ["EMEA 18% of total", "€1.9M $2.3M"],
+      ["APAC", "71.6%"],
+    ],
+  });
+});
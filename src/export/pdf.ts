@@ -0,0 +1,185 @@
+import { RasterImage } from "./chartImage";
+
+/* =======================
+   PDF writer
+   =======================
+   Just enough of PDF 1.4 for a report: text in the standard Helvetica
+   fonts (no embedding needed), filled rectangles, lines and JPEG images.
+   Layout coordinates are in points from the top-left corner of the page;
+   they're flipped to PDF's bottom-left origin when written.
+*/
+
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfItem =
+  | { kind: "text"; x: number; y: number; text: string; size: number; font?: PdfFont; color?: string; align?: "left" | "right" }
+  | { kind: "image"; image: RasterImage; x: number; y: number; width: number; height: number }
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; color?: string; lineWidth?: number }
+  | { kind: "rect"; x: number; y: number; width: number; height: number; fill: string };
+
+export interface PdfPage {
+  items: PdfItem[];
+}
+
+/* -------- Text -------- */
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from the standard AFM.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for.
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+/** Byte codes of `text` in WinAnsiEncoding; anything it can't show becomes "?". */
+const encode = (text: string): number[] =>
+  Array.from(text.replace(/[\u00a0\u2009\u202f]/g, " ").replace(/\u2212/g, "-")).map((ch) => {
+    const code = ch.charCodeAt(0);
+    if (ch.length === 1 && ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff))) return code;
+    return WIN_ANSI[ch] ?? 0x3f;
+  });
+
+/**
+ * Width of `text` in points. Bold is approximated from the regular
+ * metrics, which is close enough for fitting table columns.
+ */
+export const textWidth = (text: string, size: number, font: PdfFont = "regular"): number => {
+  const units = encode(text).reduce((sum, code) => sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556), 0);
+  return (units * size * (font === "bold" ? 1.05 : 1)) / 1000;
+};
+
+/** `text` cut down to fit `width`, ending in an ellipsis when shortened. */
+export const fitText = (text: string, size: number, width: number, font: PdfFont = "regular"): string => {
+  if (textWidth(text, size, font) <= width) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.slice(0, end)}…`, size, font) > width) end--;
+  return end > 0 ? `${text.slice(0, end)}…` : "";
+};
+
+const pdfString = (text: string) =>
+  `(${encode(text)
+    .map((code) =>
+      code === 0x28 || code === 0x29 || code === 0x5c
+        ? `\\${String.fromCharCode(code)}`
+        : code > 0x7e
+        ? `\\${code.toString(8).padStart(3, "0")}`
+        : String.fromCharCode(code)
+    )
+    .join("")})`;
+
+/* -------- Writer -------- */
+
+const num = (v: number) => String(Math.round(v * 100) / 100);
+
+const rgb = (hex: string) => {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return m ? [m[1], m[2], m[3]].map((h) => num(parseInt(h, 16) / 255)).join(" ") : "0 0 0";
+};
+
+const bytes = (text: string) => Uint8Array.from(text, (ch) => ch.charCodeAt(0) & 0xff);
+
+const pdfDate = (d: Date) =>
+  `D:${d.getFullYear()}${[d.getMonth() + 1, d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds()]
+    .map((v) => String(v).padStart(2, "0"))
+    .join("")}`;
+
+/** The pages as a complete PDF file. */
+export const renderPdf = (
+  pages: PdfPage[],
+  info: { title?: string; createdAt?: Date } = {},
+  pageSize: { width: number; height: number } = A4_LANDSCAPE
+): Uint8Array => {
+  const images: RasterImage[] = [];
+  pages.forEach((p) => p.items.forEach((i) => i.kind === "image" && !images.includes(i.image) && images.push(i.image)));
+
+  // 1 catalog, 2 page tree, 3–4 fonts, 5 info, then images, then a page and its content stream per page.
+  const firstImage = 6;
+  const firstPage = firstImage + images.length;
+  const pageRef = (idx: number) => firstPage + idx * 2;
+  const flipY = (y: number) => pageSize.height - y;
+
+  const content = (page: PdfPage) =>
+    page.items
+      .map((item) => {
+        switch (item.kind) {
+          case "text": {
+            const font = item.font === "bold" ? "/F2" : "/F1";
+            const x = item.align === "right" ? item.x - textWidth(item.text, item.size, item.font) : item.x;
+            return `BT ${font} ${num(item.size)} Tf ${rgb(item.color ?? "#111827")} rg ${num(x)} ${num(flipY(item.y))} Td ${pdfString(item.text)} Tj ET`;
+          }
+          case "image":
+            return `q ${num(item.width)} 0 0 ${num(item.height)} ${num(item.x)} ${num(flipY(item.y + item.height))} cm /Im${images.indexOf(item.image) + 1} Do Q`;
+          case "line":
+            return `${rgb(item.color ?? "#D1D5DB")} RG ${num(item.lineWidth ?? 0.5)} w ${num(item.x1)} ${num(flipY(item.y1))} m ${num(item.x2)} ${num(flipY(item.y2))} l S`;
+          case "rect":
+            return `${rgb(item.fill)} rg ${num(item.x)} ${num(flipY(item.y + item.height))} ${num(item.width)} ${num(item.height)} re f`;
+          default:
+            return "";
+        }
+      })
+      .join("\n");
+
+  const objects: (string | Uint8Array)[][] = [
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    [`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageRef(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`],
+    ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"],
+    ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"],
+    [
+      `<< /Producer ${pdfString("Retail Analytics Dashboard")}${info.title ? ` /Title ${pdfString(info.title)}` : ""}` +
+        `${info.createdAt ? ` /CreationDate (${pdfDate(info.createdAt)})` : ""} >>`,
+    ],
+    ...images.map((img) => [
+      `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${img.data.length} >>\nstream\n`,
+      img.data,
+      "\nendstream",
+    ]),
+    ...pages.flatMap((page, i) => {
+      const xObjects = images
+        .map((img, idx) => (page.items.some((it) => it.kind === "image" && it.image === img) ? `/Im${idx + 1} ${firstImage + idx} 0 R` : ""))
+        .filter(Boolean)
+        .join(" ");
+      const stream = content(page);
+      return [
+        [
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize.width} ${pageSize.height}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ""} >> ` +
+            `/Contents ${pageRef(i) + 1} 0 R >>`,
+        ],
+        [`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`],
+      ];
+    }),
+  ];
+
+  const chunks: Uint8Array[] = [bytes("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((parts, idx) => {
+    offsets.push(offset);
+    [`${idx + 1} 0 obj\n`, ...parts, "\nendobj\n"].forEach((part) => {
+      const chunk = typeof part === "string" ? bytes(part) : part;
+      chunks.push(chunk);
+      offset += chunk.length;
+    });
+  });
+  chunks.push(
+    bytes(
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("")}` +
+        `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${offset}\n%%EOF\n`
+    )
+  );
+
+  const out = new Uint8Array(chunks.reduce((s, c) => s + c.length, 0));
+  chunks.reduce((pos, c) => {
+    out.set(c, pos);
+    return pos + c.length;
+  }, 0);
+  return out;
+};
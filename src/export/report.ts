@@ -0,0 +1,161 @@
+import { MONTH_NAMES } from "../analytics/periods";
+import { RasterImage } from "./chartImage";
+import { A4_LANDSCAPE, PdfItem, PdfPage, fitText, textWidth } from "./pdf";
+
+/* =======================
+   Board-pack report layout
+   =======================
+   Flows titled sections (a chart image and any tables) down A4 landscape
+   pages. The first page carries the report header; every page gets a
+   footer with the timestamp and page number. Tables that run past the
+   bottom of a page continue on the next one under a repeated header row.
+*/
+
+export interface ReportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ReportSection {
+  title: string;
+  image?: RasterImage;
+  tables: ReportTable[];
+}
+
+export interface ReportMeta {
+  title: string;
+  subtitle?: string;
+  /** Lines under the title: active filters, currency, calendar… */
+  details: string[];
+  generatedAt: Date;
+}
+
+const MARGIN = 36;
+const CONTENT_WIDTH = A4_LANDSCAPE.width - MARGIN * 2;
+const CONTENT_BOTTOM = A4_LANDSCAPE.height - MARGIN - 12;
+const MAX_IMAGE_HEIGHT = 380;
+const TABLE_FONT = 8;
+const ROW_HEIGHT = 13;
+const CELL_PADDING = 4;
+
+/** "31 Jan 2026, 09:05" in local time. */
+export const formatTimestamp = (d: Date) =>
+  `${d.getDate()} ${MONTH_NAMES[d.getMonth()]} ${d.getFullYear()}, ${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+
+const columnWidths = (table: ReportTable): number[] => {
+  const natural = table.columns.map((c, i) =>
+    Math.max(textWidth(c, TABLE_FONT, "bold"), ...table.rows.map((r) => textWidth(r[i] ?? "", TABLE_FONT))) + CELL_PADDING * 2
+  );
+  const total = natural.reduce((s, w) => s + w, 0);
+  return total > CONTENT_WIDTH ? natural.map((w) => (w * CONTENT_WIDTH) / total) : natural;
+};
+
+// Columns whose cells are mostly figures read better right-aligned.
+const numericColumns = (table: ReportTable): boolean[] =>
+  table.columns.map((_, i) => {
+    const cells = table.rows.map((r) => r[i] ?? "").filter((c) => c !== "" && c !== "—");
+    return i > 0 && cells.length > 0 && cells.filter((c) => /\d/.test(c)).length > cells.length / 2;
+  });
+
+export const layoutReport = (meta: ReportMeta, sections: ReportSection[]): PdfPage[] => {
+  const pages: PdfPage[] = [];
+  let items: PdfItem[] = [];
+  let y = MARGIN;
+
+  const newPage = () => {
+    items = [];
+    pages.push({ items });
+    y = MARGIN;
+  };
+  const fits = (height: number) => y + height <= CONTENT_BOTTOM;
+  const text = (value: string, x: number, size: number, extra: Partial<Extract<PdfItem, { kind: "text" }>> = {}) =>
+    items.push({ kind: "text", x, y, text: value, size, ...extra });
+
+  newPage();
+  y += 18;
+  text(meta.title, MARGIN, 18, { font: "bold" });
+  if (meta.subtitle) {
+    y += 16;
+    text(meta.subtitle, MARGIN, 11, { color: "#374151" });
+  }
+  meta.details.forEach((line) => {
+    y += 13;
+    text(fitText(line, 9, CONTENT_WIDTH), MARGIN, 9, { color: "#4B5563" });
+  });
+  y += 10;
+  items.push({ kind: "line", x1: MARGIN, y1: y, x2: MARGIN + CONTENT_WIDTH, y2: y, color: "#9CA3AF" });
+  y += 8;
+
+  const sectionTitle = (title: string) => {
+    y += 16;
+    text(title, MARGIN, 12, { font: "bold" });
+    y += 8;
+  };
+
+  const tableRow = (cells: string[], widths: number[], numeric: boolean[], font: "regular" | "bold" = "regular") => {
+    let x = MARGIN;
+    widths.forEach((w, i) => {
+      const value = fitText(cells[i] ?? "", TABLE_FONT, w - CELL_PADDING * 2, font);
+      items.push({
+        kind: "text",
+        x: numeric[i] ? x + w - CELL_PADDING : x + CELL_PADDING,
+        y: y + ROW_HEIGHT - 3.5,
+        text: value,
+        size: TABLE_FONT,
+        font,
+        align: numeric[i] ? "right" : "left",
+      });
+      x += w;
+    });
+    y += ROW_HEIGHT;
+    items.push({ kind: "line", x1: MARGIN, y1: y, x2: x, y2: y, color: "#E5E7EB" });
+  };
+
+  const tableHeader = (table: ReportTable, widths: number[], numeric: boolean[]) => {
+    items.push({ kind: "rect", x: MARGIN, y, width: widths.reduce((s, w) => s + w, 0), height: ROW_HEIGHT, fill: "#F3F4F6" });
+    tableRow(table.columns, widths, numeric, "bold");
+  };
+
+  sections.forEach((section) => {
+    const image = section.image;
+    // Charts are captured at 2× so their CSS size is half the pixel size.
+    const scale = image ? Math.min(1, CONTENT_WIDTH / (image.width / 2), MAX_IMAGE_HEIGHT / (image.height / 2)) : 0;
+    const imageHeight = image ? (image.height / 2) * scale : 0;
+    const firstBlock = image ? imageHeight : section.tables.length ? ROW_HEIGHT * 3 : 0;
+    if (!fits(24 + firstBlock)) newPage();
+    sectionTitle(section.title);
+
+    if (image) {
+      items.push({ kind: "image", image, x: MARGIN, y, width: (image.width / 2) * scale, height: imageHeight });
+      y += imageHeight + 8;
+    }
+
+    section.tables.forEach((table) => {
+      const widths = columnWidths(table);
+      const numeric = numericColumns(table);
+      if (!fits(ROW_HEIGHT * 3)) {
+        newPage();
+        sectionTitle(`${section.title} (continued)`);
+      }
+      tableHeader(table, widths, numeric);
+      table.rows.forEach((row) => {
+        if (!fits(ROW_HEIGHT)) {
+          newPage();
+          sectionTitle(`${section.title} (continued)`);
+          tableHeader(table, widths, numeric);
+        }
+        tableRow(row, widths, numeric);
+      });
+      y += 10;
+    });
+  });
+
+  const footer = `${meta.title} • ${formatTimestamp(meta.generatedAt)}`;
+  pages.forEach((page, idx) =>
+    page.items.push(
+      { kind: "text", x: MARGIN, y: A4_LANDSCAPE.height - 20, text: footer, size: 8, color: "#6B7280" },
+      { kind: "text", x: A4_LANDSCAPE.width - MARGIN, y: A4_LANDSCAPE.height - 20, text: `Page ${idx + 1} of ${pages.length}`, size: 8, color: "#6B7280", align: "right" }
+    )
+  );
+  return pages;
+};
@@ -0,0 +1,45 @@
+import { MonthData } from "../types";
+import { backtestModel, computeAccuracy } from "./backtest";
+import { toMonthKey } from "../analytics/periods";
+
+const history = (values: number[]): MonthData[] =>
+  values.map((revenue, t) => ({
+    month: `M${t + 1}`,
+    date: toMonthKey(2023, t),
+    revenue,
+    units: 0,
+    grossMargin: 0.7,
+    conversionRate: 0.03,
+    avgOrderValue: 300,
+    trafficSources: { organic: 0, paid: 0, social: 0, email: 0, direct: 0 },
+  }));
+
+test("computeAccuracy returns MAE, MAPE, RMSE and coverage", () => {
+  const m = computeAccuracy([
+    { actual: 100, forecast: 90, low: 80, high: 95 },
+    { actual: 200, forecast: 230, low: 150, high: 250 },
+  ]);
+  expect(m.mae).toBe(20);
+  expect(m.mape).toBeCloseTo((0.1 + 0.15) / 2);
+  expect(m.rmse).toBeCloseTo(Math.sqrt((100 + 900) / 2));
+  expect(m.coverage).toBe(0.5);
+  expect(m.count).toBe(2);
+});
+
+test("rolling-origin folds never see the months they score", () => {
+  // A perfectly repeating season: seasonal naive should be error-free on every fold.
+  const season = [5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
+  const values = [...season, ...season, ...season];
+  const result = backtestModel(history(values), "seasonalNaive", { horizon: 3, minTrain: 24 });
+  expect(result.folds.map((f) => f.trainSize)).toEqual([24, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35]);
+  expect(result.folds[0].originLabel).toBe("M25");
+  expect(result.folds[11].points).toHaveLength(1);
+  expect(result.overall?.mae).toBe(0);
+});
+
+test("reports when history is too short to backtest", () => {
+  const result = backtestModel(history(Array(20).fill(1)), "holtWinters");
+  expect(result.folds).toEqual([]);
+  expect(result.overall).toBeNull();
+  expect(result.unavailableReason).toMatch(/at least 25 months/);
+});
@@ -0,0 +1,112 @@
+import { MonthData } from "../types";
+import { ForecastOptions, SEASONAL_PERIOD, runForecast } from "./engine";
+import { FORECAST_MODELS, ForecastModelId } from "./models";
+
+/* =======================
+   Rolling-origin backtest
+   =======================
+   For each origin the model is fitted on everything before it and scored
+   on the next `horizon` actuals. Origins advance by `step` months.
+*/
+
+export interface AccuracyMetrics {
+  mae: number;              // $
+  mape: number;             // 0..1
+  rmse: number;             // $
+  coverage: number;         // 0..1 share of actuals inside the interval
+  count: number;            // number of scored forecasts
+}
+
+export interface BacktestFold extends AccuracyMetrics {
+  originLabel: string;      // first forecast month of the fold
+  trainSize: number;
+  points: { month: string; actual: number; forecast: number; low: number; high: number }[];
+}
+
+export interface BacktestResult {
+  modelId: ForecastModelId;
+  folds: BacktestFold[];
+  overall: AccuracyMetrics | null;
+  unavailableReason?: string;
+}
+
+export interface BacktestOptions extends Pick<ForecastOptions, "level" | "period"> {
+  horizon?: number;
+  step?: number;
+  /** First training size; defaults to the largest minimum history across models. */
+  minTrain?: number;
+}
+
+export const computeAccuracy = (
+  points: { actual: number; forecast: number; low: number; high: number }[]
+): AccuracyMetrics => {
+  const count = points.length;
+  if (count === 0) return { mae: NaN, mape: NaN, rmse: NaN, coverage: NaN, count };
+  let absSum = 0;
+  let pctSum = 0;
+  let pctCount = 0;
+  let sqSum = 0;
+  let inside = 0;
+  points.forEach(({ actual, forecast, low, high }) => {
+    const err = actual - forecast;
+    absSum += Math.abs(err);
+    sqSum += err * err;
+    if (actual !== 0) {
+      pctSum += Math.abs(err / actual);
+      pctCount++;
+    }
+    if (actual >= low && actual <= high) inside++;
+  });
+  return {
+    mae: absSum / count,
+    mape: pctCount ? pctSum / pctCount : NaN,
+    rmse: Math.sqrt(sqSum / count),
+    coverage: inside / count,
+    count,
+  };
+};
+
+/** Smallest training window every model can be fitted on. */
+export const defaultMinTrain = (period = SEASONAL_PERIOD) =>
+  Math.max(...Object.values(FORECAST_MODELS).map((m) => m.minHistory(period)));
+
+export const backtestModel = (
+  history: MonthData[],
+  modelId: ForecastModelId,
+  options: BacktestOptions = {}
+): BacktestResult => {
+  const { horizon = 3, step = 1, level = 0.9, period = SEASONAL_PERIOD } = options;
+  const minTrain = Math.max(options.minTrain ?? defaultMinTrain(period), FORECAST_MODELS[modelId].minHistory(period));
+
+  if (history.length < minTrain + 1) {
+    return {
+      modelId,
+      folds: [],
+      overall: null,
+      unavailableReason: `Backtesting needs at least ${minTrain + 1} months of history (have ${history.length})`,
+    };
+  }
+
+  const folds: BacktestFold[] = [];
+  for (let origin = minTrain; origin < history.length; origin += step) {
+    const actuals = history.slice(origin, origin + horizon);
+    const { points: forecast } = runForecast(history.slice(0, origin), modelId, {
+      horizon: actuals.length,
+      level,
+      period,
+    });
+    const points = actuals.map((a, i) => ({
+      month: a.month,
+      actual: a.revenue,
+      forecast: forecast[i].revenue,
+      low: forecast[i].forecastLow,
+      high: forecast[i].forecastHigh,
+    }));
+    folds.push({ originLabel: actuals[0].month, trainSize: origin, points, ...computeAccuracy(points) });
+  }
+
+  return { modelId, folds, overall: computeAccuracy(folds.flatMap((f) => f.points)) };
+};
+
+export const backtestAllModels = (history: MonthData[], options: BacktestOptions = {}): BacktestResult[] =>
+  (Object.keys(FORECAST_MODELS) as ForecastModelId[]).map((id) => backtestModel(history, id, options));
@@ -0,0 +1,62 @@
+import { MonthData } from "../types";
+import { runForecast } from "./engine";
+import { monthLabel, toMonthKey } from "../analytics/periods";
+import { FORECAST_MODELS } from "./models";
+
+const SEASON = [0.8, 0.85, 0.9, 0.95, 1.0, 1.05, 1.2, 1.17, 1.14, 1.11, 1.5, 1.6];
+
+const series = (years: number, growthPerMonth = 2_000): number[] =>
+  Array.from({ length: years * 12 }, (_, t) => (100_000 + growthPerMonth * t) * SEASON[t % 12]);
+
+const toHistory = (values: number[]): MonthData[] =>
+  values.map((revenue, t) => ({
+    month: monthLabel(toMonthKey(2023, t)),
+    date: toMonthKey(2023, t),
+    revenue,
+    units: 0,
+    grossMargin: 0.7,
+    conversionRate: 0.03,
+    avgOrderValue: 300,
+    trafficSources: { organic: 0, paid: 0, social: 0, email: 0, direct: 0 },
+  }));
+
+test("seasonal naive repeats the last season", () => {
+  const y = series(2);
+  const fit = FORECAST_MODELS.seasonalNaive.fit(y, 12);
+  expect(fit.predict(14)).toEqual([...y.slice(12), ...y.slice(12, 14)]);
+  expect(fit.spread(13)).toBeCloseTo(Math.SQRT2);
+});
+
+test("linear trend + seasonality recovers an additive series exactly", () => {
+  const additive = Array.from({ length: 36 }, (_, t) => 50_000 + 1_000 * t + SEASON[t % 12] * 10_000);
+  const forecast = FORECAST_MODELS.linearSeasonal.fit(additive, 12).predict(3);
+  [36, 37, 38].forEach((t, i) => expect(forecast[i]).toBeCloseTo(50_000 + 1_000 * t + SEASON[t % 12] * 10_000, 6));
+});
+
+test("holt-winters tracks a multiplicative seasonal series", () => {
+  const y = series(3);
+  const truth = series(4).slice(36);
+  const forecast = FORECAST_MODELS.holtWinters.fit(y, 12).predict(12);
+  forecast.forEach((f, i) => expect(Math.abs(f - truth[i]) / truth[i]).toBeLessThan(0.05));
+});
+
+test("runForecast builds labelled points with residual-based intervals", () => {
+  const noisy = series(3).map((v, t) => v * (t % 2 === 0 ? 1.03 : 0.97));
+  const result = runForecast(toHistory(noisy), "seasonalNaive", { horizon: 13 });
+  expect(result.points).toHaveLength(13);
+  expect(result.points[0].month).toBe("Jan '26 (F)");
+  expect(result.points[12].date).toBe("2027-01-01");
+  expect(result.residualSd).toBeGreaterThan(0);
+  const width = (i: number) => result.points[i].forecastHigh - result.points[i].forecastLow;
+  expect(width(12) / result.residualSd).toBeGreaterThan(width(0) / result.residualSd);
+  result.points.forEach((p) => {
+    expect(p.forecastLow).toBeLessThanOrEqual(p.revenue);
+    expect(p.forecastHigh).toBeGreaterThanOrEqual(p.revenue);
+  });
+});
+
+test("runForecast explains when there is too little history", () => {
+  const result = runForecast(toHistory(series(1)), "holtWinters");
+  expect(result.points).toEqual([]);
+  expect(result.unavailableReason).toMatch(/at least 24 months/);
+});
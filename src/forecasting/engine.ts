@@ -0,0 +1,73 @@
+import { ForecastPoint, MonthData } from "../types";
+import { addMonths, monthLabel } from "../analytics/periods";
+import { forecastBand } from "../analytics/metrics";
+import { FORECAST_MODELS, ForecastModelId } from "./models";
+
+export const SEASONAL_PERIOD = 12;
+
+// Two-sided normal quantiles for the interval levels we offer.
+const Z_SCORES: Record<string, number> = { "0.8": 1.2816, "0.9": 1.6449, "0.95": 1.96 };
+
+export interface ForecastOptions {
+  horizon?: number;
+  /** Prediction interval coverage, e.g. 0.9 for a 90% interval. */
+  level?: 0.8 | 0.9 | 0.95;
+  period?: number;
+  /** Axis label for a period key; defaults to calendar month labels. */
+  labelFor?: (periodKey: string) => string;
+}
+
+export interface ForecastResult {
+  modelId: ForecastModelId;
+  points: ForecastPoint[];
+  /** Standard deviation of the in-sample one-step residuals. */
+  residualSd: number;
+  /** Why the model could not run, when `points` is empty. */
+  unavailableReason?: string;
+}
+
+/** Fits the chosen model to monthly revenue and returns points with prediction intervals. */
+export const runForecast = (
+  history: MonthData[],
+  modelId: ForecastModelId,
+  options: ForecastOptions = {}
+): ForecastResult => {
+  const { horizon = 12, level = 0.9, period = SEASONAL_PERIOD, labelFor = monthLabel } = options;
+  const model = FORECAST_MODELS[modelId];
+  const series = history.map((m) => m.revenue);
+  const required = model.minHistory(period);
+
+  if (series.length < required) {
+    return {
+      modelId,
+      points: [],
+      residualSd: NaN,
+      unavailableReason: `${model.name} needs at least ${required} months of history (have ${series.length})`,
+    };
+  }
+
+  const fit = model.fit(series, period);
+  const residuals = fit.fitted
+    .map((f, t) => (f === null ? null : series[t] - f))
+    .filter((r): r is number => r !== null);
+  const dof = Math.max(residuals.length - fit.parameters, 1);
+  const residualSd = Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / dof);
+  const z = Z_SCORES[String(level)];
+
+  const lastDate = history[history.length - 1].date;
+  const points = fit.predict(horizon).map((value, i) => {
+    const revenue = Math.max(0, value);
+    const band = forecastBand(revenue, z * residualSd * fit.spread(i + 1));
+    const date = addMonths(lastDate, i + 1);
+    return {
+      month: `${labelFor(date)} (F)`,
+      date,
+      revenue: Math.round(revenue),
+      forecastHigh: Math.round(band.high),
+      forecastLow: Math.round(band.low),
+      confidence: band.confidence,
+    };
+  });
+
+  return { modelId, points, residualSd };
+};
@@ -0,0 +1,159 @@
+/* =======================
+   Forecasting models
+   =======================
+   Every model fits a univariate series with a known seasonal period and
+   returns its one-step-ahead fitted values (for residuals) plus a point
+   forecast and a per-horizon multiplier for the residual standard deviation.
+*/
+
+export type ForecastModelId = "seasonalNaive" | "holtWinters" | "linearSeasonal";
+
+export interface FittedModel {
+  /** One-step-ahead in-sample predictions; null where the model has no estimate yet. */
+  fitted: (number | null)[];
+  /** Point forecasts for steps 1..horizon after the end of the series. */
+  predict: (horizon: number) => number[];
+  /** How much wider than the one-step interval the h-step interval is. */
+  spread: (h: number) => number;
+  /** Number of estimated parameters, used as degrees-of-freedom correction. */
+  parameters: number;
+}
+
+export interface ForecastModel {
+  id: ForecastModelId;
+  name: string;
+  description: string;
+  minHistory: (period: number) => number;
+  fit: (series: number[], period: number) => FittedModel;
+}
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+/* -------- Seasonal naive: next Jan = last Jan -------- */
+const seasonalNaive: ForecastModel = {
+  id: "seasonalNaive",
+  name: "Seasonal Naive",
+  description: "Repeats the same month of the previous year",
+  minHistory: (m) => m + 1,
+  fit: (y, m) => {
+    const n = y.length;
+    return {
+      fitted: y.map((_, t) => (t >= m ? y[t - m] : null)),
+      predict: (h) => Array.from({ length: h }, (_, i) => y[n - m + (i % m)]),
+      spread: (h) => Math.sqrt(Math.floor((h - 1) / m) + 1),
+      parameters: 0,
+    };
+  },
+};
+
+/* -------- Holt-Winters (multiplicative seasonality, additive trend) -------- */
+interface HoltWintersState {
+  fitted: (number | null)[];
+  level: number;
+  trend: number;
+  season: number[];
+  sse: number;
+}
+
+const runHoltWinters = (y: number[], m: number, alpha: number, beta: number, gamma: number): HoltWintersState => {
+  const first = y.slice(0, m);
+  const second = y.slice(m, 2 * m);
+  // Initial state describes the end of the first season: level sits at t = m - 1.
+  let trend = (mean(second) - mean(first)) / m;
+  const centre = (m - 1) / 2;
+  const season = first.map((v, i) => {
+    const base = mean(first) + trend * (i - centre);
+    return base === 0 ? 1 : v / base;
+  });
+  let level = mean(first) + trend * centre;
+  const fitted: (number | null)[] = y.map(() => null);
+  let sse = 0;
+
+  for (let t = m; t < y.length; t++) {
+    const s = season[t - m];
+    const prediction = (level + trend) * s;
+    fitted[t] = prediction;
+    sse += (y[t] - prediction) ** 2;
+
+    const prevLevel = level;
+    level = alpha * (s === 0 ? y[t] : y[t] / s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    season.push(gamma * (level === 0 ? 1 : y[t] / level) + (1 - gamma) * s);
+  }
+  return { fitted, level, trend, season, sse };
+};
+
+const SMOOTHING_GRID = [0.05, 0.2, 0.35, 0.5, 0.65, 0.8, 0.95];
+
+const holtWinters: ForecastModel = {
+  id: "holtWinters",
+  name: "Holt-Winters",
+  description: "Triple exponential smoothing (level, trend, multiplicative seasonality)",
+  minHistory: (m) => 2 * m,
+  fit: (y, m) => {
+    // Grid search the smoothing parameters on in-sample one-step error.
+    let best = { alpha: 0.5, beta: 0.05, gamma: 0.2, state: runHoltWinters(y, m, 0.5, 0.05, 0.2) };
+    SMOOTHING_GRID.forEach((alpha) =>
+      SMOOTHING_GRID.forEach((beta) =>
+        SMOOTHING_GRID.forEach((gamma) => {
+          const state = runHoltWinters(y, m, alpha, beta, gamma);
+          if (state.sse < best.state.sse) best = { alpha, beta, gamma, state };
+        })
+      )
+    );
+
+    const { fitted, level, trend, season } = best.state;
+    const n = y.length;
+    return {
+      fitted,
+      predict: (h) =>
+        Array.from({ length: h }, (_, i) => (level + (i + 1) * trend) * season[n - m + (i % m)]),
+      spread: (h) => Math.sqrt(1 + (h - 1) * best.alpha ** 2 * (1 + h * best.beta)),
+      parameters: 3,
+    };
+  },
+};
+
+/* -------- Linear trend + monthly seasonal intercepts (OLS) -------- */
+const linearSeasonal: ForecastModel = {
+  id: "linearSeasonal",
+  name: "Linear Trend + Seasonality",
+  description: "Least-squares trend with a separate intercept for each month",
+  minHistory: (m) => m + 2,
+  fit: (y, m) => {
+    const n = y.length;
+    const groups = Array.from({ length: m }, (_, s) => y.map((_, t) => t).filter((t) => t % m === s));
+    const tBar = groups.map((ts) => (ts.length ? mean(ts) : 0));
+    const yBar = groups.map((ts) => (ts.length ? mean(ts.map((t) => y[t])) : 0));
+
+    // Common slope across months: pooled within-group covariance / variance.
+    let sxy = 0;
+    let sxx = 0;
+    groups.forEach((ts, s) =>
+      ts.forEach((t) => {
+        sxy += (t - tBar[s]) * (y[t] - yBar[s]);
+        sxx += (t - tBar[s]) ** 2;
+      })
+    );
+    const slope = sxx === 0 ? 0 : sxy / sxx;
+    const intercept = yBar.map((yb, s) => yb - slope * tBar[s]);
+    const at = (t: number) => intercept[t % m] + slope * t;
+
+    return {
+      fitted: y.map((_, t) => at(t)),
+      predict: (h) => Array.from({ length: h }, (_, i) => at(n + i)),
+      spread: (h) => {
+        const t0 = n + h - 1;
+        const s = t0 % m;
+        return Math.sqrt(1 + 1 / Math.max(groups[s].length, 1) + (t0 - tBar[s]) ** 2 / Math.max(sxx, 1));
+      },
+      parameters: m + 1,
+    };
+  },
+};
+
+export const FORECAST_MODELS: Record<ForecastModelId, ForecastModel> = {
+  seasonalNaive,
+  holtWinters,
+  linearSeasonal,
+};
@@ -0,0 +1,94 @@
+import { MonthData } from "../types";
+import { KpiSummary } from "../analytics/kpis";
+import { generateInsights, insightsForTab } from "./insights";
+
+const month = (date: string, revenue: number, label: string): MonthData => ({
+  month: label,
+  date,
+  revenue,
+  units: 0,
+  grossMargin: 0.7,
+  conversionRate: 0.03,
+  avgOrderValue: 300,
+  trafficSources: { organic: 0, paid: 0, social: 0, email: 0, direct: 0 },
+});
+
+const kpis: KpiSummary = { totalRevenue: 1_120_000, avgGrossMargin: 0.68, avgConversionRate: 0.03, avgOrderValue: 300, months: 12 };
+const base = {
+  kpis,
+  yoy: { ...kpis, totalRevenue: 1_000_000, avgGrossMargin: 0.7 },
+  windowLabel: "12M",
+  latest: month("2025-03-01", 112_000, "Mar '25"),
+  previous: month("2025-02-01", 100_000, "Feb '25"),
+  showMargin: true,
+};
+
+test("explains the period-over-period move with the category behind it, ranked by materiality", () => {
+  const insights = generateInsights({
+    ...base,
+    categoryMoves: {
+      latest: [
+        { name: "Footwear", revenue: 40_000, margin: 0.6, growth: 0 },
+        { name: "Apparel", revenue: 72_000, margin: 0.6, growth: 0 },
+      ],
+      previous: [
+        { name: "Footwear", revenue: 30_000, margin: 0.6, growth: 0 },
+        { name: "Apparel", revenue: 70_000, margin: 0.6, growth: 0 },
+      ],
+    },
+  });
+  expect(insights[0].text).toBe("Revenue up 12% MoM (Mar '25 vs Feb '25), driven by Footwear (+$10K)");
+  expect(insights[0].tone).toBe("positive");
+  expect(insights.map((i) => i.text)).toContain("Gross margin 68.0%, down 2.0pp YoY");
+  // Figures that haven't moved say nothing.
+  expect(insights.map((i) => i.id)).not.toContain("conversionRate-yoy");
+});
+
+test("masked margin and missing inputs leave their rules out", () => {
+  const ids = generateInsights({ ...base, showMargin: false, planVariances: { grossMargin: -0.03, revenue: -0.06 } }).map((i) => i.id);
+  expect(ids).not.toContain("grossMargin-yoy");
+  expect(ids).not.toContain("plan-grossMargin");
+  expect(ids).toContain("plan-revenue");
+  expect(ids.some((id) => id.startsWith("category") || id.startsWith("campaign") || id === "segment-mix")).toBe(false);
+});
+
+test("categories, campaigns and segments each give the 5P's tab its commentary", () => {
+  const insights = generateInsights({
+    ...base,
+    categories: [
+      { name: "Handbags", revenue: 500_000, margin: 0.7, growth: 0.15 },
+      { name: "Apparel", revenue: 200_000, margin: 0.6, growth: -0.08 },
+    ],
+    campaigns: [
+      { campaign: "Email", roi: 6.5, spend: 10_000 },
+      { campaign: "Social", roi: 0.8, spend: 20_000 },
+    ],
+    segments: [
+      { segment: "Champions", count: 0.12, revenue: 0.45 },
+      { segment: "New", count: 0.5, revenue: 0.2 },
+    ],
+  });
+  const texts = insightsForTab(insights, "5ps", 10).map((i) => i.text);
+  expect(texts).toEqual(
+    expect.arrayContaining([
+      "Handbags leads category growth at +15% YoY ($500K)",
+      "Apparel is the weakest category, down 8.0% YoY ($200K)",
+      "Email ROI 6.5x leads campaigns (average 2.7x)",
+      "Social returns 0.8x, below break-even on $20K spend",
+      "The Champions segment is 12% of customers but 45% of revenue",
+    ])
+  );
+  expect(insightsForTab(insights, "forecast")).toEqual([]);
+  expect(insightsForTab(insights, "dashboard", 3)).toHaveLength(3);
+});
+
+test("the forecast tab leads with the forecast against last year", () => {
+  const [first] = insightsForTab(
+    generateInsights({
+      ...base,
+      forecast: { revenue: 330_000, periods: 3, lastYearRevenue: 300_000, model: "Holt-Winters", accuracy: 0.92 },
+    }),
+    "forecast"
+  );
+  expect(first.text).toBe("Forecast $330K over the next 3 periods, up 10% on the same periods last year (Holt-Winters, 92% backtest accuracy)");
+});
@@ -0,0 +1,271 @@
+import { CampaignROI, CategoryPerf, MonthData, Segment, TabId } from "../types";
+import { KpiSummary } from "../analytics/kpis";
+import { formatChange, formatMultiple, formatPercent, formatPoints, pctChange, proseDigits } from "../analytics/metrics";
+import { KPI_THRESHOLDS, TargetMetric } from "../targets/status";
+import { DEFAULT_CURRENCY, formatCompact } from "../currency/format";
+
+/* =======================
+   Narrative insights
+   =======================
+   Plain-English commentary from rules over the KPIs, period-over-period
+   change, categories, campaigns and customer segments. Each rule scores
+   its finding by how far the change is past what counts as material for
+   that figure, times how much the figure matters, so the tab can lead
+   with the biggest story. Rules skip anything their inputs don't support.
+*/
+
+export type InsightTone = "positive" | "negative" | "neutral";
+
+export interface Insight {
+  id: string;
+  /** Tabs the commentary belongs on. */
+  tabs: TabId[];
+  text: string;
+  tone: InsightTone;
+  score: number;
+}
+
+export interface InsightInput {
+  currency?: string;
+  /** KPIs over the window, and the same window a year earlier when complete. */
+  kpis: KpiSummary;
+  yoy: KpiSummary | null;
+  /** "12M", or the number of periods in the selected range. */
+  windowLabel: string;
+  latest?: MonthData;
+  previous?: MonthData;
+  /** The latest period is still receiving live actuals. */
+  latestInProgress?: boolean;
+  /** Category results for the latest and previous periods, to explain the period-over-period move. */
+  categoryMoves?: { latest: CategoryPerf[]; previous: CategoryPerf[] };
+  /** Categories over the window, with YoY growth. */
+  categories?: CategoryPerf[];
+  campaigns?: CampaignROI[];
+  segments?: Segment[];
+  /** Variance to plan (relative for money, percentage points for rates). */
+  planVariances?: Partial<Record<TargetMetric, number>>;
+  forecast?: { revenue: number; periods: number; lastYearRevenue?: number; model: string; accuracy: number | null };
+  /** False when the user's role masks margin. */
+  showMargin: boolean;
+}
+
+const METRIC_NAMES: Record<TargetMetric, string> = {
+  revenue: "Revenue",
+  grossMargin: "Gross margin",
+  conversionRate: "Conversion rate",
+  avgOrderValue: "Average order value",
+};
+
+/** Change that counts as material: relative for money, percentage points for rates. */
+const MATERIAL: Record<TargetMetric, number> = { revenue: 0.05, grossMargin: 0.01, conversionRate: 0.002, avgOrderValue: 0.03 };
+const WEIGHT: Record<TargetMetric, number> = { revenue: 3, grossMargin: 2, conversionRate: 1.5, avgOrderValue: 1 };
+const MAX_MATERIALITY = 3;
+
+const materiality = (change: number, material: number) => Math.min(Math.abs(change) / material, MAX_MATERIALITY);
+const toneOf = (change: number): InsightTone => (change > 0 ? "positive" : change < 0 ? "negative" : "neutral");
+const direction = (change: number) => (change >= 0 ? "up" : "down");
+/** Size of a change for prose: "12%", "2.4%" or "0.3pp". */
+const magnitude = (change: number, kind: "pct" | "pp" = "pct") =>
+  kind === "pp" ? formatPoints(Math.abs(change)) : formatPercent(Math.abs(change), proseDigits(change));
+/** "up 12%" or "down 0.3pp". */
+const movement = (change: number, kind: "pct" | "pp" = "pct") => `${direction(change)} ${magnitude(change, kind)}`;
+const changeText = (metric: TargetMetric, change: number) => movement(change, KPI_THRESHOLDS[metric].kind);
+const levelText = (metric: TargetMetric, value: number, currency: string) =>
+  metric === "grossMargin" || metric === "conversionRate"
+    ? `${formatPercent(value, metric === "conversionRate" ? 2 : 1)}`
+    : formatCompact(value, currency, metric === "revenue" ? 1 : 0);
+
+/** The category whose move did most in the direction of the total. */
+const driverOf = (moves: NonNullable<InsightInput["categoryMoves"]>, totalChange: number) => {
+  const previous = new Map(moves.previous.map((c) => [c.name, c.revenue]));
+  const names = new Set([...moves.latest.map((c) => c.name), ...moves.previous.map((c) => c.name)]);
+  const latest = new Map(moves.latest.map((c) => [c.name, c.revenue]));
+  return Array.from(names)
+    .map((name) => ({ name, delta: (latest.get(name) ?? 0) - (previous.get(name) ?? 0) }))
+    .filter((c) => Math.sign(c.delta) === Math.sign(totalChange) && c.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))[0];
+};
+
+const revenueInsights = (input: InsightInput, currency: string): Insight[] => {
+  const out: Insight[] = [];
+  const { latest, previous, kpis, yoy } = input;
+  const mom = latest && previous ? pctChange(latest.revenue, previous.revenue) : null;
+  if (latest && previous && mom !== null) {
+    const driver = input.categoryMoves ? driverOf(input.categoryMoves, latest.revenue - previous.revenue) : undefined;
+    const drivenBy = driver ? `, driven by ${driver.name} (${driver.delta >= 0 ? "+" : "-"}${formatCompact(Math.abs(driver.delta), currency)})` : "";
+    out.push({
+      id: "revenue-mom",
+      tabs: ["dashboard", "variance"],
+      text: `Revenue ${movement(mom)} MoM (${latest.month} vs ${previous.month}${input.latestInProgress ? ", period in progress" : ""})${drivenBy}`,
+      // A period still in progress isn't a like-for-like comparison yet.
+      tone: input.latestInProgress ? "neutral" : toneOf(mom),
+      score: WEIGHT.revenue * materiality(mom, MATERIAL.revenue) * (input.latestInProgress ? 0.5 : 1),
+    });
+  }
+  const growth = pctChange(kpis.totalRevenue, yoy?.totalRevenue);
+  if (growth !== null) {
+    out.push({
+      id: "revenue-yoy",
+      tabs: ["dashboard"],
+      text: `Revenue ${movement(growth)} YoY over the ${input.windowLabel} window, at ${formatCompact(kpis.totalRevenue, currency)}`,
+      tone: toneOf(growth),
+      score: WEIGHT.revenue * materiality(growth, MATERIAL.revenue),
+    });
+  }
+  return out;
+};
+
+/** Margin, conversion and order value against last year, or the previous period without one. */
+const rateInsights = (input: InsightInput, currency: string): Insight[] => {
+  const metrics: ("grossMargin" | "conversionRate" | "avgOrderValue")[] = ["grossMargin", "conversionRate", "avgOrderValue"];
+  const kpiKey = { grossMargin: "avgGrossMargin", conversionRate: "avgConversionRate", avgOrderValue: "avgOrderValue" } as const;
+  return metrics
+    .filter((metric) => input.showMargin || metric !== "grossMargin")
+    .flatMap((metric): Insight[] => {
+      const relative = KPI_THRESHOLDS[metric].kind === "pct";
+      const compare = (current: number, base: number) => (relative ? pctChange(current, base) : current - base);
+      const { yoy, latest, previous } = input;
+      const value = input.kpis[kpiKey[metric]];
+      const change = yoy ? compare(value, yoy[kpiKey[metric]]) : latest && previous ? compare(latest[metric], previous[metric]) : null;
+      if (change === null) return [];
+      const level = levelText(metric, yoy ? value : (latest as MonthData)[metric], currency);
+      return [
+        {
+          id: `${metric}-${yoy ? "yoy" : "mom"}`,
+          tabs: ["dashboard"],
+          text: `${METRIC_NAMES[metric]} ${level}, ${changeText(metric, change)} ${yoy ? "YoY" : "MoM"}`,
+          tone: toneOf(change),
+          score: WEIGHT[metric] * materiality(change, MATERIAL[metric]),
+        },
+      ];
+    });
+};
+
+const planInsights = (input: InsightInput): Insight[] =>
+  (Object.entries(input.planVariances ?? {}) as [TargetMetric, number][])
+    .filter(([metric]) => input.showMargin || metric !== "grossMargin")
+    .map(([metric, variance]) => {
+      const amount = magnitude(variance, KPI_THRESHOLDS[metric].kind);
+      return {
+        id: `plan-${metric}`,
+        tabs: ["dashboard", "variance"],
+        text: `${METRIC_NAMES[metric]} ${amount} ${variance >= 0 ? "ahead of" : "behind"} plan`,
+        tone: toneOf(variance),
+        score: WEIGHT[metric] * materiality(variance, Math.abs(KPI_THRESHOLDS[metric].offTrack)),
+      };
+    });
+
+const CATEGORY_MATERIAL = 0.1;
+
+const categoryInsights = (categories: CategoryPerf[], currency: string): Insight[] => {
+  // Growth is 0 when last year is incomplete; those categories can't be ranked.
+  const ranked = categories.filter((c) => c.growth !== 0 && c.revenue > 0).sort((a, b) => b.growth - a.growth);
+  if (ranked.length < 2) return [];
+  const leader = ranked[0];
+  const laggard = ranked[ranked.length - 1];
+  const out: Insight[] = [
+    {
+      id: "category-leader",
+      tabs: ["dashboard", "5ps"],
+      text: `${leader.name} leads category growth at ${formatChange(leader.growth, "pct", proseDigits(leader.growth))} YoY (${formatCompact(leader.revenue, currency)})`,
+      tone: toneOf(leader.growth),
+      score: 2 * materiality(leader.growth, CATEGORY_MATERIAL),
+    },
+  ];
+  if (laggard.growth < 0) {
+    out.push({
+      id: "category-laggard",
+      tabs: ["dashboard", "5ps"],
+      text: `${laggard.name} is the weakest category, ${movement(laggard.growth)} YoY (${formatCompact(laggard.revenue, currency)})`,
+      tone: "negative",
+      score: 2 * materiality(laggard.growth, CATEGORY_MATERIAL),
+    });
+  }
+  return out;
+};
+
+/** ROI above or below the spend-weighted average by this much is worth a mention. */
+const ROI_MATERIAL = 0.25;
+
+const campaignInsights = (campaigns: CampaignROI[], currency: string): Insight[] => {
+  const funded = campaigns.filter((c) => c.spend > 0).sort((a, b) => b.roi - a.roi);
+  if (funded.length === 0) return [];
+  const spend = funded.reduce((s, c) => s + c.spend, 0);
+  const average = funded.reduce((s, c) => s + c.roi * c.spend, 0) / spend;
+  const leader = funded[0];
+  const out: Insight[] = [];
+  if (funded.length > 1 && average > 0) {
+    out.push({
+      id: "campaign-leader",
+      tabs: ["dashboard", "5ps"],
+      text: `${leader.campaign} ROI ${formatMultiple(leader.roi)} leads campaigns (average ${formatMultiple(average)})`,
+      tone: "positive",
+      score: 2 * materiality(leader.roi / average - 1, ROI_MATERIAL),
+    });
+  }
+  funded
+    .filter((c) => c.roi < 1)
+    .slice(-1)
+    .forEach((c) =>
+      out.push({
+        id: "campaign-below-break-even",
+        tabs: ["dashboard", "5ps"],
+        text: `${c.campaign} returns ${formatMultiple(c.roi)}, below break-even on ${formatCompact(c.spend, currency)} spend`,
+        tone: "negative",
+        score: 2 * materiality(1 - c.roi, ROI_MATERIAL),
+      })
+    );
+  return out;
+};
+
+/** Revenue share this far above customer share marks a segment that carries the business. */
+const SEGMENT_MATERIAL = 0.15;
+
+const segmentInsights = (segments: Segment[]): Insight[] => {
+  const top = segments
+    .filter((s) => s.count > 0)
+    .sort((a, b) => b.revenue - b.count - (a.revenue - a.count))[0];
+  if (!top || top.revenue <= top.count) return [];
+  return [
+    {
+      id: "segment-mix",
+      tabs: ["5ps"],
+      text: `The ${top.segment} segment is ${formatPercent(top.count, proseDigits(top.count))} of customers but ${formatPercent(top.revenue, proseDigits(top.revenue))} of revenue`,
+      tone: "neutral",
+      score: 1.5 * materiality(top.revenue - top.count, SEGMENT_MATERIAL),
+    },
+  ];
+};
+
+const forecastInsight = (forecast: NonNullable<InsightInput["forecast"]>, currency: string): Insight => {
+  const growth = pctChange(forecast.revenue, forecast.lastYearRevenue);
+  const vsLastYear = growth === null ? "" : `, ${movement(growth)} on the same periods last year`;
+  const accuracy = forecast.accuracy === null ? "" : `, ${formatPercent(forecast.accuracy, 0)} backtest accuracy`;
+  return {
+    id: "forecast",
+    tabs: ["forecast", "dashboard"],
+    text: `Forecast ${formatCompact(forecast.revenue, currency)} over the next ${forecast.periods} periods${vsLastYear} (${forecast.model}${accuracy})`,
+    tone: growth === null ? "neutral" : toneOf(growth),
+    // Always worth saying on the forecast tab, so it never scores below half a material change.
+    score: 2 * Math.max(0.5, growth === null ? 0 : materiality(growth, MATERIAL.revenue)),
+  };
+};
+
+/** Every insight the inputs support, most material first; figures that haven't moved aren't news. */
+export const generateInsights = (input: InsightInput): Insight[] => {
+  const currency = input.currency ?? DEFAULT_CURRENCY;
+  return [
+    ...revenueInsights(input, currency),
+    ...rateInsights(input, currency),
+    ...planInsights(input),
+    ...(input.categories ? categoryInsights(input.categories, currency) : []),
+    ...(input.campaigns ? campaignInsights(input.campaigns, currency) : []),
+    ...(input.segments ? segmentInsights(input.segments) : []),
+    ...(input.forecast && input.forecast.periods > 0 ? [forecastInsight(input.forecast, currency)] : []),
+  ]
+    .filter((i) => i.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+export const insightsForTab = (insights: Insight[], tab: TabId, limit = 5): Insight[] =>
+  insights.filter((i) => i.tabs.includes(tab)).slice(0, limit);
@@ -0,0 +1,54 @@
+import { ForecastPoint, InventoryPosition } from "../types";
+import { GREGORIAN } from "../analytics/fiscalCalendar";
+import { demandProfile, projectInventory } from "./projection";
+
+const [handbags] = demandProfile([
+  { name: "Handbags", revenue: 3_000, units: 10, margin: 0.6, growth: 0 },
+  { name: "Footwear", revenue: 1_000, units: 5, margin: 0.5, growth: 0 },
+]);
+
+// 4,000 of forecast revenue a month is 3,000 of handbags: 10 bags at $300.
+const forecast: ForecastPoint[] = ["2026-01-01", "2026-02-01", "2026-03-01"].map((date) => ({
+  month: date,
+  date,
+  revenue: 4_000,
+  forecastHigh: 4_000,
+  forecastLow: 4_000,
+  confidence: 0.9,
+}));
+
+test("demand profile converts revenue share into units at the average price", () => {
+  expect(handbags).toMatchObject({ category: "Handbags", revenueShare: 0.75, unitPrice: 300 });
+  expect(handbags.unitCost).toBeCloseTo(120);
+});
+
+test("stock runs out part-way through a period and the shortfall is revenue at risk", () => {
+  const position: InventoryPosition = { category: "Handbags", asOf: "2025-12-31", onHand: 15, onOrder: [] };
+  const projection = projectInventory(position, handbags, forecast, GREGORIAN, 4);
+  expect(projection.periods.map((p) => p.date)).toEqual(["2026-01-01", "2026-02-01", "2026-03-01"]);
+  expect(projection.periods[1]).toMatchObject({ opening: 5, sold: 5, shortfall: 5, closing: 0 });
+  expect(projection.stockOut).toBe("2026-02-15"); // half-way through February
+  expect(projection.revenueAtRisk).toBeCloseTo(15 * 300);
+});
+
+test("overdue receipts land in the first period and open-to-buy tops cover up to target", () => {
+  const position: InventoryPosition = {
+    category: "Handbags",
+    asOf: "2025-12-31",
+    onHand: 0,
+    onOrder: [
+      { date: "2025-12-20", units: 10 },
+      { date: "2026-02-10", units: 30 },
+    ],
+  };
+  const projection = projectInventory(position, handbags, forecast, GREGORIAN, 4);
+  const [jan, feb, mar] = projection.periods;
+  expect(jan).toMatchObject({ receipts: 10, shortfall: 0, closing: 0 });
+  expect(feb).toMatchObject({ receipts: 30, closing: 20 });
+  expect(projection.stockOut).toBeNull();
+
+  // February's weekly demand is 10 / 4 units; January has to buy four weeks of it.
+  expect(jan.openToBuyUnits).toBeCloseTo(10);
+  expect(feb.openToBuyUnits).toBe(0);
+  expect(projection.openToBuyCost).toBeCloseTo((jan.openToBuyUnits + mar.openToBuyUnits) * 120);
+});
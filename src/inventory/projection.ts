@@ -0,0 +1,140 @@
+import { CategoryPerf, ForecastPoint, InventoryPosition } from "../types";
+import { FiscalCalendarConfig, fiscalYearInfo, toFiscalPeriod } from "../analytics/fiscalCalendar";
+import { parseMonthKey } from "../analytics/periods";
+
+/* =======================
+   Inventory projection
+   =======================
+   The revenue forecast is turned into unit demand per category using each
+   category's share of revenue and its average selling price over the
+   trailing year. Stock on hand plus inbound orders is then run down period
+   by period: demand beyond the available stock is a shortfall, valued at
+   the selling price as revenue at risk. Open-to-buy is what has to be
+   ordered on top, each period, to end it with `targetWeeks` of cover.
+*/
+
+export const DEFAULT_TARGET_WEEKS = 8;
+
+/** How a category converts forecast revenue into units. */
+export interface CategoryDemand {
+  category: string;
+  revenueShare: number;     // 0..1 of forecast revenue
+  unitPrice: number;        // average selling price, $
+  unitCost: number;         // $, from the margin
+}
+
+export interface InventoryPeriod {
+  date: string;             // period key
+  opening: number;          // units
+  receipts: number;
+  demand: number;
+  sold: number;
+  shortfall: number;
+  closing: number;
+  /** Closing stock in weeks of the next period's demand; null when there is no demand. */
+  weeksOfCover: number | null;
+  revenueAtRisk: number;    // $
+  openToBuyUnits: number;
+  openToBuyCost: number;    // $ at cost
+}
+
+export interface InventoryProjection {
+  category: string;
+  periods: InventoryPeriod[];
+  /** On-hand stock in weeks of the first period's demand. */
+  coverNow: number | null;
+  /** Estimated day the category sells out, or null if it doesn't within the forecast. */
+  stockOut: string | null;
+  revenueAtRisk: number;
+  openToBuyCost: number;
+}
+
+/** Share, price and cost per category from trailing-year performance (needs units). */
+export const demandProfile = (categories: CategoryPerf[]): CategoryDemand[] => {
+  const total = categories.reduce((s, c) => s + c.revenue, 0);
+  return categories
+    .filter((c) => c.units)
+    .map((c) => {
+      const unitPrice = c.revenue / (c.units as number);
+      return { category: c.name, revenueShare: total ? c.revenue / total : 0, unitPrice, unitCost: unitPrice * (1 - c.margin) };
+    });
+};
+
+const periodInfo = (key: string, calendar: FiscalCalendarConfig) => {
+  const { year, monthIndex } = parseMonthKey(key);
+  return fiscalYearInfo(year, calendar).periods[monthIndex];
+};
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + Math.floor(days) * 86_400_000).toISOString().slice(0, 10);
+
+/**
+ * Runs one category's stock through the dated forecast periods after its
+ * `asOf` period. Inbound orders due on or before the first projected period
+ * land in it.
+ */
+export const projectInventory = (
+  position: InventoryPosition,
+  demand: CategoryDemand,
+  forecast: ForecastPoint[],
+  calendar: FiscalCalendarConfig,
+  targetWeeks = DEFAULT_TARGET_WEEKS
+): InventoryProjection => {
+  const asOfPeriod = toFiscalPeriod(position.asOf, calendar).periodKey;
+  const dated = forecast.filter((p): p is ForecastPoint & { date: string } => !!p.date && p.date > asOfPeriod);
+  const receiptsBy = new Map<string, number>();
+  position.onOrder.forEach((o) => {
+    const key = toFiscalPeriod(o.date, calendar).periodKey;
+    const target = dated.find((p) => p.date >= key)?.date ?? key;
+    receiptsBy.set(target, (receiptsBy.get(target) ?? 0) + o.units);
+  });
+
+  const weekly = dated.map((p) => {
+    const units = demand.unitPrice ? (p.revenue * demand.revenueShare) / demand.unitPrice : 0;
+    return { units, perWeek: units / periodInfo(p.date, calendar).weeks };
+  });
+
+  let stock = position.onHand;
+  let planned = position.onHand; // stock if every open-to-buy recommendation is placed
+  let stockOut: string | null = null;
+  const periods = dated.map((p, i): InventoryPeriod => {
+    const receipts = receiptsBy.get(p.date) ?? 0;
+    const units = weekly[i].units;
+    const opening = stock;
+    const available = opening + receipts;
+    const sold = Math.min(units, available);
+    const shortfall = units - sold;
+    stock = available - sold;
+    if (shortfall > 0 && stockOut === null) {
+      const { start, weeks } = periodInfo(p.date, calendar);
+      stockOut = addDays(start, (available / units) * weeks * 7);
+    }
+
+    const nextWeekly = (weekly[i + 1] ?? weekly[i]).perWeek;
+    const target = targetWeeks * nextWeekly;
+    const openToBuyUnits = Math.max(0, units + target - planned - receipts);
+    planned = planned + receipts + openToBuyUnits - units;
+    return {
+      date: p.date,
+      opening,
+      receipts,
+      demand: units,
+      sold,
+      shortfall,
+      closing: stock,
+      weeksOfCover: nextWeekly > 0 ? stock / nextWeekly : null,
+      revenueAtRisk: shortfall * demand.unitPrice,
+      openToBuyUnits,
+      openToBuyCost: openToBuyUnits * demand.unitCost,
+    };
+  });
+
+  return {
+    category: position.category,
+    periods,
+    coverNow: weekly[0]?.perWeek ? position.onHand / weekly[0].perWeek : null,
+    stockOut,
+    revenueAtRisk: periods.reduce((s, p) => s + p.revenueAtRisk, 0),
+    openToBuyCost: periods.reduce((s, p) => s + p.openToBuyCost, 0),
+  };
+};
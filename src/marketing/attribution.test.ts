@@ -0,0 +1,68 @@
+import { ConversionJourney, MarketingData } from "../types";
+import { GREGORIAN } from "../analytics/fiscalCalendar";
+import { campaignPerformance, campaignPeriods, touchWeights } from "./attribution";
+import { fitResponseCurve, reallocateSpend } from "./mix";
+
+const journey: ConversionJourney = {
+  id: "j1",
+  date: "2025-03-15",
+  revenue: 300,
+  touchpoints: [
+    { campaignId: "social", date: "2025-03-01" },
+    { campaignId: "search", date: "2025-03-08" },
+    { campaignId: "email", date: "2025-03-15" },
+  ],
+};
+
+test("attribution models share a journey's credit differently", () => {
+  expect(touchWeights(journey, "lastTouch")).toEqual([0, 0, 1]);
+  expect(touchWeights(journey, "firstTouch")).toEqual([1, 0, 0]);
+  touchWeights(journey, "linear").forEach((w) => expect(w).toBeCloseTo(1 / 3));
+  // Half-life of 7 days: weights 1/4, 1/2, 1 before normalising
+  const decay = touchWeights(journey, "timeDecay");
+  expect(decay[0]).toBeCloseTo(0.25 / 1.75);
+  expect(decay[2]).toBeCloseTo(1 / 1.75);
+});
+
+test("spend and attributed revenue are summed per campaign and period", () => {
+  const marketing: MarketingData = {
+    campaigns: [
+      { id: "social", name: "Social", channel: "social" },
+      { id: "search", name: "Search", channel: "paid" },
+      { id: "email", name: "Email", channel: "email" },
+    ],
+    spend: [
+      { campaignId: "search", date: "2025-03-02", spend: 40 },
+      { campaignId: "search", date: "2025-03-20", spend: 60 },
+      { campaignId: "email", date: "2025-04-01", spend: 10 },
+    ],
+    journeys: [journey],
+  };
+  const periods = campaignPeriods(marketing, "linear", GREGORIAN);
+  expect(periods.find((p) => p.campaignId === "search" && p.date === "2025-03-01")).toMatchObject({ spend: 100, revenue: 100 });
+
+  const march = campaignPerformance(marketing.campaigns, periods, ["2025-03-01"]);
+  expect(march.find((p) => p.campaign.id === "search")?.roas).toBeCloseTo(1);
+  expect(march.find((p) => p.campaign.id === "social")).toMatchObject({ spend: 0, roas: null });
+  const email = campaignPerformance(marketing.campaigns, periods, ["2025-04-01"]).find((p) => p.campaign.id === "email");
+  expect(email).toMatchObject({ spend: 10, revenue: 0, roas: 0 });
+});
+
+test("response curves and re-allocation favour the higher marginal return", () => {
+  const points = [5, 8, 10, 12, 15, 20].map((k) => ({ spend: k * 1_000, revenue: 100 * Math.pow(k * 1_000, 0.5) }));
+  const curve = fitResponseCurve(points);
+  expect(curve?.exponent).toBeCloseTo(0.5);
+  expect(curve?.scale).toBeCloseTo(100);
+
+  const plan = reallocateSpend([
+    { campaignId: "saturated", spend: 10_000, revenue: 20_000, exponent: 0.3 },
+    { campaignId: "scalable", spend: 10_000, revenue: 20_000, exponent: 0.9 },
+    { campaignId: "unknown", spend: 5_000, revenue: 5_000, exponent: null },
+  ]);
+  const by = new Map(plan.map((p) => [p.campaignId, p]));
+  expect(by.get("scalable")?.suggestedSpend).toBeGreaterThan(10_000);
+  expect(by.get("saturated")?.suggestedSpend).toBeLessThan(10_000);
+  expect(by.get("unknown")?.suggestedSpend).toBe(5_000);
+  expect((by.get("scalable")?.suggestedSpend ?? 0) + (by.get("saturated")?.suggestedSpend ?? 0)).toBeCloseTo(20_000);
+  expect(plan.reduce((s, p) => s + p.suggestedRevenue - p.revenue, 0)).toBeGreaterThan(0);
+});
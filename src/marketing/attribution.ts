@@ -0,0 +1,120 @@
+import { Campaign, ConversionJourney, MarketingData } from "../types";
+import { FiscalCalendarConfig, toFiscalPeriod } from "../analytics/fiscalCalendar";
+
+/* =======================
+   Multi-touch attribution
+   =======================
+   Each converting journey's revenue is shared among the campaigns that
+   touched it. The model decides the shares; spend and attributed revenue
+   are then summed per campaign and reporting period.
+*/
+
+export type AttributionModel = "lastTouch" | "firstTouch" | "linear" | "timeDecay";
+
+export const TIME_DECAY_HALF_LIFE_DAYS = 7;
+
+export const ATTRIBUTION_MODELS: Record<AttributionModel, { name: string; description: string }> = {
+  lastTouch: { name: "Last touch", description: "All credit to the touch just before the order." },
+  firstTouch: { name: "First touch", description: "All credit to the touch that started the journey." },
+  linear: { name: "Linear", description: "Credit shared equally among every touch." },
+  timeDecay: {
+    name: "Time decay",
+    description: `Touches closer to the order get more credit; a touch ${TIME_DECAY_HALF_LIFE_DAYS} days earlier counts half.`,
+  },
+};
+
+const DAY_MS = 86_400_000;
+const daysBetween = (from: string, to: string) => (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS;
+
+/** Share of the journey's revenue for each touchpoint (oldest first); sums to 1. */
+export const touchWeights = (journey: ConversionJourney, model: AttributionModel): number[] => {
+  const n = journey.touchpoints.length;
+  if (n === 0) return [];
+  switch (model) {
+    case "lastTouch":
+      return journey.touchpoints.map((_, i) => (i === n - 1 ? 1 : 0));
+    case "firstTouch":
+      return journey.touchpoints.map((_, i) => (i === 0 ? 1 : 0));
+    case "linear":
+      return journey.touchpoints.map(() => 1 / n);
+    case "timeDecay": {
+      const raw = journey.touchpoints.map((t) => Math.pow(0.5, Math.max(daysBetween(t.date, journey.date), 0) / TIME_DECAY_HALF_LIFE_DAYS));
+      const total = raw.reduce((s, w) => s + w, 0);
+      return raw.map((w) => w / total);
+    }
+  }
+};
+
+/** Spend and attributed revenue for one campaign in one reporting period. */
+export interface CampaignPeriod {
+  campaignId: string;
+  date: string;             // period key
+  spend: number;
+  revenue: number;
+  conversions: number;      // fractional under multi-touch models
+}
+
+/** Per campaign and period; journeys count in the period of the order. */
+export const campaignPeriods = (
+  marketing: MarketingData,
+  model: AttributionModel,
+  calendar: FiscalCalendarConfig
+): CampaignPeriod[] => {
+  const periodOf = new Map<string, string>();
+  const periodFor = (date: string) => {
+    let key = periodOf.get(date);
+    if (!key) {
+      key = toFiscalPeriod(date, calendar).periodKey;
+      periodOf.set(date, key);
+    }
+    return key;
+  };
+  const cells = new Map<string, CampaignPeriod>();
+  const cell = (campaignId: string, date: string) => {
+    const id = `${campaignId}|${date}`;
+    let c = cells.get(id);
+    if (!c) {
+      c = { campaignId, date, spend: 0, revenue: 0, conversions: 0 };
+      cells.set(id, c);
+    }
+    return c;
+  };
+
+  marketing.spend.forEach((s) => (cell(s.campaignId, periodFor(s.date)).spend += s.spend));
+  marketing.journeys.forEach((j) => {
+    const date = periodFor(j.date);
+    touchWeights(j, model).forEach((w, i) => {
+      if (w === 0) return;
+      const c = cell(j.touchpoints[i].campaignId, date);
+      c.revenue += j.revenue * w;
+      c.conversions += w;
+    });
+  });
+  return Array.from(cells.values()).sort((a, b) => a.date.localeCompare(b.date) || a.campaignId.localeCompare(b.campaignId));
+};
+
+export interface CampaignPerformance {
+  campaign: Campaign;
+  spend: number;
+  revenue: number;
+  conversions: number;
+  /** Attributed revenue per $ of spend; null without spend. */
+  roas: number | null;
+}
+
+/** Totals per campaign over `periodKeys`, highest attributed revenue first. */
+export const campaignPerformance = (
+  campaigns: Campaign[],
+  periods: CampaignPeriod[],
+  periodKeys: string[]
+): CampaignPerformance[] => {
+  const inWindow = new Set(periodKeys);
+  return campaigns
+    .map((campaign) => {
+      const rows = periods.filter((p) => p.campaignId === campaign.id && inWindow.has(p.date));
+      const spend = rows.reduce((s, p) => s + p.spend, 0);
+      const revenue = rows.reduce((s, p) => s + p.revenue, 0);
+      return { campaign, spend, revenue, conversions: rows.reduce((s, p) => s + p.conversions, 0), roas: spend ? revenue / spend : null };
+    })
+    .sort((a, b) => b.revenue - a.revenue);
+};
@@ -0,0 +1,108 @@
+/* =======================
+   Diminishing returns and spend re-allocation
+   =======================
+   Each campaign's attributed revenue per period is fitted as
+   revenue = scale × spend^exponent (a log-log regression), so an exponent
+   below 1 means every extra dollar earns less than the one before. Scaling
+   a campaign's whole spend by k then scales its revenue by k^exponent,
+   which is what the re-allocation works with.
+*/
+
+// A curve needs enough periods with spend, and spend that actually varied.
+const MIN_OBSERVATIONS = 6;
+const MIN_SPEND_SPREAD = 0.2; // max/min spend - 1
+
+export interface ResponseCurve {
+  scale: number;
+  exponent: number;         // 0..1
+  rSquared: number;
+  observations: number;
+}
+
+export interface SpendSuggestion {
+  campaignId: string;
+  spend: number;
+  revenue: number;
+  /** Attributed revenue for the next dollar at current spend. */
+  marginalRoas: number | null;
+  suggestedSpend: number;
+  suggestedRevenue: number;
+}
+
+/** Fits revenue = scale × spend^exponent; null when the data can't support a curve. */
+export const fitResponseCurve = (points: { spend: number; revenue: number }[]): ResponseCurve | null => {
+  const usable = points.filter((p) => p.spend > 0 && p.revenue > 0);
+  if (usable.length < MIN_OBSERVATIONS) return null;
+  const spends = usable.map((p) => p.spend);
+  if (Math.max(...spends) / Math.min(...spends) - 1 < MIN_SPEND_SPREAD) return null;
+
+  const x = usable.map((p) => Math.log(p.spend));
+  const y = usable.map((p) => Math.log(p.revenue));
+  const mx = x.reduce((s, v) => s + v, 0) / x.length;
+  const my = y.reduce((s, v) => s + v, 0) / y.length;
+  const sxx = x.reduce((s, v) => s + (v - mx) ** 2, 0);
+  const sxy = x.reduce((s, v, i) => s + (v - mx) * (y[i] - my), 0);
+  const syy = y.reduce((s, v) => s + (v - my) ** 2, 0);
+  // Revenue can't fall as spend rises, nor grow faster than spend for long.
+  const exponent = Math.min(Math.max(sxy / sxx, 0), 1);
+  return {
+    scale: Math.exp(my - exponent * mx),
+    exponent,
+    rSquared: syy ? (sxy * sxy) / (sxx * syy) : 0,
+    observations: usable.length,
+  };
+};
+
+export const curveRevenue = (curve: ResponseCurve, spend: number): number => curve.scale * Math.pow(spend, curve.exponent);
+
+/** Revenue at `newSpend` for a campaign that earned `revenue` on `spend`. */
+const scaledRevenue = (spend: number, revenue: number, exponent: number, newSpend: number) =>
+  spend > 0 ? revenue * Math.pow(newSpend / spend, exponent) : 0;
+
+/**
+ * Moves the same total spend to where the next dollar earns most. Each
+ * campaign stays within `minFactor`–`maxFactor` of its current spend, the
+ * range its curve was fitted on; campaigns without a curve keep their spend.
+ */
+export const reallocateSpend = (
+  items: { campaignId: string; spend: number; revenue: number; exponent: number | null }[],
+  options: { minFactor?: number; maxFactor?: number; steps?: number } = {}
+): SpendSuggestion[] => {
+  const { minFactor = 0.5, maxFactor = 1.5, steps = 200 } = options;
+  const flexible = items.filter((i) => i.exponent !== null && i.spend > 0);
+  const budget = flexible.reduce((s, i) => s + i.spend, 0);
+  const suggested = new Map(flexible.map((i) => [i.campaignId, i.spend * minFactor]));
+  const step = budget / steps;
+  let left = budget * (1 - minFactor);
+
+  while (left > 1e-6 && step > 0) {
+    const amount = Math.min(step, left);
+    let best: (typeof flexible)[number] | undefined;
+    let bestGain = -Infinity;
+    flexible.forEach((i) => {
+      const current = suggested.get(i.campaignId) as number;
+      if (current + amount > i.spend * maxFactor + 1e-6) return;
+      const e = i.exponent as number;
+      const gain = scaledRevenue(i.spend, i.revenue, e, current + amount) - scaledRevenue(i.spend, i.revenue, e, current);
+      if (gain > bestGain) {
+        bestGain = gain;
+        best = i;
+      }
+    });
+    if (!best) break;
+    suggested.set(best.campaignId, (suggested.get(best.campaignId) as number) + amount);
+    left -= amount;
+  }
+
+  return items.map((i) => {
+    const suggestedSpend = suggested.get(i.campaignId) ?? i.spend;
+    return {
+      campaignId: i.campaignId,
+      spend: i.spend,
+      revenue: i.revenue,
+      marginalRoas: i.exponent !== null && i.spend > 0 ? (i.exponent * i.revenue) / i.spend : null,
+      suggestedSpend,
+      suggestedRevenue: i.exponent !== null ? scaledRevenue(i.spend, i.revenue, i.exponent, suggestedSpend) : i.revenue,
+    };
+  });
+};
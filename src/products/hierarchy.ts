@@ -0,0 +1,135 @@
+import { CategoryPerf, ProductData, ProductLevel } from "../types";
+import { GREGORIAN, FiscalCalendarConfig, toFiscalPeriod } from "../analytics/fiscalCalendar";
+import { addMonths } from "../analytics/periods";
+
+/* =======================
+   Category → subcategory → SKU
+   =======================
+   SKU sales are summed over the KPI window and rolled up the product tree.
+   Growth compares with the same periods a year earlier, as for categories
+   built from daily rows. Stock is each SKU's closing `onHand` on its last
+   row in the window; sell-through and weeks of cover need it for every SKU
+   under a node.
+*/
+
+interface SkuTotals {
+  revenue: number;
+  units: number;
+  grossProfit: number;
+  priorRevenue: number;
+  periods: Set<string>;
+  priorPeriods: Set<string>;
+  lastDate: string;
+  onHand?: number;
+}
+
+const summarize = (
+  name: string,
+  level: ProductLevel,
+  totals: SkuTotals[],
+  weeks: number,
+  children?: CategoryPerf[]
+): CategoryPerf => {
+  const revenue = totals.reduce((s, t) => s + t.revenue, 0);
+  const units = totals.reduce((s, t) => s + t.units, 0);
+  const grossProfit = totals.reduce((s, t) => s + t.grossProfit, 0);
+  const priorRevenue = totals.reduce((s, t) => s + t.priorRevenue, 0);
+  const periods = new Set(totals.flatMap((t) => Array.from(t.periods)));
+  const priorPeriods = new Set(totals.flatMap((t) => Array.from(t.priorPeriods)));
+  const stocked = totals.every((t) => t.onHand !== undefined);
+  const stock = totals.reduce((s, t) => s + (t.onHand ?? 0), 0);
+  return {
+    name,
+    level,
+    revenue,
+    units,
+    margin: revenue ? grossProfit / revenue : 0,
+    growth: priorPeriods.size === periods.size && priorRevenue ? revenue / priorRevenue - 1 : 0,
+    ...(stocked && units + stock > 0 ? { sellThrough: units / (units + stock) } : {}),
+    ...(stocked && units > 0 && weeks > 0 ? { weeksOfCover: stock / (units / weeks) } : {}),
+    ...(children ? { children } : {}),
+  };
+};
+
+const byRevenue = (a: CategoryPerf, b: CategoryPerf) => b.revenue - a.revenue;
+
+/**
+ * The product tree over the given periods, largest revenue first at each
+ * level. Only SKUs with rows in the window appear; `categories` narrows
+ * the tree to those categories (empty means all).
+ */
+export const productHierarchy = (
+  data: ProductData,
+  periodKeys: string[],
+  calendar: FiscalCalendarConfig = GREGORIAN,
+  categories: string[] = []
+): CategoryPerf[] => {
+  const inWindow = new Set(periodKeys);
+  const priorWindow = new Set(periodKeys.map((k) => addMonths(k, -12)));
+  const products = new Map(
+    data.products.filter((p) => categories.length === 0 || categories.includes(p.category)).map((p) => [p.sku, p])
+  );
+  const periodOf = new Map<string, string>();
+  const windowDays = new Map<string, number>();
+  const totals = new Map<string, SkuTotals>();
+
+  data.sales.forEach((r) => {
+    if (!products.has(r.sku)) return;
+    let period = periodOf.get(r.date);
+    if (period === undefined) {
+      period = toFiscalPeriod(r.date, calendar).periodKey;
+      periodOf.set(r.date, period);
+    }
+    const current = inWindow.has(period);
+    if (!current && !priorWindow.has(period)) return;
+    const t = totals.get(r.sku) ?? {
+      revenue: 0, units: 0, grossProfit: 0, priorRevenue: 0, periods: new Set<string>(), priorPeriods: new Set<string>(), lastDate: "",
+    };
+    totals.set(r.sku, t);
+    if (!current) {
+      t.priorRevenue += r.revenue;
+      t.priorPeriods.add(period);
+      return;
+    }
+    windowDays.set(r.date, Math.max(windowDays.get(r.date) ?? 0, r.days ?? 1));
+    t.revenue += r.revenue;
+    t.units += r.units;
+    t.grossProfit += r.grossProfit;
+    t.periods.add(period);
+    if (r.date >= t.lastDate) {
+      t.lastDate = r.date;
+      t.onHand = r.onHand;
+    }
+  });
+
+  const weeks = Array.from(windowDays.values()).reduce((s, d) => s + d, 0) / 7;
+  const tree = new Map<string, Map<string, CategoryPerf[]>>();
+  const skuTotals = new Map<string, SkuTotals[]>(); // keyed by category and by category|subcategory
+  const collect = (key: string, t: SkuTotals) => skuTotals.set(key, [...(skuTotals.get(key) ?? []), t]);
+  totals.forEach((t, sku) => {
+    if (t.periods.size === 0) return;
+    const p = products.get(sku);
+    if (!p) return;
+    const subcategories = tree.get(p.category) ?? new Map<string, CategoryPerf[]>();
+    tree.set(p.category, subcategories);
+    subcategories.set(p.subcategory, [...(subcategories.get(p.subcategory) ?? []), { ...summarize(p.name, "sku", [t], weeks), sku }]);
+    collect(p.category, t);
+    collect(`${p.category}|${p.subcategory}`, t);
+  });
+
+  return Array.from(tree, ([category, subcategories]) =>
+    summarize(
+      category,
+      "category",
+      skuTotals.get(category) ?? [],
+      weeks,
+      Array.from(subcategories, ([subcategory, skus]) =>
+        summarize(subcategory, "subcategory", skuTotals.get(`${category}|${subcategory}`) ?? [], weeks, skus.sort(byRevenue))
+      ).sort(byRevenue)
+    )
+  ).sort(byRevenue);
+};
+
+/** Every SKU at or below a node. */
+export const skusUnder = (node: CategoryPerf): CategoryPerf[] =>
+  node.level === "sku" ? [node] : (node.children ?? []).flatMap(skusUnder);
@@ -0,0 +1,52 @@
+import { CategoryPerf } from "../types";
+
+/* =======================
+   Pareto / ABC classification
+   =======================
+   SKUs ranked by revenue: those that make up the first 80% of revenue are
+   "A", the next 15% "B" and the long tail "C".
+*/
+
+export type AbcClass = "A" | "B" | "C";
+
+export const ABC_CUTOFFS: Record<Exclude<AbcClass, "C">, number> = { A: 0.8, B: 0.95 };
+
+export interface ParetoPoint {
+  item: CategoryPerf;
+  share: number;            // 0..1 of the group's revenue
+  cumulativeShare: number;  // 0..1, including this item
+  abc: AbcClass;
+}
+
+/** Items largest first with their running share of revenue. An item is classed by where its revenue starts. */
+export const paretoAnalysis = (items: CategoryPerf[]): ParetoPoint[] => {
+  const total = items.reduce((s, i) => s + Math.max(i.revenue, 0), 0);
+  let running = 0;
+  return [...items]
+    .sort((a, b) => b.revenue - a.revenue)
+    .map((item) => {
+      const share = total ? Math.max(item.revenue, 0) / total : 0;
+      const start = running;
+      running += share;
+      return {
+        item,
+        share,
+        cumulativeShare: running,
+        abc: start < ABC_CUTOFFS.A ? "A" : start < ABC_CUTOFFS.B ? "B" : "C",
+      };
+    });
+};
+
+/** Item count and revenue share per class. */
+export const abcSummary = (points: ParetoPoint[]): Record<AbcClass, { items: number; share: number }> => {
+  const summary: Record<AbcClass, { items: number; share: number }> = {
+    A: { items: 0, share: 0 },
+    B: { items: 0, share: 0 },
+    C: { items: 0, share: 0 },
+  };
+  points.forEach((p) => {
+    summary[p.abc].items += 1;
+    summary[p.abc].share += p.share;
+  });
+  return summary;
+};
@@ -0,0 +1,59 @@
+import { ProductData, SkuSales } from "../types";
+import { productHierarchy, skusUnder } from "./hierarchy";
+import { abcSummary, paretoAnalysis } from "./pareto";
+
+const sale = (sku: string, date: string, units: number, revenue: number, onHand?: number): SkuSales => ({
+  sku,
+  date,
+  days: 7,
+  units,
+  revenue,
+  grossProfit: revenue / 2,
+  ...(onHand !== undefined ? { onHand } : {}),
+});
+
+const data: ProductData = {
+  products: [
+    { sku: "T1", name: "Classic Tote", category: "Handbags", subcategory: "Totes" },
+    { sku: "T2", name: "Mini Tote", category: "Handbags", subcategory: "Totes" },
+    { sku: "C1", name: "Clutch", category: "Handbags", subcategory: "Clutches" },
+    { sku: "B1", name: "Boot", category: "Footwear", subcategory: "Boots" },
+  ],
+  sales: [
+    sale("T1", "2023-01-02", 10, 1_000),
+    sale("T1", "2024-01-01", 10, 1_500, 30),
+    sale("T1", "2024-01-08", 10, 1_500, 20),
+    sale("T2", "2024-01-01", 4, 400, 40),
+    sale("C1", "2024-01-01", 2, 300),
+    sale("B1", "2024-01-15", 6, 600, 6),
+  ],
+};
+
+test("SKU sales roll up into a category tree with sell-through and cover", () => {
+  const [handbags, footwear] = productHierarchy(data, ["2024-01-01"]);
+  expect(handbags).toMatchObject({ name: "Handbags", level: "category", revenue: 3_700, units: 26, margin: 0.5 });
+  expect(handbags.sellThrough).toBeUndefined(); // the clutch has no stock figures
+  expect(footwear.sellThrough).toBeCloseTo(0.5);
+
+  const [totes, clutches] = handbags.children ?? [];
+  expect(totes).toMatchObject({ name: "Totes", level: "subcategory", revenue: 3_400 });
+  expect(clutches.children?.[0]).toMatchObject({ name: "Clutch", level: "sku", sku: "C1" });
+  // Closing stock 20 + 40 against 24 units over three weeks of rows
+  expect(totes.sellThrough).toBeCloseTo(24 / 84);
+  expect(totes.weeksOfCover).toBeCloseTo(60 / (24 / 3));
+
+  const classic = totes.children?.[0];
+  expect(classic).toMatchObject({ sku: "T1", revenue: 3_000 });
+  expect(classic?.growth).toBeCloseTo(2); // vs January 2023
+  expect(totes.children?.[1].growth).toBe(0); // no sales a year earlier
+  expect(skusUnder(handbags).map((s) => s.sku)).toEqual(["T1", "T2", "C1"]);
+  expect(productHierarchy(data, ["2024-01-01"], undefined, ["Footwear"]).map((c) => c.name)).toEqual(["Footwear"]);
+});
+
+test("ABC classes split SKUs at 80% and 95% of revenue", () => {
+  const items = [700, 150, 100, 30, 20].map((revenue, i) => ({ name: `S${i}`, revenue, margin: 0, growth: 0 }));
+  const points = paretoAnalysis(items);
+  expect(points.map((p) => p.abc)).toEqual(["A", "A", "B", "C", "C"]);
+  expect(points[1].cumulativeShare).toBeCloseTo(0.85);
+  expect(abcSummary(points)).toEqual({ A: { items: 2, share: 0.85 }, B: { items: 1, share: 0.1 }, C: { items: 2, share: expect.any(Number) } });
+});
@@ -0,0 +1,36 @@
+import { GREGORIAN } from "../analytics/fiscalCalendar";
+import { generateMockData } from "../data/providers";
+import { createSeededRandom } from "../data/random";
+import { consolidate } from "../currency/fx";
+import { discountCurve, estimateElasticities, fitElasticity, marginOptimalDiscount, simulateDiscount } from "./pricing";
+
+test("elasticity is the log-log slope of units per visit on price", () => {
+  const points = [1, 0.9, 0.8, 1, 0.85, 1, 0.95].map((f) => ({ price: 200 * f, units: 50 * Math.pow(f, -1.5), sessions: 1_000 }));
+  const fit = fitElasticity(points);
+  expect(fit?.elasticity).toBeCloseTo(-1.5);
+  expect(fit?.rSquared).toBeCloseTo(1);
+  // Flat prices can't identify a slope.
+  expect(fitElasticity(points.map((p) => ({ ...p, price: 200 })))).toBeNull();
+});
+
+test("mock promotions are recovered per category", () => {
+  const data = consolidate(generateMockData(createSeededRandom(7)), "USD", "actual");
+  const estimates = estimateElasticities(data.dailyData ?? [], GREGORIAN);
+  const byCategory = new Map(estimates.map((e) => [e.category, e]));
+  expect(byCategory.get("Handbags")).toMatchObject({ source: "estimated" });
+  expect(byCategory.get("Handbags")?.elasticity).toBeCloseTo(-0.7, 0);
+  expect(byCategory.get("Apparel")?.elasticity).toBeCloseTo(-1.8, 0);
+});
+
+test("discounts trade margin for volume and have a margin-optimal depth", () => {
+  const base = { revenue: 1_000, margin: 0.6, units: 10 };
+  const p = simulateDiscount(base, 0.2, -2);
+  expect(p.units).toBeCloseTo(10 * Math.pow(0.8, -2));
+  expect(p.revenue).toBeCloseTo(1_000 * Math.pow(0.8, -1));
+  expect(p.grossMargin).toBeCloseTo(0.5);
+
+  // GP ∝ (1-d)^(1+e) - (1-m)(1-d)^e peaks where 1-d = (1-m)·e/(1+e) = 0.8
+  expect(marginOptimalDiscount(discountCurve(base, -2)).depth).toBeCloseTo(0.2);
+  // Inelastic demand: any discount loses gross profit.
+  expect(marginOptimalDiscount(discountCurve(base, -0.7)).depth).toBe(0);
+});
@@ -0,0 +1,143 @@
+import { CategoryPerf, DailyData } from "../types";
+import { FiscalCalendarConfig, aggregateDaily } from "../analytics/fiscalCalendar";
+
+/* =======================
+   Price elasticity and promotion depth
+   =======================
+   Elasticity is the slope of log units-per-visit against log average
+   selling price across periods, fitted per category. Dividing by visits
+   takes out seasonality and marketing-driven traffic, so what is left is
+   how many more units each visitor buys when prices drop. A discount d
+   then scales units by (1 - d)^elasticity, price by (1 - d), and leaves
+   unit cost unchanged, as in the scenario projection.
+*/
+
+// Fewer periods, or prices that barely moved, don't support an estimate.
+const MIN_OBSERVATIONS = 6;
+const MIN_PRICE_SPREAD = 0.03; // max/min average price - 1
+
+export const DEFAULT_ELASTICITY = -1.2;
+export const MAX_DISCOUNT = 0.5;
+
+export interface ElasticityEstimate {
+  category: string;
+  elasticity: number;
+  /** Share of the variance in log units-per-visit explained by price; null when assumed. */
+  rSquared: number | null;
+  observations: number;
+  source: "estimated" | "assumed";
+}
+
+export interface DiscountOutcome {
+  depth: number;
+  units: number;
+  revenue: number;
+  grossProfit: number;
+  grossMargin: number;
+}
+
+/** Revenue, margin and (when known) units over the period being flexed. */
+export type DiscountBase = Pick<CategoryPerf, "revenue" | "margin" | "units">;
+
+/** Least-squares slope of ln(units / visits) on ln(price); null without enough price variation. */
+export const fitElasticity = (points: { price: number; units: number; sessions: number }[]) => {
+  const usable = points.filter((p) => p.price > 0 && p.units > 0 && p.sessions > 0);
+  if (usable.length < MIN_OBSERVATIONS) return null;
+  const prices = usable.map((p) => p.price);
+  if (Math.max(...prices) / Math.min(...prices) - 1 < MIN_PRICE_SPREAD) return null;
+
+  const x = usable.map((p) => Math.log(p.price));
+  const y = usable.map((p) => Math.log(p.units / p.sessions));
+  const mean = (v: number[]) => v.reduce((s, a) => s + a, 0) / v.length;
+  const mx = mean(x);
+  const my = mean(y);
+  const sxx = x.reduce((s, xi) => s + (xi - mx) ** 2, 0);
+  const sxy = x.reduce((s, xi, i) => s + (xi - mx) * (y[i] - my), 0);
+  const syy = y.reduce((s, yi) => s + (yi - my) ** 2, 0);
+  const slope = sxy / sxx;
+  return { elasticity: slope, rSquared: syy ? (sxy * sxy) / (sxx * syy) : 0, observations: usable.length };
+};
+
+/**
+ * One estimate per category from complete periods of `rows`. Categories
+ * whose prices never moved enough fall back to `fallback`.
+ */
+export const estimateElasticities = (
+  rows: DailyData[],
+  calendar: FiscalCalendarConfig,
+  fallback: number = DEFAULT_ELASTICITY
+): ElasticityEstimate[] => {
+  const byCategory = new Map<string, DailyData[]>();
+  rows.forEach((r) => {
+    if (!r.category) return;
+    const list = byCategory.get(r.category) ?? [];
+    list.push(r);
+    byCategory.set(r.category, list);
+  });
+
+  return Array.from(byCategory, ([category, categoryRows]) => {
+    const periods = aggregateDaily(categoryRows, calendar);
+    const fit = fitElasticity(
+      periods.map((m) => ({
+        price: m.units ? m.revenue / m.units : 0,
+        units: m.units,
+        sessions: Object.values(m.trafficSources).reduce((s, v) => s + v, 0),
+      }))
+    );
+    // A positive slope means price isn't what drives volume here; don't simulate with it.
+    return fit && fit.elasticity < 0
+      ? { category, ...fit, source: "estimated" as const }
+      : { category, elasticity: fallback, rSquared: null, observations: fit?.observations ?? periods.length, source: "assumed" as const };
+  });
+};
+
+/** Units, revenue and gross profit after discounting `base` by `depth` (0..MAX_DISCOUNT). */
+export const simulateDiscount = (base: DiscountBase, depth: number, elasticity: number): DiscountOutcome => {
+  const d = Math.min(Math.max(depth, 0), MAX_DISCOUNT);
+  const priceFactor = 1 - d;
+  const volumeFactor = Math.pow(priceFactor, elasticity);
+  const revenue = base.revenue * priceFactor * volumeFactor;
+  const grossMargin = 1 - (1 - base.margin) / priceFactor;
+  return {
+    depth: d,
+    units: (base.units ?? 0) * volumeFactor,
+    revenue,
+    grossProfit: revenue * grossMargin,
+    grossMargin,
+  };
+};
+
+/** Outcomes from no discount to MAX_DISCOUNT in 1-point steps. */
+export const discountCurve = (base: DiscountBase, elasticity: number, step = 0.01): DiscountOutcome[] =>
+  Array.from({ length: Math.round(MAX_DISCOUNT / step) + 1 }, (_, i) => simulateDiscount(base, i * step, elasticity));
+
+/** The point on the curve with the most gross profit. */
+export const marginOptimalDiscount = (curve: DiscountOutcome[]): DiscountOutcome =>
+  curve.reduce((best, p) => (p.grossProfit > best.grossProfit ? p : best), curve[0]);
+
+export interface PriceSummary {
+  /** Revenue-weighted across categories. */
+  elasticity: number;
+  /** Uniform discount across all categories with the most gross profit. */
+  optimalPromotionDepth: number;
+  /** Change in gross margin (as a fraction) at that discount. */
+  marginImpact: number;
+}
+
+/** Portfolio view of the Price "P" for the given categories. */
+export const summarizePricing = (categories: CategoryPerf[], elasticityFor: (category: string) => number): PriceSummary => {
+  const revenue = categories.reduce((s, c) => s + c.revenue, 0);
+  const curves = categories.map((c) => discountCurve(c, elasticityFor(c.name)));
+  const totals = (curves[0] ?? []).map((_, i) => {
+    const r = curves.reduce((s, curve) => s + curve[i].revenue, 0);
+    const gp = curves.reduce((s, curve) => s + curve[i].grossProfit, 0);
+    return { depth: curves[0][i].depth, grossProfit: gp, grossMargin: r ? gp / r : 0 };
+  });
+  if (totals.length === 0 || !revenue) return { elasticity: DEFAULT_ELASTICITY, optimalPromotionDepth: 0, marginImpact: 0 };
+  const best = totals.reduce((b, p) => (p.grossProfit > b.grossProfit ? p : b), totals[0]);
+  return {
+    elasticity: categories.reduce((s, c) => s + c.revenue * elasticityFor(c.name), 0) / revenue,
+    optimalPromotionDepth: best.depth,
+    marginImpact: best.grossMargin - totals[0].grossMargin,
+  };
+};
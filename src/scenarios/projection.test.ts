@@ -0,0 +1,55 @@
+import { MonthData } from "../types";
+import { NEUTRAL_DRIVERS, projectScenario, trafficFactor } from "./projection";
+
+const reference: MonthData[] = [
+  {
+    month: "Jan '25",
+    date: "2025-01-01",
+    revenue: 1_000,
+    units: 10,
+    grossMargin: 0.6,
+    conversionRate: 0.03,
+    avgOrderValue: 100,
+    trafficSources: { organic: 600, paid: 400, social: 0, email: 0, direct: 0 },
+  },
+];
+const baseline = [{ month: "Jan (F)", revenue: 1_000 }];
+
+test("neutral drivers reproduce the baseline", () => {
+  const p = projectScenario(baseline, reference, NEUTRAL_DRIVERS, -1.2);
+  expect(p.totalRevenue).toBeCloseTo(1_000);
+  expect(p.grossMargin).toBeCloseTo(0.6);
+});
+
+test("traffic change is weighted by the source mix", () => {
+  const change = { ...NEUTRAL_DRIVERS.traffic, paid: 0.5 };
+  expect(trafficFactor(reference[0].trafficSources, change)).toBeCloseTo(1.2);
+});
+
+test("promotions trade price for volume and compress margin", () => {
+  const p = projectScenario(baseline, reference, { ...NEUTRAL_DRIVERS, promoDepth: 0.2 }, -1.2);
+  // price × 0.8, volume × 0.8^-1.2
+  expect(p.totalRevenue).toBeCloseTo(1_000 * 0.8 * Math.pow(0.8, -1.2));
+  expect(p.grossMargin).toBeCloseTo(1 - 0.4 / 0.8);
+});
+
+test("each month takes its mix and margin from the same month a year earlier", () => {
+  const year: MonthData[] = [0.5, 0.6, 0.7].map((grossMargin, i) => ({
+    ...reference[0],
+    month: `M${i}`,
+    date: `2025-0${i + 1}-01`,
+    revenue: 1_000 * (i + 1),
+    grossMargin,
+  }));
+  // Starts in February, one month into the reference year, and runs past it
+  const offset = [
+    { month: "Feb '26 (F)", date: "2026-02-01", revenue: 1_000 },
+    { month: "Mar '26 (F)", date: "2026-03-01", revenue: 1_000 },
+    { month: "Apr '26 (F)", date: "2026-04-01", revenue: 1_000 },
+  ];
+  const p = projectScenario(offset, year, NEUTRAL_DRIVERS, -1.2);
+  expect(p.months.map((m) => m.grossMargin)).toEqual([0.6, 0.7, expect.any(Number)]);
+  // April has no reference month, so it uses the year's revenue-weighted margin
+  expect(p.months[2].grossMargin).toBeCloseTo((0.5 * 1_000 + 0.6 * 2_000 + 0.7 * 3_000) / 6_000);
+  expect(p.months.map((m) => m.priorRevenue)).toEqual([2_000, 3_000, undefined]);
+});
@@ -0,0 +1,134 @@
+import { ForecastPoint, MonthData, TrafficSources } from "../types";
+import { addMonths } from "../analytics/periods";
+
+/* =======================
+   Driver-based scenarios
+   =======================
+   A scenario is a set of driver changes applied to the baseline forecast.
+   Revenue = sessions × conversion × AOV, so each driver scales the
+   baseline by its own ratio; promotions lower price and lift volume
+   through the price elasticity.
+*/
+
+export interface ScenarioDrivers {
+  traffic: TrafficSources;  // change per source, e.g. 0.1 = +10% visits
+  conversionRate: number;   // relative change, e.g. -0.05
+  avgOrderValue: number;    // relative change before promotions
+  grossMargin: number;      // change in percentage points as a fraction, e.g. 0.01 = +1pp
+  promoDepth: number;       // average discount 0..1
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  drivers: ScenarioDrivers;
+  builtIn?: boolean;
+}
+
+export interface ScenarioMonth {
+  month: string;
+  revenue: number;
+  grossProfit: number;
+  grossMargin: number;      // 0..1
+  priorRevenue?: number;    // actual revenue a year earlier, when the reference has that month
+}
+
+export interface ScenarioProjection {
+  months: ScenarioMonth[];
+  totalRevenue: number;
+  totalGrossProfit: number;
+  grossMargin: number;      // revenue-weighted, 0..1
+}
+
+const uniform = (v: number): TrafficSources => ({ organic: v, paid: v, social: v, email: v, direct: v });
+
+export const NEUTRAL_DRIVERS: ScenarioDrivers = {
+  traffic: uniform(0),
+  conversionRate: 0,
+  avgOrderValue: 0,
+  grossMargin: 0,
+  promoDepth: 0,
+};
+
+export const PRESET_SCENARIOS: Scenario[] = [
+  {
+    id: "bear",
+    name: "Bear Case",
+    builtIn: true,
+    drivers: { traffic: uniform(-0.1), conversionRate: -0.05, avgOrderValue: -0.03, grossMargin: -0.02, promoDepth: 0.1 },
+  },
+  { id: "base", name: "Base Case", builtIn: true, drivers: NEUTRAL_DRIVERS },
+  {
+    id: "bull",
+    name: "Bull Case",
+    builtIn: true,
+    drivers: { traffic: uniform(0.12), conversionRate: 0.05, avgOrderValue: 0.05, grossMargin: 0.01, promoDepth: 0 },
+  },
+];
+
+/** Visit-weighted traffic change, using the baseline mix of sources. */
+export const trafficFactor = (baselineTraffic: TrafficSources, change: TrafficSources): number => {
+  const keys = Object.keys(baselineTraffic) as (keyof TrafficSources)[];
+  const total = keys.reduce((s, k) => s + baselineTraffic[k], 0);
+  if (total === 0) return 1;
+  return keys.reduce((s, k) => s + baselineTraffic[k] * (1 + change[k]), 0) / total;
+};
+
+/** The whole reference period as one month: summed traffic and revenue-weighted margin. */
+const blendReference = (reference: MonthData[]): Pick<MonthData, "trafficSources" | "grossMargin"> | undefined => {
+  if (reference.length === 0) return undefined;
+  const revenue = reference.reduce((s, m) => s + m.revenue, 0);
+  const visits = (k: keyof TrafficSources) => reference.reduce((s, m) => s + m.trafficSources[k], 0);
+  return {
+    trafficSources: { organic: visits("organic"), paid: visits("paid"), social: visits("social"), email: visits("email"), direct: visits("direct") },
+    grossMargin: revenue ? reference.reduce((s, m) => s + m.grossMargin * m.revenue, 0) / revenue : reference[0].grossMargin,
+  };
+};
+
+/**
+ * Projects revenue and gross profit for each baseline month.
+ * `baseline` is the revenue path to flex (usually the forecast); `reference`
+ * supplies the traffic mix and margins (usually the trailing twelve months).
+ * Each month takes them from the reference month a year earlier, so a
+ * baseline that starts mid-year keeps its seasons; months without one (or
+ * without a date) use the reference period as a whole.
+ */
+export const projectScenario = (
+  baseline: Pick<ForecastPoint, "month" | "date" | "revenue">[],
+  reference: MonthData[],
+  drivers: ScenarioDrivers,
+  elasticity: number
+): ScenarioProjection => {
+  const d = Math.min(Math.max(drivers.promoDepth, 0), 0.9);
+  const priceFactor = 1 - d;
+  const promoVolumeFactor = Math.pow(priceFactor, elasticity); // elasticity < 0 → volume up
+
+  const byDate = new Map(reference.map((m) => [m.date, m]));
+  const blended = blendReference(reference);
+
+  const months = baseline.map((b) => {
+    const prior = b.date ? byDate.get(addMonths(b.date, -12)) : undefined;
+    const ref = prior ?? blended;
+    const traffic = ref ? trafficFactor(ref.trafficSources, drivers.traffic) : trafficFactor(uniform(1), drivers.traffic);
+    const revenue =
+      b.revenue *
+      traffic *
+      (1 + drivers.conversionRate) *
+      (1 + drivers.avgOrderValue) *
+      priceFactor *
+      promoVolumeFactor;
+    // Discounting cuts price but not unit cost: m' = 1 - (1 - m) / (1 - d).
+    const listMargin = Math.min(Math.max((ref?.grossMargin ?? 0) + drivers.grossMargin, 0), 1);
+    const grossMargin = 1 - (1 - listMargin) / priceFactor;
+    return { month: b.month, revenue, grossProfit: revenue * grossMargin, grossMargin, priorRevenue: prior?.revenue };
+  });
+
+  const totalRevenue = months.reduce((s, m) => s + m.revenue, 0);
+  const totalGrossProfit = months.reduce((s, m) => s + m.grossProfit, 0);
+  return {
+    months,
+    totalRevenue,
+    totalGrossProfit,
+    grossMargin: totalRevenue ? totalGrossProfit / totalRevenue : 0,
+  };
+};
@@ -0,0 +1,11 @@
+import { NEUTRAL_DRIVERS, PRESET_SCENARIOS } from "./projection";
+import { loadSavedScenarios, saveScenarios } from "./storage";
+
+afterEach(() => window.localStorage.clear());
+
+test("saved scenarios belong to the user who saved them, without the built-ins", () => {
+  const mine = { id: "custom-1", name: "Holiday push", drivers: NEUTRAL_DRIVERS };
+  saveScenarios("exec", [...PRESET_SCENARIOS, mine]);
+  expect(loadSavedScenarios("exec")).toEqual([mine]);
+  expect(loadSavedScenarios("emea")).toEqual([]);
+});
@@ -0,0 +1,22 @@
+import { Scenario } from "./projection";
+
+const storageKey = (userId: string) => `retail-analytics:scenarios:${userId}`;
+
+/** Reads the scenarios a user saved from localStorage; bad or missing data yields []. */
+export const loadSavedScenarios = (userId: string): Scenario[] => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as Scenario[]).filter((s) => s && s.id && s.name && s.drivers) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveScenarios = (userId: string, scenarios: Scenario[]): void => {
+  try {
+    window.localStorage.setItem(storageKey(userId), JSON.stringify(scenarios.filter((s) => !s.builtIn)));
+  } catch {
+    // Storage full or disabled: scenarios stay in memory for this session.
+  }
+};
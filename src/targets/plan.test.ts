@@ -0,0 +1,44 @@
+import { PlanMonth } from "../types";
+import { GREGORIAN, NRF_454 } from "../analytics/fiscalCalendar";
+import { toMonthKey } from "../analytics/periods";
+import { periodProgress, planForCalendar, summarizePlan } from "./plan";
+import { planVariance, statusForAccuracy, statusForVariance } from "./status";
+
+const plan: PlanMonth[] = Array.from({ length: 36 }, (_, t) => ({
+  date: toMonthKey(2023, t),
+  revenue: 1_000_000 + t * 10_000,
+  grossMargin: 0.7,
+  conversionRate: 0.03,
+  avgOrderValue: 300,
+}));
+
+test("retail periods get a day-weighted share of the monthly plan", () => {
+  expect(planForCalendar(plan, GREGORIAN)).toBe(plan);
+  const retail = planForCalendar(plan, NRF_454);
+  // Only fiscal periods fully inside Jan 2023 – Dec 2025 remain: FY2022 P12 (1–28 Jan 2023) onwards
+  expect(retail[0].date).toBe("2022-12-01");
+  const fy2024 = retail.filter((m) => m.date.startsWith("2024"));
+  expect(fy2024).toHaveLength(12);
+  // The 5-week P02 gets more plan than the 4-week P01 next to it
+  expect(fy2024[1].revenue).toBeGreaterThan(fy2024[0].revenue * 1.15);
+  expect(fy2024[0].grossMargin).toBeCloseTo(0.7);
+});
+
+test("window plan needs every period and prorates one in progress", () => {
+  const keys = ["2025-11-01", "2025-12-01"];
+  expect(summarizePlan(plan, keys)?.revenue).toBe(1_340_000 + 1_350_000);
+  expect(summarizePlan(plan, [...keys, "2026-01-01"])).toBeNull();
+  const fraction = periodProgress("2025-12-01", "2025-12-10", GREGORIAN);
+  expect(fraction).toBeCloseTo(10 / 31);
+  expect(summarizePlan(plan, keys, { date: "2025-12-01", fraction })?.revenue).toBeCloseTo(1_340_000 + 1_350_000 * fraction);
+});
+
+test("status comes from variance thresholds", () => {
+  expect(planVariance("revenue", 95, 100)).toBeCloseTo(-0.05);
+  expect(planVariance("grossMargin", 0.69, 0.7)).toBeCloseTo(-0.01);
+  expect(statusForVariance("revenue", 0.01)).toBe("on-track");
+  expect(statusForVariance("revenue", -0.03)).toBe("at-risk");
+  expect(statusForVariance("revenue", -0.08)).toBe("off-track");
+  expect(statusForVariance("grossMargin", -0.025)).toBe("off-track");
+  expect(statusForAccuracy(0.85)).toBe("at-risk");
+});
@@ -0,0 +1,109 @@
+import { PlanCategory, PlanMonth } from "../types";
+import { FiscalCalendarConfig, fiscalYearInfo, toFiscalPeriod } from "../analytics/fiscalCalendar";
+import { parseMonthKey } from "../analytics/periods";
+import { weightedAverage } from "../analytics/metrics";
+
+/* =======================
+   Plan (budget) values
+   =======================
+   Plans are set per calendar month. For other reporting calendars each
+   month is spread evenly over its days and re-summed per fiscal period, so
+   a 5-week period gets a 5-week share of the plan.
+*/
+
+const DAY_MS = 86_400_000;
+
+const daysInMonth = (date: string) => {
+  const { year, monthIndex } = parseMonthKey(date);
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+};
+
+/** Plan restated in the periods of `calendar`; periods only partly covered by the plan are dropped. */
+export const planForCalendar = (plan: PlanMonth[], calendar: FiscalCalendarConfig): PlanMonth[] => {
+  if (calendar.pattern === "gregorian" && calendar.startMonth === 0) return plan;
+
+  const totals = new Map<
+    string,
+    { days: number; revenue: number; margin: number; conversion: number; aov: number; categories?: Map<string, PlanCategory> }
+  >();
+  plan.forEach((m) => {
+    const days = daysInMonth(m.date);
+    const daily = m.revenue / days;
+    const start = Date.parse(`${m.date}T00:00:00Z`);
+    for (let d = 0; d < days; d++) {
+      const key = toFiscalPeriod(new Date(start + d * DAY_MS).toISOString().slice(0, 10), calendar).periodKey;
+      const t = totals.get(key) ?? { days: 0, revenue: 0, margin: 0, conversion: 0, aov: 0 };
+      // Rates are averaged weighted by planned revenue.
+      t.days += 1;
+      t.revenue += daily;
+      t.margin += daily * m.grossMargin;
+      t.conversion += daily * m.conversionRate;
+      t.aov += daily * m.avgOrderValue;
+      m.categories?.forEach((c) => {
+        t.categories = t.categories ?? new Map();
+        const prev = t.categories.get(c.category) ?? { category: c.category, revenue: 0, orders: 0 };
+        t.categories.set(c.category, { ...prev, revenue: prev.revenue + c.revenue / days, orders: prev.orders + c.orders / days });
+      });
+      totals.set(key, t);
+    }
+  });
+
+  return Array.from(totals, ([date, t]) => ({ date, t }))
+    .filter(({ date, t }) => {
+      const { year, monthIndex } = parseMonthKey(date);
+      const period = fiscalYearInfo(year, calendar).periods[monthIndex];
+      return t.days === Math.round((Date.parse(`${period.end}T00:00:00Z`) - Date.parse(`${period.start}T00:00:00Z`)) / DAY_MS) + 1;
+    })
+    .map(({ date, t }) => ({
+      date,
+      revenue: t.revenue,
+      grossMargin: t.revenue ? t.margin / t.revenue : 0,
+      conversionRate: t.revenue ? t.conversion / t.revenue : 0,
+      avgOrderValue: t.revenue ? t.aov / t.revenue : 0,
+      ...(t.categories ? { categories: Array.from(t.categories.values()) } : {}),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/** Share of a period's days up to and including `through` (0..1). */
+export const periodProgress = (periodKey: string, through: string, calendar: FiscalCalendarConfig): number => {
+  const { year, monthIndex } = parseMonthKey(periodKey);
+  const { start, end } = fiscalYearInfo(year, calendar).periods[monthIndex];
+  const total = (Date.parse(end) - Date.parse(start)) / DAY_MS + 1;
+  const elapsed = (Date.parse(through) - Date.parse(start)) / DAY_MS + 1;
+  return Math.min(1, Math.max(0, elapsed / total));
+};
+
+export interface PlanSummary {
+  revenue: number;
+  grossMargin: number;
+  conversionRate: number;
+  avgOrderValue: number;
+}
+
+/**
+ * Plan for a window of periods, or null unless every period has a plan.
+ * `partial` scales the revenue plan of a period still in progress.
+ */
+export const summarizePlan = (
+  plan: PlanMonth[],
+  periodKeys: string[],
+  partial?: { date: string; fraction: number }
+): PlanSummary | null => {
+  const byDate = new Map(plan.map((m) => [m.date, m]));
+  const months = periodKeys.map((k) => byDate.get(k));
+  if (months.length === 0 || months.some((m) => !m)) return null;
+  const scaled = (months as PlanMonth[]).map((m) => ({
+    ...m,
+    revenue: partial && m.date === partial.date ? m.revenue * partial.fraction : m.revenue,
+  }));
+  const revenue = scaled.reduce((s, m) => s + m.revenue, 0);
+  const weighted = (key: "grossMargin" | "conversionRate" | "avgOrderValue") =>
+    weightedAverage(scaled, (m) => m[key], (m) => m.revenue) ?? 0;
+  return {
+    revenue,
+    grossMargin: weighted("grossMargin"),
+    conversionRate: weighted("conversionRate"),
+    avgOrderValue: weighted("avgOrderValue"),
+  };
+};
@@ -0,0 +1,39 @@
+/* =======================
+   Variance-to-plan status
+   =======================
+   Thresholds are how far below plan a KPI may fall before its card turns
+   amber or red: relative for money, in percentage points for rates.
+*/
+
+export type TargetMetric = "revenue" | "grossMargin" | "conversionRate" | "avgOrderValue";
+export type TargetStatus = "on-track" | "at-risk" | "off-track";
+
+interface Threshold {
+  kind: "pct" | "pp";
+  atRisk: number;           // variance below this is amber
+  offTrack: number;         // variance below this is red
+}
+
+export const KPI_THRESHOLDS: Record<TargetMetric, Threshold> = {
+  revenue: { kind: "pct", atRisk: 0, offTrack: -0.05 },
+  grossMargin: { kind: "pp", atRisk: 0, offTrack: -0.02 },
+  conversionRate: { kind: "pp", atRisk: 0, offTrack: -0.002 },
+  avgOrderValue: { kind: "pct", atRisk: 0, offTrack: -0.05 },
+};
+
+/** Backtest accuracy (1 - MAPE) needed for each forecast-confidence status. */
+export const ACCURACY_THRESHOLDS = { onTrack: 0.9, atRisk: 0.8 };
+
+/** Relative variance for money metrics, percentage-point difference for rates. */
+export const planVariance = (metric: TargetMetric, actual: number, plan: number): number | null => {
+  if (KPI_THRESHOLDS[metric].kind === "pp") return actual - plan;
+  return plan ? actual / plan - 1 : null;
+};
+
+export const statusForVariance = (metric: TargetMetric, variance: number): TargetStatus => {
+  const { atRisk, offTrack } = KPI_THRESHOLDS[metric];
+  return variance < offTrack ? "off-track" : variance < atRisk ? "at-risk" : "on-track";
+};
+
+export const statusForAccuracy = (accuracy: number): TargetStatus =>
+  accuracy >= ACCURACY_THRESHOLDS.onTrack ? "on-track" : accuracy >= ACCURACY_THRESHOLDS.atRisk ? "at-risk" : "off-track";
@@ -0,0 +1,26 @@
+import { CHART_PALETTES, THEMES, ThemeId, isThemeId, loadTheme, saveTheme } from "./themes";
+
+afterEach(() => window.localStorage.clear());
+
+test("every theme has a palette with distinct series colours and distinct gain / loss colours", () => {
+  for (const id of Object.keys(THEMES) as ThemeId[]) {
+    const palette = CHART_PALETTES[id];
+    expect(new Set(palette.series.map((c) => c.toLowerCase())).size).toBe(palette.series.length);
+    expect(palette.positive).not.toBe(palette.negative);
+    expect(palette.primary).not.toBe(palette.secondary);
+  }
+});
+
+test("only known theme ids are accepted", () => {
+  expect(isThemeId("contrast")).toBe(true);
+  expect(isThemeId("sepia")).toBe(false);
+  expect(isThemeId(null)).toBe(false);
+});
+
+test("a saved theme wins over the system preference, and a stale one is ignored", () => {
+  expect(loadTheme()).toBe("light");
+  saveTheme("dark");
+  expect(loadTheme()).toBe("dark");
+  window.localStorage.setItem("retail-analytics:theme", "sepia");
+  expect(loadTheme()).toBe("light");
+});
@@ -0,0 +1,102 @@
+/* =======================
+   Themes and chart palettes
+   =======================
+   Page colours come from CSS keyed on `data-theme` (see index.css); charts
+   draw with the palette of the active theme. Every palette is built on the
+   Okabe–Ito colours, which stay distinct under the common forms of colour
+   blindness, and never tells good from bad by red vs green alone: gains
+   are bluish green, losses vermillion, and the two differ in lightness.
+*/
+
+export type ThemeId = "light" | "dark" | "contrast";
+
+export const THEMES: Record<ThemeId, { name: string }> = {
+  light: { name: "Light" },
+  dark: { name: "Dark" },
+  contrast: { name: "High contrast" },
+};
+
+export const isThemeId = (value: unknown): value is ThemeId => typeof value === "string" && value in THEMES;
+
+export interface ChartPalette {
+  /** Categorical colours, in the order series should take them. */
+  series: string[];
+  /** Actual revenue, or the main series of a chart. */
+  primary: string;
+  /** A second series on the same chart, e.g. spend next to revenue. */
+  secondary: string;
+  /** Gains, favourable variances, targets met. */
+  positive: string;
+  /** Losses, adverse variances, critical alerts. */
+  negative: string;
+  /** Warnings that aren't yet losses. */
+  warning: string;
+  /** Comparisons in the background: last year, budget, reference lines. */
+  muted: string;
+  /** Fill of a forecast range. */
+  band: string;
+  /** Chart background, for outlines and areas that cut into a range. */
+  surface: string;
+}
+
+export const CHART_PALETTES: Record<ThemeId, ChartPalette> = {
+  light: {
+    series: ["#0072B2", "#E69F00", "#009E73", "#D55E00", "#CC79A7", "#56B4E9", "#8C6D1F", "#6B7280"],
+    primary: "#0072B2",
+    secondary: "#E69F00",
+    positive: "#009E73",
+    negative: "#D55E00",
+    warning: "#E69F00",
+    muted: "#6B7280",
+    band: "#FBE3D4",
+    surface: "#FFFFFF",
+  },
+  dark: {
+    series: ["#56B4E9", "#E69F00", "#2EC4A0", "#FF7A3D", "#E08BC5", "#A3D8F4", "#F0E442", "#9CA3AF"],
+    primary: "#56B4E9",
+    secondary: "#E69F00",
+    positive: "#2EC4A0",
+    negative: "#FF7A3D",
+    warning: "#F0E442",
+    muted: "#9CA3AF",
+    band: "#4A2A1C",
+    surface: "#1F2937",
+  },
+  contrast: {
+    series: ["#66C2FF", "#FFB000", "#3DDC97", "#FF6E3A", "#F59BD8", "#FFFFFF", "#F0E442", "#C0C0C0"],
+    primary: "#66C2FF",
+    secondary: "#FFB000",
+    positive: "#3DDC97",
+    negative: "#FF6E3A",
+    warning: "#F0E442",
+    muted: "#C0C0C0",
+    band: "#5C2410",
+    surface: "#000000",
+  },
+};
+
+const STORAGE_KEY = "retail-analytics:theme";
+
+/** The operating system's preference: more contrast first, then dark mode. */
+export const preferredTheme = (): ThemeId => {
+  const prefers = (query: string) => typeof window.matchMedia === "function" && window.matchMedia(query).matches;
+  return prefers("(prefers-contrast: more)") ? "contrast" : prefers("(prefers-color-scheme: dark)") ? "dark" : "light";
+};
+
+/** The theme picked last time, or the system preference when none was. */
+export const loadTheme = (): ThemeId => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isThemeId(stored) ? stored : preferredTheme();
+  } catch {
+    return preferredTheme();
+  }
+};
+
+export const saveTheme = (theme: ThemeId): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, theme);
+  } catch {
+    // Storage full or disabled: the theme lasts for this session.
+  }
+};
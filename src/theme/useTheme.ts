@@ -0,0 +1,18 @@
+import { createContext, useCallback, useContext, useState } from "react";
+import { CHART_PALETTES, ChartPalette, ThemeId, loadTheme, saveTheme } from "./themes";
+
+/** The active theme, set once at the top of the page. */
+export const ThemeContext = createContext<ThemeId>("light");
+
+/** Chart colours for the active theme. */
+export const useChartPalette = (): ChartPalette => CHART_PALETTES[useContext(ThemeContext)];
+
+/** The user's theme; only an explicit choice is stored, so until then the system preference applies. */
+export const useTheme = (): [ThemeId, (theme: ThemeId) => void] => {
+  const [theme, setTheme] = useState<ThemeId>(loadTheme);
+  const choose = useCallback((next: ThemeId) => {
+    setTheme(next);
+    saveTheme(next);
+  }, []);
+  return [theme, choose];
+};
@@ -0,0 +1,233 @@
+/* =======================
+   Shared Type Definitions
+   ======================= */
+export type TabId = "dashboard" | "variance" | "forecast" | "5ps";
+
+export type Channel = "Desktop" | "Mobile" | "Tablet";
+
+export interface TrafficSources {
+  organic: number;
+  paid: number;
+  social: number;
+  email: number;
+  direct: number;
+}
+
+export interface MonthData {
+  month: string;            // display label, e.g. "Jan '24"
+  date: string;             // first day of the month, "2024-01-01"
+  revenue: number;
+  units: number;
+  grossMargin: number;      // 0..1
+  conversionRate: number;   // 0..1
+  avgOrderValue: number;
+  trafficSources: TrafficSources;
+}
+
+export interface ForecastPoint {
+  month: string;            // e.g. "Jan '26 (F)"
+  date?: string;            // first day of the month, when known
+  revenue: number;
+  forecastHigh: number;
+  forecastLow: number;
+  confidence: number;       // 0..1
+}
+
+/** Sessions from one traffic source that got past each step of the checkout funnel. */
+export interface FunnelSteps {
+  productViews: number;
+  addToCart: number;
+  checkout: number;
+  orders: number;
+}
+
+/**
+ * Day-level (or week-level, with `days: 7`) sales used to build fiscal
+ * periods. Rows may be split by region/country/channel/category; a day is
+ * then the sum of its rows.
+ */
+export interface DailyData {
+  date: string;             // "2024-01-15"; for weekly rows the first day of the week
+  days?: number;            // days covered by this row, default 1
+  region?: string;
+  country?: string;
+  channel?: Channel;
+  category?: string;
+  currency?: string;        // ISO code of revenue and gross profit; the base currency when omitted
+  revenue: number;
+  units: number;
+  orders: number;
+  grossProfit: number;
+  trafficSources: TrafficSources; // sessions by source
+  /** Funnel steps by source, when the source tracks them. */
+  funnel?: Record<keyof TrafficSources, FunnelSteps>;
+}
+
+export type ProductLevel = "category" | "subcategory" | "sku";
+
+/**
+ * Performance of a category, or of a subcategory or SKU below it when the
+ * source has product data. `children` holds the next level down.
+ */
+export interface CategoryPerf {
+  name: string;
+  revenue: number;
+  margin: number;           // 0..1
+  growth: number;           // 0..1
+  units?: number;           // units sold, when the source has them
+  level?: ProductLevel;     // "category" when omitted
+  sku?: string;             // SKU code, at the "sku" level
+  sellThrough?: number;     // 0..1, units sold / (sold + closing stock)
+  weeksOfCover?: number;    // closing stock / average weekly units sold
+  children?: CategoryPerf[];
+}
+
+/** A sellable item and where it sits in the category tree. */
+export interface Product {
+  sku: string;
+  name: string;
+  category: string;
+  subcategory: string;
+}
+
+/** One SKU's sales for a day (or a week, with `days: 7`), and its stock at the end of it when known. */
+export interface SkuSales {
+  sku: string;
+  date: string;             // "2024-01-15"; for weekly rows the first day of the week
+  days?: number;            // days covered by this row, default 1
+  units: number;
+  revenue: number;
+  grossProfit: number;      // $
+  onHand?: number;          // closing stock, units
+}
+
+export interface ProductData {
+  products: Product[];
+  sales: SkuSales[];
+}
+
+export interface CampaignROI {
+  campaign: string;
+  roi: number;              // multiplier, e.g. 4.2x
+  spend: number;            // $
+}
+
+/** Paid traffic sources a campaign can run on. */
+export type MarketingChannel = Exclude<keyof TrafficSources, "organic" | "direct">;
+
+export interface Campaign {
+  id: string;
+  name: string;
+  channel: MarketingChannel;
+}
+
+/** Spend on one campaign on one day. */
+export interface CampaignSpend {
+  campaignId: string;
+  date: string;             // "2024-01-15"
+  spend: number;            // $
+}
+
+export interface Touchpoint {
+  campaignId: string;
+  date: string;             // "2024-01-15"
+}
+
+/** An order and the campaign touches that led to it, oldest first. */
+export interface ConversionJourney {
+  id: string;
+  date: string;             // day of the order
+  revenue: number;
+  touchpoints: Touchpoint[];
+}
+
+export interface MarketingData {
+  campaigns: Campaign[];
+  spend: CampaignSpend[];
+  journeys: ConversionJourney[];
+}
+
+export interface Segment {
+  segment: string;
+  revenue: number;          // fraction 0..1 of total rev
+  count: number;            // fraction 0..1 of customers
+  revenuePerCustomer?: number; // $, when computed from orders
+}
+
+/** One order by an identified customer. */
+export interface CustomerOrder {
+  id: string;
+  customerId: string;
+  date: string;             // "2024-01-15"
+  revenue: number;
+}
+
+/** Units due in for a category, on the expected arrival day. */
+export interface InboundOrder {
+  date: string;             // "2026-01-15"
+  units: number;
+}
+
+/** Stock position for one category. */
+export interface InventoryPosition {
+  category: string;
+  asOf: string;             // day the on-hand count was taken, "2025-12-31"
+  onHand: number;           // units
+  onOrder: InboundOrder[];
+}
+
+/**
+ * Units of `currency` one unit of the base currency buys from `date`'s
+ * month on: the rate the plan was set at and, for past months, the
+ * average rate actually seen.
+ */
+export interface FxRate {
+  currency: string;         // ISO code, e.g. "EUR"
+  date: string;             // first day of the month, "2025-01-01"
+  budget: number;
+  actual?: number;
+}
+
+/** The currency everything outside `dailyData` is in, and rates into the others. */
+export interface CurrencyConfig {
+  base: string;
+  rates: FxRate[];
+}
+
+/** Budgeted revenue and orders for one product category in one month. */
+export interface PlanCategory {
+  category: string;
+  revenue: number;
+  orders: number;
+}
+
+/** Plan (budget) values for one calendar month. */
+export interface PlanMonth {
+  date: string;             // first day of the month, "2024-01-01"
+  revenue: number;
+  grossMargin: number;      // 0..1
+  conversionRate: number;   // 0..1
+  avgOrderValue: number;
+  /** Optional split of the revenue plan by category. */
+  categories?: PlanCategory[];
+}
+
+/** Everything a data provider has to supply for the dashboard to render. */
+export interface DashboardData {
+  historicalData: MonthData[];
+  forecastData: ForecastPoint[];
+  /** Optional finer-grained sales; needed for 4-5-4 style fiscal calendars. */
+  dailyData?: DailyData[];
+  /** Optional monthly plan the KPI cards are measured against. */
+  plan?: PlanMonth[];
+  /** Optional campaign spend and converting journeys for attribution. */
+  marketing?: MarketingData;
+  /** Optional order-level history for customer segments, cohorts and lifetime value. */
+  orders?: CustomerOrder[];
+  /** Optional SKU catalog and sales for the category drill-down. */
+  products?: ProductData;
+  /** Optional on-hand and on-order stock per category for the inventory projection. */
+  inventory?: InventoryPosition[];
+  /** Optional FX rates; daily rows may then be in their storefront's local currency. */
+  currency?: CurrencyConfig;
+}